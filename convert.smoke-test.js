@@ -0,0 +1,97 @@
+// The smoke test of the headless converter bundle, it runs build-cli/convert.js the same way as `npm run convert`.
+// Usage: npm run test-cli
+
+const assert = require("assert");
+const { spawnSync } = require("child_process");
+const { mkdtempSync, readFileSync, rmSync, writeFileSync } = require("fs");
+const { tmpdir } = require("os");
+const path = require("path");
+
+const BUNDLE = path.resolve(__dirname, "build-cli/convert.js");
+
+const PATH_FILE_DATA = {
+  appVersion: "0.8.3",
+  format: "path.jerryio v0.1",
+  gc: {
+    robotWidth: 30,
+    robotHeight: 30,
+    robotIsHolonomic: false,
+    showRobot: false,
+    uol: 1,
+    pointDensity: 2,
+    controlMagnetDistance: 5,
+    fieldImage: {
+      displayName: "V5RC 2025 - High Stakes",
+      signature: "V5RC 2025 - High Stakes",
+      origin: { __type: "built-in" }
+    },
+    coordinateSystem: "VEX Gaming Positioning System"
+  },
+  paths: [
+    {
+      segments: [
+        {
+          controls: [
+            { uid: "Kiafnew9Xs", x: 0, y: 0, lock: false, visible: true, heading: 0, __type: "end-point" },
+            { uid: "1R8tc1YjC1", x: 0, y: 60, lock: false, visible: true, heading: 0, __type: "end-point" }
+          ],
+          speedProfiles: [],
+          lookaheadKeyframes: [],
+          headingKeyframes: [],
+          eventMarkers: [],
+          uid: "sVA8LWTU8U"
+        }
+      ],
+      pc: {
+        speedLimit: {
+          minLimit: { value: 0, label: "0" },
+          maxLimit: { value: 600, label: "600" },
+          step: 1,
+          from: 40,
+          to: 120
+        },
+        bentRateApplicableRange: {
+          minLimit: { value: 0, label: "0" },
+          maxLimit: { value: 1, label: "1" },
+          step: 0.001,
+          from: 0,
+          to: 0.1
+        }
+      },
+      name: "Path 1",
+      uid: "x9vlxNQ9cV",
+      lock: false,
+      visible: true
+    }
+  ]
+};
+
+const workDir = mkdtempSync(path.join(tmpdir(), "convert-"));
+
+function runBundle(...args) {
+  return spawnSync(process.execPath, [BUNDLE, ...args], { cwd: workDir, encoding: "utf-8", timeout: 60000 });
+}
+
+try {
+  writeFileSync(path.join(workDir, "path.jerryio.txt"), "#PATH.JERRYIO-DATA " + JSON.stringify(PATH_FILE_DATA));
+
+  const list = runBundle("--list-formats");
+  assert.strictEqual(list.status, 0, list.stderr);
+  assert.ok(list.stdout.split("\n").includes("LemLib v0.5"));
+  assert.ok(list.stdout.split("\n").includes("path.jerryio v0.1"));
+
+  const convert = runBundle("path.jerryio.txt", "-f", "LemLib v0.5", "-o", "output.txt");
+  assert.strictEqual(convert.status, 0, convert.stderr);
+  assert.ok(convert.stdout.includes("Converted path.jerryio.txt to output.txt"));
+
+  const output = readFileSync(path.join(workDir, "output.txt"), "utf-8");
+  assert.ok(output.startsWith("0, 0, "));
+  assert.ok(output.includes('"format":"LemLib v0.5"'));
+
+  assert.strictEqual(runBundle("missing.txt").status, 1);
+  assert.strictEqual(runBundle("path.jerryio.txt", "-x").status, 2);
+
+  console.log("The headless converter works");
+} finally {
+  rmSync(workDir, { recursive: true, force: true });
+}
@@ -32,7 +32,15 @@ import { AssetManagerModal } from "./app/common.blocks/modal/AssetManagerModal";
 import { RequireLocalFieldImageModal } from "./app/common.blocks/modal/RequireLocalFieldImageModal";
 import { GeneralConfigPanel } from "./app/common.blocks/panel/GeneralConfigPanel";
 import { ControlConfigPanel } from "./app/common.blocks/panel/ControlConfigPanel";
+import { PlaybackPanel } from "./app/common.blocks/panel/PlaybackPanel";
+import { OdometryLogPanel } from "./app/common.blocks/panel/OdometryLogPanel";
+import { HistoryPanel } from "./app/common.blocks/panel/HistoryPanel";
+import { RoutinePanel } from "./app/common.blocks/panel/RoutinePanel";
+import { VariablesPanel } from "./app/common.blocks/panel/VariablesPanel";
+import { ConstraintsPanel } from "./app/common.blocks/panel/ConstraintsPanel";
 import { CoordinateSystemModal } from "./app/common.blocks/modal/CoordinateSystemModal";
+import { AutosaveRecoveryModal } from "./app/common.blocks/modal/AutosaveRecoveryModal";
+import { TransformSelectionModal } from "./app/common.blocks/modal/TransformSelectionModal";
 
 const Root = observer(() => {
   const { app, ui, appPreferences, clipboard } = getAppStores();
@@ -85,6 +93,9 @@ const Root = observer(() => {
   useCustomHotkeys("Mod+0", () => app.resetFieldOffsetAndScale(), option1);
 
   useCustomHotkeys("R", () => (app.gc.showRobot = !app.gc.showRobot), option2);
+  useCustomHotkeys("G", () => (appPreferences.isGridVisible = !appPreferences.isGridVisible), option2);
+  useCustomHotkeys("M", () => (app.fieldEditor.isMeasuring = !app.fieldEditor.isMeasuring), option2);
+  useCustomHotkeys("Shift+M", () => app.fieldEditor.pinMeasurement(), option2);
 
   useCustomHotkeys(
     "Backspace,Delete",
@@ -120,8 +131,16 @@ const Root = observer(() => {
     ui.registerOverlay(() => <AssetManagerModal />);
     ui.registerOverlay(() => <CoordinateSystemModal />);
     ui.registerOverlay(() => <RequireLocalFieldImageModal />);
+    ui.registerOverlay(() => <AutosaveRecoveryModal />);
+    ui.registerOverlay(() => <TransformSelectionModal />);
     ui.registerPanel(GeneralConfigPanel, 0);
     ui.registerPanel(ControlConfigPanel, 1);
+    ui.registerPanel(RoutinePanel, 1);
+    ui.registerPanel(VariablesPanel);
+    ui.registerPanel(ConstraintsPanel);
+    ui.registerPanel(PlaybackPanel);
+    ui.registerPanel(OdometryLogPanel);
+    ui.registerPanel(HistoryPanel);
   }, [ui]);
 
   // XXX: set key so that the component will be reset when format is changed or app.gc.uol is changed
@@ -7,7 +7,7 @@ import { Portal } from "react-konva-utils";
 import { DragControls, RemovePathsAndEndControls, UpdatePathTreeItems } from "@core/Command";
 import { getAppStores } from "@core/MainApp";
 import { boundHeading, fromHeadingInDegreeToAngleInRadian, toHeading } from "@core/Calculation";
-import { MagnetReference, magnet } from "@core/Magnet";
+import { MagnetReference, getGridReferences, magnet } from "@core/Magnet";
 import React from "react";
 import { TouchEventListener } from "@core/TouchEventListener";
 import { useMobxStorage } from "@core/Hook";
@@ -184,6 +184,8 @@ function onDragMoveAnyControl(
     references.push(...remains.flatMap(source => getHorizontalAndVerticalReferences(source, 0)));
     references.push(...getHorizontalAndVerticalReferences(posBeforeDrag, 0));
     references.push(...getSiblingReferences(props.path, props.cp, followers));
+    const grid = app.fieldEditor.grid;
+    if (grid !== undefined) references.push(...getGridReferences(cpInUOL, grid));
 
     const [result, magnetRefs] = magnet(cpInUOL, references, app.gc.controlMagnetDistance);
     cpInUOL.setXY(result);
@@ -198,7 +200,8 @@ function onDragMoveAnyControl(
     5000
   );
 
-  cpInPx = props.fcc.toPx(cpInUOL);
+  // UX: The control might be moved by the constraints after the command is executed
+  cpInPx = props.fcc.toPx(props.cp.toVector());
   event.target.x(cpInPx.x);
   event.target.y(cpInPx.y);
 }
@@ -1,8 +1,8 @@
 import { action, makeAutoObservable, makeObservable, observable, reaction } from "mobx";
 import { observer } from "mobx-react-lite";
-import { Control, EndControl, Path, Segment, Vector, isAnyControl } from "@core/Path";
+import { Control, EndControl, HeadingKeyframe, Path, Segment, Vector, isAnyControl } from "@core/Path";
 import Konva from "konva";
-import { Circle, Group, Image, Layer, Line, Stage } from "react-konva";
+import { Circle, Group, Image, Layer, Line, RegularPolygon, Stage, Text } from "react-konva";
 import { SegmentElement } from "./SegmentElement";
 import React from "react";
 import useImage from "use-image";
@@ -18,12 +18,18 @@ import {
   AddPath,
   ConvertSegment,
   RemovePathsAndEndControls,
-  SplitSegment
+  SplitSegment,
+  UpdateProperties
 } from "@core/Command";
 import { getAppStores } from "@core/MainApp";
 import { RobotElement } from "./RobotElement";
-import { fromHeadingInDegreeToAngleInRadian } from "@core/Calculation";
+import { OdometryLogElement } from "./OdometryLogElement";
+import { GridElement } from "./GridElement";
+import { MeasurementElement } from "./MeasurementElement";
+import { TRANSFORM_GIZMO_ENTITY, TransformGizmoElement } from "./TransformGizmoElement";
+import { KeyframeIndexing, fromHeadingInDegreeToAngleInRadian, toHeading } from "@core/Calculation";
 import { MagnetReference } from "@core/Magnet";
+import { FieldObstacle } from "@core/Collision";
 import { useFieldImageAsset, useMobxStorage, useTouchEvent, useWindowSize } from "@core/Hook";
 import { LayoutContext, LayoutType } from "@core/Layout";
 import { Box } from "@mui/material";
@@ -229,6 +235,162 @@ const PathPoints = observer((props: { path: Path; fcc: FieldCanvasConverter }) =
   );
 });
 
+const ObstacleElement = observer((props: { obstacle: FieldObstacle; fcc: FieldCanvasConverter }) => {
+  const { obstacle, fcc } = props;
+
+  const fill = "rgba(255, 0, 0, 0.25)";
+  const stroke = "rgba(255, 0, 0, 0.6)";
+  const lineWidth = fcc.heightInPx / 400;
+
+  if (obstacle.type === "circle") {
+    const centerInPx = fcc.toPx(new Vector(obstacle.x, obstacle.y));
+    return (
+      <Circle
+        x={centerInPx.x}
+        y={centerInPx.y}
+        radius={obstacle.radius * fcc.uol2pixel}
+        fill={fill}
+        stroke={stroke}
+        strokeWidth={lineWidth}
+        listening={false}
+      />
+    );
+  } else {
+    const points = obstacle.points.flatMap(p => {
+      const pointInPx = fcc.toPx(new Vector(p.x, p.y));
+      return [pointInPx.x, pointInPx.y];
+    });
+    return <Line points={points} closed fill={fill} stroke={stroke} strokeWidth={lineWidth} listening={false} />;
+  }
+});
+
+const PathCollisions = observer((props: { path: Path; fcc: FieldCanvasConverter }) => {
+  const { path, fcc } = props;
+  const { app } = getAppStores();
+
+  const points = path.cachedResult.points;
+  const lineWidth = fcc.heightInPx / 80;
+
+  return (
+    <>
+      {app.getPathCollisions(path).map(range => (
+        <Line
+          key={range.from}
+          points={points.slice(range.from, range.to).flatMap(p => {
+            const pointInPx = fcc.toPx(p);
+            return [pointInPx.x, pointInPx.y];
+          })}
+          stroke="rgba(255, 0, 0, 0.4)"
+          strokeWidth={lineWidth}
+          lineCap="round"
+          lineJoin="round"
+          listening={false}
+        />
+      ))}
+    </>
+  );
+});
+
+const PathEventMarkers = observer((props: { path: Path; fcc: FieldCanvasConverter }) => {
+  const { path, fcc } = props;
+
+  const points = path.cachedResult.points;
+  const radius = fcc.heightInPx / 120;
+  const fontSize = fcc.heightInPx / 50;
+  const color = "#9C27B0";
+
+  return (
+    <>
+      {path.cachedResult.markerIndexes.map(ikf => {
+        const point = points[ikf.index];
+        if (point === undefined) return null;
+
+        const pointInPx = fcc.toPx(point);
+        return (
+          <Group key={ikf.keyframe.uid} x={pointInPx.x} y={pointInPx.y} listening={false}>
+            <RegularPolygon sides={4} radius={radius} fill={color} stroke="white" strokeWidth={radius / 4} />
+            <Text text={ikf.keyframe.name} x={radius * 1.5} y={-fontSize / 2} fontSize={fontSize} fill={color} />
+          </Group>
+        );
+      })}
+    </>
+  );
+});
+
+const HeadingKeyframeElement = observer(
+  (props: { ikf: KeyframeIndexing<HeadingKeyframe>; path: Path; fcc: FieldCanvasConverter }) => {
+    const { app } = getAppStores();
+    const { ikf, path, fcc } = props;
+
+    const point = path.cachedResult.points[ikf.index];
+    if (point === undefined) return null;
+
+    const keyframe = ikf.keyframe;
+    const pointInPx = fcc.toPx(point.toVector());
+    const length = fcc.heightInPx / 40;
+    const theta = fromHeadingInDegreeToAngleInRadian(keyframe.heading);
+    const handleInPx = new Vector(pointInPx.x + Math.cos(theta) * length, pointInPx.y - Math.sin(theta) * length);
+    const color = "#1976D2";
+
+    const onDragHandle = (event: Konva.KonvaEventObject<DragEvent | TouchEvent>) => {
+      const posInPx = fcc.getUnboundedPxFromEvent(event);
+
+      // UX: Do not rotate the keyframe if the path is locked
+      if (posInPx !== undefined && !path.lock) {
+        const heading = toHeading(fcc.toUOL(posInPx).subtract(point.toVector()));
+        app.history.execute(
+          `Rotate heading keyframe ${keyframe.uid}`,
+          new UpdateProperties(keyframe, { yPos: heading / 360 })
+        );
+      }
+
+      // UX: The handle is always at the tip of the arrow
+      const newTheta = fromHeadingInDegreeToAngleInRadian(keyframe.heading);
+      event.target.x(pointInPx.x + Math.cos(newTheta) * length);
+      event.target.y(pointInPx.y - Math.sin(newTheta) * length);
+    };
+
+    return (
+      <>
+        <Line
+          points={[pointInPx.x, pointInPx.y, handleInPx.x, handleInPx.y]}
+          stroke={color}
+          strokeWidth={length / 8}
+          listening={false}
+        />
+        <Circle x={pointInPx.x} y={pointInPx.y} radius={length / 6} fill={color} listening={false} />
+        <Circle
+          x={handleInPx.x}
+          y={handleInPx.y}
+          radius={length / 4}
+          fill={color}
+          stroke="white"
+          strokeWidth={length / 16}
+          draggable
+          onDragMove={action(onDragHandle)}
+        />
+      </>
+    );
+  }
+);
+
+const PathHeadingKeyframes = observer((props: { path: Path; fcc: FieldCanvasConverter }) => {
+  const { app } = getAppStores();
+  const { path, fcc } = props;
+
+  // UX: Heading keyframes are only meaningful for holonomic robots
+  const isHolonomic = app.gc.robotIsHolonomic === true || app.gc.robotIsHolonomic === "force-holonomic";
+  if (!isHolonomic) return null;
+
+  return (
+    <>
+      {path.cachedResult.headingKeyframeIndexes.map(ikf => (
+        <HeadingKeyframeElement key={ikf.keyframe.uid} {...{ ikf, path, fcc }} />
+      ))}
+    </>
+  );
+});
+
 const PathSegments = observer((props: { path: Path; fcc: FieldCanvasConverter }) => {
   const { path, fcc } = props;
 
@@ -370,7 +532,9 @@ class TouchInteractiveHandler extends TouchEventListener {
         this.touchAction = TouchAction.End;
       }
     } else if (this.touchAction === TouchAction.PendingSelection) {
-      if (isAnyControl(fieldEditor.interaction?.entity)) {
+      if (fieldEditor.interaction?.entity === TRANSFORM_GIZMO_ENTITY) {
+        this.touchAction = TouchAction.DraggingControl;
+      } else if (isAnyControl(fieldEditor.interaction?.entity)) {
         this.touchAction = TouchAction.TouchingControl;
       } else if (fieldEditor.interaction?.entity instanceof Segment) {
         this.touchAction = TouchAction.TouchingSegment;
@@ -451,7 +615,11 @@ class TouchInteractiveHandler extends TouchEventListener {
       if (Date.now() - this.initialTime < 600) {
         // UX: If click without moving the finger
 
-        if (this.isPendingShowTooltip && app.selectedEntityCount !== 0) {
+        if (fieldEditor.isMeasuring) {
+          // UX: Add a measurement point instead of showing tooltip if: in measure mode
+          const posInPx = fieldEditor.fcc.getUnboundedPxFromNativeEvent(this.lastEvent!);
+          if (posInPx !== undefined) fieldEditor.addMeasurementPoint(fieldEditor.fcc.toUOL(posInPx));
+        } else if (this.isPendingShowTooltip && app.selectedEntityCount !== 0) {
           // UX: Clear selection first if last interaction is clicking field and there is a selection
           app.setSelected([]);
         } else if (this.isPendingShowTooltip) {
@@ -535,11 +703,12 @@ class MouseInteractiveHandler {
     if (
       evt.button === 0 &&
       fieldEditor.isGrabAndMove === false &&
+      fieldEditor.isMeasuring === false &&
       (event.target instanceof Konva.Stage || event.target instanceof Konva.Image)
     ) {
       // left click
       // UX: Only start selection if: left click on the canvas or field image
-      // UX: Do not start selection if it is in "Grab & Move"
+      // UX: Do not start selection if it is in "Grab & Move" or measure mode
 
       if (evt.shiftKey === false) {
         if (app.selectedEntityCount > 1) this.shouldCancelAddingControl = true;
@@ -715,6 +884,14 @@ const FieldCanvasElement = observer((props: {}) => {
     const posInPx = fcc.getUnboundedPxFromEvent(event);
     if (posInPx === undefined) return;
 
+    if (fieldEditor.isMeasuring) {
+      // UX: Add a measurement point if: left click in measure mode
+      // UX: Pin the measurement if: right click in measure mode
+      if (evt.button === 0) fieldEditor.addMeasurementPoint(fcc.toUOL(posInPx));
+      else fieldEditor.pinMeasurement();
+      return;
+    }
+
     const cpInUOL = fcc.toUOL(new EndControl(posInPx.x, posInPx.y, 0));
 
     // UX: Set target path to "interested path"
@@ -754,6 +931,7 @@ const FieldCanvasElement = observer((props: {}) => {
   }
 
   const visiblePaths = app.paths.filter(path => path.visible);
+  const grid = fieldEditor.grid;
 
   return (
     <Padding0Tooltip
@@ -790,7 +968,7 @@ const FieldCanvasElement = observer((props: {}) => {
           scale={new Vector(scale, scale)}
           offset={offset.subtract(fcc.viewOffset)}
           draggable
-          style={{ cursor: fieldEditor.isGrabAndMove ? "grab" : "" }}
+          style={{ cursor: fieldEditor.isGrabAndMove ? "grab" : fieldEditor.isMeasuring ? "crosshair" : "" }}
           onContextMenu={e => e.evt.preventDefault()}
           onWheel={action(event => miHandler.onWheelStage(event))}
           onMouseDown={action(event => miHandler.onMouseDownStage(event))}
@@ -809,22 +987,50 @@ const FieldCanvasElement = observer((props: {}) => {
                 onClick={action(onClickFieldImage)}
               />
             )}
+            {fieldImage && grid && (
+              <GridElement fcc={fcc} grid={grid} aspectRatio={fieldImage.width / fieldImage.height} />
+            )}
+            {app.obstacles.map((obstacle, idx) => (
+              <ObstacleElement key={idx} obstacle={obstacle} fcc={fcc} />
+            ))}
             {fieldEditor.magnet.map((magnetRef, idx) => (
               <MagnetReferenceLine key={idx} magnetRef={magnetRef} fcc={fcc} />
             ))}
             {visiblePaths.map(path => (
               <PathPoints key={path.uid} path={path} fcc={fcc} />
             ))}
+            {visiblePaths.map(path => (
+              <PathCollisions key={path.uid} path={path} fcc={fcc} />
+            ))}
+            {app.odometryLog.isVisible && <OdometryLogElement fcc={fcc} log={app.odometryLog} />}
             {visiblePaths.map(path => (
               <PathSegments key={path.uid} path={path} fcc={fcc} />
             ))}
             {visiblePaths.map(path => (
               <PathControls key={path.uid} path={path} fcc={fcc} />
             ))}
+            {visiblePaths.map(path => (
+              <PathEventMarkers key={path.uid} path={path} fcc={fcc} />
+            ))}
+            {visiblePaths.map(path => (
+              <PathHeadingKeyframes key={path.uid} path={path} fcc={fcc} />
+            ))}
+            {fieldEditor.pinnedMeasurements.map((points, idx) => (
+              <MeasurementElement key={idx} fcc={fcc} points={points} pinned />
+            ))}
+            {fieldEditor.isMeasuring && (
+              <MeasurementElement
+                fcc={fcc}
+                points={fieldEditor.measurement}
+                preview={fieldEditor.mousePosInUOL}
+                pinned={false}
+              />
+            )}
             {app.gc.showRobot && app.robot.position.visible && (
               <RobotElement fcc={fcc} pos={app.robot.position} width={app.gc.robotWidth} height={app.gc.robotHeight} />
             )}
             <Group name="selected-controls" />
+            {fieldEditor.isMeasuring === false && <TransformGizmoElement fcc={fcc} />}
             <AreaSelectionElement
               from={fieldEditor.areaSelection?.from}
               to={fieldEditor.areaSelection?.to}
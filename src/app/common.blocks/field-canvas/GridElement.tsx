@@ -0,0 +1,41 @@
+import { observer } from "mobx-react-lite";
+import { Vector } from "@core/Path";
+import { FieldCanvasConverter } from "@core/Canvas";
+import { MagnetGrid, getGridLines } from "@core/Magnet";
+import { fromHeadingInDegreeToAngleInRadian } from "@core/Calculation";
+import { Group, Line } from "react-konva";
+
+const GRID_COLOR = "rgba(255, 255, 255, 0.35)";
+
+const GridElement = observer((props: { fcc: FieldCanvasConverter; grid: MagnetGrid; aspectRatio: number }) => {
+  const { fcc, grid, aspectRatio } = props;
+
+  // ALGO: The grid covers the field image, the lines outside the image are clipped
+  const halfHeight = fcc.heightInUOL / 2;
+  const halfWidth = halfHeight * aspectRatio;
+  const radius = Math.hypot(halfWidth, halfHeight);
+  const lines = getGridLines(grid, new Vector(0, 0), radius);
+
+  const topLeft = fcc.toPx(new Vector(-halfWidth, halfHeight));
+  const bottomRight = fcc.toPx(new Vector(halfWidth, -halfHeight));
+  const lineWidth = fcc.heightInPx / 800;
+
+  return (
+    <Group
+      clipX={topLeft.x}
+      clipY={topLeft.y}
+      clipWidth={bottomRight.x - topLeft.x}
+      clipHeight={bottomRight.y - topLeft.y}
+      listening={false}>
+      {lines.map((line, idx) => {
+        const theta = fromHeadingInDegreeToAngleInRadian(line.heading);
+        const direction = new Vector(Math.cos(theta), Math.sin(theta)).multiply(radius);
+        const start = fcc.toPx(line.source.subtract(direction));
+        const end = fcc.toPx(line.source.add(direction));
+        return <Line key={idx} points={[start.x, start.y, end.x, end.y]} stroke={GRID_COLOR} strokeWidth={lineWidth} />;
+      })}
+    </Group>
+  );
+});
+
+export { GridElement };
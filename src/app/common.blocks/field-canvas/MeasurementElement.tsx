@@ -0,0 +1,92 @@
+import { observer } from "mobx-react-lite";
+import { Vector } from "@core/Path";
+import { FieldCanvasConverter } from "@core/Canvas";
+import { getAppStores } from "@core/MainApp";
+import { measure } from "@core/Measurement";
+import { getUnitOfLengthAbbreviation } from "@core/Unit";
+import { Circle, Line, Text } from "react-konva";
+
+const MEASUREMENT_COLOR = "#FF9100";
+const PINNED_MEASUREMENT_COLOR = "#FFD600";
+
+const MeasurementLabel = (props: { fcc: FieldCanvasConverter; position: Vector; text: string; color: string }) => {
+  const { fcc, position, text, color } = props;
+
+  const fontSize = fcc.heightInPx / 45;
+
+  return (
+    <Text
+      x={position.x + fontSize / 2}
+      y={position.y + fontSize / 2}
+      text={text}
+      fontSize={fontSize}
+      fill={color}
+      shadowColor="black"
+      shadowBlur={fontSize / 4}
+      shadowOpacity={1}
+      listening={false}
+    />
+  );
+};
+
+const MeasurementElement = observer(
+  (props: { fcc: FieldCanvasConverter; points: Vector[]; preview?: Vector; pinned: boolean }) => {
+    const { fcc, preview, pinned } = props;
+    const { app } = getAppStores();
+
+    // UX: The mouse position is the next point of the measurement in progress
+    const points = preview !== undefined && props.points.length < 3 ? [...props.points, preview] : props.points;
+    if (points.length === 0) return null;
+
+    const pointsInPx = points.map(point => fcc.toPx(point));
+    const result = measure(points, app.fieldEditor.coordinateSystemTransformation);
+
+    const color = pinned ? PINNED_MEASUREMENT_COLOR : MEASUREMENT_COLOR;
+    const lineWidth = fcc.heightInPx / 400;
+    const pointRadius = fcc.heightInPx / 200;
+    const unit = getUnitOfLengthAbbreviation(app.gc.uol);
+
+    const midpoint = (a: Vector, b: Vector) => a.add(b).divide(2);
+
+    return (
+      <>
+        <Line
+          points={pointsInPx.flatMap(point => [point.x, point.y])}
+          stroke={color}
+          strokeWidth={lineWidth}
+          dash={pinned ? undefined : [lineWidth * 4, lineWidth * 2]}
+          listening={false}
+        />
+        {pointsInPx.map((point, idx) => (
+          <Circle key={idx} x={point.x} y={point.y} radius={pointRadius} fill={color} listening={false} />
+        ))}
+        {result !== undefined && (
+          <MeasurementLabel
+            fcc={fcc}
+            position={midpoint(pointsInPx[0], pointsInPx[1])}
+            text={`${result.distance.toUser()} ${unit}, ${result.heading.toUser()}°`}
+            color={color}
+          />
+        )}
+        {result?.distance2 !== undefined && result.heading2 !== undefined && (
+          <MeasurementLabel
+            fcc={fcc}
+            position={midpoint(pointsInPx[1], pointsInPx[2])}
+            text={`${result.distance2.toUser()} ${unit}, ${result.heading2.toUser()}°`}
+            color={color}
+          />
+        )}
+        {result?.angle !== undefined && result.headingDifference !== undefined && (
+          <MeasurementLabel
+            fcc={fcc}
+            position={pointsInPx[1]}
+            text={`∠ ${result.angle.toUser()}°, Δ ${result.headingDifference.toUser()}°`}
+            color={color}
+          />
+        )}
+      </>
+    );
+  }
+);
+
+export { MeasurementElement };
@@ -0,0 +1,44 @@
+import { observer } from "mobx-react-lite";
+import { Vector } from "@core/Path";
+import { FieldCanvasConverter } from "@core/Canvas";
+import { OdometryLog } from "@core/OdometryLog";
+import { Circle, Line } from "react-konva";
+
+const ODOMETRY_LOG_COLOR = "#00B8D4";
+
+const OdometryLogElement = observer((props: { fcc: FieldCanvasConverter; log: OdometryLog }) => {
+  const { fcc, log } = props;
+
+  const points = log.points.map(point => fcc.toPx(new Vector(point.x, point.y)));
+  if (points.length === 0) return null;
+
+  const lineWidth = fcc.heightInPx / 400;
+  const pointRadius = fcc.heightInPx / 200;
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  // ALGO: The log is drawn as a polyline, the hollow circle is the beginning and the filled circle is the end
+  return (
+    <>
+      <Line
+        points={points.flatMap(point => [point.x, point.y])}
+        stroke={ODOMETRY_LOG_COLOR}
+        strokeWidth={lineWidth}
+        lineJoin="round"
+        opacity={0.8}
+        listening={false}
+      />
+      <Circle
+        x={first.x}
+        y={first.y}
+        radius={pointRadius}
+        stroke={ODOMETRY_LOG_COLOR}
+        strokeWidth={lineWidth}
+        listening={false}
+      />
+      <Circle x={last.x} y={last.y} radius={pointRadius} fill={ODOMETRY_LOG_COLOR} listening={false} />
+    </>
+  );
+});
+
+export { OdometryLogElement };
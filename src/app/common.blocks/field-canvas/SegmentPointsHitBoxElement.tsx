@@ -50,6 +50,14 @@ const SegmentPointsHitBoxElement = observer((props: SegmentElementProps) => {
 
   const pointWidth = (props.fcc.heightInPx / 320) * 8;
 
+  // UX: The segment is highlighted if it is hovered or selected in the output preview panel
+  const linkedItem = app.fieldEditor.linkedItem;
+  const isHighlighted =
+    app.hoverItem === props.segment.uid ||
+    app.hoverItem === props.path.uid ||
+    linkedItem === props.segment.uid ||
+    linkedItem === props.path.uid;
+
   return (
     <Line
       points={props.segment.controls.flatMap(cp => {
@@ -58,7 +66,7 @@ const SegmentPointsHitBoxElement = observer((props: SegmentElementProps) => {
       })}
       strokeWidth={pointWidth}
       stroke={"red"}
-      opacity={0}
+      opacity={isHighlighted ? 0.5 : 0}
       bezier={props.segment.controls.length > 2}
       onClick={action(onLineClick)}
       onTouchStart={action(onTouchStart)}
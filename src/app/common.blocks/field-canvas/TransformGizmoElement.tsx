@@ -0,0 +1,252 @@
+import { makeAutoObservable, action } from "mobx";
+import { observer } from "mobx-react-lite";
+import Konva from "konva";
+import { Circle, Line, Rect } from "react-konva";
+import { AnyControl, Vector } from "@core/Path";
+import { CanvasEntity, FieldCanvasConverter } from "@core/Canvas";
+import { getAppStores } from "@core/MainApp";
+import { TransformControls } from "@core/Command";
+import { findBoundingBox, findCentralPoint, toDerivativeHeading, toHeading } from "@core/Calculation";
+import {
+  ControlTransformation,
+  IDENTITY_TRANSFORMATION,
+  getTransformHeadingKeyframes,
+  getTransformTargets
+} from "@core/Transform";
+import { useMobxStorage } from "@core/Hook";
+
+const GIZMO_COLOR = "#2196F3";
+
+/**
+ * The entity of the transform gizmo, it is used to mark the interaction on the field canvas
+ */
+export const TRANSFORM_GIZMO_ENTITY: CanvasEntity = { uid: "TransformGizmo" };
+
+type TransformHandleType = "translate" | "rotate" | "scale";
+
+interface TransformGizmoLayout {
+  center: Vector; // in UOL
+  from: Vector; // the top left corner of the box in px
+  to: Vector; // the bottom right corner of the box in px
+  handleSize: number; // in px
+}
+
+/**
+ * @param fcc The field canvas converter
+ * @param targets The controls to transform
+ * @returns The layout of the gizmo, or undefined if there is no control
+ */
+function getTransformGizmoLayout(fcc: FieldCanvasConverter, targets: AnyControl[]): TransformGizmoLayout | undefined {
+  const box = findBoundingBox(targets);
+  const center = findCentralPoint(targets);
+  if (box === undefined || center === undefined) return undefined;
+
+  const handleSize = fcc.heightInPx / 80;
+  const topLeft = fcc.toPx(new Vector(box.from.x, box.to.y));
+  const bottomRight = fcc.toPx(new Vector(box.to.x, box.from.y));
+
+  return {
+    center,
+    from: topLeft.subtract(new Vector(handleSize, handleSize)),
+    to: bottomRight.add(new Vector(handleSize, handleSize)),
+    handleSize
+  };
+}
+
+/**
+ * @param layout The layout of the gizmo
+ * @returns The positions of the handles in px
+ */
+function getHandlePositions(layout: TransformGizmoLayout): { type: TransformHandleType; position: Vector }[] {
+  const { from, to, handleSize } = layout;
+  const middleX = (from.x + to.x) / 2;
+
+  return [
+    { type: "scale", position: from },
+    { type: "scale", position: new Vector(to.x, from.y) },
+    { type: "scale", position: to },
+    { type: "scale", position: new Vector(from.x, to.y) },
+    { type: "rotate", position: new Vector(middleX, from.y - handleSize * 3) },
+    { type: "translate", position: new Vector(middleX, to.y + handleSize * 3) }
+  ];
+}
+
+/**
+ * ALGO: The transformation is calculated from the last pointer position to the current pointer position,
+ * the commands are merged into one undoable command during the drag.
+ *
+ * @param type The type of the handle
+ * @param pivot The center of the selection when the drag starts
+ * @param from The last pointer position
+ * @param to The current pointer position
+ * @returns The transformation, or undefined if it is not valid
+ */
+function getIncrementalTransformation(
+  type: TransformHandleType,
+  pivot: Vector,
+  from: Vector,
+  to: Vector
+): ControlTransformation | undefined {
+  if (type === "translate") return { ...IDENTITY_TRANSFORMATION, dx: to.x - from.x, dy: to.y - from.y };
+
+  const a = from.subtract(pivot);
+  const b = to.subtract(pivot);
+  const lengthA = from.distance(pivot);
+  const lengthB = to.distance(pivot);
+  if (lengthA === 0 || lengthB === 0) return undefined;
+
+  if (type === "rotate") {
+    return { ...IDENTITY_TRANSFORMATION, angle: toDerivativeHeading(toHeading(a), toHeading(b)), pivot };
+  } else {
+    return { ...IDENTITY_TRANSFORMATION, scale: lengthB / lengthA, pivot };
+  }
+}
+
+class TransformGizmoVariables {
+  pivot: Vector = new Vector(0, 0);
+  lastPos: Vector = new Vector(0, 0);
+
+  constructor() {
+    makeAutoObservable(this);
+  }
+}
+
+const TransformHandle = observer(
+  (props: {
+    fcc: FieldCanvasConverter;
+    type: TransformHandleType;
+    index: number;
+    position: Vector;
+    size: number;
+    targets: AnyControl[];
+    variables: TransformGizmoVariables;
+  }) => {
+    const { fcc, type, index, position, size, targets, variables } = props;
+    const { app } = getAppStores();
+
+    function getPointerInUOL(event: Konva.KonvaEventObject<DragEvent | TouchEvent>): Vector | undefined {
+      const posInPx = fcc.getUnboundedPxFromEvent(event);
+      return posInPx === undefined ? undefined : fcc.toUOL(posInPx);
+    }
+
+    function onDragStart(event: Konva.KonvaEventObject<DragEvent | TouchEvent>) {
+      const pos = getPointerInUOL(event);
+      const layout = getTransformGizmoLayout(fcc, targets);
+      if (
+        pos === undefined ||
+        layout === undefined ||
+        !app.fieldEditor.interactWithEntity(TRANSFORM_GIZMO_ENTITY, "drag")
+      ) {
+        event.target.stopDrag();
+        return;
+      }
+
+      variables.pivot = layout.center;
+      variables.lastPos = pos;
+    }
+
+    function onDragMove(event: Konva.KonvaEventObject<DragEvent | TouchEvent>) {
+      const pos = getPointerInUOL(event);
+      if (pos === undefined) return;
+
+      const transformation = getIncrementalTransformation(type, variables.pivot, variables.lastPos, pos);
+      if (transformation !== undefined) {
+        app.history.execute(
+          `${type === "translate" ? "Move" : type === "rotate" ? "Rotate" : "Scale"} ${targets.length} controls`,
+          new TransformControls(targets, transformation, getTransformHeadingKeyframes(app.paths, targets)),
+          5000
+        );
+        variables.lastPos = pos;
+      }
+
+      resetHandlePosition(event);
+    }
+
+    function resetHandlePosition(event: Konva.KonvaEventObject<DragEvent | TouchEvent>) {
+      // UX: Put the handle back to the box, the box is changed after the transformation
+      const layout = getTransformGizmoLayout(fcc, targets);
+      if (layout === undefined) return;
+      const handlePos = getHandlePositions(layout)[index].position;
+      event.target.x(handlePos.x);
+      event.target.y(handlePos.y);
+    }
+
+    const common = {
+      x: position.x,
+      y: position.y,
+      fill: "white",
+      stroke: GIZMO_COLOR,
+      strokeWidth: size / 4,
+      draggable: true,
+      onDragStart: action(onDragStart),
+      onDragMove: action(onDragMove),
+      onDragEnd: action(resetHandlePosition)
+    };
+
+    if (type === "scale")
+      return <Rect {...common} width={size} height={size} offset={new Vector(size / 2, size / 2)} />;
+    else if (type === "rotate") return <Circle {...common} radius={size / 2} />;
+    else
+      return <Rect {...common} width={size * 1.5} height={size * 1.5} offset={new Vector(size * 0.75, size * 0.75)} />;
+  }
+);
+
+const TransformGizmoElement = observer((props: { fcc: FieldCanvasConverter }) => {
+  const { fcc } = props;
+  const { app } = getAppStores();
+
+  const variables = useMobxStorage(() => new TransformGizmoVariables());
+
+  // UX: The gizmo appears around a multi-selection, the sibling controls of the selected end controls follow
+  const targets = getTransformTargets(app.paths, app.selectedEntityIds);
+  const selectedCount = targets.filter(control => app.selectedEntityIds.includes(control.uid)).length;
+  if (selectedCount < 2) return null;
+
+  const layout = getTransformGizmoLayout(fcc, targets);
+  if (layout === undefined) return null;
+
+  const { from, to, handleSize } = layout;
+  const middleX = (from.x + to.x) / 2;
+  const lineWidth = handleSize / 8;
+
+  return (
+    <>
+      <Rect
+        x={from.x}
+        y={from.y}
+        width={to.x - from.x}
+        height={to.y - from.y}
+        stroke={GIZMO_COLOR}
+        strokeWidth={lineWidth}
+        dash={[handleSize / 2, handleSize / 2]}
+        listening={false}
+      />
+      <Line
+        points={[middleX, from.y, middleX, from.y - handleSize * 3]}
+        stroke={GIZMO_COLOR}
+        strokeWidth={lineWidth}
+        listening={false}
+      />
+      <Line
+        points={[middleX, to.y, middleX, to.y + handleSize * 3]}
+        stroke={GIZMO_COLOR}
+        strokeWidth={lineWidth}
+        listening={false}
+      />
+      {getHandlePositions(layout).map(({ type, position }, index) => (
+        <TransformHandle
+          key={index}
+          fcc={fcc}
+          type={type}
+          index={index}
+          position={position}
+          size={handleSize}
+          targets={targets}
+          variables={variables}
+        />
+      ))}
+    </>
+  );
+});
+
+export { TransformGizmoElement };
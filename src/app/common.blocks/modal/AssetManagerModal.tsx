@@ -17,10 +17,11 @@ import {
   ListItemText,
   Radio,
   RadioGroup,
+  TextField,
   Tooltip,
   Typography
 } from "@mui/material";
-import { action, makeAutoObservable } from "mobx";
+import { IObservableValue, action, makeAutoObservable, observable } from "mobx";
 import {
   FieldImageAsset,
   FieldImageOriginType,
@@ -33,8 +34,8 @@ import {
 import { getAppStores } from "@core/MainApp";
 import { useFieldImageAsset, useImageState, useMobxStorage } from "@core/Hook";
 import { FormInputField } from "@app/component.blocks/FormInputField";
-import { NumberUOL } from "@token/Tokens";
-import { makeId, parseFormula, runInActionAsync } from "@core/Util";
+import { makeId, runInActionAsync } from "@core/Util";
+import { computeLengthFormula } from "@core/Formula";
 import { UnitOfLength } from "@core/Unit";
 import { LayoutContext, LayoutType } from "@core/Layout";
 import React from "react";
@@ -44,9 +45,14 @@ import GetAppIcon from "@mui/icons-material/GetApp";
 import AddIcon from "@mui/icons-material/Add";
 import DoneIcon from "@mui/icons-material/Done";
 import { UpdateProperties } from "@core/Command";
+import { parseFieldObstacles } from "@core/Collision";
+import { Logger } from "@core/Logger";
+import { enqueueErrorSnackbar } from "@app/Notice";
 
 import "./AssetManagerModal.scss";
 
+const logger = Logger("Asset Manager");
+
 export const AssetManagerModalSymbol = Symbol("AssetManagerModalSymbol");
 
 class FieldImageManagerVariables {
@@ -197,6 +203,8 @@ export const FieldImagePreview = observer((props: { preview: FieldImageAsset<Fie
               Width: {size[0].x.toUser()}px ({size[1].x.toUser()}mm)
               <br />
               Height: {size[0].y.toUser()}px ({size[1].y.toUser()}mm)
+              <br />
+              Obstacles: {preview.obstacles.length}
             </Typography>
           )}
         </Box>
@@ -317,13 +325,16 @@ export const NewFieldImageForm = observer((props: { variables: FieldImageManager
         <FormInputField
           label="Height (mm)"
           getValue={() => draft.heightInMM + ""}
-          setValue={(value: string) => {
-            const setValue = parseFormula(value, NumberUOL.parse)!.compute(UnitOfLength.Millimeter);
-            draft.heightInMM = Math.max(100, setValue);
+          setValue={(value: string, payload: number | undefined) => {
+            if (payload === undefined) return;
+            draft.heightInMM = Math.max(100, payload);
             onReloadPreview();
           }}
           isValidIntermediate={() => true}
-          isValidValue={(candidate: string) => parseFormula(candidate, NumberUOL.parse) !== null}
+          isValidValue={(candidate: string) => {
+            const value = computeLengthFormula(candidate, UnitOfLength.Millimeter);
+            return [value !== undefined, value];
+          }}
           numeric
           sx={{ width: "100px" }}
           onKeyDown={e => e.stopPropagation()}
@@ -428,8 +439,29 @@ export const NewFieldImageForm = observer((props: { variables: FieldImageManager
   );
 });
 
+const EditObstaclesConfirmationDescription = observer((props: { value: IObservableValue<string> }) => {
+  return (
+    <>
+      <Typography>
+        Describe the field elements as a JSON array of circles and polygons in mm, with the origin at the center of the
+        field. For example: {'[{ "type": "circle", "x": 0, "y": 0, "radius": 200 }]'}
+      </Typography>
+      <TextField
+        InputLabelProps={{ shrink: true }}
+        size="small"
+        sx={{ width: "100%" }}
+        multiline
+        maxRows={8}
+        value={props.value.get()}
+        onChange={event => props.value.set(event.target.value)}
+        data-gramm="false" // disable grammarly
+      />
+    </>
+  );
+});
+
 export const FieldImageSection = observer(() => {
-  const { app, ui, assetManager } = getAppStores();
+  const { app, ui, assetManager, confirmation } = getAppStores();
 
   const variables = useMobxStorage(() => new FieldImageManagerVariables(), []);
 
@@ -468,6 +500,31 @@ export const FieldImageSection = observer(() => {
       assetManager.removeAsset(selected);
   });
 
+  const onEditObstacles = action(() => {
+    if (selected === null) return;
+    const editingObstacles = observable.box(JSON.stringify(selected.obstacles, null, 2));
+
+    confirmation.prompt({
+      title: "Edit Obstacles",
+      description: <EditObstaclesConfirmationDescription value={editingObstacles} />,
+      buttons: [
+        {
+          label: "Save",
+          color: "success",
+          hotkey: "s",
+          onClick: () => {
+            try {
+              assetManager.setObstacles(selected, parseFieldObstacles(editingObstacles.get()));
+            } catch (e) {
+              enqueueErrorSnackbar(logger, e);
+            }
+          }
+        },
+        { label: "Cancel", onClick: () => {} }
+      ]
+    });
+  });
+
   const onClose = () => {
     ui.closeModal(AssetManagerModalSymbol);
   };
@@ -520,6 +577,9 @@ export const FieldImageSection = observer(() => {
             onClick={onDelete}>
             Delete
           </Button>
+          <Button variant="outlined" color="primary" disabled={!hasSelected} disableElevation onClick={onEditObstacles}>
+            Edit Obstacles
+          </Button>
         </Box>
       )}
     </Box>
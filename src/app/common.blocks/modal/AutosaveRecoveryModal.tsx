@@ -0,0 +1,114 @@
+import { action } from "mobx";
+import { observer } from "mobx-react-lite";
+import { Modal } from "./Modal";
+import {
+  Box,
+  Button,
+  Card,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  Tooltip,
+  Typography
+} from "@mui/material";
+import DeleteIcon from "@mui/icons-material/Delete";
+import { getAppStores } from "@core/MainApp";
+import { AutosaveSnapshot } from "@core/Autosave";
+import { onRecover } from "@core/InputOutput";
+import React from "react";
+
+import "./AutosaveRecoveryModal.scss";
+
+export const AutosaveRecoveryModalSymbol = Symbol("AutosaveRecoveryModal");
+
+const AutosaveSnapshotItem = observer((props: { snapshot: AutosaveSnapshot }) => {
+  const { snapshot } = props;
+  const { app, ui } = getAppStores();
+
+  const onRestore = () => {
+    ui.closeModal(AutosaveRecoveryModalSymbol);
+    onRecover(snapshot);
+  };
+
+  return (
+    <ListItem
+      className="AutosaveRecovery-Item"
+      disablePadding
+      secondaryAction={
+        <Tooltip title="Delete This Snapshot">
+          <IconButton
+            edge="end"
+            className="AutosaveRecovery-ItemRemoveButton"
+            onClick={() => app.autosave.removeSnapshot(snapshot)}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      }>
+      <ListItemButton onClick={action(onRestore)}>
+        <ListItemText
+          sx={{ textWrap: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}
+          primary={snapshot.fileName}
+          secondary={`${new Date(snapshot.timestamp).toLocaleString()} · ${snapshot.format}`}
+        />
+      </ListItemButton>
+    </ListItem>
+  );
+});
+
+export const AutosaveRecoveryModal = observer(() => {
+  const { app, ui } = getAppStores();
+
+  React.useEffect(() => {
+    // UX: Show the recovery dialog on startup if the last session was not ended properly
+    app.autosave.checkRecovery().then(
+      action((shouldPrompt: boolean) => {
+        if (shouldPrompt) ui.openModal(AutosaveRecoveryModalSymbol);
+      })
+    );
+  }, [app, ui]);
+
+  // UX: The dialog is not shown again on the next startup once the user has seen it
+  const onClose = () => app.autosave.acknowledge();
+
+  const snapshots = app.autosave.snapshots;
+
+  return (
+    <Modal symbol={AutosaveRecoveryModalSymbol} onClose={onClose}>
+      <Card id="AutosaveRecoveryModal" className="Modal-Container">
+        <Typography variant="h3" fontSize={18} gutterBottom>
+          Recover Unsaved Work
+        </Typography>
+        <Typography variant="body2" color="textSecondary">
+          Select a snapshot to restore. The snapshots are stored in this browser only.
+        </Typography>
+        <Box id="AutosaveRecovery-List">
+          {snapshots.length === 0 ? (
+            <Typography variant="body1" marginY="16px">
+              No snapshots available.
+            </Typography>
+          ) : (
+            <List dense>
+              {snapshots.map(snapshot => (
+                <AutosaveSnapshotItem key={snapshot.id} snapshot={snapshot} />
+              ))}
+            </List>
+          )}
+        </Box>
+        <Box className="AutosaveRecovery-Footer">
+          <Button
+            variant="text"
+            color="error"
+            disabled={snapshots.length === 0}
+            onClick={() => app.autosave.removeAllSnapshots()}>
+            Delete All
+          </Button>
+          <Button variant="outlined" onClick={() => ui.closeModal(AutosaveRecoveryModalSymbol)}>
+            Close
+          </Button>
+        </Box>
+      </Card>
+    </Modal>
+  );
+});
@@ -1,4 +1,4 @@
-import { makeAutoObservable, action } from "mobx";
+import { makeAutoObservable, action, runInAction } from "mobx";
 import { observer } from "mobx-react-lite";
 import { Modal } from "./Modal";
 import {
@@ -15,11 +15,33 @@ import {
   Typography
 } from "@mui/material";
 
-import { NamedCoordinateSystem, getNamedCoordinateSystems } from "@core/CoordinateSystem";
+import {
+  AxisAnchor,
+  AxisRotation,
+  CoordinateSystemTransformation,
+  HeadingAnchor,
+  HeadingDirection,
+  HeadingRotation,
+  NamedCoordinateSystem,
+  ORIGIN_ANCHOR_NAMES,
+  OriginAnchor,
+  YAxisFlip,
+  exportCoordinateSystems,
+  getNamedCoordinateSystems,
+  getOriginAnchorName,
+  parseCoordinateSystems
+} from "@core/CoordinateSystem";
 import { getAppStores } from "@core/MainApp";
 import { UpdateProperties } from "@core/Command";
 import { useMobxStorage } from "@core/Hook";
 import { LayoutContext, LayoutType } from "@core/Layout";
+import { Logger } from "@core/Logger";
+import { Vector } from "@core/Path";
+import { enqueueErrorSnackbar, enqueueSuccessSnackbar } from "@app/Notice";
+import { FormCheckbox } from "@app/component.blocks/FormCheckbox";
+import { FormInputField } from "@app/component.blocks/FormInputField";
+import { FormItemSelect } from "@app/component.blocks/FormItemSelect";
+import { NumberT, CodePointBuffer } from "@src/token/Tokens";
 import "./CoordinateSystemModal.scss";
 import InputIcon from "@mui/icons-material/Input";
 import DoneIcon from "@mui/icons-material/Done";
@@ -27,32 +49,290 @@ import React from "react";
 
 export const CoordinateSystemModalSymbol = Symbol("CoordinateSystemModal");
 
+const logger = Logger("Coordinate System");
+
 class CoordinateSystemVariables {
-  selected: NamedCoordinateSystem | null = null;
+  selectedName: string | null = null;
 
   constructor() {
     makeAutoObservable(this);
   }
+
+  get selected(): NamedCoordinateSystem | null {
+    return getAppStores().app.coordinateSystems.find(system => system.name === this.selectedName) ?? null;
+  }
+}
+
+function isBuiltInCoordinateSystem(name: string): boolean {
+  return getNamedCoordinateSystems().some(system => system.name === name);
+}
+
+function getUniqueCoordinateSystemName(base: string): string {
+  const { app } = getAppStores();
+
+  const isUsed = (name: string) => app.coordinateSystems.some(system => system.name === name);
+  if (!isUsed(base)) return base;
+
+  let index = 2;
+  while (isUsed(`${base} ${index}`)) index++;
+  return `${base} ${index}`;
+}
+
+/**
+ * Adds or replaces a custom coordinate system in the preferences
+ *
+ * @param oldName The name of the coordinate system to replace, or undefined to add a new one
+ * @param system The new coordinate system
+ */
+function saveCustomCoordinateSystem(oldName: string | undefined, system: NamedCoordinateSystem) {
+  const { app, appPreferences } = getAppStores();
+
+  const systems = appPreferences.customCoordinateSystems;
+  const index = systems.findIndex(s => s.name === oldName);
+  // ALGO: Replace the array instead of mutating it, the preferences are saved to the local storage on assignment
+  appPreferences.customCoordinateSystems =
+    index === -1 ? [...systems, system] : systems.map((s, i) => (i === index ? system : s));
+
+  // UX: Keep using the coordinate system after it is renamed
+  if (oldName !== undefined && oldName !== system.name && app.gc.coordinateSystem === oldName) {
+    app.history.execute(
+      `Change coordinate system to ${system.name}`,
+      new UpdateProperties(app.gc, { coordinateSystem: system.name })
+    );
+  }
 }
 
+function removeCustomCoordinateSystem(name: string) {
+  const { appPreferences } = getAppStores();
+
+  appPreferences.customCoordinateSystems = appPreferences.customCoordinateSystems.filter(s => s.name !== name);
+}
+
+const AXIS_ROTATION_ITEMS = [
+  { key: AxisRotation.XEastYNorth, value: AxisRotation.XEastYNorth, label: "X East, Y North" },
+  { key: AxisRotation.XSouthYEast, value: AxisRotation.XSouthYEast, label: "X South, Y East" },
+  { key: AxisRotation.XWestYSouth, value: AxisRotation.XWestYSouth, label: "X West, Y South" },
+  { key: AxisRotation.XNorthYWest, value: AxisRotation.XNorthYWest, label: "X North, Y West" }
+];
+
+const HEADING_ROTATION_ITEMS = [
+  { key: HeadingRotation.North, value: HeadingRotation.North, label: "North" },
+  { key: HeadingRotation.East, value: HeadingRotation.East, label: "East" },
+  { key: HeadingRotation.South, value: HeadingRotation.South, label: "South" },
+  { key: HeadingRotation.West, value: HeadingRotation.West, label: "West" }
+];
+
+const HEADING_DIRECTION_ITEMS = [
+  { key: HeadingDirection.Clockwise, value: HeadingDirection.Clockwise, label: "Clockwise" },
+  { key: HeadingDirection.CounterClockwise, value: HeadingDirection.CounterClockwise, label: "Counterclockwise" }
+];
+
+const ORIGIN_ANCHOR_ITEMS = ORIGIN_ANCHOR_NAMES.map(name => ({
+  key: name,
+  value: name,
+  label: name.replace(/([a-z])([A-Z])/g, "$1 $2")
+}));
+
+/**
+ * ALGO: The diagram is drawn in a 12 ft field in mm, the origin offset of the coordinate system is in mm.
+ * The sample path begins at the bottom left of the field and faces north east.
+ */
+export const CoordinateSystemDiagram = observer((props: { system: NamedCoordinateSystem }) => {
+  const { system } = props;
+
+  const fieldSize = 3657.6;
+  const pathBeginning = { x: -fieldSize / 4, y: -fieldSize / 4, heading: 45 };
+  const cst = new CoordinateSystemTransformation(system, { width: fieldSize, height: fieldSize }, pathBeginning);
+
+  // field coordinate (mm) to svg coordinate, the field takes 80% of the view box
+  const toSvg = (x: number, y: number) => new Vector(0.5 + (x / fieldSize) * 0.8, 0.5 - (y / fieldSize) * 0.8);
+  const toDirection = (heading: number) =>
+    new Vector(Math.sin((heading * Math.PI) / 180), Math.cos((heading * Math.PI) / 180));
+
+  const axisLength = fieldSize / 4;
+  const origin = cst.inverseTransform({ x: 0, y: 0 });
+  const xAxisEnd = cst.inverseTransform({ x: axisLength, y: 0 });
+  const yAxisEnd = cst.inverseTransform({ x: 0, y: axisLength });
+  const heading0 = toDirection(cst.inverseTransform({ x: 0, y: 0, heading: 0 }).heading);
+  const heading90 = toDirection(cst.inverseTransform({ x: 0, y: 0, heading: 90 }).heading);
+
+  const o = toSvg(origin.x, origin.y);
+  const x = toSvg(xAxisEnd.x, xAxisEnd.y);
+  const y = toSvg(yAxisEnd.x, yAxisEnd.y);
+  const h0 = toSvg(origin.x + heading0.x * axisLength * 0.7, origin.y + heading0.y * axisLength * 0.7);
+  const h90 = toSvg(origin.x + heading90.x * axisLength * 0.7, origin.y + heading90.y * axisLength * 0.7);
+  const begin = toSvg(pathBeginning.x, pathBeginning.y);
+  const beginDirection = toDirection(pathBeginning.heading);
+
+  const stroke = 0.008;
+  const fontSize = 0.045;
+
+  return (
+    <svg id="CoordinateSystems-Diagram" viewBox="0 0 1 1">
+      <rect x={0.1} y={0.1} width={0.8} height={0.8} fill="none" stroke="grey" strokeWidth={stroke / 2} />
+      <line
+        x1={begin.x}
+        y1={begin.y}
+        x2={begin.x + beginDirection.x * 0.06}
+        y2={begin.y - beginDirection.y * 0.06}
+        stroke="grey"
+        strokeWidth={stroke}
+      />
+      <circle cx={begin.x} cy={begin.y} r={0.015} fill="grey" />
+      <line x1={o.x} y1={o.y} x2={h0.x} y2={h0.y} stroke="#1976d2" strokeWidth={stroke} strokeDasharray="0.02" />
+      <line x1={o.x} y1={o.y} x2={h90.x} y2={h90.y} stroke="#1976d2" strokeWidth={stroke / 2} strokeDasharray="0.02" />
+      <text x={h0.x} y={h0.y} fontSize={fontSize} fill="#1976d2">
+        0°
+      </text>
+      <text x={h90.x} y={h90.y} fontSize={fontSize} fill="#1976d2">
+        90°
+      </text>
+      <line x1={o.x} y1={o.y} x2={x.x} y2={x.y} stroke="#d32f2f" strokeWidth={stroke} />
+      <line x1={o.x} y1={o.y} x2={y.x} y2={y.y} stroke="#388e3c" strokeWidth={stroke} />
+      <text x={x.x} y={x.y} fontSize={fontSize} fill="#d32f2f">
+        X
+      </text>
+      <text x={y.x} y={y.y} fontSize={fontSize} fill="#388e3c">
+        Y
+      </text>
+      <circle cx={o.x} cy={o.y} r={0.015} fill="currentColor" />
+    </svg>
+  );
+});
+
+const CoordinateSystemEditor = observer((props: { system: NamedCoordinateSystem }) => {
+  const { system } = props;
+  const { app } = getAppStores();
+
+  const update = (changes: Partial<NamedCoordinateSystem>) =>
+    saveCustomCoordinateSystem(system.name, { ...system, ...changes });
+
+  const isValidNumber = (candidate: string) => NumberT.parse(new CodePointBuffer(candidate)) !== null;
+
+  return (
+    <Box id="CoordinateSystems-Editor">
+      <FormInputField
+        label="Name"
+        fullWidth
+        getValue={() => system.name}
+        setValue={(value: string) => update({ name: value.trim() })}
+        isValidIntermediate={() => true}
+        isValidValue={(candidate: string) =>
+          candidate.trim() !== "" &&
+          (candidate.trim() === system.name || app.coordinateSystems.every(s => s.name !== candidate.trim()))
+        }
+      />
+      <FormInputField
+        label="Description"
+        fullWidth
+        getValue={() => system.description}
+        setValue={(value: string) => update({ description: value })}
+        isValidIntermediate={() => true}
+        isValidValue={() => true}
+      />
+      <Box className="CoordinateSystems-EditorRow">
+        <FormItemSelect
+          sx={{ width: "50%" }}
+          label="Axes"
+          selected={system.axisRotation}
+          items={AXIS_ROTATION_ITEMS}
+          onSelectItem={value => value !== undefined && update({ axisRotation: value })}
+        />
+        <FormCheckbox
+          label="Flip Y Axis"
+          checked={system.yAxisFlip === YAxisFlip.Flip}
+          onCheckedChange={value => update({ yAxisFlip: value ? YAxisFlip.Flip : YAxisFlip.NoFlip })}
+        />
+      </Box>
+      <FormCheckbox
+        label="Rotate Axes with Path Beginning"
+        checked={system.axisAnchor === AxisAnchor.PathBeginning}
+        onCheckedChange={value => update({ axisAnchor: value ? AxisAnchor.PathBeginning : AxisAnchor.Default })}
+      />
+      <Box className="CoordinateSystems-EditorRow">
+        <FormItemSelect
+          sx={{ width: "50%" }}
+          label="Heading 0°"
+          selected={system.headingRotation}
+          items={HEADING_ROTATION_ITEMS}
+          onSelectItem={value => value !== undefined && update({ headingRotation: value })}
+        />
+        <FormItemSelect
+          sx={{ width: "50%" }}
+          label="Heading Direction"
+          selected={system.headingDirection}
+          items={HEADING_DIRECTION_ITEMS}
+          onSelectItem={value => value !== undefined && update({ headingDirection: value })}
+        />
+      </Box>
+      <FormCheckbox
+        label="Rotate Heading with Path Beginning"
+        checked={system.headingAnchor === HeadingAnchor.PathBeginning}
+        onCheckedChange={value =>
+          update({ headingAnchor: value ? HeadingAnchor.PathBeginning : HeadingAnchor.Default })
+        }
+      />
+      <FormItemSelect
+        sx={{ width: "100%" }}
+        label="Origin"
+        selected={getOriginAnchorName(system.originAnchor)}
+        items={ORIGIN_ANCHOR_ITEMS}
+        onSelectItem={value => value !== undefined && update({ originAnchor: OriginAnchor[value] })}
+      />
+      <Box className="CoordinateSystems-EditorRow">
+        <FormInputField
+          label="Origin Offset X (mm)"
+          getValue={() => system.originOffset.x.toUser() + ""}
+          setValue={(value: string) => update({ originOffset: { ...system.originOffset, x: parseFloat(value) } })}
+          isValidIntermediate={() => true}
+          isValidValue={isValidNumber}
+          numeric
+        />
+        <FormInputField
+          label="Origin Offset Y (mm)"
+          getValue={() => system.originOffset.y.toUser() + ""}
+          setValue={(value: string) => update({ originOffset: { ...system.originOffset, y: parseFloat(value) } })}
+          isValidIntermediate={() => true}
+          isValidValue={isValidNumber}
+          numeric
+        />
+      </Box>
+    </Box>
+  );
+});
+
 export const CoordinateSystemPreview = observer((props: { preview: NamedCoordinateSystem }) => {
   const { preview } = props;
 
+  const isCustom = !isBuiltInCoordinateSystem(preview.name);
+
   return (
     <Box id="CoordinateSystems-PreviewSection">
       <Box maxWidth="360px" width="100%">
         <Box id="CoordinateSystems-ImagePreview">
-          <svg viewBox="0 0 1 1"></svg>
-          <Box component="img" src={preview.previewImageUrl} alt="" />
+          {isCustom || preview.previewImageUrl === "" ? (
+            <CoordinateSystemDiagram system={preview} />
+          ) : (
+            <>
+              <svg viewBox="0 0 1 1"></svg>
+              <Box component="img" src={preview.previewImageUrl} alt="" />
+            </>
+          )}
         </Box>
       </Box>
       <Box minHeight="100px" width="100%">
-        <Box marginTop="16px">
-          <Typography variant="body1">{preview.name}</Typography>
-        </Box>
-        <Box marginTop="16px" minHeight="100px">
-          <Typography variant="body1">{preview.description}</Typography>
-        </Box>
+        {isCustom ? (
+          <CoordinateSystemEditor system={preview} />
+        ) : (
+          <>
+            <Box marginTop="16px">
+              <Typography variant="body1">{preview.name}</Typography>
+            </Box>
+            <Box marginTop="16px" minHeight="100px">
+              <Typography variant="body1">{preview.description}</Typography>
+            </Box>
+          </>
+        )}
       </Box>
     </Box>
   );
@@ -63,10 +343,10 @@ export const CoordinateSystemItem = observer(
     const { variables, system } = props;
     const { app, ui } = getAppStores();
 
-    const isSelected = variables.selected?.name === system.name;
+    const isSelected = variables.selectedName === system.name;
 
     const isUsing = system.name === app.gc.coordinateSystem;
-    console.log("isUsing", isUsing, system.name, app.gc.coordinateSystem);
+    const isCustom = !isBuiltInCoordinateSystem(system.name);
 
     const onApply = action(() => {
       app.history.execute(
@@ -95,14 +375,14 @@ export const CoordinateSystemItem = observer(
         <ListItemButton
           selected={isSelected}
           onClick={action(() => {
-            variables.selected = system;
+            variables.selectedName = system.name;
           })}>
           <ListItemText
             sx={{ textWrap: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}
             primary={
               <>
                 {system.name}
-                <Chip label="Local" size="small" sx={{ marginLeft: "8px" }} />
+                <Chip label={isCustom ? "Custom" : "Built-in"} size="small" sx={{ marginLeft: "8px" }} />
               </>
             }
           />
@@ -115,18 +395,70 @@ export const CoordinateSystemItem = observer(
 
 export const CoordinateSystemList = observer((props: { variables: CoordinateSystemVariables }) => {
   const { variables } = props;
-  const { app } = getAppStores();
+  const { app, appPreferences } = getAppStores();
 
-  const systems = getNamedCoordinateSystems();
+  const systems = app.coordinateSystems;
 
   // eslint-disable-next-line react-hooks/exhaustive-deps
   React.useEffect(
     action(() => {
-      variables.selected = systems.find(system => system.name === app.gc.coordinateSystem) || systems[0];
+      variables.selectedName = (systems.find(system => system.name === app.gc.coordinateSystem) || systems[0]).name;
     }),
     []
   );
 
+  const onNew = action(() => {
+    // UX: The new coordinate system is a copy of the selected one
+    const base = variables.selected ?? systems[0];
+    const system = { ...base, name: getUniqueCoordinateSystemName(base.name + " Copy"), previewImageUrl: "" };
+    saveCustomCoordinateSystem(undefined, system);
+    variables.selectedName = system.name;
+  });
+
+  const onDelete = action(() => {
+    const selected = variables.selected;
+    if (selected === null || isBuiltInCoordinateSystem(selected.name)) return;
+
+    removeCustomCoordinateSystem(selected.name);
+    variables.selectedName = systems[0].name;
+  });
+
+  const onImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // UX: Allow to import the same file again
+    if (file === undefined) return;
+
+    try {
+      const imported = parseCoordinateSystems(await file.text());
+      runInAction(() => {
+        for (const system of imported) {
+          const existing = appPreferences.customCoordinateSystems.find(s => s.name === system.name);
+          // UX: Replace the custom coordinate system with the same name, rename if it conflicts with a built-in one
+          const name = isBuiltInCoordinateSystem(system.name)
+            ? getUniqueCoordinateSystemName(system.name + " Copy")
+            : system.name;
+          saveCustomCoordinateSystem(existing?.name, { ...system, name });
+          variables.selectedName = name;
+        }
+      });
+      enqueueSuccessSnackbar(logger, `Imported ${imported.length} coordinate system(s)`);
+    } catch (err) {
+      enqueueErrorSnackbar(logger, err instanceof Error ? `Failed to import: ${err.message}` : err);
+    }
+  };
+
+  const onExport = () => {
+    const custom = systems.filter(system => !isBuiltInCoordinateSystem(system.name));
+    const a = document.createElement("a");
+    const file = new Blob([exportCoordinateSystems(custom)], { type: "application/json" });
+    a.href = URL.createObjectURL(file);
+    a.download = "coordinate-systems.json";
+    a.click();
+  };
+
+  const hasCustom = systems.some(system => !isBuiltInCoordinateSystem(system.name));
+  const isSelectedCustom = variables.selected !== null && !isBuiltInCoordinateSystem(variables.selected.name);
+
   return (
     <Box>
       <Box id="CoordinateSystemsList">
@@ -136,6 +468,21 @@ export const CoordinateSystemList = observer((props: { variables: CoordinateSyst
           ))}
         </List>
       </Box>
+      <Box display="flex" gap="4px" flexWrap="wrap">
+        <Button size="small" onClick={onNew}>
+          New
+        </Button>
+        <Button size="small" color="error" disabled={!isSelectedCustom} onClick={onDelete}>
+          Delete
+        </Button>
+        <Button size="small" component="label">
+          Import
+          <input type="file" hidden accept=".json,application/json" onChange={onImport} />
+        </Button>
+        <Button size="small" disabled={!hasCustom} onClick={onExport}>
+          Export
+        </Button>
+      </Box>
     </Box>
   );
 });
@@ -1,8 +1,9 @@
-import { Card, Divider, Typography } from "@mui/material";
+import { Box, Card, Divider, Typography } from "@mui/material";
 import { observer } from "mobx-react-lite";
 import { getAppStores } from "@core/MainApp";
 import { AppThemeType } from "@app/Theme";
 import { clamp } from "@core/Util";
+import { UnitOfLength } from "@core/Unit";
 import { FormEnumSelect } from "@app/component.blocks/FormEnumSelect";
 import { FormCheckbox } from "@app/component.blocks/FormCheckbox";
 import { FormInputField } from "@app/component.blocks/FormInputField";
@@ -47,6 +48,114 @@ export const PreferencesModal = observer(() => {
 
         <Divider />
 
+        <Typography marginY="16px">Grid</Typography>
+        <FormCheckbox
+          label="Show Grid"
+          checked={appPreferences.isGridVisible}
+          onCheckedChange={v => (appPreferences.isGridVisible = v)}
+        />
+        <Box className="PreferencesModal-Row">
+          <FormInputField
+            sx={{ width: "10rem" }}
+            label="Spacing"
+            getValue={() => appPreferences.gridSpacing.toUser().toString()}
+            setValue={v => (appPreferences.gridSpacing = clamp(parseFloat(v), 0.01, 10000))}
+            isValidIntermediate={v => v === "" || new RegExp("^[0-9]*\\.?[0-9]*$").test(v)}
+            isValidValue={v => new RegExp("^[0-9]+(\\.[0-9]+)?$").test(v) && parseFloat(v) > 0}
+            numeric
+          />
+          <FormEnumSelect
+            sx={{ width: "10rem" }}
+            label="Unit of Length"
+            enumValue={appPreferences.gridSpacingUnit}
+            onEnumChange={v => (appPreferences.gridSpacingUnit = v)}
+            enumType={UnitOfLength}
+          />
+        </Box>
+        <Typography variant="body2" color="grey" marginBottom="16px">
+          The grid is aligned to the origin of the coordinate system. Controls snap to the grid lines and intersections
+          while dragging.
+        </Typography>
+
+        <Divider />
+
+        <Typography marginY="16px">Playback</Typography>
+        <Box className="PreferencesModal-Row">
+          <FormInputField
+            sx={{ width: "10rem" }}
+            label="Max Velocity (m/s)"
+            getValue={() => appPreferences.playbackMaxVelocity.toUser().toString()}
+            setValue={v => (appPreferences.playbackMaxVelocity = clamp(parseFloat(v), 0.01, 100))}
+            isValidIntermediate={v => v === "" || new RegExp("^[0-9]*\\.?[0-9]*$").test(v)}
+            isValidValue={v => new RegExp("^[0-9]+(\\.[0-9]+)?$").test(v) && parseFloat(v) > 0}
+            numeric
+          />
+          <FormInputField
+            sx={{ width: "10rem" }}
+            label="Max Acceleration (m/s²)"
+            getValue={() => appPreferences.playbackMaxAcceleration.toUser().toString()}
+            setValue={v => (appPreferences.playbackMaxAcceleration = clamp(parseFloat(v), 0.01, 100))}
+            isValidIntermediate={v => v === "" || new RegExp("^[0-9]*\\.?[0-9]*$").test(v)}
+            isValidValue={v => new RegExp("^[0-9]+(\\.[0-9]+)?$").test(v) && parseFloat(v) > 0}
+            numeric
+          />
+        </Box>
+
+        <Divider />
+
+        <Typography marginY="16px">Import</Typography>
+        <FormInputField
+          sx={{ width: "14rem" }}
+          label="Curve Fitting Tolerance (mm)"
+          getValue={() => appPreferences.curveFittingTolerance.toUser().toString()}
+          setValue={v => (appPreferences.curveFittingTolerance = clamp(parseFloat(v), 0.1, 1000))}
+          isValidIntermediate={v => v === "" || new RegExp("^[0-9]*\\.?[0-9]*$").test(v)}
+          isValidValue={v => new RegExp("^[0-9]+(\\.[0-9]+)?$").test(v) && parseFloat(v) > 0}
+          numeric
+        />
+        <Typography variant="body2" color="grey" marginBottom="16px">
+          Used to reconstruct editable paths from files without path.jerryio data. A smaller tolerance produces more
+          segments.
+        </Typography>
+
+        <Divider />
+
+        <Typography marginY="16px">Autosave</Typography>
+        <Box className="PreferencesModal-Row">
+          <FormInputField
+            sx={{ width: "10rem" }}
+            label="Interval (seconds)"
+            getValue={() => appPreferences.autosaveInterval.toString()}
+            setValue={v => (appPreferences.autosaveInterval = clamp(parseInt(v), 0, 3600))}
+            isValidIntermediate={v => v === "" || new RegExp("^[0-9]*$").test(v)}
+            isValidValue={v => new RegExp("^[0-9]+$").test(v)}
+            numeric
+          />
+          <FormInputField
+            sx={{ width: "10rem" }}
+            label="Max Snapshots"
+            getValue={() => appPreferences.maxAutosaveSnapshots.toString()}
+            setValue={v => (appPreferences.maxAutosaveSnapshots = clamp(parseInt(v), 1, 100))}
+            isValidIntermediate={v => v === "" || new RegExp("^[1-9][0-9]*$").test(v)}
+            isValidValue={v => new RegExp("^[1-9][0-9]*$").test(v)}
+            numeric
+          />
+          <FormInputField
+            sx={{ width: "10rem" }}
+            label="Keep for (days)"
+            getValue={() => appPreferences.autosaveRetentionDays.toString()}
+            setValue={v => (appPreferences.autosaveRetentionDays = clamp(parseInt(v), 1, 365))}
+            isValidIntermediate={v => v === "" || new RegExp("^[1-9][0-9]*$").test(v)}
+            isValidValue={v => new RegExp("^[1-9][0-9]*$").test(v)}
+            numeric
+          />
+        </Box>
+        <Typography variant="body2" color="grey" marginBottom="16px">
+          Unsaved work is stored in the browser periodically. Set the interval to 0 to disable autosave.
+        </Typography>
+
+        <Divider />
+
         <Typography marginY="16px">Other</Typography>
         <FormCheckbox
           label="Enable Google Analytics"
@@ -0,0 +1,176 @@
+import { action, makeAutoObservable } from "mobx";
+import { observer } from "mobx-react-lite";
+import { Box, Button, Card, Typography } from "@mui/material";
+import { getAppStores } from "@core/MainApp";
+import { TransformControls } from "@core/Command";
+import { findCentralPoint } from "@core/Calculation";
+import { computeAngleFormula, computeLengthFormula } from "@core/Formula";
+import { getTransformHeadingKeyframes, getTransformTargets, toFieldTransformation } from "@core/Transform";
+import { useMobxStorage } from "@core/Hook";
+import { Vector } from "@core/Path";
+import { FormInputField } from "@app/component.blocks/FormInputField";
+import { FormItemSelect } from "@app/component.blocks/FormItemSelect";
+import { Modal } from "./Modal";
+
+import "./TransformSelectionModal.scss";
+
+export const TransformSelectionModalSymbol = Symbol("TransformSelectionModalSymbol");
+
+enum TransformPivot {
+  SelectionCenter = "selection-center",
+  Origin = "origin",
+  Custom = "custom"
+}
+
+const PIVOT_ITEMS = [
+  { key: TransformPivot.SelectionCenter, value: TransformPivot.SelectionCenter, label: "Selection Center" },
+  { key: TransformPivot.Origin, value: TransformPivot.Origin, label: "Origin" },
+  { key: TransformPivot.Custom, value: TransformPivot.Custom, label: "Custom" }
+];
+
+class TransformSelectionVariables {
+  dx: number = 0; // in UOL, in the coordinate system
+  dy: number = 0;
+  angle: number = 0; // in degrees, in the heading direction of the coordinate system
+  scale: number = 1;
+  pivot: TransformPivot = TransformPivot.SelectionCenter;
+  pivotX: number = 0; // in UOL, in the coordinate system
+  pivotY: number = 0;
+
+  constructor() {
+    makeAutoObservable(this);
+  }
+}
+
+const LengthInputField = observer(
+  (props: { label: string; getValue: () => number; setValue: (value: number) => void }) => {
+    const { app } = getAppStores();
+
+    return (
+      <FormInputField
+        sx={{ width: "8rem" }}
+        label={props.label}
+        getValue={() => props.getValue().toUser() + ""}
+        setValue={(value: string, payload: number | undefined) => props.setValue(payload ?? props.getValue())}
+        isValidIntermediate={() => true}
+        isValidValue={(candidate: string) => {
+          const value = computeLengthFormula(candidate, app.gc.uol);
+          return [value !== undefined, value];
+        }}
+        numeric
+      />
+    );
+  }
+);
+
+export const TransformSelectionModal = observer(() => {
+  const { app, ui } = getAppStores();
+
+  const variables = useMobxStorage(() => new TransformSelectionVariables());
+
+  const onApply = () => {
+    const targets = getTransformTargets(app.paths, app.selectedEntityIds);
+    const central = findCentralPoint(targets);
+    if (central === undefined) return;
+
+    // ALGO: The values are in the active coordinate system, they are converted to the field
+    const cst = app.fieldEditor.coordinateSystemTransformation;
+    let pivot: Vector;
+    if (variables.pivot === TransformPivot.SelectionCenter) {
+      const center = cst.transform(central);
+      pivot = new Vector(center.x, center.y);
+    } else if (variables.pivot === TransformPivot.Origin) {
+      pivot = new Vector(0, 0);
+    } else {
+      pivot = new Vector(variables.pivotX, variables.pivotY);
+    }
+
+    const { dx, dy, angle, scale } = variables;
+    const transformation = toFieldTransformation({ dx, dy, angle, scale, pivot }, cst);
+    const keyframes = getTransformHeadingKeyframes(app.paths, targets);
+    app.history.execute(
+      `Transform ${targets.length} controls`,
+      new TransformControls(targets, transformation, keyframes)
+    );
+
+    ui.closeModal(TransformSelectionModalSymbol);
+  };
+
+  return (
+    <Modal symbol={TransformSelectionModalSymbol}>
+      <Card id="TransformSelectionModal" className="Modal-Container">
+        <Typography variant="h2" gutterBottom>
+          Transform Selection
+        </Typography>
+        <Typography variant="body2" color="grey" marginBottom="16px">
+          The selected controls are rotated and scaled around the pivot, then translated. The values are in the
+          coordinate system.
+        </Typography>
+        <Box className="TransformSelectionModal-Row">
+          <LengthInputField label="Translate X" getValue={() => variables.dx} setValue={v => (variables.dx = v)} />
+          <LengthInputField label="Translate Y" getValue={() => variables.dy} setValue={v => (variables.dy = v)} />
+        </Box>
+        <Box className="TransformSelectionModal-Row">
+          <FormInputField
+            sx={{ width: "8rem" }}
+            label="Rotate (°)"
+            getValue={() => variables.angle.toUser() + ""}
+            setValue={(value: string, payload: number | undefined) => (variables.angle = payload ?? variables.angle)}
+            isValidIntermediate={() => true}
+            isValidValue={(candidate: string) => {
+              const value = computeAngleFormula(candidate);
+              return [value !== undefined, value];
+            }}
+            numeric
+          />
+          <FormInputField
+            sx={{ width: "8rem" }}
+            label="Scale"
+            getValue={() => variables.scale.toUser() + ""}
+            setValue={v => (variables.scale = parseFloat(v))}
+            isValidIntermediate={v => v === "" || new RegExp("^[0-9]*\\.?[0-9]*$").test(v)}
+            isValidValue={v => new RegExp("^[0-9]+(\\.[0-9]+)?$").test(v) && parseFloat(v) > 0}
+            numeric
+          />
+        </Box>
+        <Box className="TransformSelectionModal-Row">
+          <FormItemSelect
+            sx={{ width: "10rem" }}
+            label="Pivot"
+            selected={variables.pivot}
+            items={PIVOT_ITEMS}
+            onSelectItem={action((value: TransformPivot | undefined) => {
+              if (value !== undefined) variables.pivot = value;
+            })}
+          />
+          {variables.pivot === TransformPivot.Custom && (
+            <>
+              <LengthInputField
+                label="Pivot X"
+                getValue={() => variables.pivotX}
+                setValue={v => (variables.pivotX = v)}
+              />
+              <LengthInputField
+                label="Pivot Y"
+                getValue={() => variables.pivotY}
+                setValue={v => (variables.pivotY = v)}
+              />
+            </>
+          )}
+        </Box>
+        <Box className="TransformSelectionModal-ButtonBox">
+          <Button
+            disableRipple
+            variant="text"
+            color="inherit"
+            onClick={() => ui.closeModal(TransformSelectionModalSymbol)}>
+            Cancel
+          </Button>
+          <Button disableRipple variant="text" color="primary" onClick={action(onApply)}>
+            Apply
+          </Button>
+        </Box>
+      </Card>
+    </Modal>
+  );
+});
@@ -0,0 +1,162 @@
+import { Box, Button, IconButton, Tooltip, Typography } from "@mui/material";
+import { action } from "mobx";
+import { observer } from "mobx-react-lite";
+import { getAppStores } from "@core/MainApp";
+import { PanelBuilderProps, PanelInstanceProps } from "@core/Layout";
+import { UpdateConstraints } from "@core/Command";
+import { Constraint, ConstraintType, getConstraintSourceUids } from "@core/Constraint";
+import { computeLengthFormula, getFormulaReferenceName } from "@core/Formula";
+import { AnyControl, Control, EndControl, Path } from "@core/Path";
+import { Quantity, UnitOfLength } from "@core/Unit";
+import { FormInputField } from "@app/component.blocks/FormInputField";
+import { PanelBox } from "@app/component.blocks/PanelBox";
+import LinkIcon from "@mui/icons-material/Link";
+import DeleteIcon from "@mui/icons-material/Delete";
+
+import "./ConstraintsPanel.scss";
+
+/**
+ * @param paths The paths of all routines
+ * @param uid The uid of the control
+ * @returns The reference name of the control, or "(missing)" if the control is removed
+ */
+function getControlName(paths: Path[], uid: string): string {
+  for (const path of paths) {
+    const control = path.controls.find(control => control.uid === uid);
+    if (control !== undefined) return getFormulaReferenceName(path, control);
+  }
+  return "(missing)";
+}
+
+function getConstraintDescription(constraint: Constraint): string {
+  switch (constraint.type) {
+    case ConstraintType.OnLine:
+      return "stays on the line between";
+    case ConstraintType.Distance:
+      return "keeps the distance from";
+    case ConstraintType.SameHeading:
+      return "has the same heading as";
+  }
+}
+
+const ConstraintItem = observer((props: { constraint: Constraint }) => {
+  const { constraint } = props;
+  const { app } = getAppStores();
+
+  const paths = app.routines.flatMap(routine => routine.paths);
+  const target = getControlName(paths, constraint.target);
+  const sources = getConstraintSourceUids(constraint).map(uid => getControlName(paths, uid));
+
+  const onRemove = () => {
+    app.history.execute(
+      `Remove constraint of ${constraint.target}`,
+      new UpdateConstraints(
+        app,
+        app.constraints.filter(c => c !== constraint)
+      )
+    );
+  };
+
+  return (
+    <PanelBox marginTop="8px" className="ConstraintsPanel-Item">
+      <Typography variant="body2" className="ConstraintsPanel-Description">
+        <b>{target}</b> {getConstraintDescription(constraint)} <b>{sources.join(" and ")}</b>
+      </Typography>
+      {constraint.type === ConstraintType.Distance && (
+        <FormInputField
+          label="Distance"
+          getValue={() =>
+            new Quantity<UnitOfLength>(constraint.distance, UnitOfLength.Centimeter).to(app.gc.uol).toUser() + ""
+          }
+          setValue={(value: string, distance: number | undefined) => {
+            if (distance === undefined || distance === constraint.distance) return;
+            const constraints = app.constraints.map(c => (c === constraint ? { ...constraint, distance } : c));
+            app.history.execute(
+              `Change constraint distance of ${constraint.target}`,
+              new UpdateConstraints(app, constraints)
+            );
+          }}
+          isValidIntermediate={() => true}
+          isValidValue={(candidate: string) => {
+            const value = computeLengthFormula(candidate, app.gc.uol);
+            if (value === undefined || value < 0) return [false, undefined];
+            return [true, new Quantity<UnitOfLength>(value, app.gc.uol).to(UnitOfLength.Centimeter)];
+          }}
+          sx={{ width: "5rem" }}
+          numeric
+        />
+      )}
+      <Tooltip title="Remove Constraint">
+        <IconButton size="small" className="ConstraintsPanel-ActionButton" onClick={action(onRemove)}>
+          <DeleteIcon />
+        </IconButton>
+      </Tooltip>
+    </PanelBox>
+  );
+});
+
+const ConstraintsPanelBody = observer((props: {}) => {
+  const { app } = getAppStores();
+
+  // ALGO: The first selected control is the target, it follows the other selected controls
+  const selected = app.selectedEntityIds
+    .map(uid => app.selectedEntities.find(entity => entity.uid === uid))
+    .filter((entity): entity is AnyControl => entity instanceof EndControl || entity instanceof Control);
+  const [target, ...sources] = selected;
+
+  const addConstraint = (constraint: Constraint) => {
+    app.history.execute(
+      `Add constraint to ${constraint.target}`,
+      new UpdateConstraints(app, [...app.constraints, constraint])
+    );
+  };
+
+  const onAddOnLine = () => {
+    if (sources.length !== 2) return;
+    addConstraint({ type: ConstraintType.OnLine, target: target.uid, from: sources[0].uid, to: sources[1].uid });
+  };
+
+  const onAddDistance = () => {
+    if (sources.length !== 1) return;
+    const distance = new Quantity<UnitOfLength>(target.distance(sources[0]), app.gc.uol).to(UnitOfLength.Centimeter);
+    addConstraint({ type: ConstraintType.Distance, target: target.uid, anchor: sources[0].uid, distance });
+  };
+
+  const onAddSameHeading = () => {
+    if (sources.length !== 1) return;
+    addConstraint({ type: ConstraintType.SameHeading, target: target.uid, source: sources[0].uid });
+  };
+
+  const isEndControls = selected.every(control => control instanceof EndControl);
+
+  return (
+    <Box id="ConstraintsPanel">
+      <Typography variant="body2" color="grey">
+        Select the controls on the field, the first selected control follows the others.
+      </Typography>
+      <PanelBox marginTop="8px">
+        <Button size="small" disabled={selected.length !== 3} onClick={action(onAddOnLine)}>
+          On Line
+        </Button>
+        <Button size="small" disabled={selected.length !== 2} onClick={action(onAddDistance)}>
+          Distance
+        </Button>
+        <Button size="small" disabled={selected.length !== 2 || !isEndControls} onClick={action(onAddSameHeading)}>
+          Same Heading
+        </Button>
+      </PanelBox>
+      {app.constraints.map((constraint, index) => (
+        <ConstraintItem key={index} constraint={constraint} />
+      ))}
+    </Box>
+  );
+});
+
+export const ConstraintsPanel = (props: PanelBuilderProps): PanelInstanceProps => {
+  return {
+    id: "ConstraintsPanel",
+    header: "Constraints",
+    children: <ConstraintsPanelBody />,
+    icon: <LinkIcon fontSize="large" />
+  };
+};
@@ -3,14 +3,13 @@ import { action } from "mobx";
 import { observer } from "mobx-react-lite";
 import { AnyControl, Control, EndControl } from "@core/Path";
 import { FormInputField, clampQuantity } from "@app/component.blocks/FormInputField";
-import { Quantity, UnitOfAngle, UnitOfLength } from "@core/Unit";
+import { Quantity, UnitOfLength } from "@core/Unit";
 import { boundHeading, findCentralPoint } from "@core/Calculation";
 import { Coordinate, CoordinateWithHeading, EuclideanTransformation, isCoordinateWithHeading } from "@core/Coordinate";
 import { PanelBuilderProps, PanelInstanceProps } from "@core/Layout";
 import { UpdatePathTreeItems } from "@core/Command";
 import { getAppStores } from "@core/MainApp";
-import { NumberUOA, NumberUOL } from "@token/Tokens";
-import { parseFormula } from "@core/Util";
+import { computeAngleFormula, computeLengthFormula } from "@core/Formula";
 import FiberManualRecordIcon from "@mui/icons-material/FiberManualRecord";
 import FlipIcon from "@mui/icons-material/Flip";
 import RotateLeftIcon from "@mui/icons-material/RotateLeft";
@@ -141,13 +140,12 @@ const ControlConfigPanelBody = observer((props: {}) => {
         <FormInputField
           label="X"
           getValue={() => xDisplayValue}
-          setValue={(value: string) => {
-            if (cst === undefined) return;
+          setValue={(value: string, xValueInFCS: number | undefined) => {
+            if (cst === undefined || xValueInFCS === undefined) return;
             const control = app.selectedControl;
             if (control === undefined) return;
 
             const coordInFCS = cst.transform(control);
-            const xValueInFCS = parseFormula(value, NumberUOL.parse)!.compute(app.gc.uol);
             const newCoord = cst.inverseTransform({ ...coordInFCS, x: xValueInFCS });
 
             newCoord.x = clampQuantityValue(newCoord.x);
@@ -159,20 +157,22 @@ const ControlConfigPanelBody = observer((props: {}) => {
             );
           }}
           isValidIntermediate={() => true}
-          isValidValue={(candidate: string) => parseFormula(candidate, NumberUOL.parse) !== null}
+          isValidValue={(candidate: string) => {
+            const value = computeLengthFormula(candidate, app.gc.uol);
+            return [value !== undefined, value];
+          }}
           disabled={app.selectedEntityCount !== 1 || app.selectedControl === undefined}
           numeric
         />
         <FormInputField
           label="Y"
           getValue={() => yDisplayValue}
-          setValue={(value: string) => {
-            if (cst === undefined) return;
+          setValue={(value: string, yValueInFCS: number | undefined) => {
+            if (cst === undefined || yValueInFCS === undefined) return;
             const control = app.selectedControl;
             if (control === undefined) return;
 
             const coordInFCS = cst.transform(control);
-            const yValueInFCS = parseFormula(value, NumberUOL.parse)!.compute(app.gc.uol);
             const newCoord = cst.inverseTransform({ ...coordInFCS, y: yValueInFCS });
 
             newCoord.x = clampQuantityValue(newCoord.x);
@@ -184,20 +184,22 @@ const ControlConfigPanelBody = observer((props: {}) => {
             );
           }}
           isValidIntermediate={() => true}
-          isValidValue={(candidate: string) => parseFormula(candidate, NumberUOL.parse) !== null}
+          isValidValue={(candidate: string) => {
+            const value = computeLengthFormula(candidate, app.gc.uol);
+            return [value !== undefined, value];
+          }}
           disabled={app.selectedEntityCount !== 1 || app.selectedControl === undefined}
           numeric
         />
         <FormInputField
           label="Heading"
           getValue={() => headingDisplayValue}
-          setValue={(value: string) => {
-            if (cst === undefined) return;
+          setValue={(value: string, headingValueInFCS: number | undefined) => {
+            if (cst === undefined || headingValueInFCS === undefined) return;
             const control = app.selectedControl;
             if (!(control instanceof EndControl)) return;
 
             const coordInFCS = cst.transform(control);
-            const headingValueInFCS = parseFormula(value, NumberUOA.parse)!.compute(UnitOfAngle.Degree);
             const newCoord = cst.inverseTransform({ ...coordInFCS, heading: headingValueInFCS });
 
             const controlUid = control.uid;
@@ -209,7 +211,10 @@ const ControlConfigPanelBody = observer((props: {}) => {
             );
           }}
           isValidIntermediate={() => true}
-          isValidValue={(candidate: string) => parseFormula(candidate, NumberUOA.parse) !== null}
+          isValidValue={(candidate: string) => {
+            const value = computeAngleFormula(candidate);
+            return [value !== undefined, value];
+          }}
           disabled={app.selectedEntityCount !== 1 || app.selectedControl === undefined}
           sx={{
             visibility: app.selectedEntityCount === 1 && !(app.selectedControl instanceof EndControl) ? "hidden" : ""
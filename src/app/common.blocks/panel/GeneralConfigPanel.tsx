@@ -51,14 +51,19 @@ const GeneralConfigPanelBody = observer((props: {}) => {
 
     appPreferences.lastSelectedFormat = newFormat.getName();
 
-    const newPaths = newFormat.convertFromFormat(oldFormat, app.paths);
+    // ALGO: All routines share the same format
+    const newPaths = app.routines.map(routine => newFormat.convertFromFormat(oldFormat, routine.paths));
 
     app.format = newFormat;
-    app.paths = newPaths;
+    app.routines.forEach((routine, idx) => (routine.paths = newPaths[idx]));
   });
 
   const onChangeFormat = action((e: SelectChangeEvent<number>) => {
-    if (app.history.undoHistorySize === 0 && app.history.redoHistorySize === 0 && app.paths.length === 0) {
+    if (
+      app.history.undoHistorySize === 0 &&
+      app.history.redoHistorySize === 0 &&
+      app.routines.every(routine => routine.paths.length === 0)
+    ) {
       changeFormat(parseInt(e.target.value + ""));
     } else {
       confirmation.prompt({
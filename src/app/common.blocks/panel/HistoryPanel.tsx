@@ -0,0 +1,218 @@
+import { Box, IconButton, List, ListItem, ListItemButton, ListItemText, Tooltip, Typography } from "@mui/material";
+import { action } from "mobx";
+import { observer } from "mobx-react-lite";
+import { getAppStores } from "@core/MainApp";
+import { PanelBuilderProps, PanelInstanceProps } from "@core/Layout";
+import { HistoryBranchPoint, HistoryRecord } from "@core/Command";
+import HistoryIcon from "@mui/icons-material/History";
+import NavigateBeforeIcon from "@mui/icons-material/NavigateBefore";
+import NavigateNextIcon from "@mui/icons-material/NavigateNext";
+import BookmarkIcon from "@mui/icons-material/Bookmark";
+import BookmarkBorderIcon from "@mui/icons-material/BookmarkBorder";
+
+import "./HistoryPanel.scss";
+
+function promptCheckpointName(index: number) {
+  const { app, confirmation } = getAppStores();
+
+  const count = app.history.undoRecords.filter(record => record.checkpoint !== undefined).length;
+
+  confirmation.prompt({
+    title: "Pin Checkpoint",
+    description: "Checkpoints are kept even if the number of undo operations exceeds the limit.",
+    buttons: [
+      {
+        label: "Confirm",
+        color: "success",
+        onClick: action(() => {
+          const name = confirmation.input?.trim() ?? "";
+          if (name !== "") app.history.setCheckpoint(index, name);
+        })
+      },
+      { label: "Cancel" }
+    ],
+    inputLabel: "Name",
+    inputDefaultValue: `Checkpoint ${count + 1}`
+  });
+}
+
+type HistoryTreeRowKind = "undo" | "redo" | "inactive";
+
+interface HistoryTreeRow {
+  record: HistoryRecord;
+  depth: number;
+}
+
+/**
+ * ALGO: Depth-first traversal of the undo tree, the active branch continues at the same depth and the other branches
+ * are listed before it as indented subtrees
+ *
+ * @param state The state to traverse from
+ * @param pending The uncommitted record, it is treated as the active branch of its parent
+ * @param depth The depth of the state
+ * @param rows The output rows
+ */
+function collectHistoryTreeRows(
+  state: HistoryBranchPoint,
+  pending: HistoryRecord | undefined,
+  depth: number,
+  rows: HistoryTreeRow[]
+) {
+  const isPendingParent = pending !== undefined && pending.parent === state;
+  const branches = isPendingParent ? [...state.branches, pending] : state.branches;
+  const activeBranch = isPendingParent ? branches.length - 1 : state.activeBranch;
+
+  branches.forEach((record, index) => {
+    if (index === activeBranch) return;
+    rows.push({ record, depth: depth + 1 });
+    collectHistoryTreeRows(record, pending, depth + 1, rows);
+  });
+
+  const active = branches[activeBranch];
+  if (active === undefined) return;
+  rows.push({ record: active, depth });
+  collectHistoryTreeRows(active, pending, depth, rows);
+}
+
+const HistoryRecordItem = observer(
+  (props: {
+    record: HistoryRecord;
+    depth: number;
+    kind: HistoryTreeRowKind;
+    isCurrent: boolean;
+    pinnableIndex?: number;
+  }) => {
+    const { app } = getAppStores();
+    const { record, depth, kind, isCurrent, pinnableIndex } = props;
+
+    const isCheckpoint = record.checkpoint !== undefined;
+    const time = new Date(record.time).toLocaleTimeString();
+
+    const onPin = () => {
+      if (pinnableIndex === undefined) return;
+      if (isCheckpoint) app.history.setCheckpoint(pinnableIndex, undefined);
+      else promptCheckpointName(pinnableIndex);
+    };
+
+    return (
+      <ListItem
+        className="HistoryPanel-Item"
+        disablePadding
+        secondaryAction={
+          pinnableIndex !== undefined && (
+            <Tooltip title={isCheckpoint ? "Unpin Checkpoint" : "Pin as Checkpoint"}>
+              <IconButton
+                edge="end"
+                size="small"
+                className={isCheckpoint ? "HistoryPanel-PinnedButton" : "HistoryPanel-PinButton"}
+                onClick={action(onPin)}>
+                {isCheckpoint ? <BookmarkIcon fontSize="small" /> : <BookmarkBorderIcon fontSize="small" />}
+              </IconButton>
+            </Tooltip>
+          )
+        }>
+        <ListItemButton
+          selected={isCurrent}
+          sx={{ paddingLeft: `${16 + depth * 16}px` }}
+          onClick={action(() => !isCurrent && app.history.jumpToState(record))}>
+          <ListItemText
+            className={
+              kind === "redo"
+                ? "HistoryPanel-RedoItemText"
+                : kind === "inactive"
+                ? "HistoryPanel-InactiveItemText"
+                : undefined
+            }
+            sx={{ textWrap: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}
+            primary={record.checkpoint ?? record.title}
+            secondary={isCheckpoint ? `${record.title} · ${time}` : time}
+          />
+        </ListItemButton>
+      </ListItem>
+    );
+  }
+);
+
+const HistoryBranchControl = observer((props: {}) => {
+  const { app } = getAppStores();
+
+  const { index, count } = app.history.branchPosition;
+
+  return (
+    <Box className="HistoryPanel-BranchControl">
+      <Tooltip title="Previous Branch">
+        <span>
+          <IconButton size="small" disabled={index <= 0} onClick={action(() => app.history.switchBranch(-1))}>
+            <NavigateBeforeIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Typography variant="body2">
+        Branch {index + 1} of {count}
+      </Typography>
+      <Tooltip title="Next Branch">
+        <span>
+          <IconButton size="small" disabled={index >= count - 1} onClick={action(() => app.history.switchBranch(1))}>
+            <NavigateNextIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+    </Box>
+  );
+});
+
+const HistoryPanelBody = observer((props: {}) => {
+  const { app } = getAppStores();
+
+  const rootState = app.history.rootState;
+  const pending = app.history.pendingRecord;
+  const undoRecords = app.history.undoRecords;
+  const redoRecords = app.history.redoRecords;
+
+  const rows: HistoryTreeRow[] = [];
+  collectHistoryTreeRows(rootState, pending, 0, rows);
+
+  if (rows.length === 0) return <Typography>(No history)</Typography>;
+
+  const current = undoRecords[undoRecords.length - 1];
+
+  // UX: The records are listed from the oldest to the latest, the abandoned branches are indented and greyed out
+  return (
+    <>
+      <HistoryBranchControl />
+      <List dense className="HistoryPanel-List">
+        <ListItem disablePadding>
+          <ListItemButton
+            selected={current === undefined}
+            onClick={action(() => current !== undefined && app.history.jumpToState(rootState))}>
+            <ListItemText primary="Oldest Available State" />
+          </ListItemButton>
+        </ListItem>
+        {rows.map(({ record, depth }, index) => {
+          const undoIndex = undoRecords.indexOf(record);
+          const kind: HistoryTreeRowKind =
+            undoIndex !== -1 ? "undo" : redoRecords.includes(record) ? "redo" : "inactive";
+          return (
+            <HistoryRecordItem
+              key={"record-" + index}
+              record={record}
+              depth={depth}
+              kind={kind}
+              isCurrent={record === current}
+              pinnableIndex={undoIndex !== -1 ? undoIndex : undefined}
+            />
+          );
+        })}
+      </List>
+    </>
+  );
+});
+
+export const HistoryPanel = (props: PanelBuilderProps): PanelInstanceProps => {
+  return {
+    id: "HistoryPanel",
+    header: "History",
+    children: <HistoryPanelBody />,
+    icon: <HistoryIcon fontSize="large" />
+  };
+};
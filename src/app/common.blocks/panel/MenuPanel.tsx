@@ -18,17 +18,31 @@ import { observer } from "mobx-react-lite";
 
 import React, { forwardRef } from "react";
 import { IS_MAC_OS, getMacHotKeyString, makeId } from "@core/Util";
-import { onDownload, onDownloadAs, onNew, onOpen, onSave, onSaveAs } from "@core/InputOutput";
+import {
+  onDownload,
+  onDownloadAllRoutines,
+  onDownloadAs,
+  onNew,
+  onOpen,
+  onSave,
+  onSaveAs,
+  onShareLink
+} from "@core/InputOutput";
 import { getAppStores } from "@core/MainApp";
 import { AppThemeType } from "@app/Theme";
-import { RemovePathsAndEndControls } from "@core/Command";
+import { MirrorPaths, RemovePathsAndEndControls } from "@core/Command";
+import { MirrorType } from "@core/CoordinateSystem";
 import { checkForUpdates } from "@core/Versioning";
 import { Path } from "@core/Path";
+import { UnitOfLength } from "@core/Unit";
+import { getTransformTargets } from "@core/Transform";
 import { LayoutContext, LayoutType, getAvailableLayouts } from "@core/Layout";
 import { useWindowSize } from "@core/Hook";
 import { AboutModalSymbol } from "../modal/AboutModal";
 import { WelcomeModalSymbol } from "../modal/WelcomeModal";
 import { PreferencesModalSymbol } from "../modal/PreferencesModal";
+import { AutosaveRecoveryModalSymbol } from "../modal/AutosaveRecoveryModal";
+import { TransformSelectionModalSymbol } from "../modal/TransformSelectionModal";
 
 import "./MenuPanel.scss";
 
@@ -447,7 +461,20 @@ const FileMenuItems = () => {
       hotkey="Shift+Mod+D"
       onClick={() => onDownloadAs()}
     />,
+    <CustomMenuItem
+      key={makeId(10)}
+      showLeftIcon={false}
+      label="Download All Routines"
+      onClick={() => onDownloadAllRoutines()}
+    />,
+    <CustomMenuItem key={makeId(10)} showLeftIcon={false} label="Share Link" onClick={() => onShareLink()} />,
     <Divider key={makeId(10)} />,
+    <CustomMenuItem
+      key={makeId(10)}
+      showLeftIcon={false}
+      label="Recover Unsaved Work"
+      onClick={() => ui.openModal(AutosaveRecoveryModalSymbol)}
+    />,
     <CustomMenuItem
       key={makeId(10)}
       showLeftIcon={false}
@@ -459,7 +486,17 @@ const FileMenuItems = () => {
 };
 
 const EditMenuItems = () => {
-  const { app, clipboard } = getAppStores();
+  const { app, clipboard, ui } = getAppStores();
+
+  // UX: A path is mirrored if it is selected or any of its controls is selected
+  const mirroringPaths = app.paths.filter(
+    path => app.isSelected(path) || path.controls.some(control => app.isSelected(control))
+  );
+
+  const onMirror = (type: MirrorType) => {
+    app.history.execute(`Mirror paths ${type}`, new MirrorPaths(mirroringPaths, type));
+  };
+
   return [
     <CustomMenuItem
       key={makeId(10)}
@@ -521,6 +558,39 @@ const EditMenuItems = () => {
         app.history.execute(`Remove paths and end controls`, command);
       }}
     />,
+    <CustomMenuItem
+      key={makeId(10)}
+      showLeftIcon={false}
+      label="Mirror"
+      disabled={mirroringPaths.length === 0 && "Select paths to mirror"}>
+      {[
+        <CustomMenuItem
+          key={makeId(10)}
+          showLeftIcon={false}
+          label="Across Vertical Centerline"
+          onClick={() => onMirror(MirrorType.VerticalCenterline)}
+        />,
+        <CustomMenuItem
+          key={makeId(10)}
+          showLeftIcon={false}
+          label="Across Horizontal Centerline"
+          onClick={() => onMirror(MirrorType.HorizontalCenterline)}
+        />,
+        <CustomMenuItem
+          key={makeId(10)}
+          showLeftIcon={false}
+          label="Rotate 180°"
+          onClick={() => onMirror(MirrorType.Rotate180)}
+        />
+      ]}
+    </CustomMenuItem>,
+    <CustomMenuItem
+      key={makeId(10)}
+      showLeftIcon={false}
+      label="Transform Selection..."
+      disabled={getTransformTargets(app.paths, app.selectedEntityIds).length === 0 && "Select controls to transform"}
+      onClick={() => ui.openModal(TransformSelectionModalSymbol)}
+    />,
     <Divider key={makeId(10)} />,
     <CustomMenuItem
       key={makeId(10)}
@@ -555,6 +625,16 @@ const ViewMenuItems = () => {
 
   const availableLayouts = getAvailableLayouts(windowSize);
 
+  const isTileGrid = (spacing: number) =>
+    appPreferences.gridSpacing === spacing && appPreferences.gridSpacingUnit === UnitOfLength.Tile;
+
+  const setTileGrid = (spacing: number) => {
+    // UX: Show the grid when the spacing is selected
+    appPreferences.gridSpacing = spacing;
+    appPreferences.gridSpacingUnit = UnitOfLength.Tile;
+    appPreferences.isGridVisible = true;
+  };
+
   return [
     <CustomMenuItem
       key={makeId(10)}
@@ -597,6 +677,53 @@ const ViewMenuItems = () => {
           <Divider key={makeId(10)} />
         ]
       : []),
+    <CustomMenuItem
+      key={makeId(10)}
+      showLeftIcon={appPreferences.isGridVisible}
+      label="Grid"
+      hotkey="G"
+      onClick={() => (appPreferences.isGridVisible = !appPreferences.isGridVisible)}
+    />,
+    <CustomMenuItem
+      key={makeId(10)}
+      showLeftIcon={isTileGrid(1)}
+      label="Tile Grid Spacing"
+      onClick={() => setTileGrid(1)}
+    />,
+    <CustomMenuItem
+      key={makeId(10)}
+      showLeftIcon={isTileGrid(0.5)}
+      label="Half-Tile Grid Spacing"
+      onClick={() => setTileGrid(0.5)}
+    />,
+    <Divider key={makeId(10)} />,
+    <CustomMenuItem
+      key={makeId(10)}
+      showLeftIcon={app.fieldEditor.isMeasuring}
+      label="Measure"
+      hotkey="M"
+      onClick={() => (app.fieldEditor.isMeasuring = !app.fieldEditor.isMeasuring)}
+    />,
+    <CustomMenuItem
+      key={makeId(10)}
+      showLeftIcon={false}
+      label="Pin Measurement"
+      hotkey="Shift+M"
+      disabled={app.fieldEditor.measurement.length < 2 && "Measure two or three points first"}
+      onClick={() => app.fieldEditor.pinMeasurement()}
+    />,
+    <CustomMenuItem
+      key={makeId(10)}
+      showLeftIcon={false}
+      label="Clear Measurements"
+      disabled={
+        app.fieldEditor.measurement.length === 0 &&
+        app.fieldEditor.pinnedMeasurements.length === 0 &&
+        "There is no measurement"
+      }
+      onClick={() => app.fieldEditor.clearMeasurements()}
+    />,
+    <Divider key={makeId(10)} />,
     <CustomMenuItem
       key={makeId(10)}
       showLeftIcon={false}
@@ -0,0 +1,134 @@
+import { Box, Button, Typography } from "@mui/material";
+import { action, runInAction } from "mobx";
+import { observer } from "mobx-react-lite";
+import { MuiFileInput } from "mui-file-input";
+import { getAppStores } from "@core/MainApp";
+import { Logger } from "@core/Logger";
+import { PanelBuilderProps, PanelInstanceProps } from "@core/Layout";
+import { parseOdometryLog } from "@core/OdometryLog";
+import { enqueueErrorSnackbar, enqueueSuccessSnackbar } from "@app/Notice";
+import { FormCheckbox } from "@app/component.blocks/FormCheckbox";
+import { FormItemSelect } from "@app/component.blocks/FormItemSelect";
+import { PanelBox } from "@app/component.blocks/PanelBox";
+import TimelineIcon from "@mui/icons-material/Timeline";
+
+import "./OdometryLogPanel.scss";
+
+const logger = Logger("Odometry Log");
+
+const CrossTrackErrorTable = observer((props: {}) => {
+  const { app } = getAppStores();
+
+  const odometryLog = app.odometryLog;
+  const path = odometryLog.path;
+  if (path === undefined) return null;
+
+  const statistics = odometryLog.statistics;
+
+  return (
+    <Box className="OdometryLogPanel-Table">
+      <Typography variant="body2" className="OdometryLogPanel-Header">
+        <span>Segment</span>
+        <span>Poses</span>
+        <span>Mean</span>
+        <span>RMS</span>
+        <span>Max</span>
+      </Typography>
+      {statistics.map(stat => {
+        const segment = path.segments[stat.segmentIndex];
+        return (
+          <Typography
+            key={segment.uid}
+            variant="body2"
+            className={
+              "OdometryLogPanel-Row" + (app.hoverItem === segment.uid ? " OdometryLogPanel-Row-highlighted" : "")
+            }
+            onClick={action(() => {
+              // UX: Highlight the segment on the field
+              app.hoverItem = app.hoverItem === segment.uid ? undefined : segment.uid;
+            })}>
+            <span>{stat.segmentIndex + 1}</span>
+            <span>{stat.count}</span>
+            <span>{stat.count === 0 ? "-" : stat.mean.toUser()}</span>
+            <span>{stat.count === 0 ? "-" : stat.rms.toUser()}</span>
+            <span>{stat.count === 0 ? "-" : stat.max.toUser()}</span>
+          </Typography>
+        );
+      })}
+    </Box>
+  );
+});
+
+const OdometryLogPanelBody = observer((props: {}) => {
+  const { app } = getAppStores();
+
+  const odometryLog = app.odometryLog;
+
+  const onImportLog = async (file: File | null) => {
+    if (file === null) return;
+
+    try {
+      const entries = parseOdometryLog(await file.text());
+      if (entries.length === 0) throw new Error("The log is empty");
+
+      runInAction(() => odometryLog.load(file.name, entries, app.interestedPath()));
+      enqueueSuccessSnackbar(logger, `Imported ${entries.length} poses`);
+    } catch (err) {
+      enqueueErrorSnackbar(logger, err instanceof Error ? `Failed to import log: ${err.message}` : err);
+    }
+  };
+
+  return (
+    <>
+      <Typography variant="body2" color="grey">
+        CSV or JSON with timestamp (s), x, y, heading and optional velocity, in the coordinate system of the format.
+      </Typography>
+      <PanelBox>
+        <MuiFileInput
+          fullWidth
+          placeholder={odometryLog.name ?? "Import Log"}
+          value={null}
+          onChange={onImportLog}
+          inputProps={{ accept: ".csv,.json,.txt" }}
+          size="small"
+        />
+      </PanelBox>
+      {odometryLog.isLoaded && (
+        <>
+          <PanelBox>
+            <FormItemSelect
+              sx={{ width: "10rem" }}
+              label="Compare With"
+              selected={odometryLog.path?.uid ?? ""}
+              items={app.paths.map(path => ({ key: path.uid, value: path, label: path.name }))}
+              onSelectItem={path => (odometryLog.path = path)}
+            />
+            <FormCheckbox
+              label="Show on Field"
+              checked={odometryLog.isVisible}
+              onCheckedChange={value => (odometryLog.isVisible = value)}
+            />
+          </PanelBox>
+          <Typography variant="body2" marginTop="8px">
+            Cross-track error of each segment
+          </Typography>
+          <CrossTrackErrorTable />
+          <PanelBox>
+            <Button variant="text" size="small" onClick={action(() => odometryLog.clear())}>
+              Clear Log
+            </Button>
+          </PanelBox>
+        </>
+      )}
+    </>
+  );
+});
+
+export const OdometryLogPanel = (props: PanelBuilderProps): PanelInstanceProps => {
+  return {
+    id: "OdometryLogPanel",
+    header: "Odometry Log",
+    children: <OdometryLogPanelBody />,
+    icon: <TimelineIcon fontSize="large" />
+  };
+};
@@ -0,0 +1,139 @@
+import { Box, Button, Typography } from "@mui/material";
+import { action } from "mobx";
+import { observer } from "mobx-react-lite";
+import React from "react";
+import { getAppStores } from "@core/MainApp";
+import { Logger } from "@core/Logger";
+import { PanelBuilderProps, PanelInstanceProps } from "@core/Layout";
+import {
+  CodeDiffLine,
+  diffCodeLines,
+  getCodeLineSources,
+  getLastCopiedCode,
+  setLastCopiedCode,
+  splitCodeLines,
+  tokenizeCodeLine
+} from "@core/CodePreview";
+import { CodeSource, GeneratedCode } from "@format/Format";
+import { enqueueErrorSnackbar, enqueueSuccessSnackbar } from "@app/Notice";
+import { FormCheckbox } from "@app/component.blocks/FormCheckbox";
+import { PanelBox } from "@app/component.blocks/PanelBox";
+import CodeIcon from "@mui/icons-material/Code";
+
+import "./OutputPreviewPanel.scss";
+
+const logger = Logger("Output Preview");
+
+const OutputPreviewLine = observer((props: { row: CodeDiffLine; source: CodeSource | undefined }) => {
+  const { app } = getAppStores();
+  const { row, source } = props;
+
+  const fieldEditor = app.fieldEditor;
+  const highlighted = source?.segment?.uid ?? source?.path.uid;
+
+  // UX: Highlight the segment on the field, or all segments of the path if the line is not generated from a segment
+  const onClick = () => {
+    if (highlighted === undefined) return;
+    fieldEditor.linkedItem = fieldEditor.linkedItem === highlighted ? undefined : highlighted;
+  };
+
+  return (
+    <div
+      className={[
+        "OutputPreviewPanel-Line",
+        "OutputPreviewPanel-Line-" + row.kind,
+        highlighted !== undefined ? "OutputPreviewPanel-Line-linked" : "",
+        highlighted !== undefined && fieldEditor.linkedItem === highlighted ? "OutputPreviewPanel-Line-highlighted" : ""
+      ].join(" ")}
+      onClick={action(onClick)}>
+      <span className="OutputPreviewPanel-LineNumber">{row.line !== undefined ? row.line + 1 : ""}</span>
+      <span className="OutputPreviewPanel-LineMark">
+        {row.kind === "added" ? "+" : row.kind === "removed" ? "-" : ""}
+      </span>
+      <span className="OutputPreviewPanel-LineText">
+        {tokenizeCodeLine(row.text).map((token, index) => (
+          <span key={index} className={"OutputPreviewPanel-Token-" + token.kind}>
+            {token.text}
+          </span>
+        ))}
+      </span>
+    </div>
+  );
+});
+
+const OutputPreviewPanelBody = observer((props: {}) => {
+  const { app } = getAppStores();
+
+  const [isShowingDiff, setIsShowingDiff] = React.useState(false);
+
+  // ALGO: The code is generated in the render function, it is updated when the paths or the templates are changed
+  let generated: GeneratedCode | undefined;
+  let error: string | undefined;
+  try {
+    generated = app.format.generateCode?.(app);
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const lastCopiedCode = getLastCopiedCode();
+
+  const onCopyCode = action(() => {
+    if (generated === undefined) return;
+    try {
+      navigator.clipboard.writeText(generated.code);
+      setLastCopiedCode(generated.code);
+
+      enqueueSuccessSnackbar(logger, "Copied");
+    } catch (e) {
+      enqueueErrorSnackbar(logger, e);
+    }
+  });
+
+  if (error !== undefined) return <Typography color="error">{error}</Typography>;
+  if (generated === undefined) return <Typography>(This format does not generate code)</Typography>;
+
+  const lines = splitCodeLines(generated.code);
+  const sources = getCodeLineSources(generated);
+  const rows: CodeDiffLine[] =
+    isShowingDiff && lastCopiedCode !== undefined
+      ? diffCodeLines(splitCodeLines(lastCopiedCode), lines)
+      : lines.map((text, line) => ({ kind: "unchanged", text, line }));
+  const addedCount = rows.filter(row => row.kind === "added").length;
+  const removedCount = rows.filter(row => row.kind === "removed").length;
+
+  return (
+    <>
+      <PanelBox marginTop="0">
+        <Button variant="contained" size="small" disabled={lines.length === 0} onClick={onCopyCode}>
+          Copy Code
+        </Button>
+        <FormCheckbox
+          label="Diff with Last Copied"
+          checked={isShowingDiff}
+          disabled={lastCopiedCode === undefined}
+          onCheckedChange={setIsShowingDiff}
+        />
+      </PanelBox>
+      {isShowingDiff && lastCopiedCode !== undefined && (
+        <Typography variant="body2" color="text.secondary">
+          {addedCount === 0 && removedCount === 0 ? "No changes" : `+${addedCount} -${removedCount} lines`}
+        </Typography>
+      )}
+      <Box className="OutputPreviewPanel-Code">
+        {rows.length === 0 && <Typography>(No output)</Typography>}
+        {rows.map((row, index) => (
+          <OutputPreviewLine key={index} row={row} source={row.line !== undefined ? sources[row.line] : undefined} />
+        ))}
+      </Box>
+    </>
+  );
+});
+
+export const OutputPreviewPanel = (props: PanelBuilderProps): PanelInstanceProps => {
+  return {
+    id: "OutputPreviewPanel",
+    header: "Output Preview",
+    children: <OutputPreviewPanelBody />,
+    icon: <CodeIcon fontSize="large" />
+  };
+};
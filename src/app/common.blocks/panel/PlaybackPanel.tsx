@@ -0,0 +1,104 @@
+import { IconButton, Slider, Tooltip, Typography } from "@mui/material";
+import { action, runInAction } from "mobx";
+import { observer } from "mobx-react-lite";
+import React from "react";
+import { getAppStores } from "@core/MainApp";
+import { PanelBuilderProps, PanelInstanceProps } from "@core/Layout";
+import { PLAYBACK_SPEED_MULTIPLIERS } from "@core/Playback";
+import { FormItemSelect } from "@app/component.blocks/FormItemSelect";
+import { PanelBox } from "@app/component.blocks/PanelBox";
+import PlayArrowIcon from "@mui/icons-material/PlayArrow";
+import PauseIcon from "@mui/icons-material/Pause";
+import ReplayIcon from "@mui/icons-material/Replay";
+import SlowMotionVideoIcon from "@mui/icons-material/SlowMotionVideo";
+
+import "./PlaybackPanel.scss";
+
+const PlaybackPanelBody = observer((props: {}) => {
+  const { app } = getAppStores();
+
+  const playback = app.playback;
+  const path = app.interestedPath();
+
+  React.useEffect(() => {
+    runInAction(() => (playback.path = path));
+  }, [playback, path]);
+
+  if (path === undefined) return <Typography>(No path to display)</Typography>;
+
+  const isDisabled = app.gc.showRobot === false || playback.duration === 0;
+
+  return (
+    <>
+      {app.gc.showRobot === false && (
+        <Typography variant="body2" color="grey">
+          Enable "Show Robot" in the general configuration to play back the path.
+        </Typography>
+      )}
+      <PanelBox marginTop="0">
+        <Tooltip title={playback.isPlaying ? "Pause" : "Play"}>
+          <span>
+            <IconButton
+              edge="start"
+              size="small"
+              className="PlaybackPanel-ActionButton"
+              disabled={isDisabled}
+              onClick={action(() => {
+                playback.path = path;
+                playback.toggle();
+              })}>
+              {playback.isPlaying ? <PauseIcon /> : <PlayArrowIcon />}
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="Reset">
+          <span>
+            <IconButton
+              size="small"
+              className="PlaybackPanel-ActionButton"
+              disabled={isDisabled}
+              onClick={action(() => playback.reset())}>
+              <ReplayIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <FormItemSelect
+          sx={{ width: "6rem" }}
+          label="Speed"
+          selected={playback.speedMultiplier}
+          items={PLAYBACK_SPEED_MULTIPLIERS.map(multiplier => ({
+            key: multiplier,
+            value: multiplier,
+            label: multiplier + "x"
+          }))}
+          onSelectItem={multiplier => (playback.speedMultiplier = multiplier ?? 1)}
+        />
+        <Typography variant="body2" className="PlaybackPanel-Time">
+          {playback.time.toFixed(2)} / {playback.duration.toFixed(2)} s
+        </Typography>
+      </PanelBox>
+      <PanelBox marginX="8px">
+        <Slider
+          size="small"
+          min={0}
+          max={playback.duration}
+          step={0.01}
+          value={playback.time}
+          disabled={isDisabled}
+          valueLabelDisplay="auto"
+          valueLabelFormat={value => value.toFixed(2) + " s"}
+          onChange={action((_, value) => playback.seek(value as number))}
+        />
+      </PanelBox>
+    </>
+  );
+});
+
+export const PlaybackPanel = (props: PanelBuilderProps): PanelInstanceProps => {
+  return {
+    id: "PlaybackPanel",
+    header: "Playback",
+    children: <PlaybackPanelBody />,
+    icon: <SlowMotionVideoIcon fontSize="large" />
+  };
+};
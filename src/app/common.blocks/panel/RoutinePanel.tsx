@@ -0,0 +1,106 @@
+import { IconButton, Tooltip } from "@mui/material";
+import { action } from "mobx";
+import { observer } from "mobx-react-lite";
+import { getAppStores } from "@core/MainApp";
+import { PanelBuilderProps, PanelInstanceProps } from "@core/Layout";
+import { AddRoutine, RemoveRoutine, UpdateProperties } from "@core/Command";
+import { Routine } from "@core/Routine";
+import { FormItemSelect } from "@app/component.blocks/FormItemSelect";
+import { PanelBox } from "@app/component.blocks/PanelBox";
+import RouteIcon from "@mui/icons-material/Route";
+import AddIcon from "@mui/icons-material/Add";
+import DriveFileRenameOutlineIcon from "@mui/icons-material/DriveFileRenameOutline";
+import DeleteIcon from "@mui/icons-material/Delete";
+
+import "./RoutinePanel.scss";
+
+function promptRoutineName(title: string, defaultValue: string, onConfirm: (name: string) => void) {
+  const { confirmation } = getAppStores();
+
+  confirmation.prompt({
+    title,
+    description: "The name is also used in the file name when the routines are downloaded separately.",
+    buttons: [
+      {
+        label: "Confirm",
+        color: "success",
+        onClick: action(() => {
+          const name = confirmation.input?.trim() ?? "";
+          if (name !== "") onConfirm(name);
+        })
+      },
+      { label: "Cancel" }
+    ],
+    inputLabel: "Name",
+    inputDefaultValue: defaultValue
+  });
+}
+
+const RoutinePanelBody = observer((props: {}) => {
+  const { app } = getAppStores();
+
+  const onAddRoutine = () => {
+    promptRoutineName("Add Routine", `Routine ${app.routines.length + 1}`, name =>
+      app.history.execute(`Add routine ${name}`, new AddRoutine(app, new Routine(name)))
+    );
+  };
+
+  const onRenameRoutine = () => {
+    const routine = app.routine;
+    promptRoutineName("Rename Routine", routine.name, name =>
+      app.history.execute(`Rename routine ${routine.uid}`, new UpdateProperties(routine, { name }))
+    );
+  };
+
+  const onRemoveRoutine = () => {
+    app.history.execute(`Remove routine ${app.routine.name}`, new RemoveRoutine(app, app.routine));
+  };
+
+  // UX: Switching routines is recorded in the history, undoing an edit in another routine switches back first
+  const onSelectRoutine = (routine: Routine | undefined) => {
+    if (routine === undefined || routine === app.routine) return;
+    app.history.execute(`Switch routine`, new UpdateProperties(app, { routine }));
+  };
+
+  return (
+    <PanelBox marginTop="0">
+      <FormItemSelect
+        sx={{ flexGrow: 1, minWidth: "8rem" }}
+        label="Routine"
+        selected={app.routine.uid}
+        items={app.routines.map(routine => ({ key: routine.uid, value: routine, label: routine.name }))}
+        onSelectItem={onSelectRoutine}
+      />
+      <Tooltip title="Add Routine">
+        <IconButton size="small" className="RoutinePanel-ActionButton" onClick={action(onAddRoutine)}>
+          <AddIcon />
+        </IconButton>
+      </Tooltip>
+      <Tooltip title="Rename Routine">
+        <IconButton size="small" className="RoutinePanel-ActionButton" onClick={action(onRenameRoutine)}>
+          <DriveFileRenameOutlineIcon />
+        </IconButton>
+      </Tooltip>
+      <Tooltip title="Remove Routine">
+        <span>
+          <IconButton
+            size="small"
+            className="RoutinePanel-ActionButton"
+            disabled={app.routines.length <= 1}
+            onClick={action(onRemoveRoutine)}>
+            <DeleteIcon />
+          </IconButton>
+        </span>
+      </Tooltip>
+    </PanelBox>
+  );
+});
+
+export const RoutinePanel = (props: PanelBuilderProps): PanelInstanceProps => {
+  return {
+    id: "RoutinePanel",
+    header: "Routines",
+    children: <RoutinePanelBody />,
+    icon: <RouteIcon fontSize="large" />
+  };
+};
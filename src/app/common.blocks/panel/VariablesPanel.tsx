@@ -0,0 +1,127 @@
+import { Box, Button, IconButton, Tooltip, Typography } from "@mui/material";
+import { action } from "mobx";
+import { observer } from "mobx-react-lite";
+import { getAppStores } from "@core/MainApp";
+import { PanelBuilderProps, PanelInstanceProps } from "@core/Layout";
+import { UpdateProperties } from "@core/Command";
+import { FormulaVariable, computeAngleFormula, computeLengthFormula, isValidFormulaVariableName } from "@core/Formula";
+import { parseFormula } from "@core/Util";
+import { NumberUOA, NumberUOL } from "@token/Tokens";
+import { FormInputField } from "@app/component.blocks/FormInputField";
+import { PanelBox } from "@app/component.blocks/PanelBox";
+import FunctionsIcon from "@mui/icons-material/Functions";
+import AddIcon from "@mui/icons-material/Add";
+import DeleteIcon from "@mui/icons-material/Delete";
+
+import "./VariablesPanel.scss";
+
+/**
+ * @param variables The variables of the project
+ * @returns A name which is not used by other variables, e.g. "var1"
+ */
+function getUniqueVariableName(variables: readonly FormulaVariable[]): string {
+  for (let i = 1; ; i++) {
+    const name = `var${i}`;
+    if (isValidFormulaVariableName(name, variables)) return name;
+  }
+}
+
+const VariableItem = observer((props: { variable: FormulaVariable }) => {
+  const { variable } = props;
+  const { app } = getAppStores();
+
+  const updateVariable = (values: Partial<FormulaVariable>, description: string) => {
+    const variables = app.variables.map(v => (v === variable ? { ...v, ...values } : v));
+    app.history.execute(description, new UpdateProperties(app, { variables }));
+  };
+
+  const otherVariables = app.variables.filter(v => v !== variable);
+
+  const removeVariable = () => {
+    app.history.execute(`Remove variable ${variable.name}`, new UpdateProperties(app, { variables: otherVariables }));
+  };
+
+  // UX: A variable can be used in both length and angle fields, the length is shown if it is valid
+  const length = computeLengthFormula(variable.name, app.gc.uol);
+  const angle = length === undefined ? computeAngleFormula(variable.name) : undefined;
+  const result =
+    length !== undefined ? `= ${length.toUser()}` : angle !== undefined ? `= ${angle.toUser()}°` : "(invalid)";
+
+  return (
+    <PanelBox marginTop="8px" className="VariablesPanel-Item">
+      <FormInputField
+        label="Name"
+        getValue={() => variable.name}
+        setValue={(value: string) => {
+          if (value === variable.name) return;
+          updateVariable({ name: value }, `Rename variable ${variable.name} to ${value}`);
+        }}
+        isValidIntermediate={() => true}
+        isValidValue={(candidate: string) =>
+          candidate === variable.name || isValidFormulaVariableName(candidate, otherVariables)
+        }
+        sx={{ width: "6rem" }}
+      />
+      <FormInputField
+        label="Value"
+        getValue={() => variable.value}
+        setValue={(value: string) => {
+          if (value === variable.value) return;
+          updateVariable({ value }, `Change variable ${variable.name} value`);
+        }}
+        isValidIntermediate={() => true}
+        isValidValue={(candidate: string) =>
+          parseFormula(candidate, NumberUOL.parse) !== null || parseFormula(candidate, NumberUOA.parse) !== null
+        }
+        sx={{ flexGrow: 1 }}
+      />
+      <Typography className="VariablesPanel-Result" variant="body2" title={result}>
+        {result}
+      </Typography>
+      <Tooltip title="Remove Variable">
+        <IconButton size="small" className="VariablesPanel-ActionButton" onClick={action(removeVariable)}>
+          <DeleteIcon />
+        </IconButton>
+      </Tooltip>
+    </PanelBox>
+  );
+});
+
+const VariablesPanelBody = observer((props: {}) => {
+  const { app } = getAppStores();
+
+  const onAddVariable = () => {
+    const variable = { name: getUniqueVariableName(app.variables), value: "0" };
+    app.history.execute(
+      `Add variable ${variable.name}`,
+      new UpdateProperties(app, { variables: [...app.variables, variable] })
+    );
+  };
+
+  return (
+    <Box id="VariablesPanel">
+      <Typography variant="body2" color="grey">
+        Use variables, constants (tileSize, fieldHalfWidth), functions (sqrt, sin, atan2, hypot, min, max) and
+        references (@Path.end1.x) in the coordinate fields.
+      </Typography>
+      {app.variables.map((variable, index) => (
+        // ALGO: The index is used as the key, the input fields are updated when the variable is replaced
+        <VariableItem key={index} variable={variable} />
+      ))}
+      <PanelBox marginTop="8px">
+        <Button size="small" startIcon={<AddIcon />} onClick={action(onAddVariable)}>
+          Add Variable
+        </Button>
+      </PanelBox>
+    </Box>
+  );
+});
+
+export const VariablesPanel = (props: PanelBuilderProps): PanelInstanceProps => {
+  return {
+    id: "VariablesPanel",
+    header: "Variables",
+    children: <VariablesPanelBody />,
+    icon: <FunctionsIcon fontSize="large" />
+  };
+};
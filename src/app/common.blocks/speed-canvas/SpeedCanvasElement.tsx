@@ -1,8 +1,17 @@
-import { makeObservable, action, observable, reaction } from "mobx";
+import { makeObservable, action, observable, reaction, runInAction } from "mobx";
 import { observer } from "mobx-react-lite";
-import { Point, Path, Vector, SpeedKeyframe, KeyframePos, BentRateApplicationDirection } from "@core/Path";
+import {
+  Point,
+  Path,
+  Vector,
+  SpeedKeyframe,
+  KeyframePos,
+  BentRateApplicationDirection,
+  EventMarker,
+  HeadingKeyframe
+} from "@core/Path";
 import Konva from "konva";
-import { Circle, Layer, Line, Rect, Stage, Text } from "react-konva";
+import { Circle, Group, Layer, Line, Rect, Stage, Text } from "react-konva";
 import React from "react";
 import { PathConfig } from "@format/Config";
 import { AddKeyframe, MoveKeyframe, RemoveKeyframe, UpdateProperties } from "@core/Command";
@@ -15,12 +24,23 @@ import { useMobxStorage, useTouchEvent, useWindowSize } from "@core/Hook";
 import { getAppThemeInfo } from "@app/Theme";
 import { TouchEventListener } from "@core/TouchEventListener";
 import { CanvasTooltip, Padding0Tooltip } from "@app/component.blocks/CanvasTooltip";
-import { getFieldCanvasHalfHeight } from "@core/Util";
+import { clamp, getFieldCanvasHalfHeight } from "@core/Util";
+import { getUnitOfLengthAbbreviation } from "@core/Unit";
 
 import "./SpeedCanvasElement.scss";
 
 const FONT_FAMILY = '-apple-system,system-ui,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Arial,sans-serif';
 
+/**
+ * @returns true if the heading graph is selected and the robot is able to rotate independently of its movement
+ */
+function isShowingHeadingGraph(): boolean {
+  const { app } = getAppStores();
+
+  const isHolonomic = app.gc.robotIsHolonomic === true || app.gc.robotIsHolonomic === "force-holonomic";
+  return isHolonomic && app.speedEditor.graph === "heading";
+}
+
 const SpeedCanvasTooltipContent = observer((props: {}) => {
   const { app } = getAppStores();
   const speedEditor = app.speedEditor;
@@ -35,7 +55,24 @@ const SpeedCanvasTooltipContent = observer((props: {}) => {
 
   const lastInteraction = app.speedEditor.lastInteraction;
   const interaction = app.speedEditor.interaction;
-  if (interaction?.keyframe instanceof SpeedKeyframe && interaction?.type === "drag/hover") {
+  if (interaction?.keyframe instanceof HeadingKeyframe && interaction?.type === "drag/hover") {
+    return <Box padding="8px">{(pos.yPos * 360).toUser()}°</Box>;
+  } else if (lastInteraction?.keyframe instanceof HeadingKeyframe && lastInteraction?.type === "touch") {
+    const keyframe = lastInteraction.keyframe;
+    return (
+      <Box>
+        <CanvasTooltip
+          text="Delete"
+          onClick={() => {
+            app.history.execute(
+              `Remove keyframe ${keyframe.uid} from path ${path.uid}`,
+              new RemoveKeyframe(path.segments, "heading", keyframe)
+            );
+          }}
+        />
+      </Box>
+    );
+  } else if (interaction?.keyframe instanceof SpeedKeyframe && interaction?.type === "drag/hover") {
     const speed = (speedFrom + pos.yPos * (speedTo - speedFrom)).toUser();
     const postfix = interaction.keyframe.followBentRate ? " (Bent Rate Interruption)" : " (Linear Interpolation)";
     return (
@@ -80,29 +117,273 @@ const PathPoints = observer((props: { path: Path; gcc: GraphCanvasConverter }) =
 
   // ALGO: This is a separate component because it is expensive to render.
 
+  const isHeadingGraph = isShowingHeadingGraph();
+
   return (
     <>
       {path.cachedResult.points.map((point, index) => (
-        <PointElement key={index} pc={path.pc} {...{ point, index, gcc }} />
+        <PointElement key={index} pc={path.pc} {...{ point, index, gcc, isHeadingGraph }} />
       ))}
     </>
   );
 });
 
+const OdometryLogSpeed = observer((props: { path: Path; gcc: GraphCanvasConverter }) => {
+  const { app } = getAppStores();
+  const { path, gcc } = props;
+
+  const odometryLog = app.odometryLog;
+  if (!odometryLog.isVisible || odometryLog.path !== path || isShowingHeadingGraph()) return null;
+
+  const speedFrom = path.pc.speedLimit.from;
+  const speedTo = path.pc.speedLimit.to;
+
+  // ALGO: The actual speed is placed at the closest point of the planned path
+  // The recorded velocity uses the same scale as the planned speed, while the velocity derived from the positions is
+  // in UOL per second, so it is plotted on its own axis from zero to the maximum derived velocity
+  const logPoints = odometryLog.points;
+  const maxDerivedVelocity = Math.max(0, ...logPoints.filter(p => p.isVelocityRecorded === false).map(p => p.velocity));
+
+  const recordedPoints: number[] = [];
+  const derivedPoints: number[] = [];
+  odometryLog.matches.forEach((match, index) => {
+    if (match === undefined) return;
+
+    const { velocity, isVelocityRecorded } = logPoints[index];
+    const ratio = isVelocityRecorded
+      ? (velocity - speedFrom) / (speedTo - speedFrom || 1)
+      : velocity / (maxDerivedVelocity || 1);
+    (isVelocityRecorded ? recordedPoints : derivedPoints).push(
+      gcc.toPxNumber(match.pointIndex),
+      (1 - ratio) * (gcc.pixelHeight * 0.6) + gcc.axisLineTopX
+    );
+  });
+
+  const fontSize = gcc.pixelHeight / 10;
+  const unit = getUnitOfLengthAbbreviation(app.gc.uol);
+
+  return (
+    <>
+      <Line points={recordedPoints} stroke="#00B8D4" strokeWidth={gcc.lineWidth * 2} opacity={0.8} listening={false} />
+      {derivedPoints.length !== 0 && (
+        <>
+          <Line
+            points={derivedPoints}
+            stroke="#00B8D4"
+            strokeWidth={gcc.lineWidth * 2}
+            dash={[gcc.lineWidth * 4, gcc.lineWidth * 2]}
+            opacity={0.8}
+            listening={false}
+          />
+          <Text
+            text={`${maxDerivedVelocity.toUser()} ${unit}/s`}
+            x={gcc.twoSidePaddingWidth + gcc.lineWidth * 4}
+            y={gcc.axisLineTopX + gcc.lineWidth * 2}
+            fontSize={fontSize}
+            fontFamily={FONT_FAMILY}
+            fill="#00B8D4"
+            listening={false}
+          />
+        </>
+      )}
+    </>
+  );
+});
+
+const PlaybackCursor = observer((props: { path: Path; gcc: GraphCanvasConverter }) => {
+  const { app } = getAppStores();
+  const { path, gcc } = props;
+
+  const playback = app.playback;
+  const isVisible = playback.isActive && playback.path === path;
+  const isPlaying = playback.isPlaying;
+  const index = playback.pointIndex;
+
+  React.useEffect(() => {
+    if (!isVisible || !isPlaying) return;
+
+    // UX: Scroll the speed graph to keep the cursor in the middle if the cursor is out of the view
+    const x = gcc.toPxNumber(index);
+    if (x >= gcc.twoSidePaddingWidth && x <= gcc.rightPaddingStart) return;
+
+    const maxScrollPos = gcc.pointWidth * (path.cachedResult.points.length - 2);
+    runInAction(() => {
+      app.speedEditor.offset = clamp(index * gcc.pointWidth - gcc.pixelWidth / 2, 0, maxScrollPos);
+    });
+  }, [app, gcc, index, isPlaying, isVisible, path]);
+
+  if (!isVisible || index === -1) return null;
+
+  const x = gcc.toPxNumber(index);
+
+  return (
+    <Line points={[x, 0, x, gcc.pixelHeight]} stroke="#1976d2" strokeWidth={gcc.lineWidth * 4} listening={false} />
+  );
+});
+
+const PathCollisions = observer((props: { path: Path; gcc: GraphCanvasConverter }) => {
+  const { app } = getAppStores();
+
+  const { path, gcc } = props;
+
+  return (
+    <>
+      {app.getPathCollisions(path).map(range => {
+        const from = gcc.toPxNumber(range.from) - gcc.pointWidth / 2;
+        const to = gcc.toPxNumber(range.to - 1) + gcc.pointWidth / 2;
+        return (
+          <Rect
+            key={range.from}
+            x={from}
+            y={0}
+            width={to - from}
+            height={gcc.pixelHeight}
+            fill="rgba(255, 0, 0, 0.2)"
+            listening={false}
+          />
+        );
+      })}
+    </>
+  );
+});
+
 const Keyframes = observer((props: { path: Path; gcc: GraphCanvasConverter }) => {
   const { path, gcc } = props;
 
+  if (isShowingHeadingGraph()) {
+    return (
+      <>
+        {path.cachedResult.headingKeyframeIndexes.map(ikf => (
+          <KeyframeElement key={ikf.keyframe.uid} keyframeKey="heading" {...{ ikf, gcc }} />
+        ))}
+      </>
+    );
+  }
+
   return (
     <>
       {path.cachedResult.speedKeyframeIndexes.map(ikf => (
-        <SpeedKeyframeElement key={ikf.keyframe.uid} {...{ ikf, gcc }} />
+        <KeyframeElement key={ikf.keyframe.uid} keyframeKey="speed" {...{ ikf, gcc }} />
       ))}
     </>
   );
 });
 
-const PointElement = observer((props: { point: Point; index: number; pc: PathConfig; gcc: GraphCanvasConverter }) => {
-  const { point, index, pc, gcc } = props;
+const EventMarkers = observer((props: { path: Path; gcc: GraphCanvasConverter }) => {
+  const { path, gcc } = props;
+
+  return (
+    <>
+      {path.cachedResult.markerIndexes.map(ikf => (
+        <EventMarkerElement key={ikf.keyframe.uid} {...{ ikf, gcc }} />
+      ))}
+    </>
+  );
+});
+
+/**
+ * Prompts the user to enter the name of an event marker
+ *
+ * @param title The title of the prompt
+ * @param defaultName The default name of the event marker
+ * @param onConfirm The callback with the trimmed name, it is not called if the name is empty
+ */
+function promptEventMarkerName(title: string, defaultName: string, onConfirm: (name: string) => void) {
+  const { confirmation } = getAppStores();
+
+  confirmation.prompt({
+    title,
+    description: "Event markers represent actions of the subsystems, such as turning on the intake.",
+    buttons: [
+      {
+        label: "Confirm",
+        color: "success",
+        onClick: action(() => {
+          const name = confirmation.input?.trim() ?? "";
+          if (name !== "") onConfirm(name);
+        })
+      },
+      { label: "Cancel" }
+    ],
+    inputLabel: "Name",
+    inputDefaultValue: defaultName
+  });
+}
+
+const EventMarkerElement = observer((props: { ikf: KeyframeIndexing<EventMarker>; gcc: GraphCanvasConverter }) => {
+  const { app } = getAppStores();
+  const { ikf, gcc } = props;
+
+  const marker = ikf.keyframe;
+
+  const onDragMarker = (event: Konva.KonvaEventObject<DragEvent>) => {
+    const evt = event.evt;
+
+    const canvasPos = event.target.getStage()?.container().getBoundingClientRect();
+    if (canvasPos === undefined) return;
+
+    const kfPos = gcc.toPos(getClientXY(evt).subtract(new Vector(canvasPos.x, canvasPos.y)));
+    if (kfPos !== undefined) {
+      app.history.execute(
+        `Move event marker ${marker.uid}`,
+        new MoveKeyframe(gcc.path.segments, "marker", { ...kfPos, yPos: 0 }, marker)
+      );
+    }
+
+    // UX: The marker can only be moved horizontally
+    event.target.x(gcc.toPxNumber(ikf.index));
+    event.target.y(0);
+  };
+
+  const onClickMarker = (event: Konva.KonvaEventObject<MouseEvent>) => {
+    if (event.evt.button !== 2) return;
+
+    // right click
+    app.history.execute(
+      `Remove event marker ${marker.uid} from path ${gcc.path.uid}`,
+      new RemoveKeyframe(gcc.path.segments, "marker", marker)
+    );
+  };
+
+  const onDoubleClickMarker = () => {
+    promptEventMarkerName("Rename Event Marker", marker.name, name => {
+      app.history.execute(`Rename event marker ${marker.uid}`, new UpdateProperties(marker, { name }));
+    });
+  };
+
+  const color = "#9C27B0";
+  const fontSize = gcc.pixelHeight / 10;
+
+  return (
+    <Group
+      x={gcc.toPxNumber(ikf.index)}
+      y={0}
+      draggable
+      onDragMove={action(onDragMarker)}
+      onClick={action(onClickMarker)}
+      onDblClick={action(onDoubleClickMarker)}>
+      <Line
+        points={[0, 0, 0, gcc.pixelHeight]}
+        stroke={color}
+        strokeWidth={gcc.lineWidth * 2}
+        hitStrokeWidth={gcc.pointRadius * 8}
+        dash={[gcc.pointWidth, gcc.pointWidth]}
+      />
+      <Text text={marker.name} x={gcc.pointWidth} y={gcc.lineWidth * 2} fontSize={fontSize} fill={color} />
+    </Group>
+  );
+});
+
+interface PointElementProps {
+  point: Point;
+  index: number;
+  pc: PathConfig;
+  gcc: GraphCanvasConverter;
+  isHeadingGraph: boolean;
+}
+
+const PointElement = observer((props: PointElementProps) => {
+  const { point, index, pc, gcc, isHeadingGraph } = props;
 
   const speedFrom = pc.speedLimit.from;
   const speedTo = pc.speedLimit.to;
@@ -113,11 +394,15 @@ const PointElement = observer((props: { point: Point; index: number; pc: PathCon
   const isHighToLow = pc.bentRateApplicationDirection === BentRateApplicationDirection.HighToLow;
 
   const bentRatePoint = (point.bentRate - bentRateLow) / (bentRateHigh - bentRateLow || 1);
-  const resultPoint = (point.speed - speedFrom) / (speedTo - speedFrom || 1);
+  const resultPoint = isHeadingGraph
+    ? (point.holonomicHeading ?? 0) / 360
+    : (point.speed - speedFrom) / (speedTo - speedFrom || 1);
   const x = gcc.toPxNumber(index);
   const bentRateY = (isHighToLow ? bentRatePoint : 1 - bentRatePoint) * (gcc.pixelHeight * 0.6) + gcc.axisLineTopX;
   const resultY = (1 - resultPoint) * (gcc.pixelHeight * 0.6) + gcc.axisLineTopX;
-  const color = `hsl(${resultPoint * 90}, 70%, 50%)`; // red = min speed, green = max speed
+  const color = isHeadingGraph
+    ? `hsl(${resultPoint * 360}, 70%, 50%)` // hue = heading
+    : `hsl(${resultPoint * 90}, 70%, 50%)`; // red = min speed, green = max speed
 
   return (
     <>
@@ -130,14 +415,15 @@ const PointElement = observer((props: { point: Point; index: number; pc: PathCon
   );
 });
 
-interface SpeedKeyframeElementProps {
-  ikf: KeyframeIndexing<SpeedKeyframe>;
+interface KeyframeElementProps {
+  ikf: KeyframeIndexing<SpeedKeyframe | HeadingKeyframe>;
+  keyframeKey: "speed" | "heading";
   gcc: GraphCanvasConverter;
 }
 
-const SpeedKeyframeElement = observer((props: SpeedKeyframeElementProps) => {
+const KeyframeElement = observer((props: KeyframeElementProps) => {
   const { app } = getAppStores();
-  const { ikf, gcc } = props;
+  const { ikf, keyframeKey, gcc } = props;
 
   const onTouchStart = (event: Konva.KonvaEventObject<TouchEvent>) => {
     app.speedEditor.interact(ikf.keyframe, "touch");
@@ -164,7 +450,7 @@ const SpeedKeyframeElement = observer((props: SpeedKeyframeElementProps) => {
 
     app.history.execute(
       `Move keyframe ${ikf.keyframe.uid}`,
-      new MoveKeyframe(gcc.path.segments, "speed", kfPos, ikf.keyframe)
+      new MoveKeyframe(gcc.path.segments, keyframeKey, kfPos, ikf.keyframe)
     );
 
     const posInPx = gcc.toPx(kfPos);
@@ -178,33 +464,37 @@ const SpeedKeyframeElement = observer((props: SpeedKeyframeElementProps) => {
   const onClickKeyframe = (event: Konva.KonvaEventObject<MouseEvent>) => {
     const evt = event.evt;
 
-    if (evt.button === 0) {
+    const keyframe = ikf.keyframe;
+
+    if (evt.button === 0 && keyframe instanceof SpeedKeyframe) {
       // left click
-      const setTo = !ikf.keyframe.followBentRate;
+      const setTo = !keyframe.followBentRate;
       app.history.execute(
-        `Update keyframe ${ikf.keyframe.uid} followBentRate to ${setTo}`,
-        new UpdateProperties(ikf.keyframe, { followBentRate: setTo }),
+        `Update keyframe ${keyframe.uid} followBentRate to ${setTo}`,
+        new UpdateProperties(keyframe, { followBentRate: setTo }),
         0
       );
     } else if (evt.button === 2) {
       // right click
       app.history.execute(
-        `Remove keyframe ${ikf.keyframe.uid} from path ${gcc.path.uid}`,
-        new RemoveKeyframe(gcc.path.segments, "speed", ikf.keyframe)
+        `Remove keyframe ${keyframe.uid} from path ${gcc.path.uid}`,
+        new RemoveKeyframe(gcc.path.segments, keyframeKey, keyframe)
       );
 
       app.speedEditor.tooltipPosition = undefined;
     }
   };
 
+  const keyframe = ikf.keyframe;
   const x = gcc.toPxNumber(ikf.index);
-  const y = (1 - ikf.keyframe.yPos) * gcc.bodyHeight + gcc.axisLineTopX;
+  const y = (1 - keyframe.yPos) * gcc.bodyHeight + gcc.axisLineTopX;
+  const fill = keyframe instanceof SpeedKeyframe ? (keyframe.followBentRate ? "#666" : "#D7B301") : "#1976D2";
   return (
     <Circle
       x={x}
       y={y}
       radius={gcc.pointRadius * 4}
-      fill={ikf.keyframe.followBentRate ? "#666" : "#D7B301"}
+      fill={fill}
       opacity={0.75}
       draggable
       onTouchStart={action(onTouchStart)}
@@ -233,6 +523,27 @@ enum TouchAction {
   End
 }
 
+/**
+ * Adds a keyframe to the graph currently shown
+ *
+ * @param kfPos The position of the new keyframe
+ */
+function addKeyframeAt(kfPos: KeyframePos) {
+  const { app } = getAppStores();
+
+  if (isShowingHeadingGraph()) {
+    app.history.execute(
+      `Add heading keyframe to path ${app.speedEditor.path?.uid}`,
+      new AddKeyframe(kfPos.segment.heading, new HeadingKeyframe(kfPos.xPos, kfPos.yPos * 360))
+    );
+  } else {
+    app.history.execute(
+      `Add speed keyframe to path ${app.speedEditor.path?.uid}`,
+      new AddKeyframe(kfPos.segment.speed, new SpeedKeyframe(kfPos.xPos, kfPos.yPos))
+    );
+  }
+}
+
 class TouchInteractiveHandler extends TouchEventListener {
   touchAction: TouchAction = TouchAction.End;
 
@@ -315,7 +626,7 @@ class TouchInteractiveHandler extends TouchEventListener {
         this.touchAction = TouchAction.End;
       }
     } else if (this.touchAction === TouchAction.PendingScrolling) {
-      if (app.speedEditor.interaction?.keyframe instanceof SpeedKeyframe) {
+      if (app.speedEditor.interaction?.keyframe) {
         this.touchAction = TouchAction.TouchingKeyframe;
       } else if (keys.length >= 1) {
         const t = this.pos(keys[0]);
@@ -327,7 +638,7 @@ class TouchInteractiveHandler extends TouchEventListener {
         this.touchAction = TouchAction.Release;
       }
     } else if (this.touchAction === TouchAction.Panning) {
-      if (app.speedEditor.interaction?.keyframe instanceof SpeedKeyframe) {
+      if (app.speedEditor.interaction?.keyframe) {
         this.touchAction = TouchAction.TouchingKeyframe;
       } else if (keys.length >= 1) {
         app.speedEditor.panning(this.vec(keys[0]).x);
@@ -352,15 +663,7 @@ class TouchInteractiveHandler extends TouchEventListener {
     } else if (this.touchAction === TouchAction.Release) {
       if (this.wasShowingTooltip === false) {
         const kfPos = this.getKeyframePos();
-        if (kfPos && app.speedEditor.isAddingKeyframe) {
-          const keyframes = kfPos.segment.speed;
-          const keyframe = new SpeedKeyframe(kfPos.xPos, kfPos.yPos);
-
-          app.history.execute(
-            `Add speed keyframe to path ${app.speedEditor.path?.uid}`,
-            new AddKeyframe(keyframes, keyframe)
-          );
-        }
+        if (kfPos && app.speedEditor.isAddingKeyframe) addKeyframeAt(kfPos);
       }
 
       this.touchAction = TouchAction.End;
@@ -414,8 +717,12 @@ const SpeedCanvasElement = observer((props: { extended: boolean }) => {
   const fgColor = getAppThemeInfo().foregroundColor;
   const bgColor = getAppThemeInfo().backgroundColor;
 
-  const speedFrom = path.pc.speedLimit.from;
-  const speedTo = path.pc.speedLimit.to;
+  const isHolonomic = app.gc.robotIsHolonomic === true || app.gc.robotIsHolonomic === "force-holonomic";
+  const isHeadingGraph = isShowingHeadingGraph();
+
+  const axisTop = isHeadingGraph ? 360 : path.pc.speedLimit.to;
+  const axisBottom = isHeadingGraph ? 0 : path.pc.speedLimit.from;
+  const graphTitle = (isHeadingGraph ? "Heading" : "Speed") + (isHolonomic ? " ⇅" : "");
 
   const bentRateHigh = path.pc.bentRateApplicableRange.to;
   const bentRateLow = path.pc.bentRateApplicableRange.from;
@@ -433,10 +740,27 @@ const SpeedCanvasElement = observer((props: { extended: boolean }) => {
     const kfPos = gcc.toPos(new Vector(e.evt.offsetX, e.evt.offsetY));
     if (kfPos === undefined) return;
 
-    const keyframes = kfPos.segment.speed;
-    const keyframe = new SpeedKeyframe(kfPos.xPos, kfPos.yPos);
+    // UX: Shift + click to add an event marker
+    if (e.evt.shiftKey) {
+      const count = path.segments.reduce((sum, segment) => sum + segment.marker.length, 0);
+      promptEventMarkerName("Add Event Marker", `Marker ${count + 1}`, name => {
+        app.history.execute(
+          `Add event marker to path ${path.uid}`,
+          new AddKeyframe(kfPos.segment.marker, new EventMarker(kfPos.xPos, name))
+        );
+      });
+      return;
+    }
+
+    addKeyframeAt(kfPos);
+  };
+
+  const onGraphTitleClick = () => {
+    // UX: Switch between the speed graph and the heading graph, only available for holonomic robots
+    if (!isHolonomic) return;
 
-    app.history.execute(`Add speed keyframe to path ${path.uid}`, new AddKeyframe(keyframes, keyframe));
+    app.speedEditor.graph = app.speedEditor.graph === "speed" ? "heading" : "speed";
+    app.speedEditor.tooltipPosition = undefined;
   };
 
   const handleWheel = (e: Konva.KonvaEventObject<WheelEvent>) => {
@@ -488,7 +812,10 @@ const SpeedCanvasElement = observer((props: { extended: boolean }) => {
               strokeWidth={gcc.lineWidth}
             />
 
+            <PathCollisions {...{ path, gcc }} />
             <PathPoints {...{ path, gcc }} />
+            <OdometryLogSpeed {...{ path, gcc }} />
+            <PlaybackCursor {...{ path, gcc }} />
 
             <Rect x={0} y={0} width={gcc.twoSidePaddingWidth} height={gcc.pixelHeight} fill={bgColor} />
             <Rect
@@ -509,10 +836,11 @@ const SpeedCanvasElement = observer((props: { extended: boolean }) => {
             />
 
             <Keyframes {...{ path, gcc }} />
+            <EventMarkers {...{ path, gcc }} />
 
             <Rect x={0} y={0} width={gcc.axisTitleWidth} height={gcc.pixelHeight} fill={bgColor} />
             <Text
-              text={speedTo + ""}
+              text={axisTop + ""}
               x={0}
               y={gcc.axisLineTopX - fontSize / 2}
               fontSize={fontSize}
@@ -522,7 +850,7 @@ const SpeedCanvasElement = observer((props: { extended: boolean }) => {
               width={gcc.axisTitleWidth * 0.9}
             />
             <Text
-              text={speedFrom + ""}
+              text={axisBottom + ""}
               x={0}
               y={gcc.axisLineBottomX - fontSize / 2}
               fontSize={fontSize}
@@ -559,7 +887,7 @@ const SpeedCanvasElement = observer((props: { extended: boolean }) => {
             />
 
             <Text
-              text={"Speed"}
+              text={graphTitle}
               x={0}
               y={gcc.pixelHeight}
               fontSize={fontSize}
@@ -569,6 +897,8 @@ const SpeedCanvasElement = observer((props: { extended: boolean }) => {
               height={fontSize}
               align="center"
               rotation={270}
+              onClick={action(onGraphTitleClick)}
+              onTap={action(onGraphTitleClick)}
             />
             <Text
               text={"Bent Rate"}
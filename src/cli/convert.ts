@@ -0,0 +1,22 @@
+/**
+ * The command-line entry point of the headless converter, e.g. to regenerate robot code from the path files in CI.
+ * See CONVERTER_USAGE in @core/Converter for the arguments.
+ */
+import "./environment";
+import { promises as fs } from "fs";
+import { runConverter } from "@core/Converter";
+import { Logger } from "@core/Logger";
+
+const logger = Logger("Converter");
+
+runConverter(process.argv.slice(2), {
+  readFile: async path => {
+    const buffer = await fs.readFile(path);
+    return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+  },
+  writeFile: (path, data) => fs.writeFile(path, new Uint8Array(data)),
+  log: message => process.stdout.write(message + "\n"),
+  error: message => logger.error(message)
+}).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,17 @@
+/**
+ * The browser environment of the headless converter.
+ *
+ * ALGO: The formats are shared with the app, their modules use the browser APIs when they are loaded, e.g. window and
+ * localStorage. The same DOM implementation as the tests is used to provide them in Node.js. The app stores are not
+ * created by the converter. This module must be imported before any other module of the app.
+ */
+import { JSDOM } from "jsdom";
+
+const dom = new JSDOM("<!DOCTYPE html>", { url: "http://localhost/", pretendToBeVisual: true });
+
+const globals = global as unknown as Record<string, unknown>;
+const window = dom.window as unknown as Record<string, unknown>;
+for (const key of Object.getOwnPropertyNames(window)) {
+  if (!(key in globals)) globals[key] = window[key];
+}
+globals.window = dom.window;
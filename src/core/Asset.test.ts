@@ -6,8 +6,10 @@ import {
   FieldImageOriginType,
   FieldImageSignatureAndOrigin,
   createExternalFieldImage,
-  createLocalFieldImage
+  createLocalFieldImage,
+  getDefaultBuiltInFieldImage
 } from "./Asset";
+import { getAppStores } from "./MainApp";
 
 test("Asset validation test", async () => {
   const signAndOrigin = new FieldImageSignatureAndOrigin("name123", "name123", new FieldImageBuiltInOrigin());
@@ -69,3 +71,18 @@ test("Asset validation test", async () => {
 
   expect(await validate(signAndOrigin3)).toHaveLength(3);
 });
+
+test("Load corrupted obstacles of built-in assets", () => {
+  const { assetManager } = getAppStores();
+  const asset = getDefaultBuiltInFieldImage();
+
+  localStorage.setItem("builtInAssetObstacles", "not a json");
+  expect(() => assetManager.loadAssets()).not.toThrow();
+  expect(asset.obstacles).toEqual([]);
+
+  localStorage.setItem("builtInAssetObstacles", JSON.stringify({ [asset.signature]: "not an array" }));
+  expect(() => assetManager.loadAssets()).not.toThrow();
+  expect(asset.obstacles).toEqual([]);
+
+  localStorage.removeItem("builtInAssetObstacles");
+});
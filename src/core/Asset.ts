@@ -14,6 +14,10 @@ import { makeAutoObservable, makeObservable, observable } from "mobx";
 import { ValidateNumber, hex, makeId, TextEncoder } from "./Util";
 import localforage from "localforage";
 import { Dimension } from "./CoordinateSystem";
+import { FieldObstacle, isFieldObstacle } from "./Collision";
+import { Logger } from "./Logger";
+
+const logger = Logger("Asset");
 
 export const DEFAULT_ACCEPT_FILE_EXT = [".png", ".jpg", ".jpeg", ".gif"] as const;
 
@@ -131,13 +135,15 @@ export class FieldImageAsset<TOrigin extends FieldImageOriginType> {
   public heightInMM: number; // in MM
   public location: string;
   public signature: string;
+  public obstacles: FieldObstacle[] = []; // in MM
 
   constructor(type: TOrigin, displayName: string, heightInMM: number, location: string, signature: string) {
     makeObservable(this, {
       displayName: observable,
       heightInMM: observable,
       location: observable,
-      signature: observable
+      signature: observable,
+      obstacles: observable.ref
     });
 
     // ALGO: Any code make to this point assume the image is downloaded
@@ -392,11 +398,36 @@ export class AssetManager {
     this.userAssets = assets.map(asset =>
       plainToInstance(asset["type"] === FieldImageOriginType.Local ? FieldImageLocalAsset : FieldImageAsset, asset)
     );
+
+    // ALGO: Built-in assets are not saved, their obstacles are saved separately by signature
+    // ALGO: The storage can be modified outside the app, fall back to no obstacles if it is corrupted
+    let obstacles: Record<string, unknown> = {};
+    try {
+      const data = JSON.parse(localStorage.getItem("builtInAssetObstacles") ?? "{}");
+      if (typeof data === "object" && data !== null && !Array.isArray(data)) obstacles = data;
+    } catch (e) {
+      logger.error("Failed to load the obstacles of the built-in assets", e);
+    }
+    for (const asset of builtInAssets) {
+      const list = obstacles[asset.signature];
+      asset.obstacles = Array.isArray(list) ? list.filter(isFieldObstacle) : [];
+    }
   }
 
   saveAssets() {
     const assetsInObj = instanceToPlain(this.userAssets);
     localStorage.setItem("assets", JSON.stringify(assetsInObj));
+
+    const obstacles: Record<string, FieldObstacle[]> = {};
+    for (const asset of builtInAssets) {
+      if (asset.obstacles.length !== 0) obstacles[asset.signature] = asset.obstacles;
+    }
+    localStorage.setItem("builtInAssetObstacles", JSON.stringify(obstacles));
+  }
+
+  setObstacles(asset: FieldImageAsset<FieldImageOriginType>, obstacles: FieldObstacle[]) {
+    asset.obstacles = obstacles;
+    this.saveAssets();
   }
 
   addAsset(asset: FieldImageAsset<FieldImageOriginType.External | FieldImageOriginType.Local>) {
@@ -477,3 +508,11 @@ const builtInAssets: FieldImageAsset<FieldImageOriginType>[] = [
 export function getDefaultBuiltInFieldImage(): FieldImageAsset<FieldImageOriginType> {
   return builtInAssets[0];
 }
+
+/**
+ * @param signature the signature of the field image
+ * @returns the built-in field image with the signature, or undefined if it is not a built-in field image
+ */
+export function getBuiltInFieldImageBySignature(signature: string): FieldImageAsset<FieldImageOriginType> | undefined {
+  return builtInAssets.find(asset => asset.signature === signature);
+}
@@ -0,0 +1,37 @@
+import { getAppStores } from "./MainApp";
+import { AutosaveSnapshot, getExpiredSnapshots } from "./Autosave";
+import { EndControl, Segment } from "./Path";
+
+test("dummy", () => {
+  getAppStores(); // suppress constructor error
+});
+
+function snapshot(id: string, timestamp: number): AutosaveSnapshot {
+  return { id, timestamp, fileName: "path.jerryio.txt", format: "path.jerryio v0.1.x (cm, rpm)" };
+}
+
+test("getExpiredSnapshots", () => {
+  const day = 24 * 60 * 60 * 1000;
+  const now = 100 * day;
+  const snapshots = [snapshot("a", now - 1000), snapshot("b", now - 3 * day), snapshot("c", now - 2000)];
+
+  expect(getExpiredSnapshots([], 10, 7, now)).toEqual([]);
+  expect(getExpiredSnapshots(snapshots, 10, 7, now)).toEqual([]);
+  // ALGO: The newest snapshots are kept first
+  expect(getExpiredSnapshots(snapshots, 2, 7, now).map(s => s.id)).toEqual(["b"]);
+  expect(getExpiredSnapshots(snapshots, 1, 7, now).map(s => s.id)).toEqual(["c", "b"]);
+  expect(getExpiredSnapshots(snapshots, 10, 2, now).map(s => s.id)).toEqual(["b"]);
+  expect(getExpiredSnapshots(snapshots, 0, 7, now).map(s => s.id)).toEqual(["a", "c", "b"]);
+});
+
+test("saveSnapshot skips unmodified files", async () => {
+  const { app } = getAppStores();
+  app.newFile();
+
+  app.paths = [app.format.createPath(new Segment(new EndControl(0, 0, 0), new EndControl(10, 10, 0)))];
+  expect(app.history.isModified()).toBe(false);
+  expect(await app.autosave.saveSnapshot()).toBe(false);
+  expect(app.autosave.snapshots).toEqual([]);
+
+  app.newFile();
+});
@@ -0,0 +1,227 @@
+import { makeAutoObservable, reaction, runInAction } from "mobx";
+import localforage from "localforage";
+import { getAppStores } from "./MainApp";
+import { Logger } from "./Logger";
+import { makeId } from "./Util";
+
+const logger = Logger("Autosave");
+
+const INDEX_STORAGE_KEY = "autosaveIndex";
+const SNAPSHOT_STORAGE_KEY_PREFIX = "autosave-";
+const ACKNOWLEDGED_STORAGE_KEY = "autosaveAcknowledged";
+
+/**
+ * The metadata of an autosave snapshot, the path file data is stored separately
+ */
+export interface AutosaveSnapshot {
+  id: string;
+  timestamp: number; // in milliseconds since epoch
+  fileName: string;
+  format: string;
+}
+
+function isAutosaveSnapshot(value: unknown): value is AutosaveSnapshot {
+  if (typeof value !== "object" || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  return (
+    typeof obj.id === "string" &&
+    typeof obj.timestamp === "number" &&
+    typeof obj.fileName === "string" &&
+    typeof obj.format === "string"
+  );
+}
+
+/**
+ * @param snapshots The snapshots
+ * @param maxSnapshots The maximum number of snapshots to keep
+ * @param maxAgeInDays The maximum age of snapshots to keep, in days
+ * @param now The current time in milliseconds since epoch
+ * @returns The snapshots exceeding the retention limits, the newest snapshots are kept first
+ */
+export function getExpiredSnapshots(
+  snapshots: AutosaveSnapshot[],
+  maxSnapshots: number,
+  maxAgeInDays: number,
+  now: number
+): AutosaveSnapshot[] {
+  const maxAge = maxAgeInDays * 24 * 60 * 60 * 1000;
+  const sorted = snapshots.slice().sort((a, b) => b.timestamp - a.timestamp);
+  return sorted.filter((snapshot, idx) => idx >= maxSnapshots || now - snapshot.timestamp > maxAge);
+}
+
+/**
+ * The AutosaveManager periodically stores the path file data to IndexedDB, so that the work can be recovered after
+ * the tab is crashed or closed accidentally
+ */
+export class AutosaveManager {
+  private snapshots_: AutosaveSnapshot[] = []; // ALGO: Sorted by timestamp, newest first
+  private lastContent: string | undefined = undefined;
+  private timer: ReturnType<typeof setInterval> | undefined = undefined;
+  private isLoaded: boolean = false;
+  private isRecoveryChecked: boolean = false;
+
+  constructor() {
+    makeAutoObservable<this, "timer">(this, { timer: false });
+  }
+
+  /**
+   * Start the periodic autosave, the interval is updated when the preference is changed
+   */
+  start() {
+    const { appPreferences } = getAppStores();
+
+    this.schedule(appPreferences.autosaveInterval);
+    reaction(
+      () => appPreferences.autosaveInterval,
+      interval => this.schedule(interval)
+    );
+  }
+
+  private schedule(intervalInSeconds: number) {
+    if (this.timer !== undefined) clearInterval(this.timer);
+    this.timer = undefined;
+
+    // UX: Autosave is disabled if the interval is 0
+    if (intervalInSeconds <= 0) return;
+    this.timer = setInterval(() => this.saveSnapshot(), intervalInSeconds * 1000);
+  }
+
+  /**
+   * Load the snapshot list from the storage, it is only loaded once
+   */
+  async load(): Promise<void> {
+    if (this.isLoaded) return;
+
+    try {
+      const index = await localforage.getItem<unknown>(INDEX_STORAGE_KEY);
+      // SECURITY: The stored data might be modified or corrupted, the data is validated before use
+      const snapshots = Array.isArray(index) ? index.filter(isAutosaveSnapshot) : [];
+      runInAction(() => {
+        this.snapshots_ = snapshots.sort((a, b) => b.timestamp - a.timestamp);
+        this.isLoaded = true;
+      });
+    } catch (err) {
+      logger.error("Failed to load autosave index", err);
+    }
+  }
+
+  /**
+   * Store the current path file data as a snapshot if it is changed since the last snapshot
+   *
+   * @returns true if a snapshot is stored, false otherwise
+   */
+  async saveSnapshot(): Promise<boolean> {
+    const { app, appPreferences } = getAppStores();
+
+    // UX: Do not autosave an empty file or a file without unsaved changes, e.g. a file that is just opened
+    if (app.paths.length === 0 || app.history.isModified() === false) return false;
+
+    const data = app.exportPDJData();
+    const content = JSON.stringify(data);
+    if (content === this.lastContent) return false;
+
+    await this.load();
+
+    const snapshot: AutosaveSnapshot = {
+      id: makeId(10),
+      timestamp: Date.now(),
+      fileName: app.mountingFile.name,
+      format: app.format.getName()
+    };
+
+    try {
+      await localforage.setItem(SNAPSHOT_STORAGE_KEY_PREFIX + snapshot.id, data);
+      // ALGO: The content is only marked as stored after the write succeeds, a failed write is retried next time
+      runInAction(() => {
+        this.lastContent = content;
+        this.snapshots_.unshift(snapshot);
+      });
+
+      const expired = getExpiredSnapshots(
+        this.snapshots_,
+        appPreferences.maxAutosaveSnapshots,
+        appPreferences.autosaveRetentionDays,
+        snapshot.timestamp
+      );
+      await Promise.all(expired.map(s => localforage.removeItem(SNAPSHOT_STORAGE_KEY_PREFIX + s.id)));
+      runInAction(() => (this.snapshots_ = this.snapshots_.filter(s => !expired.includes(s))));
+
+      await this.saveIndex();
+      return true;
+    } catch (err) {
+      logger.error("Failed to autosave", err);
+      return false;
+    }
+  }
+
+  /**
+   * @param snapshot The snapshot
+   * @returns The path file data of the snapshot, or undefined if it is not found
+   */
+  async loadSnapshotData(snapshot: AutosaveSnapshot): Promise<Record<string, any> | undefined> {
+    try {
+      const data = await localforage.getItem<Record<string, any>>(SNAPSHOT_STORAGE_KEY_PREFIX + snapshot.id);
+      return typeof data === "object" && data !== null ? data : undefined;
+    } catch (err) {
+      logger.error("Failed to load snapshot", err);
+      return undefined;
+    }
+  }
+
+  async removeSnapshot(snapshot: AutosaveSnapshot): Promise<void> {
+    await localforage.removeItem(SNAPSHOT_STORAGE_KEY_PREFIX + snapshot.id);
+    runInAction(() => (this.snapshots_ = this.snapshots_.filter(s => s.id !== snapshot.id)));
+    await this.saveIndex();
+  }
+
+  async removeAllSnapshots(): Promise<void> {
+    await Promise.all(this.snapshots_.map(s => localforage.removeItem(SNAPSHOT_STORAGE_KEY_PREFIX + s.id)));
+    runInAction(() => (this.snapshots_ = []));
+    await this.saveIndex();
+  }
+
+  private async saveIndex(): Promise<void> {
+    // ALGO: Store plain objects instead of observable proxies
+    await localforage.setItem(
+      INDEX_STORAGE_KEY,
+      this.snapshots_.map(s => ({ ...s }))
+    );
+  }
+
+  /**
+   * Mark all existing snapshots as seen, they will not trigger the recovery dialog on startup. The current content is
+   * considered safe, e.g. it is saved or downloaded, so it is not stored as a snapshot again.
+   */
+  acknowledge() {
+    const { app } = getAppStores();
+
+    localStorage.setItem(ACKNOWLEDGED_STORAGE_KEY, JSON.stringify(Date.now()));
+    this.lastContent = JSON.stringify(app.exportPDJData());
+  }
+
+  /**
+   * @returns true if there is any snapshot created after the last acknowledgement, e.g. the tab was crashed
+   */
+  hasUnacknowledgedSnapshots(): boolean {
+    const acknowledged = Number(localStorage.getItem(ACKNOWLEDGED_STORAGE_KEY) ?? 0);
+    const latest = this.snapshots_[0];
+    return latest !== undefined && latest.timestamp > acknowledged;
+  }
+
+  /**
+   * Check if the recovery dialog should be shown, e.g. the tab was crashed in the last session
+   *
+   * @returns true if there is any unacknowledged snapshot, it only returns true once per session
+   */
+  async checkRecovery(): Promise<boolean> {
+    if (this.isRecoveryChecked) return false;
+    this.isRecoveryChecked = true;
+
+    await this.load();
+    return this.hasUnacknowledgedSnapshots();
+  }
+
+  get snapshots(): readonly AutosaveSnapshot[] {
+    return this.snapshots_;
+  }
+}
@@ -14,9 +14,11 @@ import {
   boundHeading,
   boundAngle,
   getDiscretePoints,
-  findCentralPoint
+  findCentralPoint,
+  getPathPoints,
+  getRobotHeadingAt
 } from "./Calculation";
-import { Control, EndControl, Path, Segment, Vector } from "./Path";
+import { Control, EndControl, HeadingKeyframe, Path, Segment, Vector } from "./Path";
 import { Quantity, UnitOfLength } from "./Unit";
 
 test("getPathSamplePoints", () => {
@@ -315,6 +317,40 @@ test("Calculation with two segments edge case 1", () => {
 });
 
 // Should produce an array consiting of each discrete point on the path only once
+test("getPathPoints with heading keyframes", () => {
+  const path = new Path(
+    new CustomPathConfig(),
+    new Segment(new EndControl(0, 0, 0), new EndControl(0, 100, 90)),
+    new Segment(new EndControl(0, 100, 90), new EndControl(0, 200, 0))
+  );
+  path.segments[1].first = path.segments[0].last;
+
+  const density = new Quantity(2, UnitOfLength.Centimeter);
+
+  let result = getPathPoints(path, density);
+  let points = result.points;
+  expect(result.headingKeyframeIndexes).toHaveLength(0);
+  expect(points[0].holonomicHeading).toBeCloseTo(0);
+  expect(points[51].holonomicHeading).toBeCloseTo(90);
+  expect(points[76].holonomicHeading).toBeCloseTo(45);
+  expect(points[points.length - 1].holonomicHeading).toBe(0);
+
+  path.segments[0].heading.add(new HeadingKeyframe(0.5, 270));
+  result = getPathPoints(path, density);
+  points = result.points;
+  expect(result.headingKeyframeIndexes).toHaveLength(1);
+  expect(result.headingKeyframeIndexes[0].index).toBe(25);
+  // ALGO: The robot rotates the shortest way to the heading keyframe
+  expect(points[10].holonomicHeading).toBeCloseTo(324);
+  expect(points[25].holonomicHeading).toBeCloseTo(270);
+  expect(points[25].heading).toBeUndefined();
+  expect(points[51].holonomicHeading).toBeCloseTo(90);
+  expect(points[76].holonomicHeading).toBeCloseTo(45);
+
+  expect(getRobotHeadingAt(points[25], true)).toBeCloseTo(270);
+  expect(getRobotHeadingAt(points[25], false)).toBeCloseTo(0);
+});
+
 test("getDiscretePoints", () => {
   const path = new Path(new CustomPathConfig(), new Segment(new EndControl(0, 0, 0), new EndControl(10, 0, 0)));
 
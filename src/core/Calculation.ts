@@ -8,6 +8,8 @@ import {
   Segment,
   Vector,
   LookaheadKeyframe,
+  HeadingKeyframe,
+  EventMarker,
   SegmentKeyframeKey,
   SegmentKeyframeKeyMap
 } from "./Path";
@@ -62,6 +64,8 @@ export interface PointCalculationResult extends UniformCalculationResult {
   arcLength: number; // The total arc length of the path.
   speedKeyframeIndexes: KeyframeIndexing<SpeedKeyframe>[]; // The indexes of keyframes in the `points` array.
   lookaheadKeyframeIndexes: KeyframeIndexing<LookaheadKeyframe>[]; // The indexes of keyframes in the `points` array.
+  headingKeyframeIndexes: KeyframeIndexing<HeadingKeyframe>[]; // The indexes of keyframes in the `points` array.
+  markerIndexes: KeyframeIndexing<EventMarker>[]; // The indexes of event markers in the `points` array.
 }
 
 export interface PointCalculationOptions {
@@ -81,7 +85,15 @@ export function getPathPoints(
   options?: PointCalculationOptions
 ): PointCalculationResult {
   if (path.segments.length === 0)
-    return { arcLength: 0, points: [], segmentIndexes: [], speedKeyframeIndexes: [], lookaheadKeyframeIndexes: [] };
+    return {
+      arcLength: 0,
+      points: [],
+      segmentIndexes: [],
+      speedKeyframeIndexes: [],
+      lookaheadKeyframeIndexes: [],
+      headingKeyframeIndexes: [],
+      markerIndexes: []
+    };
 
   const sampleResult = getPathSamplePoints(path, density);
   const uniformResult = getUniformPointsFromSamples(sampleResult, density);
@@ -95,6 +107,15 @@ export function getPathPoints(
     new KeyframeIndexing(0, undefined, new LookaheadKeyframe(0, 1)),
     ...lookaheadKeyframeIndexes
   ]);
+  const headingKeyframeIndexes = getPathKeyframeIndexes(path.segments, uniformResult.segmentIndexes, "heading");
+  processKeyframes(
+    path,
+    uniformResult.points,
+    getHeadingKeyframeIndexesWithEndControls(path, uniformResult, headingKeyframeIndexes)
+  );
+  // ALGO: The heading keyframes only affect the holonomic heading, the heading of the points is kept for the end
+  // controls, otherwise the points of non-holonomic formats carry extra headings and become end controls on import
+  const markerIndexes = getPathKeyframeIndexes(path.segments, uniformResult.segmentIndexes, "marker");
 
   // ALGO: The final point should be the last end control point in the path
   // ALGO: At this point, we know segments has at least 1 segment
@@ -102,6 +123,7 @@ export function getPathPoints(
   const lastControl = lastSegment.last;
   // ALGO: No need to calculate delta and integral for the final point, it is always 0
   const finalPoint = new Point(lastControl.x, lastControl.y, lastSegment, 1, 0, lastControl.heading);
+  finalPoint.holonomicHeading = lastControl.heading;
   // ALGO: No need to calculate speed for the final point, it is always 0
   uniformResult.points.push(finalPoint);
 
@@ -110,10 +132,44 @@ export function getPathPoints(
     points: uniformResult.points,
     segmentIndexes: uniformResult.segmentIndexes,
     speedKeyframeIndexes,
-    lookaheadKeyframeIndexes
+    lookaheadKeyframeIndexes,
+    headingKeyframeIndexes,
+    markerIndexes
   };
 }
 
+/**
+ * Merges the heading keyframes with the end controls, the first end control of each segment is an implicit heading
+ * keyframe at the beginning of the segment. The last end control of the path is placed after the last point.
+ *
+ * @param path - The path being processed.
+ * @param result - The uniform points and segment indexes of the path.
+ * @param headingKeyframeIndexes - The heading keyframes of the path.
+ * @returns The keyframes to apply, sorted by index.
+ */
+export function getHeadingKeyframeIndexesWithEndControls(
+  path: Path,
+  result: UniformCalculationResult,
+  headingKeyframeIndexes: KeyframeIndexing<HeadingKeyframe>[]
+): KeyframeIndexing<HeadingKeyframe>[] {
+  const rtn: KeyframeIndexing<HeadingKeyframe>[] = [];
+
+  for (let segmentIdx = 0; segmentIdx < path.segments.length; segmentIdx++) {
+    const segment = path.segments[segmentIdx];
+    const pointIdxRange = result.segmentIndexes[segmentIdx];
+    if (pointIdxRange.from === pointIdxRange.to) continue; // ALGO: Skip empty segments
+
+    // ALGO: The user keyframe at the beginning of the segment overrides the end control
+    rtn.push(new KeyframeIndexing(pointIdxRange.from, segment, new HeadingKeyframe(0, segment.first.heading)));
+    rtn.push(...headingKeyframeIndexes.filter(ikf => ikf.segment === segment));
+  }
+
+  const lastControl = path.segments[path.segments.length - 1].last;
+  rtn.push(new KeyframeIndexing(result.points.length, undefined, new HeadingKeyframe(0, lastControl.heading)));
+
+  return rtn;
+}
+
 /**
  * Processes the given points with keyframes.
  *
@@ -588,6 +644,35 @@ export function curvature(segment: Segment, t: number): number {
   return crossProduct / magnitude;
 }
 
+/**
+ * Calculates the heading of the robot at the given point.
+ *
+ * @param point - The point on the path
+ * @param robotIsHolonomic - Whether the robot is holonomic or not, or force the robot to be static
+ * @returns The heading in degrees
+ */
+export function getRobotHeadingAt(
+  point: Point,
+  robotIsHolonomic: boolean | "force-static" | "force-holonomic"
+): number {
+  const t = point.sampleT;
+  const segment = point.sampleRef;
+  const c0 = segment.first;
+  const c3 = segment.last;
+
+  if (robotIsHolonomic === "force-static") {
+    return c0.heading;
+  } else if (robotIsHolonomic === true || robotIsHolonomic === "force-holonomic") {
+    // ALGO: The heading is interpolated by the heading keyframes if the point is calculated by getPathPoints
+    if (point.holonomicHeading !== undefined) return point.holonomicHeading;
+
+    const c3Heading = toDerivativeHeading(c0.heading, c3.heading);
+    return c0.heading + c3Heading * t;
+  } else {
+    return toHeading(firstDerivative(segment, t));
+  }
+}
+
 /**
  * Bounds the given heading to the range [0, 360) in degrees.
  * @param num The heading to bound.
@@ -737,11 +822,13 @@ export function findLinesIntersection(
   return new Vector(x, y);
 }
 
-export function findCentralPoint(vectors: Vector[]): Vector | undefined {
+/**
+ * @param vectors The vectors
+ * @returns The axis-aligned bounding box of the vectors, or undefined if there is no vector
+ */
+export function findBoundingBox(vectors: Vector[]): { from: Vector; to: Vector } | undefined {
   if (vectors.length === 0) return undefined;
 
-  // find bounding box
-
   let minX = vectors[0].x;
   let minY = vectors[0].y;
   let maxX = vectors[0].x;
@@ -755,5 +842,12 @@ export function findCentralPoint(vectors: Vector[]): Vector | undefined {
     if (vector.y > maxY) maxY = vector.y;
   }
 
-  return new Vector((minX + maxX) / 2, (minY + maxY) / 2);
+  return { from: new Vector(minX, minY), to: new Vector(maxX, maxY) };
+}
+
+export function findCentralPoint(vectors: Vector[]): Vector | undefined {
+  const box = findBoundingBox(vectors);
+  if (box === undefined) return undefined;
+
+  return new Vector((box.from.x + box.to.x) / 2, (box.from.y + box.to.y) / 2);
 }
@@ -0,0 +1,71 @@
+import { getAppStores } from "./MainApp";
+import { diffCodeLines, getCodeLineSources, splitCodeLines, tokenizeCodeLine } from "./CodePreview";
+import { EndControl, Segment } from "./Path";
+import { MoveToPointCodeGenFormatV0_1 } from "../format/MoveToPointCodeGenFormatV0_1";
+
+test("dummy", () => {
+  getAppStores(); // suppress constructor error
+});
+
+test("tokenizeCodeLine", () => {
+  expect(tokenizeCodeLine('chassis.moveTo(1.5, -2, "fast"); // done')).toEqual([
+    { kind: "plain", text: "chassis." },
+    { kind: "function", text: "moveTo" },
+    { kind: "plain", text: "(" },
+    { kind: "number", text: "1.5" },
+    { kind: "plain", text: ", -" },
+    { kind: "number", text: "2" },
+    { kind: "plain", text: ", " },
+    { kind: "string", text: '"fast"' },
+    { kind: "plain", text: "); " },
+    { kind: "comment", text: "// done" }
+  ]);
+  expect(tokenizeCodeLine("if (x1 == true) return;")).toEqual([
+    { kind: "keyword", text: "if" },
+    { kind: "plain", text: " (x1 == " },
+    { kind: "keyword", text: "true" },
+    { kind: "plain", text: ") " },
+    { kind: "keyword", text: "return" },
+    { kind: "plain", text: ";" }
+  ]);
+  expect(tokenizeCodeLine("")).toEqual([]);
+});
+
+test("splitCodeLines", () => {
+  expect(splitCodeLines("")).toEqual([]);
+  expect(splitCodeLines("a\nb\n")).toEqual(["a", "b"]);
+  expect(splitCodeLines("a\n\nb")).toEqual(["a", "", "b"]);
+});
+
+test("diffCodeLines", () => {
+  expect(diffCodeLines(["a", "b", "c"], ["a", "x", "c", "d"])).toEqual([
+    { kind: "unchanged", text: "a", line: 0 },
+    { kind: "removed", text: "b" },
+    { kind: "added", text: "x", line: 1 },
+    { kind: "unchanged", text: "c", line: 2 },
+    { kind: "added", text: "d", line: 3 }
+  ]);
+  expect(diffCodeLines([], ["a"])).toEqual([{ kind: "added", text: "a", line: 0 }]);
+  expect(diffCodeLines(["a"], [])).toEqual([{ kind: "removed", text: "a" }]);
+});
+
+test("getCodeLineSources", () => {
+  const format = new MoveToPointCodeGenFormatV0_1();
+  const seg1 = new Segment(new EndControl(0, 0, 0), new EndControl(0, 60, 0));
+  const seg2 = new Segment(seg1.last, new EndControl(60, 60, 90));
+  const path = format.createPath(seg1, seg2);
+  path.name = "Test";
+
+  const generated = format.generateCode({
+    routines: [],
+    paths: [path],
+    fieldImageAsset: undefined as any,
+    interestedPath: () => path,
+    exportPDJData: () => ({})
+  });
+  expect(generated.code).toBe("// Test\n\nmoveToPoint(0, 60, 0, 30);\nmoveToPoint(60, 60, 90, 30);\n\n");
+
+  const sources = getCodeLineSources(generated);
+  expect(sources.map(source => source?.path)).toEqual([path, path, path, path, path]);
+  expect(sources.map(source => source?.segment)).toEqual([undefined, undefined, seg1, seg2, undefined]);
+});
@@ -0,0 +1,146 @@
+import { observable } from "mobx";
+import { GeneratedCode, CodeSource } from "../format/Format";
+
+export type CodeTokenKind = "comment" | "string" | "number" | "keyword" | "function" | "plain";
+
+export interface CodeToken {
+  kind: CodeTokenKind;
+  text: string;
+}
+
+const CODE_KEYWORDS = [
+  "auto", "bool", "break", "case", "const", "continue", "def", "default", "do", "double", "else", "false", "float",
+  "for", "if", "int", "let", "long", "namespace", "new", "nullptr", "return", "static", "struct", "switch", "this",
+  "true", "using", "var", "void", "while"
+]; // prettier-ignore
+
+const CODE_TOKEN_PATTERNS: [CodeTokenKind, RegExp][] = [
+  ["comment", /^(\/\/.*|#.*|\/\*.*?(\*\/|$))/],
+  ["string", /^("(\\.|[^"\\])*"?|'(\\.|[^'\\])*'?|`(\\.|[^`\\])*`?)/],
+  ["number", /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?[fFlLuU]*/],
+  ["function", /^[A-Za-z_]\w*(?=\s*\()/],
+  ["plain", /^[A-Za-z_]\w*/]
+];
+
+/**
+ * ALGO: A simple tokenizer for C-like languages, it is used for syntax highlighting only.
+ * The tokenizer works line by line, a block comment spanning multiple lines is not highlighted after the first line.
+ *
+ * @param line The line of code
+ * @returns The tokens, the concatenation of the texts is the line
+ */
+export function tokenizeCodeLine(line: string): CodeToken[] {
+  const rtn: CodeToken[] = [];
+  const push = (kind: CodeTokenKind, text: string) => {
+    const last = rtn[rtn.length - 1];
+    if (last !== undefined && last.kind === kind) last.text += text;
+    else rtn.push({ kind, text });
+  };
+
+  let rest = line;
+  while (rest.length > 0) {
+    let matched = false;
+    for (const [kind, pattern] of CODE_TOKEN_PATTERNS) {
+      const match = pattern.exec(rest);
+      if (match === null) continue;
+
+      const text = match[0];
+      push((kind === "plain" || kind === "function") && CODE_KEYWORDS.includes(text) ? "keyword" : kind, text);
+      rest = rest.substring(text.length);
+      matched = true;
+      break;
+    }
+    if (!matched) {
+      push("plain", rest[0]);
+      rest = rest.substring(1);
+    }
+  }
+
+  return rtn;
+}
+
+export interface CodeDiffLine {
+  kind: "unchanged" | "added" | "removed";
+  text: string;
+  line?: number; // The index of the line in the new code, undefined if the line is removed
+}
+
+/**
+ * ALGO: Line based diff with the longest common subsequence, the time and space complexity is O(n * m)
+ *
+ * @param oldLines The lines of the old code
+ * @param newLines The lines of the new code
+ * @returns The lines of both versions in order, the removed lines are placed before the added lines
+ */
+export function diffCodeLines(oldLines: string[], newLines: string[]): CodeDiffLine[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  // lcs[i][j] is the length of the longest common subsequence of oldLines[i:] and newLines[j:]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rtn: CodeDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[i] === newLines[j]) {
+      rtn.push({ kind: "unchanged", text: newLines[j], line: j });
+      i++;
+      j++;
+    } else if (i < n && (j >= m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      rtn.push({ kind: "removed", text: oldLines[i] });
+      i++;
+    } else {
+      rtn.push({ kind: "added", text: newLines[j], line: j });
+      j++;
+    }
+  }
+
+  return rtn;
+}
+
+/**
+ * @param code The code
+ * @returns The lines of the code, the trailing line break does not create an empty line
+ */
+export function splitCodeLines(code: string): string[] {
+  if (code === "") return [];
+  const lines = code.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * @param generated The generated code
+ * @returns The source of each line, the source with a segment is preferred over the source with a path only
+ */
+export function getCodeLineSources(generated: GeneratedCode): (CodeSource | undefined)[] {
+  let start = 0;
+  return splitCodeLines(generated.code).map(line => {
+    const end = start + line.length;
+    const overlapping = generated.sources.filter(source =>
+      line.length === 0 ? source.start <= start && start < source.end : source.start < end && start < source.end
+    );
+    start = end + 1;
+
+    return overlapping.find(source => source.segment !== undefined) ?? overlapping[0];
+  });
+}
+
+const lastCopiedCode = observable.box<string | undefined>(undefined);
+
+/**
+ * @returns The code copied by the user last time, it is used by the output preview panel to show the difference
+ */
+export function getLastCopiedCode(): string | undefined {
+  return lastCopiedCode.get();
+}
+
+export function setLastCopiedCode(code: string) {
+  lastCopiedCode.set(code);
+}
@@ -0,0 +1,135 @@
+import {
+  FieldObstacle,
+  convertObstacle,
+  getCollisionRanges,
+  getRobotFootprint,
+  isPolygonCollidingWithObstacle,
+  parseFieldObstacles
+} from "./Collision";
+import { EndControl, Point, Segment, Vector } from "./Path";
+import { UnitOfLength } from "./Unit";
+
+test("parseFieldObstacles", () => {
+  expect(parseFieldObstacles("[]")).toEqual([]);
+  expect(
+    parseFieldObstacles(
+      '[{ "type": "circle", "name": "Goal", "x": 0, "y": 0, "radius": 100 }, { "type": "polygon", "points": [{ "x": 0, "y": 0 }, { "x": 1, "y": 0 }, { "x": 0, "y": 1 }] }]'
+    ).length
+  ).toBe(2);
+
+  expect(() => parseFieldObstacles("not a json")).toThrowError("The obstacles must be in valid JSON");
+  expect(() => parseFieldObstacles("{}")).toThrowError("The obstacles must be an array");
+  expect(() => parseFieldObstacles('[{ "type": "circle", "x": 0, "y": 0, "radius": 0 }]')).toThrowError(
+    "Obstacle #1 is not a valid circle or polygon"
+  );
+  expect(() =>
+    parseFieldObstacles(
+      '[{ "type": "circle", "x": 0, "y": 0, "radius": 1 }, { "type": "polygon", "points": [{ "x": 0, "y": 0 }] }]'
+    )
+  ).toThrowError("Obstacle #2 is not a valid circle or polygon");
+  expect(() => parseFieldObstacles('[{ "type": "square", "x": 0, "y": 0 }]')).toThrowError();
+  expect(() => parseFieldObstacles('[{ "type": "circle", "name": 1, "x": 0, "y": 0, "radius": 1 }]')).toThrowError();
+});
+
+test("convertObstacle", () => {
+  expect(convertObstacle({ type: "circle", x: 100, y: -200, radius: 50 }, UnitOfLength.Centimeter)).toEqual({
+    type: "circle",
+    x: 10,
+    y: -20,
+    radius: 5
+  });
+  expect(
+    convertObstacle(
+      {
+        type: "polygon",
+        points: [
+          { x: 0, y: 0 },
+          { x: 10, y: 0 },
+          { x: 0, y: 10 }
+        ]
+      },
+      UnitOfLength.Centimeter
+    )
+  ).toEqual({
+    type: "polygon",
+    points: [
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 0, y: 1 }
+    ]
+  });
+});
+
+test("getRobotFootprint", () => {
+  const facingNorth = getRobotFootprint(new Vector(0, 0), 0, 10, 20);
+  expect(facingNorth[0].x).toBeCloseTo(-5);
+  expect(facingNorth[0].y).toBeCloseTo(10);
+  expect(facingNorth[2].x).toBeCloseTo(5);
+  expect(facingNorth[2].y).toBeCloseTo(-10);
+
+  const facingEast = getRobotFootprint(new Vector(0, 0), 90, 10, 20);
+  expect(facingEast[0].x).toBeCloseTo(10);
+  expect(facingEast[0].y).toBeCloseTo(5);
+  expect(facingEast[2].x).toBeCloseTo(-10);
+  expect(facingEast[2].y).toBeCloseTo(-5);
+});
+
+test("isPolygonCollidingWithObstacle", () => {
+  const footprint = getRobotFootprint(new Vector(0, 0), 0, 10, 10);
+
+  expect(isPolygonCollidingWithObstacle(footprint, { type: "circle", x: 0, y: 0, radius: 1 })).toBe(true);
+  expect(isPolygonCollidingWithObstacle(footprint, { type: "circle", x: 0, y: 7, radius: 3 })).toBe(true);
+  expect(isPolygonCollidingWithObstacle(footprint, { type: "circle", x: 7, y: 7, radius: 2 })).toBe(false);
+  expect(isPolygonCollidingWithObstacle(footprint, { type: "circle", x: 0, y: 0, radius: 100 })).toBe(true);
+
+  const triangle: FieldObstacle = {
+    type: "polygon",
+    points: [
+      { x: 4, y: 0 },
+      { x: 20, y: 0 },
+      { x: 20, y: 20 }
+    ]
+  };
+  expect(isPolygonCollidingWithObstacle(footprint, triangle)).toBe(true);
+
+  const cross: FieldObstacle = {
+    type: "polygon",
+    points: [
+      { x: -1, y: -20 },
+      { x: 1, y: -20 },
+      { x: 1, y: 20 },
+      { x: -1, y: 20 }
+    ]
+  };
+  // ALGO: No vertex is inside the other polygon, only the edges intersect
+  expect(isPolygonCollidingWithObstacle(footprint, cross)).toBe(true);
+
+  const far: FieldObstacle = {
+    type: "polygon",
+    points: [
+      { x: 10, y: 10 },
+      { x: 20, y: 10 },
+      { x: 20, y: 20 }
+    ]
+  };
+  expect(isPolygonCollidingWithObstacle(footprint, far)).toBe(false);
+});
+
+test("getCollisionRanges", () => {
+  const segment = new Segment(new EndControl(0, 0, 0), new EndControl(0, 100, 0));
+  const points: Point[] = [];
+  for (let i = 0; i <= 10; i++) points.push(new Point(0, i * 10, segment, i / 10));
+  const robot = { width: 10, height: 10, isHolonomic: false };
+
+  expect(getCollisionRanges(points, robot, [])).toEqual([]);
+  expect(getCollisionRanges(points, robot, [{ type: "circle", x: 0, y: 50, radius: 2 }])).toEqual([{ from: 5, to: 6 }]);
+  expect(
+    getCollisionRanges(points, robot, [
+      { type: "circle", x: 0, y: 0, radius: 10 },
+      { type: "circle", x: 12, y: 80, radius: 12 }
+    ])
+  ).toEqual([
+    { from: 0, to: 2 },
+    { from: 7, to: 10 }
+  ]);
+});
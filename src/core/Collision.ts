@@ -0,0 +1,219 @@
+import { fromHeadingInDegreeToAngleInRadian, getRobotHeadingAt } from "./Calculation";
+import { Coordinate } from "./Coordinate";
+import { Point, Vector } from "./Path";
+import { UnitConverter, UnitOfLength } from "./Unit";
+
+/**
+ * A circular field element, in mm. The origin is at the center of the field, y axis increases by north.
+ */
+export interface CircleObstacle {
+  type: "circle";
+  name?: string;
+  x: number;
+  y: number;
+  radius: number;
+}
+
+/**
+ * A polygonal field element, in mm. The origin is at the center of the field, y axis increases by north.
+ * The polygon can be concave, the vertices can be in any winding order.
+ */
+export interface PolygonObstacle {
+  type: "polygon";
+  name?: string;
+  points: Coordinate[];
+}
+
+export type FieldObstacle = CircleObstacle | PolygonObstacle;
+
+/**
+ * Represents a range of points colliding with any obstacle.
+ */
+export interface CollisionRange {
+  from: number; // The index of the first colliding point
+  to: number; // The index of the first point after the range, exclusive
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && isFinite(value);
+}
+
+export function isFieldObstacle(value: unknown): value is FieldObstacle {
+  if (typeof value !== "object" || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  if (obj.name !== undefined && typeof obj.name !== "string") return false;
+
+  if (obj.type === "circle") {
+    return isFiniteNumber(obj.x) && isFiniteNumber(obj.y) && isFiniteNumber(obj.radius) && obj.radius > 0;
+  } else if (obj.type === "polygon") {
+    return (
+      Array.isArray(obj.points) &&
+      obj.points.length >= 3 &&
+      obj.points.every(p => typeof p === "object" && p !== null && isFiniteNumber(p.x) && isFiniteNumber(p.y))
+    );
+  } else {
+    return false;
+  }
+}
+
+/**
+ * SECURITY: The input is not safe, the data is validated before use
+ *
+ * @throws Error if the input is not a valid list of obstacles
+ * @param json The obstacles in JSON
+ * @returns The obstacles
+ */
+export function parseFieldObstacles(json: string): FieldObstacle[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error("The obstacles must be in valid JSON");
+  }
+
+  if (!Array.isArray(data)) throw new Error("The obstacles must be an array");
+  const idx = data.findIndex(item => !isFieldObstacle(item));
+  if (idx !== -1) throw new Error(`Obstacle #${idx + 1} is not a valid circle or polygon`);
+
+  return data;
+}
+
+/**
+ * @param obstacle The obstacle in mm
+ * @param uol The target unit of length
+ * @returns The obstacle in the target unit of length
+ */
+export function convertObstacle(obstacle: FieldObstacle, uol: UnitOfLength): FieldObstacle {
+  const uc = new UnitConverter(UnitOfLength.Millimeter, uol);
+  if (obstacle.type === "circle") {
+    return {
+      ...obstacle,
+      x: uc.fromAtoB(obstacle.x),
+      y: uc.fromAtoB(obstacle.y),
+      radius: uc.fromAtoB(obstacle.radius)
+    };
+  } else {
+    return { ...obstacle, points: obstacle.points.map(p => ({ x: uc.fromAtoB(p.x), y: uc.fromAtoB(p.y) })) };
+  }
+}
+
+/**
+ * Calculates the corners of the robot, the robot is facing the heading with its height.
+ *
+ * @param position The center of the robot
+ * @param heading The heading in degrees
+ * @param width The width of the robot
+ * @param height The height of the robot
+ * @returns The four corners of the robot in clockwise order
+ */
+export function getRobotFootprint(position: Coordinate, heading: number, width: number, height: number): Vector[] {
+  const theta = fromHeadingInDegreeToAngleInRadian(heading);
+  const forward = new Vector(Math.cos(theta) * (height / 2), Math.sin(theta) * (height / 2));
+  const right = new Vector(Math.sin(theta) * (width / 2), -Math.cos(theta) * (width / 2));
+  const center = new Vector(position.x, position.y);
+
+  return [
+    center.add(forward).subtract(right),
+    center.add(forward).add(right),
+    center.subtract(forward).add(right),
+    center.subtract(forward).subtract(right)
+  ];
+}
+
+function isPointInPolygon(point: Coordinate, polygon: Coordinate[]): boolean {
+  // ALGO: Ray casting, count the number of edges crossing the horizontal ray to the right
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const isAAbove = a.y > point.y;
+    const isBAbove = b.y > point.y;
+    if (isAAbove !== isBAbove && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function cross(o: Coordinate, a: Coordinate, b: Coordinate): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+function isSegmentsIntersecting(a1: Coordinate, a2: Coordinate, b1: Coordinate, b2: Coordinate): boolean {
+  const d1 = cross(b1, b2, a1);
+  const d2 = cross(b1, b2, a2);
+  const d3 = cross(a1, a2, b1);
+  const d4 = cross(a1, a2, b2);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+function getDistanceToSegment(point: Coordinate, a: Coordinate, b: Coordinate): number {
+  const abX = b.x - a.x;
+  const abY = b.y - a.y;
+  const lengthSquared = abX * abX + abY * abY;
+  const t = lengthSquared === 0 ? 0 : ((point.x - a.x) * abX + (point.y - a.y) * abY) / lengthSquared;
+  const clamped = Math.max(0, Math.min(1, t));
+  return Math.hypot(point.x - (a.x + abX * clamped), point.y - (a.y + abY * clamped));
+}
+
+/**
+ * @param polygon The polygon to check, in the same unit of length as the obstacle
+ * @param obstacle The obstacle
+ * @returns true if the polygon overlaps with the obstacle
+ */
+export function isPolygonCollidingWithObstacle(polygon: Coordinate[], obstacle: FieldObstacle): boolean {
+  if (obstacle.type === "circle") {
+    if (isPointInPolygon(obstacle, polygon)) return true;
+    return polygon.some(
+      (a, i) => getDistanceToSegment(obstacle, a, polygon[(i + 1) % polygon.length]) <= obstacle.radius
+    );
+  } else {
+    const other = obstacle.points;
+    if (polygon.some(p => isPointInPolygon(p, other))) return true;
+    if (other.some(p => isPointInPolygon(p, polygon))) return true;
+
+    for (let i = 0; i < polygon.length; i++) {
+      const a1 = polygon[i];
+      const a2 = polygon[(i + 1) % polygon.length];
+      for (let j = 0; j < other.length; j++) {
+        if (isSegmentsIntersecting(a1, a2, other[j], other[(j + 1) % other.length])) return true;
+      }
+    }
+    return false;
+  }
+}
+
+/**
+ * Sweeps the robot footprint along the points and finds the ranges colliding with any obstacle.
+ *
+ * @param points The points of the path
+ * @param robot The robot dimension and type, in the same unit of length as the points
+ * @param obstacles The obstacles, in the same unit of length as the points
+ * @returns The colliding ranges in ascending order
+ */
+export function getCollisionRanges(
+  points: Point[],
+  robot: { width: number; height: number; isHolonomic: boolean | "force-static" | "force-holonomic" },
+  obstacles: FieldObstacle[]
+): CollisionRange[] {
+  const ranges: CollisionRange[] = [];
+  if (obstacles.length === 0) return ranges;
+
+  let current: CollisionRange | undefined;
+  points.forEach((point, idx) => {
+    const heading = getRobotHeadingAt(point, robot.isHolonomic);
+    const footprint = getRobotFootprint(point, heading, robot.width, robot.height);
+    const isColliding = obstacles.some(obstacle => isPolygonCollidingWithObstacle(footprint, obstacle));
+
+    if (isColliding && current === undefined) {
+      current = { from: idx, to: idx + 1 };
+      ranges.push(current);
+    } else if (isColliding && current !== undefined) {
+      current.to = idx + 1;
+    } else {
+      current = undefined;
+    }
+  });
+
+  return ranges;
+}
@@ -6,6 +6,8 @@ import {
   ConvertSegment,
   SplitSegment,
   DragControls,
+  HistoryBranchPoint,
+  MirrorPaths,
   AddKeyframe,
   MoveKeyframe,
   RemoveKeyframe,
@@ -20,6 +22,7 @@ import {
 import {
   Control,
   EndControl,
+  HeadingKeyframe,
   Keyframe,
   KeyframePos,
   KeyframeList,
@@ -30,6 +33,8 @@ import {
   Vector,
   traversal
 } from "./Path";
+import { MirrorType } from "./CoordinateSystem";
+import { getAppStores } from "./MainApp";
 
 test("AddLinearSegment", () => {
   const path = new Path(new CustomPathConfig());
@@ -257,6 +262,66 @@ test("DragControls", () => {
   expect(dragControls.to.y).toBe(100);
 });
 
+test("MirrorPaths", () => {
+  const field = { width: 360, height: 360 };
+
+  const first = new EndControl(-60, -60, 30);
+  const control = new Control(-60, 0);
+  const last = new EndControl(0, 60, 90);
+  const segment = new Segment(first, control, new Control(0, 0), last);
+  segment.speed.add(new SpeedKeyframe(0.5, 0.2));
+  segment.heading.add(new HeadingKeyframe(0.5, 60));
+  const path = new Path(new CustomPathConfig(), segment);
+
+  const command = new MirrorPaths([path], MirrorType.VerticalCenterline);
+  expect(command.execute()).toBeTruthy();
+  expect(first.x).toBe(60);
+  expect(first.y).toBe(-60);
+  expect(first.heading).toBe(330);
+  expect(control.x).toBe(60);
+  expect(last.heading).toBe(270);
+  expect(segment.speed.list[0].xPos).toBe(0.5);
+  expect(segment.heading.list[0].xPos).toBe(0.5);
+  expect(segment.heading.list[0].heading).toBeCloseTo(300);
+  expect(command.updatedItems.length).toBe(4);
+
+  command.undo();
+  expect(first.x).toBe(-60);
+  expect(first.heading).toBe(30);
+  expect(last.heading).toBe(90);
+  expect(segment.heading.list[0].heading).toBeCloseTo(60);
+
+  command.redo();
+  expect(first.x).toBe(60);
+  command.undo();
+
+  new MirrorPaths([path], MirrorType.HorizontalCenterline).execute();
+  expect(first.x).toBe(-60);
+  expect(first.y).toBe(60);
+  expect(first.heading).toBe(150);
+  expect(last.y).toBe(-60);
+  expect(last.heading).toBe(90);
+  expect(segment.heading.list[0].heading).toBeCloseTo(120);
+
+  new MirrorPaths([path], MirrorType.Rotate180).execute();
+  // ALGO: The path is rotated around the field center, the start control and its heading included
+  expect(first.x).toBe(60);
+  expect(first.y).toBe(-60);
+  expect(first.heading).toBe(330);
+  expect(last.x).toBe(0);
+  expect(last.y).toBe(60);
+  expect(last.heading).toBe(270);
+
+  // ALGO: The mirrored paths stay on the field
+  for (const type of [MirrorType.VerticalCenterline, MirrorType.HorizontalCenterline, MirrorType.Rotate180]) {
+    new MirrorPaths([path], type).execute();
+    for (const control of path.controls) {
+      expect(Math.abs(control.x)).toBeLessThanOrEqual(field.width / 2);
+      expect(Math.abs(control.y)).toBeLessThanOrEqual(field.height / 2);
+    }
+  }
+});
+
 test("AddKeyframe", () => {
   const list = [new SpeedKeyframe(10, 10), new SpeedKeyframe(5, 5)];
   const keyframes = new KeyframeList(() => list, SpeedKeyframe);
@@ -614,3 +679,147 @@ test("RemovePathTreeItems", () => {
   removePathTreeItems.redo();
   expect(traversal(lstpath).length).toBe(6);
 });
+
+test("CommandHistory jumpTo and checkpoints", () => {
+  const { app, appPreferences } = getAppStores();
+  const history = app.history;
+  history.clearHistory();
+
+  const path = new Path(new CustomPathConfig());
+  for (let i = 0; i < 5; i++) {
+    history.execute(`Add segment ${i}`, new AddLinearSegment(path, new EndControl(i * 10, 0, 0)), 0);
+  }
+
+  expect(history.undoRecords.map(r => r.title)).toEqual([0, 1, 2, 3, 4].map(i => `Add segment ${i}`));
+  expect(history.redoRecords).toHaveLength(0);
+
+  history.jumpTo(2);
+  expect(path.segments.length).toBe(2);
+  expect(history.redoRecords.map(r => r.title)).toEqual(["Add segment 2", "Add segment 3", "Add segment 4"]);
+
+  history.jumpTo(0);
+  expect(path.segments.length).toBe(0);
+  expect(history.canUndo).toBe(false);
+
+  history.jumpTo(5);
+  expect(path.segments.length).toBe(5);
+  expect(history.canRedo).toBe(false);
+
+  history.setCheckpoint(1, "Two segments");
+  expect(history.undoRecords[1].checkpoint).toBe("Two segments");
+
+  // ALGO: Checkpoints survive trimming, the unpinned records after them are folded
+  appPreferences.maxHistory = 3;
+  for (let i = 5; i < 8; i++) {
+    history.execute(`Add segment ${i}`, new AddLinearSegment(path, new EndControl(i * 10, 0, 0)), 0);
+  }
+  history.commit();
+  expect(history.undoRecords.map(r => r.title)).toEqual(["Add segment 1", "Add segment 6", "Add segment 7"]);
+  expect(history.undoRecords[0].checkpoint).toBe("Two segments");
+  expect(path.segments.length).toBe(8);
+
+  history.setCheckpoint(2, "Eight segments");
+  history.execute(`Add segment 8`, new AddLinearSegment(path, new EndControl(80, 0, 0)), 0);
+  history.commit();
+  expect(history.undoRecords.map(r => r.title)).toEqual(["Add segment 1", "Add segment 7", "Add segment 8"]);
+
+  // the folded records are undone and redone together
+  history.jumpToState(history.undoRecords[0]);
+  expect(path.segments.length).toBe(2);
+  expect(history.redoRecords.map(r => r.title)).toEqual(["Add segment 7", "Add segment 8"]);
+  history.redo();
+  expect(path.segments.length).toBe(8);
+  expect(history.undoRecords[1].checkpoint).toBe("Eight segments");
+  history.redo();
+  expect(path.segments.length).toBe(9);
+
+  history.setCheckpoint(0, undefined);
+  history.setCheckpoint(1, undefined);
+  history.execute(`Add segment 9`, new AddLinearSegment(path, new EndControl(90, 0, 0)), 0);
+  history.commit();
+  expect(history.undoHistorySize).toBe(3);
+
+  appPreferences.maxHistory = 50;
+  history.clearHistory();
+});
+
+test("CommandHistory branches", () => {
+  const { app } = getAppStores();
+  const history = app.history;
+  history.clearHistory();
+
+  const path = new Path(new CustomPathConfig());
+  history.execute(`Add segment A`, new AddLinearSegment(path, new EndControl(10, 0, 0)), 0);
+  history.execute(`Add segment B`, new AddLinearSegment(path, new EndControl(20, 0, 0)), 0);
+  history.save();
+  expect(history.isModified()).toBe(false);
+
+  // ALGO: The abandoned branch is kept after executing a new command
+  history.undo();
+  expect(history.isModified()).toBe(true);
+  history.execute(`Add segment C`, new AddLinearSegment(path, new EndControl(30, 0, 0)), 0);
+  history.commit();
+  expect(path.segments.length).toBe(2);
+  expect(history.branchPosition).toEqual({ index: 1, count: 2 });
+  expect(history.redoRecords).toHaveLength(0);
+  expect(history.isModified()).toBe(true);
+
+  history.switchBranch(-1);
+  expect(history.branchPosition).toEqual({ index: 0, count: 2 });
+  expect(history.undoRecords.map(r => r.title)).toEqual(["Add segment A", "Add segment B"]);
+  expect(path.segments[1].last.x).toBe(20);
+  expect(history.isModified()).toBe(false);
+
+  history.switchBranch(-1); // no previous branch
+  expect(history.branchPosition).toEqual({ index: 0, count: 2 });
+
+  const recordB = history.currentState;
+  const recordC = history.rootState.branches[0].branches[1];
+  history.jumpToState(recordC);
+  expect(history.undoRecords.map(r => r.title)).toEqual(["Add segment A", "Add segment C"]);
+  expect(path.segments[1].last.x).toBe(30);
+
+  history.jumpToState(history.rootState);
+  expect(path.segments.length).toBe(0);
+  expect(history.redoRecords.map(r => r.title)).toEqual(["Add segment A", "Add segment C"]);
+
+  history.jumpToState(recordB);
+  expect(path.segments[1].last.x).toBe(20);
+  expect(history.isModified()).toBe(false);
+
+  history.clearHistory();
+});
+
+test("CommandHistory branches trimming", () => {
+  const { app, appPreferences } = getAppStores();
+  const history = app.history;
+  history.clearHistory();
+
+  const countRecords = (state: HistoryBranchPoint): number =>
+    state.branches.reduce((sum, child) => sum + 1 + countRecords(child), 0);
+
+  const path = new Path(new CustomPathConfig());
+  appPreferences.maxHistory = 10;
+  history.execute(`Add segment A`, new AddLinearSegment(path, new EndControl(10, 0, 0)), 0);
+  history.commit();
+  history.setCheckpoint(0, "One segment");
+  for (let i = 0; i < 30; i++) {
+    history.execute(`Add segment ${i}`, new AddLinearSegment(path, new EndControl(i * 10, 0, 0)), 0);
+    history.execute(`Add segment ${i} again`, new AddLinearSegment(path, new EndControl(i * 10, 10, 0)), 0);
+    history.undo();
+    history.undo();
+  }
+  history.execute(`Add segment B`, new AddLinearSegment(path, new EndControl(20, 0, 0)), 0);
+  history.commit();
+
+  // ALGO: The abandoned branches from a checkpoint are removed, the latest ones are kept
+  expect(countRecords(history.rootState)).toBe(10);
+  expect(history.undoRecords.map(r => r.title)).toEqual(["Add segment A", "Add segment B"]);
+  expect(history.undoRecords[0].checkpoint).toBe("One segment");
+  expect(history.branchPosition.count).toBe(history.undoRecords[0].branches.length);
+  expect(history.undoRecords[0].branches.map(r => r.title)).toContain("Add segment 29");
+  expect(history.undoRecords[0].branches.map(r => r.title)).not.toContain("Add segment 0");
+
+  appPreferences.maxHistory = 50;
+  history.clearHistory();
+});
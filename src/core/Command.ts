@@ -1,10 +1,11 @@
-import { makeAutoObservable } from "mobx";
+import { makeAutoObservable, observable } from "mobx";
 import { MainApp, getAppStores } from "./MainApp";
 import { Logger } from "./Logger";
 import {
   AnyControl,
   Control,
   EndControl,
+  HeadingKeyframe,
   Keyframe,
   KeyframeList,
   KeyframePos,
@@ -22,6 +23,21 @@ import {
   traversal
 } from "./Path";
 
+import { MirrorType, mirrorCoordinate } from "./CoordinateSystem";
+import { Routine, RoutineContainer } from "./Routine";
+import {
+  Constraint,
+  ConstraintContainer,
+  ControlSnapshot,
+  applyControlSnapshot,
+  solveConstraints,
+  takeControlSnapshot,
+  takeControlSnapshots
+} from "./Constraint";
+import { removeFromArray } from "./Util";
+import { boundHeading } from "./Calculation";
+import { ControlTransformation, transformControl } from "./Transform";
+
 const logger = Logger("History");
 
 export interface Execution {
@@ -31,6 +47,35 @@ export interface Execution {
   mergeTimeout: number;
 }
 
+/**
+ * A state in the undo tree, where one or more branches of records can be executed
+ */
+export interface HistoryBranchPoint {
+  readonly branches: HistoryRecord[]; // The records executed from this state, from the oldest to the latest
+  activeBranch: number; // The index of the branch to redo
+}
+
+/**
+ * A committed execution in the undo tree, it is also the state after the execution
+ */
+export interface HistoryRecord extends HistoryBranchPoint {
+  readonly title: string;
+  readonly command: CancellableCommand;
+  readonly time: number;
+  checkpoint: string | undefined; // The name of the checkpoint, or undefined if it is not pinned
+  parent: HistoryBranchPoint | undefined; // The state before the execution, undefined if it is trimmed
+}
+
+// ALGO: The nodes are observable before they are added to the tree, mobx clones plain objects added to observables
+function createBranchPoint(): HistoryBranchPoint {
+  return observable({ branches: [], activeBranch: 0 });
+}
+
+function createRecord(execution: Execution, parent: HistoryBranchPoint): HistoryRecord {
+  const { title, command, time } = execution;
+  return observable({ branches: [], activeBranch: 0, title, command, time, checkpoint: undefined, parent });
+}
+
 export interface HistoryEvent<T extends CancellableCommand> {
   readonly command: ReadonlyCommand<T>;
   readonly time: number;
@@ -95,11 +140,33 @@ export function createExecutionEvent<T extends HistoryEvent<CancellableCommand>>
   };
 }
 
+/**
+ * The commands of the records folded during trimming, they are undone and redone one by one by the history
+ */
+class CommandSequence implements CancellableCommand {
+  constructor(public readonly commands: CancellableCommand[]) {}
+
+  execute(): void {
+    this.commands.forEach(c => c.execute());
+  }
+
+  undo(): void {
+    this.commands
+      .slice()
+      .reverse()
+      .forEach(c => c.undo());
+  }
+
+  redo(): void {
+    this.commands.forEach(c => c.redo());
+  }
+}
+
 export class CommandHistory implements ExecutionEventListenersContainer<CancellableCommand> {
   private lastExecution: Execution | undefined = undefined;
-  private history: CancellableCommand[] = [];
-  private redoHistory: CancellableCommand[] = [];
-  private saveStepCounter: number = 0;
+  private root: HistoryBranchPoint = createBranchPoint(); // The oldest available state
+  private history: HistoryRecord[] = []; // ALGO: The records from the root to the current state
+  private savedState: HistoryBranchPoint | undefined = this.root;
   private readonly events = new Map<keyof HistoryEventMap<CancellableCommand>, Set<Function>>();
 
   constructor(private readonly app: MainApp) {
@@ -175,28 +242,120 @@ export class CommandHistory implements ExecutionEventListenersContainer<Cancella
       const afterEvent = createExecutionEvent<AfterExecutionEvent<CancellableCommand>>({ ...this.lastExecution });
       this.fireEvent("execute", afterEvent);
     }
-
-    this.redoHistory = [];
   }
 
   commit(): void {
     if (this.lastExecution !== undefined) {
-      this.history.push(this.lastExecution.command);
-      this.saveStepCounter++;
+      // ALGO: The new record becomes a new branch, the abandoned branches are kept in the undo tree
+      const parent = this.currentState;
+      const record = createRecord(this.lastExecution, parent);
+      parent.branches.push(record);
+      parent.activeBranch = parent.branches.length - 1;
+      this.history.push(record);
       this.lastExecution = undefined;
 
       const { appPreferences } = getAppStores();
-      while (this.history.length > appPreferences.maxHistory) this.history.shift();
+      while (this.history.length > appPreferences.maxHistory) {
+        if (this.history[0].checkpoint === undefined) {
+          // ALGO: The oldest record becomes the new root, other branches from the old root are discarded
+          const newRoot = this.history.shift()!;
+          newRoot.parent = undefined;
+          this.root = newRoot;
+        } else {
+          // ALGO: Checkpoints survive trimming, the oldest unpinned record after them is folded into the next record
+          const index = this.history.findIndex(
+            (record, idx) => record.checkpoint === undefined && idx < this.history.length - 1
+          );
+          if (index === -1) break;
+          this.fold(index);
+        }
+      }
+      this.prune(appPreferences.maxHistory);
     }
   }
 
+  /**
+   * Remove the records in the abandoned branches until the undo tree has no more records than the limit
+   *
+   * ALGO: The oldest leaf outside the undo and redo history is removed first, so the oldest abandoned branches are
+   * dropped from their tips. The records leading to a checkpoint are kept
+   *
+   * @param limit The maximum number of records in the undo tree
+   */
+  private prune(limit: number): void {
+    const active = new Set<HistoryBranchPoint>([...this.history, ...this.redoRecords]);
+    // ALGO: Breadth-first, the older branches come first if the records are executed at the same time
+    const records: HistoryRecord[] = [...this.root.branches];
+    for (let i = 0; i < records.length; i++) records.push(...records[i].branches);
+
+    let count = records.length;
+    while (count > limit) {
+      let oldest: HistoryRecord | undefined;
+      for (const record of records) {
+        if (active.has(record) || record.parent === undefined) continue;
+        if (record.branches.length !== 0 || record.checkpoint !== undefined) continue;
+        if (oldest === undefined || record.time < oldest.time) oldest = record;
+      }
+      if (oldest === undefined) break;
+
+      const parent = oldest.parent!;
+      const index = parent.branches.indexOf(oldest);
+      parent.branches.splice(index, 1);
+      if (parent.activeBranch > index || parent.activeBranch === parent.branches.length) {
+        parent.activeBranch = Math.max(parent.activeBranch - 1, 0);
+      }
+      oldest.parent = undefined;
+      if (this.savedState === oldest) this.savedState = undefined;
+      count--;
+    }
+  }
+
+  /**
+   * Fold the record into the next record in the undo history, the state between them is no longer available
+   *
+   * ALGO: The commands are kept to be able to jump back to the checkpoints, other branches from the folded record are
+   * discarded
+   *
+   * @param index The index of the record in the undo history, it must not be the latest record
+   */
+  private fold(index: number): void {
+    const record = this.history[index];
+    const next = this.history[index + 1];
+    const parent = record.parent!;
+
+    const commands = [record.command, next.command].flatMap(c => (c instanceof CommandSequence ? c.commands : [c]));
+    const folded: HistoryRecord = observable({
+      branches: next.branches,
+      activeBranch: next.activeBranch,
+      title: next.title,
+      command: new CommandSequence(commands),
+      time: next.time,
+      checkpoint: next.checkpoint,
+      parent
+    });
+    folded.branches.forEach(child => (child.parent = folded));
+    parent.branches[parent.branches.indexOf(record)] = folded;
+    this.history.splice(index, 2, folded);
+
+    if (this.savedState === next) this.savedState = folded;
+    else if (this.savedState === record) this.savedState = undefined;
+  }
+
   undo(): void {
     this.commit();
-    const command = this.history.pop();
-    if (command !== undefined) {
+    const record = this.history.pop();
+    if (record !== undefined) this.undoCommand(record.command);
+    logger.log("UNDO", this.history.length, "->", this.redoHistorySize);
+  }
+
+  private undoCommand(command: CancellableCommand): void {
+    if (command instanceof CommandSequence) {
+      command.commands
+        .slice()
+        .reverse()
+        .forEach(c => this.undoCommand(c));
+    } else {
       command.undo();
-      this.redoHistory.push(command);
-      this.saveStepCounter--;
 
       const a = isAddPathTreeItemsCommand(command);
       const u = isUpdatePathTreeItemsCommand(command);
@@ -218,15 +377,24 @@ export class CommandHistory implements ExecutionEventListenersContainer<Cancella
       const afterEvent = createExecutionEvent<UndoRedoEvent<CancellableCommand>>({ command });
       this.fireEvent("afterUndo", afterEvent);
     }
-    logger.log("UNDO", this.history.length, "->", this.redoHistory.length);
   }
 
   redo(): void {
-    const command = this.redoHistory.pop();
-    if (command !== undefined) {
+    this.commit();
+    const state = this.currentState;
+    const record = state.branches[state.activeBranch];
+    if (record !== undefined) {
+      this.redoCommand(record.command);
+      this.history.push(record);
+    }
+    logger.log("REDO", this.history.length, "<-", this.redoHistorySize);
+  }
+
+  private redoCommand(command: CancellableCommand): void {
+    if (command instanceof CommandSequence) {
+      command.commands.forEach(c => this.redoCommand(c));
+    } else {
       command.redo();
-      this.history.push(command);
-      this.saveStepCounter++;
 
       const a = isAddPathTreeItemsCommand(command);
       const u = isUpdatePathTreeItemsCommand(command);
@@ -248,24 +416,95 @@ export class CommandHistory implements ExecutionEventListenersContainer<Cancella
       const afterEvent = createExecutionEvent<UndoRedoEvent<CancellableCommand>>({ command });
       this.fireEvent("afterRedo", afterEvent);
     }
-    logger.log("REDO", this.history.length, "<-", this.redoHistory.length);
+  }
+
+  /**
+   * Undo or redo until the given number of records are in the undo history
+   *
+   * @param undoHistorySize The target size of the undo history, 0 means the oldest available state
+   */
+  jumpTo(undoHistorySize: number): void {
+    this.commit();
+    while (this.history.length > undoHistorySize && this.history.length > 0) this.undo();
+    while (this.history.length < undoHistorySize && this.canRedo) this.redo();
+  }
+
+  /**
+   * Undo and redo through the undo tree until the given state is reached
+   *
+   * @param target The state to jump to, it must be in the undo tree
+   */
+  jumpToState(target: HistoryBranchPoint): void {
+    this.commit();
+
+    // ALGO: Find the path from the root to the target
+    const path: HistoryRecord[] = [];
+    let state: HistoryBranchPoint = target;
+    while (state !== this.root) {
+      const record = state as HistoryRecord;
+      if (record.parent === undefined) return; // ALGO: The target is trimmed
+      path.unshift(record);
+      state = record.parent;
+    }
+
+    // ALGO: Undo until the common ancestor of the current state and the target, then redo along the path
+    let common = 0;
+    while (common < path.length && common < this.history.length && path[common] === this.history[common]) common++;
+    while (this.history.length > common) this.undo();
+    for (let i = common; i < path.length; i++) {
+      const parent = path[i].parent!;
+      parent.activeBranch = parent.branches.indexOf(path[i]);
+      this.redo();
+    }
+  }
+
+  /**
+   * Switch to the previous or next sibling branch of the current state
+   *
+   * @param delta -1 for the previous branch, 1 for the next branch
+   */
+  switchBranch(delta: -1 | 1): void {
+    this.commit();
+    const record = this.history[this.history.length - 1];
+    if (record === undefined || record.parent === undefined) return;
+
+    const parent = record.parent;
+    const sibling = parent.branches[parent.branches.indexOf(record) + delta];
+    if (sibling === undefined) return;
+
+    this.undo();
+    parent.activeBranch = parent.branches.indexOf(sibling);
+    this.redo();
+  }
+
+  /**
+   * Pin or unpin the record in the undo history as a named checkpoint
+   *
+   * @param index The index of the record in the undo history
+   * @param name The name of the checkpoint, or undefined to unpin
+   */
+  setCheckpoint(index: number, name: string | undefined): void {
+    this.commit();
+    const record = this.history[index];
+    if (record === undefined) return;
+    record.checkpoint = name;
   }
 
   clearHistory(): void {
     this.lastExecution = undefined;
+    this.root = createBranchPoint();
     this.history = [];
-    this.redoHistory = [];
-    this.saveStepCounter = 0;
+    this.savedState = this.root;
   }
 
   save(): void {
     this.commit();
-    this.saveStepCounter = 0;
+    this.savedState = this.currentState;
   }
 
   isModified(): boolean {
     this.commit();
-    return this.saveStepCounter !== 0;
+    return this.savedState !== this.currentState;
   }
 
   get canUndo() {
@@ -280,8 +519,64 @@ export class CommandHistory implements ExecutionEventListenersContainer<Cancella
     return this.history.length;
   }
 
+  /**
+   * @returns The records in the undo history from the oldest to the latest, including the uncommitted execution
+   */
+  get undoRecords(): readonly HistoryRecord[] {
+    const pending = this.pendingRecord;
+    return pending === undefined ? this.history : [...this.history, pending];
+  }
+
+  /**
+   * @returns The uncommitted execution as a record, it is not in the undo tree yet
+   */
+  get pendingRecord(): HistoryRecord | undefined {
+    if (this.lastExecution === undefined) return undefined;
+
+    return createRecord(this.lastExecution, this.currentState);
+  }
+
+  /**
+   * @returns The records in the active branch to redo, from the next to the furthest
+   */
+  get redoRecords(): readonly HistoryRecord[] {
+    if (this.lastExecution !== undefined) return [];
+
+    const rtn: HistoryRecord[] = [];
+    let record = this.currentState.branches[this.currentState.activeBranch];
+    while (record !== undefined) {
+      rtn.push(record);
+      record = record.branches[record.activeBranch];
+    }
+    return rtn;
+  }
+
   get redoHistorySize() {
-    return this.redoHistory.length;
+    return this.redoRecords.length;
+  }
+
+  /**
+   * @returns The oldest available state, the root of the undo tree
+   */
+  get rootState(): HistoryBranchPoint {
+    return this.root;
+  }
+
+  /**
+   * @returns The current state, the uncommitted execution is not included
+   */
+  get currentState(): HistoryBranchPoint {
+    return this.history[this.history.length - 1] ?? this.root;
+  }
+
+  /**
+   * @returns The index of the current state among its sibling branches and the number of the siblings
+   */
+  get branchPosition(): { index: number; count: number } {
+    const record = this.history[this.history.length - 1];
+    if (record === undefined || record.parent === undefined || this.lastExecution !== undefined)
+      return { index: 0, count: 1 };
+    return { index: record.parent.branches.indexOf(record), count: record.parent.branches.length };
   }
 
   private unlink(item: PathTreeItem) {
@@ -347,6 +642,14 @@ export type ReadonlyCommand<T extends Command> = Omit<Readonly<T>, "execute" | "
  * ALGO: Assume execute() function are called before undo(), redo() and other functions defined in the class
  */
 
+/**
+ * @param heading The new heading of the heading keyframe
+ * @returns The properties of the heading keyframe to update, the heading is stored in the y position
+ */
+function getHeadingKeyframeValues(heading: number): Partial<HeadingKeyframe> {
+  return { yPos: boundHeading(heading) / 360 };
+}
+
 export class UpdateInstancesPropertiesExtended<TTarget> implements CancellableCommand, MergeableCommand {
   protected changed = false;
   protected _previousValue: Partial<TTarget>[] = [];
@@ -698,6 +1001,127 @@ export class DragControls implements CancellableCommand, MergeableCommand, Updat
   }
 }
 
+/**
+ * Mirrors the paths across the vertical or horizontal centerline of the field, or rotates them 180 degrees.
+ *
+ * ALGO: The pivot is the field center, the origin of the field coordinate system, regardless of the coordinate system in
+ * use. Anchoring the pivot to the origin of the coordinate system would move the mirrored paths off the field.
+ * ALGO: Speed keyframes are positioned by the progress along the segment, they are not affected by the transformation
+ */
+export class MirrorPaths implements CancellableCommand, UpdatePathTreeItemsCommand {
+  protected update: UpdatePathTreeItems | undefined;
+  protected keyframeUpdate: UpdateInstancesPropertiesExtended<HeadingKeyframe> | undefined;
+
+  constructor(public paths: Path[], public type: MirrorType) {}
+
+  execute(): boolean {
+    const controls: AnyControl[] = [];
+    const newValues: Partial<AnyControl>[] = [];
+    const keyframes: HeadingKeyframe[] = [];
+    const pivot = { x: 0, y: 0 }; // The field center
+
+    for (const path of this.paths) {
+      if (path.segments.length === 0) continue;
+
+      for (const control of path.controls) {
+        controls.push(control);
+        newValues.push(mirrorCoordinate(control, this.type, pivot));
+      }
+
+      for (const segment of path.segments) keyframes.push(...segment.heading.list);
+    }
+
+    // ALGO: The heading keyframes are flipped the same way as the headings of the end controls
+    const mirrorHeading = (heading: number) => mirrorCoordinate({ x: 0, y: 0, heading }, this.type, pivot);
+    this.update = new UpdatePathTreeItems(controls, newValues);
+    this.keyframeUpdate = new UpdateInstancesPropertiesExtended(
+      keyframes,
+      keyframes.map(kf => getHeadingKeyframeValues(mirrorHeading(kf.heading).heading))
+    );
+    const changed = this.update.execute();
+    return this.keyframeUpdate.execute() || changed;
+  }
+
+  undo(): void {
+    this.update?.undo();
+    this.keyframeUpdate?.undo();
+  }
+
+  redo(): void {
+    this.update?.redo();
+    this.keyframeUpdate?.redo();
+  }
+
+  get updatedItems(): readonly PathTreeItem[] {
+    return this.update?.updatedItems ?? [];
+  }
+}
+
+/**
+ * Rotates and scales the controls around the pivot, then translates them. The headings of the end controls and the
+ * heading keyframes are rotated by the same angle.
+ */
+export class TransformControls implements CancellableCommand, MergeableCommand, UpdatePathTreeItemsCommand {
+  protected update: UpdatePathTreeItems | undefined;
+  protected keyframeUpdate: UpdateInstancesPropertiesExtended<HeadingKeyframe> | undefined;
+
+  constructor(
+    public controls: AnyControl[],
+    public transformation: ControlTransformation,
+    public keyframes: HeadingKeyframe[]
+  ) {}
+
+  execute(): boolean {
+    const newValues = this.controls.map(control => transformControl(control, this.transformation));
+    const angle = this.transformation.angle;
+
+    this.update = new UpdatePathTreeItems(this.controls, newValues);
+    this.keyframeUpdate = new UpdateInstancesPropertiesExtended(
+      this.keyframes,
+      this.keyframes.map(kf => getHeadingKeyframeValues(kf.heading + angle))
+    );
+    const changed = this.update.execute();
+    return this.keyframeUpdate.execute() || changed;
+  }
+
+  undo(): void {
+    this.update?.undo();
+    this.keyframeUpdate?.undo();
+  }
+
+  redo(): void {
+    this.update?.redo();
+    this.keyframeUpdate?.redo();
+  }
+
+  merge(command: TransformControls): boolean {
+    if (!(command instanceof TransformControls)) return false;
+
+    // check if controls are the same
+    if (this.controls.length !== command.controls.length) return false;
+
+    for (let i = 0; i < this.controls.length; i++) {
+      if (this.controls[i] !== command.controls[i]) return false;
+    }
+
+    if (this.keyframes.length !== command.keyframes.length) return false;
+
+    for (let i = 0; i < this.keyframes.length; i++) {
+      if (this.keyframes[i] !== command.keyframes[i]) return false;
+    }
+
+    if (this.update === undefined || command.update === undefined) return false;
+    if (this.keyframeUpdate === undefined || command.keyframeUpdate === undefined) return false;
+
+    // ALGO: The merged command keeps the values before the first transformation
+    return this.update.merge(command.update) && this.keyframeUpdate.merge(command.keyframeUpdate);
+  }
+
+  get updatedItems(): readonly PathTreeItem[] {
+    return this.controls.slice();
+  }
+}
+
 export class AddKeyframe implements CancellableCommand {
   constructor(public keyframes: KeyframeList<Keyframe>, public keyframe: Keyframe) {}
 
@@ -1188,3 +1612,86 @@ export class RemovePathTreeItems implements CancellableCommand, RemovePathTreeIt
     return this.modified;
   }
 }
+
+export class AddRoutine implements CancellableCommand {
+  protected previous: Routine | undefined;
+
+  constructor(public container: RoutineContainer, public routine: Routine) {}
+
+  execute(): void {
+    this.previous = this.container.routine;
+    this.redo();
+  }
+
+  undo(): void {
+    removeFromArray(this.container.routines, this.routine);
+    this.container.routine = this.previous!;
+  }
+
+  redo(): void {
+    this.container.routines.push(this.routine);
+    this.container.routine = this.routine;
+  }
+}
+
+export class RemoveRoutine implements CancellableCommand {
+  protected index: number = -1;
+  protected previous: Routine | undefined;
+
+  constructor(public container: RoutineContainer, public routine: Routine) {}
+
+  execute(): boolean {
+    this.index = this.container.routines.indexOf(this.routine);
+    // ALGO: A project has at least one routine
+    if (this.index === -1 || this.container.routines.length <= 1) return false;
+
+    this.previous = this.container.routine;
+    this.redo();
+    return true;
+  }
+
+  undo(): void {
+    this.container.routines.splice(this.index, 0, this.routine);
+    this.container.routine = this.previous!;
+  }
+
+  redo(): void {
+    const routines = this.container.routines;
+    routines.splice(this.index, 1);
+    // UX: Switch to the next routine if the active routine is removed
+    if (this.container.routine === this.routine)
+      this.container.routine = routines[Math.min(this.index, routines.length - 1)];
+  }
+}
+
+/**
+ * Replaces the constraints of the project, the constraints are solved immediately
+ */
+export class UpdateConstraints implements CancellableCommand {
+  protected previous: Constraint[] = [];
+  protected before = new Map<AnyControl, ControlSnapshot>();
+  protected after = new Map<AnyControl, ControlSnapshot>();
+
+  constructor(public container: ConstraintContainer, public constraints: Constraint[]) {}
+
+  execute(): void {
+    this.previous = this.container.constraints;
+    this.container.constraints = this.constraints;
+
+    const paths = this.container.routines.flatMap(routine => routine.paths);
+    const snapshots = takeControlSnapshots(paths);
+    const changed = solveConstraints(this.constraints, paths, this.container.gc.uol, snapshots);
+    this.before = new Map(changed.map(control => [control, snapshots.get(control)!]));
+    this.after = new Map(changed.map(control => [control, takeControlSnapshot(control)]));
+  }
+
+  undo(): void {
+    this.container.constraints = this.previous;
+    this.before.forEach((snapshot, control) => applyControlSnapshot(control, snapshot));
+  }
+
+  redo(): void {
+    this.container.constraints = this.constraints;
+    this.after.forEach((snapshot, control) => applyControlSnapshot(control, snapshot));
+  }
+}
@@ -0,0 +1,105 @@
+import { getAppStores } from "./MainApp";
+import { Control, EndControl, Segment, Vector } from "./Path";
+import { UnitOfLength } from "./Unit";
+import { DragControls, UpdateConstraints } from "./Command";
+import { ConstraintType, parseConstraints, solveConstraints, takeControlSnapshots } from "./Constraint";
+
+test("dummy", () => {
+  getAppStores(); // suppress constructor error
+});
+
+test("parse constraints", () => {
+  expect(parseConstraints(undefined)).toEqual([]);
+  expect(parseConstraints([{ type: "distance", target: "aaa", anchor: "bbb", distance: 10, extra: 1 }])).toEqual([
+    { type: ConstraintType.Distance, target: "aaa", anchor: "bbb", distance: 10 }
+  ]);
+  expect(() => parseConstraints({})).toThrow();
+  expect(() => parseConstraints([{ type: "on-line", target: "aaa", from: "bbb" }])).toThrow();
+  expect(() => parseConstraints([{ type: "same-heading", target: "<img>", source: "bbb" }])).toThrow();
+  expect(() => parseConstraints([{ type: "distance", target: "aaa", anchor: "bbb", distance: -1 }])).toThrow();
+});
+
+test("solve constraints", () => {
+  const { app } = getAppStores();
+
+  const a = new EndControl(0, 0, 0);
+  const b = new EndControl(10, 0, 90);
+  const c = new EndControl(5, 5, 0);
+  const d = new EndControl(5, 20, 0);
+  const path = app.format.createPath(new Segment(a, b), new Segment(b, new Control(0, 0), new Control(0, 0), c));
+  path.segments.push(new Segment(c, d));
+
+  const constraints = [
+    { type: ConstraintType.OnLine as const, target: c.uid, from: a.uid, to: b.uid },
+    { type: ConstraintType.Distance as const, target: d.uid, anchor: c.uid, distance: 10 },
+    { type: ConstraintType.SameHeading as const, target: d.uid, source: b.uid }
+  ];
+
+  // c is projected onto the line, d follows c
+  let before = takeControlSnapshots([path]);
+  const changed = solveConstraints(constraints, [path], UnitOfLength.Centimeter, before);
+  expect(c.toVector()).toEqual(new Vector(5, 0));
+  expect(path.segments[1].controls[2]!.toVector()).toEqual(new Vector(0, -5)); // The sibling control follows
+  expect(d.x).toBeCloseTo(5);
+  expect(d.y).toBeCloseTo(10);
+  expect(d.heading).toBe(90);
+  expect(changed).toContain(c);
+  expect(changed).toContain(d);
+
+  // c keeps the ratio along the line when b is moved
+  before = takeControlSnapshots([path]);
+  b.setXY(new Vector(20, 0));
+  solveConstraints(constraints, [path], UnitOfLength.Centimeter, before);
+  expect(c.toVector()).toEqual(new Vector(10, 0));
+  expect(d.x).toBeCloseTo(10);
+  expect(d.y).toBeCloseTo(10);
+
+  // d stays on the circle when it is moved by the user
+  before = takeControlSnapshots([path]);
+  d.setXY(new Vector(30, 0));
+  solveConstraints(constraints, [path], UnitOfLength.Centimeter, before);
+  expect(d.x).toBeCloseTo(20);
+  expect(d.y).toBeCloseTo(0);
+
+  // the distance is in centimeters
+  before = takeControlSnapshots([path]);
+  solveConstraints(constraints, [path], UnitOfLength.Millimeter, before);
+  expect(d.x).toBeCloseTo(10 + 100);
+});
+
+test("constraints with command history", () => {
+  const { app } = getAppStores();
+  app.newFile();
+
+  const a = new EndControl(0, 0, 0);
+  const b = new EndControl(10, 0, 0);
+  const c = new EndControl(5, 5, 0);
+  app.paths = [app.format.createPath(new Segment(a, b), new Segment(b, c))];
+
+  app.history.execute(
+    "Add constraint",
+    new UpdateConstraints(app, [{ type: ConstraintType.OnLine, target: c.uid, from: a.uid, to: b.uid }])
+  );
+  expect(c.toVector()).toEqual(new Vector(5, 0));
+
+  // merged drags keep the position before the first drag
+  app.history.execute("Move control", new DragControls(b, new Vector(10, 0), new Vector(20, 0), []));
+  expect(c.toVector()).toEqual(new Vector(10, 0));
+  app.history.execute("Move control", new DragControls(b, new Vector(20, 0), new Vector(30, 0), []));
+  expect(c.toVector()).toEqual(new Vector(15, 0));
+
+  app.history.undo();
+  expect(b.toVector()).toEqual(new Vector(10, 0));
+  expect(c.toVector()).toEqual(new Vector(5, 0));
+
+  app.history.redo();
+  expect(b.toVector()).toEqual(new Vector(30, 0));
+  expect(c.toVector()).toEqual(new Vector(15, 0));
+
+  app.history.undo();
+  app.history.undo();
+  expect(app.constraints).toEqual([]);
+  expect(c.toVector()).toEqual(new Vector(5, 5));
+
+  app.newFile();
+});
@@ -0,0 +1,310 @@
+import { AnyControl, Control, EndControl, Path } from "./Path";
+import { Quantity, UnitOfLength } from "./Unit";
+import { CancellableCommand, CommandHistory, DragControls, TransformControls, UpdatePathTreeItems } from "./Command";
+import { Routine } from "./Routine";
+import { clamp } from "./Util";
+
+export enum ConstraintType {
+  OnLine = "on-line", // The target stays on the line between two controls
+  Distance = "distance", // The target is at a fixed distance from the anchor
+  SameHeading = "same-heading" // The heading of the target end control equals the heading of the source
+}
+
+export interface OnLineConstraint {
+  type: ConstraintType.OnLine;
+  target: string; // The uid of the control
+  from: string;
+  to: string;
+}
+
+export interface DistanceConstraint {
+  type: ConstraintType.Distance;
+  target: string;
+  anchor: string;
+  distance: number; // in centimeters, it is not affected by the unit of length of the format
+}
+
+export interface SameHeadingConstraint {
+  type: ConstraintType.SameHeading;
+  target: string;
+  source: string;
+}
+
+/**
+ * A persistent relation between controls, the target follows the other controls of the constraint
+ */
+export type Constraint = OnLineConstraint | DistanceConstraint | SameHeadingConstraint;
+
+/**
+ * The object holding the constraints of a project, i.e. MainApp
+ */
+export interface ConstraintContainer {
+  constraints: Constraint[];
+  readonly routines: Routine[];
+  readonly gc: { uol: UnitOfLength };
+}
+
+/**
+ * @param constraint The constraint
+ * @returns The uids of the controls followed by the target
+ */
+export function getConstraintSourceUids(constraint: Constraint): string[] {
+  switch (constraint.type) {
+    case ConstraintType.OnLine:
+      return [constraint.from, constraint.to];
+    case ConstraintType.Distance:
+      return [constraint.anchor];
+    case ConstraintType.SameHeading:
+      return [constraint.source];
+  }
+}
+
+/**
+ * SECURITY: The input data might be invalid, the constraints are validated before being used.
+ * The constraints referring to missing controls are kept, they are ignored by the solver.
+ *
+ * @param data The constraints in the path file data
+ * @returns The constraints
+ * @throws Error if any constraint is invalid
+ */
+export function parseConstraints(data: unknown): Constraint[] {
+  if (data === undefined) return [];
+  if (!Array.isArray(data)) throw new Error("Unable to open the path file. Invalid constraints.");
+
+  const isUid = (value: unknown) => typeof value === "string" && /^[a-zA-Z0-9]+$/.test(value);
+
+  return data.map(raw => {
+    const { type, target } = raw ?? {};
+    if (type === ConstraintType.OnLine && isUid(target) && isUid(raw.from) && isUid(raw.to)) {
+      return { type, target, from: raw.from, to: raw.to };
+    } else if (
+      type === ConstraintType.Distance &&
+      isUid(target) &&
+      isUid(raw.anchor) &&
+      typeof raw.distance === "number" &&
+      isFinite(raw.distance) &&
+      raw.distance >= 0
+    ) {
+      return { type, target, anchor: raw.anchor, distance: raw.distance };
+    } else if (type === ConstraintType.SameHeading && isUid(target) && isUid(raw.source)) {
+      return { type, target, source: raw.source };
+    } else {
+      throw new Error("Unable to open the path file. Invalid constraint.");
+    }
+  });
+}
+
+export interface ControlSnapshot {
+  x: number;
+  y: number;
+  heading?: number;
+}
+
+export function takeControlSnapshot(control: AnyControl): ControlSnapshot {
+  return control instanceof EndControl
+    ? { x: control.x, y: control.y, heading: control.heading }
+    : { x: control.x, y: control.y };
+}
+
+export function applyControlSnapshot(control: AnyControl, snapshot: ControlSnapshot) {
+  control.x = snapshot.x;
+  control.y = snapshot.y;
+  if (control instanceof EndControl && snapshot.heading !== undefined) control.heading = snapshot.heading;
+}
+
+/**
+ * @param paths The paths
+ * @returns The snapshots of all controls in the paths
+ */
+export function takeControlSnapshots(paths: Path[]): Map<AnyControl, ControlSnapshot> {
+  return new Map(paths.flatMap(path => path.controls).map(control => [control, takeControlSnapshot(control)]));
+}
+
+const EPSILON = 1e-6;
+
+/**
+ * ALGO: The constraints are solved in passes until nothing changes, a chain of constraints is solved in one call.
+ * A target moved by the user is projected onto the constraint, e.g. the closest point on the line or the circle.
+ * Otherwise, the target keeps its relative position from the snapshot, e.g. the ratio along the line or the
+ * direction from the anchor, so the dependent controls follow when a control is moved.
+ * The sibling controls of a moved end control are moved together, the same as dragging the end control.
+ *
+ * @param constraints The constraints
+ * @param paths The paths containing the controls
+ * @param uol The unit of length of the controls
+ * @param before The snapshots of the controls before the user changed them
+ * @returns The controls changed by the solver
+ */
+export function solveConstraints(
+  constraints: readonly Constraint[],
+  paths: Path[],
+  uol: UnitOfLength,
+  before: Map<AnyControl, ControlSnapshot>
+): AnyControl[] {
+  const controls = new Map(paths.flatMap(path => path.controls).map(control => [control.uid, control]));
+  const targets = new Set(constraints.map(constraint => controls.get(constraint.target)));
+
+  const userMoved = new Set<AnyControl>();
+  before.forEach((snapshot, control) => {
+    if (Math.abs(snapshot.x - control.x) > EPSILON || Math.abs(snapshot.y - control.y) > EPSILON)
+      userMoved.add(control);
+  });
+  const prev = (control: AnyControl) => before.get(control) ?? takeControlSnapshot(control);
+
+  const getSiblingControls = (target: EndControl): Control[] => {
+    const path = paths.find(path => path.controls.includes(target));
+    if (path === undefined) return [];
+
+    const idx = path.controls.indexOf(target);
+    return [path.controls[idx - 1], path.controls[idx + 1]].filter(
+      (control): control is Control => control instanceof Control && !targets.has(control)
+    );
+  };
+
+  const changed = new Set<AnyControl>();
+  const moveTarget = (target: AnyControl, x: number, y: number): boolean => {
+    const dx = x - target.x;
+    const dy = y - target.y;
+    if (Math.abs(dx) <= EPSILON && Math.abs(dy) <= EPSILON) return false;
+
+    const followers = target instanceof EndControl ? getSiblingControls(target) : [];
+    for (const control of [target, ...followers]) {
+      control.x += dx;
+      control.y += dy;
+      changed.add(control);
+    }
+    return true;
+  };
+
+  const solve = (constraint: Constraint): boolean => {
+    const target = controls.get(constraint.target);
+    if (target === undefined) return false;
+
+    if (constraint.type === ConstraintType.OnLine) {
+      const from = controls.get(constraint.from);
+      const to = controls.get(constraint.to);
+      if (from === undefined || to === undefined) return false;
+
+      const projection = (p: ControlSnapshot, a: ControlSnapshot, b: ControlSnapshot) => {
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const lengthSquared = dx * dx + dy * dy;
+        return lengthSquared === 0 ? 0 : clamp(((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared, 0, 1);
+      };
+
+      const t = userMoved.has(target) ? projection(target, from, to) : projection(prev(target), prev(from), prev(to));
+      return moveTarget(target, from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t);
+    } else if (constraint.type === ConstraintType.Distance) {
+      const anchor = controls.get(constraint.anchor);
+      if (anchor === undefined) return false;
+
+      const distance = new Quantity<UnitOfLength>(constraint.distance, UnitOfLength.Centimeter).to(uol);
+      const [p, a] = userMoved.has(target) ? [target, anchor] : [prev(target), prev(anchor)];
+      const length = Math.hypot(p.x - a.x, p.y - a.y);
+      const [ux, uy] = length === 0 ? [1, 0] : [(p.x - a.x) / length, (p.y - a.y) / length];
+      return moveTarget(target, anchor.x + ux * distance, anchor.y + uy * distance);
+    } else {
+      const source = controls.get(constraint.source);
+      if (!(target instanceof EndControl) || !(source instanceof EndControl)) return false;
+      if (Math.abs(target.heading - source.heading) <= EPSILON) return false;
+
+      target.heading = source.heading;
+      changed.add(target);
+      return true;
+    }
+  };
+
+  for (let pass = 0; pass <= constraints.length; pass++) {
+    let isChanged = false;
+    for (const constraint of constraints) {
+      if (solve(constraint)) isChanged = true;
+    }
+    if (!isChanged) break;
+  }
+
+  return Array.from(changed);
+}
+
+/**
+ * The changes made by the solver after a command, they are restored when the command is undone or redone
+ */
+export interface ConstraintSolution {
+  before: Map<AnyControl, ControlSnapshot>;
+  after: Map<AnyControl, ControlSnapshot>;
+}
+
+/**
+ * Solves the constraints after the controls are moved by DragControls, UpdatePathTreeItems or TransformControls commands
+ *
+ * @param history The command history
+ * @param container The object holding the constraints
+ * @returns The disposer to remove the event listeners
+ */
+export function observeConstraints(history: CommandHistory, container: ConstraintContainer): () => void {
+  const solutions = new WeakMap<object, ConstraintSolution>();
+  let pending: { command: CancellableCommand; before: Map<AnyControl, ControlSnapshot> } | undefined;
+
+  const getPaths = () => container.routines.flatMap(routine => routine.paths);
+
+  const solvePending = (): ConstraintSolution | undefined => {
+    if (pending === undefined) return undefined;
+    const { before } = pending;
+    pending = undefined;
+
+    const changed = solveConstraints(container.constraints, getPaths(), container.gc.uol, before);
+    if (changed.length === 0) return undefined;
+
+    return {
+      before: new Map(changed.map(control => [control, before.get(control) ?? takeControlSnapshot(control)])),
+      after: new Map(changed.map(control => [control, takeControlSnapshot(control)]))
+    };
+  };
+
+  const disposers = [
+    history.addEventListener("beforeExecution", event => {
+      pending = undefined;
+      if (container.constraints.length === 0) return;
+      if (
+        !event.isCommandInstanceOf(DragControls) &&
+        !event.isCommandInstanceOf(UpdatePathTreeItems) &&
+        !event.isCommandInstanceOf(TransformControls)
+      )
+        return;
+
+      const before = takeControlSnapshots(getPaths());
+      // ALGO: The main control is moved by the field canvas before the command is executed
+      if (event.isCommandInstanceOf(DragControls)) {
+        const { main, from } = event.command;
+        before.set(main, { ...takeControlSnapshot(main), x: from.x, y: from.y });
+      }
+      pending = { command: event.command, before };
+    }),
+    history.addEventListener("execute", event => {
+      if (pending?.command !== event.command) return;
+
+      const solution = solvePending();
+      if (solution !== undefined) solutions.set(event.command, solution);
+    }),
+    history.addEventListener("merge", event => {
+      const solution = solvePending();
+      if (solution === undefined) return;
+
+      // ALGO: The merged command keeps the snapshots before the first execution
+      const existing = solutions.get(event.command) ?? { before: new Map(), after: new Map() };
+      solution.before.forEach((snapshot, control) => {
+        if (!existing.before.has(control)) existing.before.set(control, snapshot);
+      });
+      existing.after.forEach((_, control) => existing.after.set(control, takeControlSnapshot(control)));
+      solution.after.forEach((snapshot, control) => existing.after.set(control, snapshot));
+      solutions.set(event.command, existing);
+    }),
+    history.addEventListener("afterUndo", event => {
+      solutions.get(event.command)?.before.forEach((snapshot, control) => applyControlSnapshot(control, snapshot));
+    }),
+    history.addEventListener("afterRedo", event => {
+      solutions.get(event.command)?.after.forEach((snapshot, control) => applyControlSnapshot(control, snapshot));
+    })
+  ];
+
+  return () => disposers.forEach(disposer => disposer());
+}
@@ -0,0 +1,109 @@
+import { getAppStores } from "./MainApp";
+import { CONVERTER_USAGE, ConverterIO, convertPathFile, parseConverterArguments, runConverter } from "./Converter";
+import { EndControl, Segment } from "./Path";
+import { Routine } from "./Routine";
+import { AddRoutine } from "./Command";
+import { PathDotJerryioFormatV0_1 } from "../format/PathDotJerryioFormatV0_1";
+import { TextDecoder, TextEncoder } from "util";
+
+Object.assign(global, { TextDecoder, TextEncoder }); // jsdom does not provide them
+
+test("dummy", () => {
+  getAppStores(); // suppress constructor error
+});
+
+function createPathFile(): ArrayBuffer {
+  const { app } = getAppStores();
+  app.format = new PathDotJerryioFormatV0_1();
+  app.newFile();
+
+  const path1 = app.format.createPath(new Segment(new EndControl(0, 0, 0), new EndControl(0, 60, 0)));
+  path1.name = "Path 1";
+  app.paths.push(path1);
+
+  const path2 = app.format.createPath(new Segment(new EndControl(0, 0, 0), new EndControl(60, 0, 90)));
+  path2.name = "Path 2";
+  app.history.execute("Add routine", new AddRoutine(app, new Routine("Skills", [path2])));
+
+  const buffer = app.exportFile();
+  app.newFile();
+  return buffer;
+}
+
+function decode(buffer: ArrayBuffer): string {
+  return new TextDecoder().decode(buffer);
+}
+
+test("parseConverterArguments", () => {
+  expect(parseConverterArguments(["a.txt"])).toEqual({ input: "a.txt", output: "a.txt" });
+  expect(parseConverterArguments(["a.txt", "-o", "b.txt", "--format", "LemLib v0.5", "-r", "Skills"])).toEqual({
+    input: "a.txt",
+    output: "b.txt",
+    format: "LemLib v0.5",
+    routine: "Skills"
+  });
+  expect(parseConverterArguments(["a.txt", "--help"])).toBe("help");
+  expect(parseConverterArguments(["--list-formats"])).toBe("list-formats");
+
+  expect(() => parseConverterArguments([])).toThrow("Missing input file");
+  expect(() => parseConverterArguments(["a.txt", "-o"])).toThrow("Missing value for -o");
+  expect(() => parseConverterArguments(["a.txt", "-x"])).toThrow("Unknown option -x");
+  expect(() => parseConverterArguments(["a.txt", "b.txt"])).toThrow("Unexpected argument b.txt");
+});
+
+test("convertPathFile", async () => {
+  const buffer = createPathFile();
+
+  // ALGO: The output is the same as the app output without any option
+  expect(decode(await convertPathFile(buffer))).toEqual(decode(buffer));
+
+  const skills = decode(await convertPathFile(buffer, { routine: "Main" }));
+  expect(skills).toContain("#PATH-POINTS-START Path 1");
+  expect(skills).not.toContain("#PATH-POINTS-START Path 2");
+
+  const lemlib = decode(await convertPathFile(buffer, { format: "LemLib v0.5" }));
+  expect(lemlib).toContain("endData");
+  expect(lemlib).toContain('"format":"LemLib v0.5"');
+
+  await expect(convertPathFile(buffer, { format: "Unknown" })).rejects.toThrow('Format "Unknown" not found');
+  await expect(convertPathFile(buffer, { routine: "Unknown" })).rejects.toThrow('Routine "Unknown" not found');
+  await expect(convertPathFile(new TextEncoder().encode("1, 2, 3\n"))).rejects.toThrow(
+    "The file does not contain PATH.JERRYIO-DATA"
+  );
+});
+
+test("runConverter", async () => {
+  const files = new Map<string, ArrayBuffer>([["auton.txt", createPathFile()]]);
+  const logs: string[] = [];
+  const errors: string[] = [];
+  const io: ConverterIO = {
+    readFile: async path => {
+      const file = files.get(path);
+      if (file === undefined) throw new Error(`${path} not found`);
+      return file;
+    },
+    writeFile: async (path, data) => void files.set(path, data),
+    log: message => logs.push(message),
+    error: message => errors.push(message)
+  };
+
+  expect(await runConverter(["auton.txt", "-o", "auton.cpp", "-f", "LemLib v0.5"], io)).toBe(0);
+  expect(decode(files.get("auton.cpp")!)).toContain("endData");
+  expect(logs).toEqual(["Converted auton.txt to auton.cpp"]);
+
+  expect(await runConverter(["missing.txt"], io)).toBe(1);
+  expect(errors).toEqual(["missing.txt not found"]);
+
+  expect(await runConverter([], io)).toBe(2);
+  expect(errors[1]).toBe("Missing input file");
+  expect(errors[2]).toBe(CONVERTER_USAGE);
+
+  logs.length = 0;
+  expect(await runConverter(["--list-formats"], io)).toBe(0);
+  expect(logs).toContain("LemLib v0.5");
+  expect(logs).toContain("path.jerryio v0.1");
+
+  logs.length = 0;
+  expect(await runConverter(["-h"], io)).toBe(0);
+  expect(logs).toEqual([CONVERTER_USAGE]);
+});
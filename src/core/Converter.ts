@@ -0,0 +1,210 @@
+import { ExportContext, Format, getAllFormats, importPDJDataFromTextFile } from "../format/Format";
+import {
+  FieldImageAsset,
+  FieldImageOriginType,
+  getBuiltInFieldImageBySignature,
+  getDefaultBuiltInFieldImage
+} from "./Asset";
+import { Path } from "./Path";
+import { Routine } from "./Routine";
+import { createPDJData, loadPDJData } from "./ProjectData";
+import { FormulaVariable } from "./Formula";
+import { Constraint } from "./Constraint";
+
+/**
+ * A project loaded from a path file without the app, it is used by the headless converter
+ */
+export class HeadlessProject implements ExportContext {
+  constructor(
+    public format: Format,
+    public routines: Routine[],
+    public routine: Routine,
+    public variables: FormulaVariable[] = [],
+    public constraints: Constraint[] = []
+  ) {}
+
+  get paths(): Path[] {
+    return this.routine.paths;
+  }
+
+  get fieldImageAsset(): FieldImageAsset<FieldImageOriginType> {
+    // ALGO: User field images are stored in the browser, the default field image is used instead
+    return (
+      getBuiltInFieldImageBySignature(this.format.getGeneralConfig().fieldImage.signature) ??
+      getDefaultBuiltInFieldImage()
+    );
+  }
+
+  interestedPath(): Path | undefined {
+    // ALGO: There is no selection without the app, the first path is exported
+    return this.paths[0];
+  }
+
+  exportPDJData(): Record<string, any> {
+    return createPDJData(this.format, this.routines, this.routine, this.variables, this.constraints);
+  }
+}
+
+export interface ConvertOptions {
+  format?: string; // The name of the target format, the format of the path file is used if undefined
+  routine?: string; // The name of the routine to export, the active routine is used if undefined
+}
+
+/**
+ * SECURITY: The input file buffer might be invalid and contain malicious code.
+ *
+ * @throws Error if the file does not contain PATH.JERRYIO-DATA or the data is invalid
+ * @param buffer the path file buffer in ArrayBuffer
+ * @returns the loaded project
+ */
+export async function loadProjectFromFile(buffer: ArrayBuffer): Promise<HeadlessProject> {
+  const formats = getAllFormats(true);
+
+  // ALGO: Unlike the app, the paths without PATH.JERRYIO-DATA are not imported since the format is unknown
+  let data: Record<string, any> | undefined;
+  for (const format of formats) {
+    try {
+      data = format.importPDJDataFromFile(buffer);
+    } catch (err) {
+      data = undefined; // ALGO: The file is not in this format, try the next one
+    }
+    if (data !== undefined) break;
+  }
+  data ??= importPDJDataFromTextFile(buffer);
+  if (data === undefined) throw new Error("The file does not contain PATH.JERRYIO-DATA");
+
+  const { format, routines, activeRoutineIndex, variables, constraints } = await loadPDJData(data, formats);
+  return new HeadlessProject(format, routines, routines[activeRoutineIndex], variables, constraints);
+}
+
+/**
+ * Convert the path file to the target format and export it, without the app
+ *
+ * @throws Error if the file can not be loaded or exported
+ * @param buffer the path file buffer in ArrayBuffer
+ * @param options the conversion options
+ * @returns the output file buffer in ArrayBuffer
+ */
+export async function convertPathFile(buffer: ArrayBuffer, options: ConvertOptions = {}): Promise<ArrayBuffer> {
+  const project = await loadProjectFromFile(buffer);
+
+  if (options.format !== undefined && options.format !== project.format.getName()) {
+    const newFormat = getAllFormats(true).find(f => f.getName() === options.format);
+    if (newFormat === undefined) throw new Error(`Format "${options.format}" not found`);
+
+    for (const routine of project.routines) routine.paths = newFormat.convertFromFormat(project.format, routine.paths);
+    project.format = newFormat;
+  }
+
+  if (options.routine !== undefined) {
+    const routine = project.routines.find(r => r.name === options.routine);
+    if (routine === undefined) throw new Error(`Routine "${options.routine}" not found`);
+    project.routine = routine;
+  }
+
+  return project.format.exportFile(project);
+}
+
+/**
+ * The file system and console used by the command-line converter
+ */
+export interface ConverterIO {
+  readFile(path: string): Promise<ArrayBuffer>;
+  writeFile(path: string, data: ArrayBuffer): Promise<void>;
+  log(message: string): void;
+  error(message: string): void;
+}
+
+export interface ConverterArguments extends ConvertOptions {
+  input: string;
+  output: string; // The input file is overwritten if the output is not specified
+}
+
+export const CONVERTER_USAGE = `Usage: convert <input> [-o <output>] [-f <format>] [-r <routine>]
+       convert --list-formats
+
+Regenerate the output of a path file saved by PATH.JERRYIO.
+
+Options:
+  -o, --output <file>     The output file, the input file is overwritten by default
+  -f, --format <name>     Convert the path file to the format before exporting
+  -r, --routine <name>    The routine to export, the active routine is exported by default
+  --list-formats          List the names of all formats
+  -h, --help              Show this message`;
+
+/**
+ * @throws Error if the arguments are invalid
+ * @param args the command-line arguments, excluding the program name
+ * @returns the parsed arguments, or "help" or "list-formats"
+ */
+export function parseConverterArguments(args: string[]): ConverterArguments | "help" | "list-formats" {
+  let input: string | undefined;
+  const options: Partial<ConverterArguments> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "-h" || arg === "--help") return "help";
+    if (arg === "--list-formats") return "list-formats";
+
+    const key = {
+      "-o": "output",
+      "--output": "output",
+      "-f": "format",
+      "--format": "format",
+      "-r": "routine",
+      "--routine": "routine"
+    }[arg] as "output" | "format" | "routine" | undefined;
+
+    if (key !== undefined) {
+      const value = args[++i];
+      if (value === undefined) throw new Error(`Missing value for ${arg}`);
+      options[key] = value;
+    } else if (arg.startsWith("-")) {
+      throw new Error(`Unknown option ${arg}`);
+    } else if (input === undefined) {
+      input = arg;
+    } else {
+      throw new Error(`Unexpected argument ${arg}`);
+    }
+  }
+
+  if (input === undefined) throw new Error("Missing input file");
+
+  return { ...options, input, output: options.output ?? input };
+}
+
+/**
+ * The entry point of the command-line converter
+ *
+ * @param args the command-line arguments, excluding the program name
+ * @param io the file system and console
+ * @returns the exit code
+ */
+export async function runConverter(args: string[], io: ConverterIO): Promise<number> {
+  let parsed: ReturnType<typeof parseConverterArguments>;
+  try {
+    parsed = parseConverterArguments(args);
+  } catch (err) {
+    io.error(err instanceof Error ? err.message : String(err));
+    io.error(CONVERTER_USAGE);
+    return 2;
+  }
+
+  if (parsed === "help") {
+    io.log(CONVERTER_USAGE);
+    return 0;
+  } else if (parsed === "list-formats") {
+    getAllFormats(true).forEach(format => io.log(format.getName()));
+    return 0;
+  }
+
+  try {
+    const output = await convertPathFile(await io.readFile(parsed.input), parsed);
+    await io.writeFile(parsed.output, output);
+    io.log(`Converted ${parsed.input} to ${parsed.output}`);
+    return 0;
+  } catch (err) {
+    io.error(err instanceof Error ? err.message : String(err));
+    return 1;
+  }
+}
@@ -1,3 +1,4 @@
+import { getAppStores } from "./MainApp";
 import { CoordinateWithHeading } from "./Coordinate";
 import {
   AxisAnchor,
@@ -12,7 +13,12 @@ import {
   HeadingDirection,
   HeadingRotation,
   OriginAnchor,
-  YAxisFlip
+  YAxisFlip,
+  exportCoordinateSystems,
+  getNamedCoordinateSystems,
+  getOriginAnchorName,
+  parseCoordinateSystem,
+  parseCoordinateSystems
 } from "./CoordinateSystem";
 
 declare global {
@@ -555,3 +561,54 @@ test("CoordinateSystemTransformation 0 & no-flip & path-beginning & ccw & path-b
   expect(cst.inverseTransform({ x: -409, y: -318, heading: 90 })).closeTo({ x: 1, y: 2, heading: 360 - 45 });
   expect(cst.inverseTransform({ x: -409, y: -318, heading: 135 })).closeTo({ x: 1, y: 2, heading: 270 });
 });
+
+test("parse and export custom coordinate systems", () => {
+  const custom = {
+    name: "Custom",
+    description: "",
+    previewImageUrl: "",
+    axisAnchor: AxisAnchor.Default,
+    axisRotation: AxisRotation.XSouthYEast,
+    yAxisFlip: YAxisFlip.Flip,
+    headingAnchor: HeadingAnchor.PathBeginning,
+    headingRotation: HeadingRotation.West,
+    headingDirection: HeadingDirection.CounterClockwise,
+    originAnchor: OriginAnchor.FieldBottomLeft,
+    originOffset: { x: 10, y: -20 }
+  };
+
+  const text = exportCoordinateSystems([custom, ...getNamedCoordinateSystems()]);
+  const parsed = parseCoordinateSystems(text);
+  expect(parsed).toEqual([custom, ...getNamedCoordinateSystems()]);
+  expect(parsed[0].originAnchor).toBe(OriginAnchor.FieldBottomLeft);
+
+  expect(parseCoordinateSystems(JSON.stringify(custom))).toEqual([custom]);
+  expect(parseCoordinateSystem({ ...custom, name: " Trimmed ", description: undefined })).toEqual({
+    ...custom,
+    name: "Trimmed"
+  });
+
+  expect(getOriginAnchorName(OriginAnchor.PathBeginning)).toBe("PathBeginning");
+  expect(getOriginAnchorName({ x: 1, y: 0 })).toBe("FieldRight");
+
+  expect(() => parseCoordinateSystem({ ...custom, name: "" })).toThrow("The name of the coordinate system is missing");
+  expect(() => parseCoordinateSystem({ ...custom, axisRotation: 45 })).toThrow(
+    'Invalid "axisRotation" of coordinate system "Custom"'
+  );
+  expect(() => parseCoordinateSystem({ ...custom, originAnchor: { x: 2, y: 0 } })).toThrow(
+    'Invalid "originAnchor" of coordinate system "Custom"'
+  );
+  expect(() => parseCoordinateSystem({ ...custom, originOffset: { x: "1", y: 0 } })).toThrow(
+    'Invalid "originOffset" of coordinate system "Custom"'
+  );
+  expect(() => parseCoordinateSystems("1")).toThrow("Expected a coordinate system");
+});
+
+test("invalid custom coordinate systems in the preferences", () => {
+  const { app, appPreferences } = getAppStores();
+
+  appPreferences.customCoordinateSystems = { name: "Custom" } as any;
+  expect(app.coordinateSystems).toEqual(getNamedCoordinateSystems());
+
+  appPreferences.customCoordinateSystems = [];
+});
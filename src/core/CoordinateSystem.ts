@@ -1,6 +1,7 @@
 import { Coordinate, CoordinateWithHeading, EuclideanTransformation, isCoordinateWithHeading } from "./Coordinate";
 import { Vector } from "./Path";
 import { boundHeading } from "./Calculation";
+import { ValidationArguments, ValidationOptions, registerDecorator } from "class-validator";
 
 export interface Dimension {
   width: number;
@@ -169,6 +170,123 @@ export function getNamedCoordinateSystems(): NamedCoordinateSystem[] {
   ];
 }
 
+export const ORIGIN_ANCHOR_NAMES = [
+  "PathBeginning",
+  "FieldTopLeft",
+  "FieldTopCenter",
+  "FieldTopRight",
+  "FieldLeft",
+  "FieldCenter",
+  "FieldRight",
+  "FieldBottomLeft",
+  "FieldBottomCenter",
+  "FieldBottomRight"
+] as const;
+
+export type OriginAnchorName = (typeof ORIGIN_ANCHOR_NAMES)[number];
+
+/**
+ * @param anchor The origin anchor, it can be a copy of the anchor parsed from JSON
+ * @returns The name of the anchor in OriginAnchor
+ */
+export function getOriginAnchorName(anchor: OriginAnchorType): OriginAnchorName {
+  if (anchor === OriginAnchor.PathBeginning) return "PathBeginning";
+  return (
+    ORIGIN_ANCHOR_NAMES.find(name => {
+      const candidate = OriginAnchor[name];
+      return candidate !== OriginAnchor.PathBeginning && candidate.x === anchor.x && candidate.y === anchor.y;
+    }) ?? "FieldCenter"
+  );
+}
+
+/**
+ * Validates the coordinate system, for example, the one imported from a file or stored in the preferences
+ *
+ * @param data The coordinate system to validate
+ * @returns A copy of the coordinate system, with the default description and preview image if they are missing
+ * @throws Error if the coordinate system is invalid
+ */
+export function parseCoordinateSystem(data: any): NamedCoordinateSystem {
+  if (typeof data !== "object" || data === null) throw new Error("Expected a coordinate system");
+
+  const name = data.name;
+  if (typeof name !== "string" || name.trim() === "") throw new Error("The name of the coordinate system is missing");
+
+  const check = (key: keyof CoordinateSystem, valid: readonly any[]) => {
+    if (!valid.includes(data[key])) throw new Error(`Invalid "${key}" of coordinate system "${name}"`);
+    return data[key];
+  };
+
+  const originAnchor = data.originAnchor;
+  const isValidOriginAnchor =
+    originAnchor === OriginAnchor.PathBeginning ||
+    (typeof originAnchor === "object" &&
+      originAnchor !== null &&
+      [-1, 0, 1].includes(originAnchor.x) &&
+      [-1, 0, 1].includes(originAnchor.y));
+  if (!isValidOriginAnchor) throw new Error(`Invalid "originAnchor" of coordinate system "${name}"`);
+
+  const originOffset = data.originOffset;
+  const isValidOriginOffset =
+    typeof originOffset === "object" &&
+    originOffset !== null &&
+    Number.isFinite(originOffset.x) &&
+    Number.isFinite(originOffset.y);
+  if (!isValidOriginOffset) throw new Error(`Invalid "originOffset" of coordinate system "${name}"`);
+
+  return {
+    name: name.trim(),
+    description: typeof data.description === "string" ? data.description : "",
+    previewImageUrl: typeof data.previewImageUrl === "string" ? data.previewImageUrl : "",
+    axisAnchor: check("axisAnchor", [AxisAnchor.PathBeginning, AxisAnchor.Default]),
+    axisRotation: check("axisRotation", [0, 90, 180, 270]),
+    yAxisFlip: check("yAxisFlip", [YAxisFlip.Flip, YAxisFlip.NoFlip]),
+    headingAnchor: check("headingAnchor", [HeadingAnchor.PathBeginning, HeadingAnchor.Default]),
+    headingRotation: check("headingRotation", [0, 90, 180, 270]),
+    headingDirection: check("headingDirection", [HeadingDirection.Clockwise, HeadingDirection.CounterClockwise]),
+    originAnchor:
+      originAnchor === OriginAnchor.PathBeginning ? originAnchor : OriginAnchor[getOriginAnchorName(originAnchor)],
+    originOffset: { x: originOffset.x, y: originOffset.y }
+  };
+}
+
+/**
+ * @param text The content of a JSON file, a coordinate system or an array of coordinate systems
+ * @returns The coordinate systems
+ * @throws Error if the content is invalid
+ */
+export function parseCoordinateSystems(text: string): NamedCoordinateSystem[] {
+  const data = JSON.parse(text);
+  return (Array.isArray(data) ? data : [data]).map(parseCoordinateSystem);
+}
+
+export function exportCoordinateSystems(systems: NamedCoordinateSystem[]): string {
+  return JSON.stringify(systems, null, 2);
+}
+
+/**
+ * ALGO: The name is not checked against the list of coordinate systems. Custom coordinate systems are stored in the
+ * preferences, the file can be opened on a computer without them. Unknown names fall back to the default one.
+ */
+export function ValidateCoordinateSystemName(validationOptions?: ValidationOptions) {
+  return function (target: Object, propertyName: string) {
+    registerDecorator({
+      name: "validateCoordinateSystemName",
+      target: target.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: any, args: ValidationArguments) {
+          return typeof value === "string" && value.trim() !== "";
+        },
+        defaultMessage(args: ValidationArguments) {
+          return `The ${args.property} must be the name of a coordinate system`;
+        }
+      }
+    });
+  };
+}
+
 function getOrigin(
   system: CoordinateSystem,
   fieldHalf: Vector,
@@ -269,3 +387,37 @@ export class CoordinateSystemTransformation {
     }
   }
 }
+
+export enum MirrorType {
+  VerticalCenterline = "Vertical Centerline",
+  HorizontalCenterline = "Horizontal Centerline",
+  Rotate180 = "Rotate 180°"
+}
+
+export function mirrorCoordinate(target: Coordinate, type: MirrorType, pivot: Coordinate): Coordinate;
+export function mirrorCoordinate(
+  target: CoordinateWithHeading,
+  type: MirrorType,
+  pivot: Coordinate
+): CoordinateWithHeading;
+export function mirrorCoordinate(
+  target: Coordinate | CoordinateWithHeading,
+  type: MirrorType,
+  pivot: Coordinate
+): Coordinate | CoordinateWithHeading {
+  const flipX = type !== MirrorType.HorizontalCenterline;
+  const flipY = type !== MirrorType.VerticalCenterline;
+
+  const x = flipX ? 2 * pivot.x - target.x : target.x;
+  const y = flipY ? 2 * pivot.y - target.y : target.y;
+
+  if (isCoordinateWithHeading(target)) {
+    // ALGO: Heading 0 is north and increases clockwise
+    let heading = target.heading;
+    if (flipX) heading = 360 - heading;
+    if (flipY) heading = 180 - heading;
+    return { x, y, heading: boundHeading(heading) };
+  } else {
+    return { x, y };
+  }
+}
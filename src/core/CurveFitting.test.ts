@@ -0,0 +1,124 @@
+import { CustomPathConfig } from "../format/Config.test";
+import { getPathPoints } from "./Calculation";
+import {
+  fitBezierCurves,
+  fitPathFromPoints,
+  fitPiecewiseLinear,
+  fitSpeedLimitFromPoints,
+  isStraightCurve
+} from "./CurveFitting";
+import { Control, EndControl, Path, Segment, Vector } from "./Path";
+import { Quantity, UnitOfLength } from "./Unit";
+
+test("fitPiecewiseLinear", () => {
+  expect(fitPiecewiseLinear([], 0.1)).toEqual([]);
+  expect(fitPiecewiseLinear([5], 0.1)).toEqual([0]);
+  expect(fitPiecewiseLinear([1, 2, 3, 4, 5], 0.1)).toEqual([0, 4]);
+  expect(fitPiecewiseLinear([0, 1, 2, 3, 2, 1, 0], 0.1)).toEqual([0, 3, 6]);
+  expect(fitPiecewiseLinear([1, 1, 1, 0.5, 0.5, 0.5], 0.01)).toEqual([0, 2, 3, 5]);
+  expect(fitPiecewiseLinear([0, 0.05, 0, 0.05, 0], 0.1)).toEqual([0, 4]);
+});
+
+test("fitBezierCurves with too few points", () => {
+  expect(fitBezierCurves([], 1)).toEqual([]);
+  expect(fitBezierCurves([new Vector(0, 0)], 1)).toEqual([]);
+
+  const result = fitBezierCurves([new Vector(0, 0), new Vector(0, 30)], 1);
+  expect(result.length).toBe(1);
+  expect(result[0].from).toBe(0);
+  expect(result[0].to).toBe(1);
+  expect(result[0].controls[1].y).toBeCloseTo(10);
+  expect(result[0].controls[2].y).toBeCloseTo(20);
+});
+
+test("fitBezierCurves with a cubic curve", () => {
+  const path = new Path(
+    new CustomPathConfig(),
+    new Segment(new EndControl(0, 0, 0), new Control(0, 60), new Control(60, 60), new EndControl(60, 0, 0))
+  );
+  const points = getPathPoints(path, new Quantity(2, UnitOfLength.Centimeter)).points.map(p => new Vector(p.x, p.y));
+
+  const result = fitBezierCurves(points, 1);
+
+  expect(result.length).toBe(1);
+  expect(result[0].from).toBe(0);
+  expect(result[0].to).toBe(points.length - 1);
+  expect(result[0].controls[1].x).toBeCloseTo(0, -1);
+  expect(result[0].controls[1].y).toBeCloseTo(60, -1);
+  expect(result[0].controls[2].x).toBeCloseTo(60, -1);
+  expect(result[0].controls[2].y).toBeCloseTo(60, -1);
+});
+
+test("fitBezierCurves with a sharp corner", () => {
+  const points: Vector[] = [];
+  for (let i = 0; i <= 10; i++) points.push(new Vector(0, i * 10));
+  for (let i = 1; i <= 10; i++) points.push(new Vector(i * 10, 100));
+
+  const result = fitBezierCurves(points, 1);
+
+  expect(result.length).toBeGreaterThan(1);
+  expect(result[0].from).toBe(0);
+  expect(result[result.length - 1].to).toBe(points.length - 1);
+  for (let i = 1; i < result.length; i++) expect(result[i].from).toBe(result[i - 1].to);
+});
+
+test("isStraightCurve", () => {
+  const p0 = new Vector(0, 0);
+  const p3 = new Vector(0, 90);
+
+  expect(isStraightCurve([p0, new Vector(0, 30), new Vector(0, 60), p3], 0.1)).toBe(true);
+  expect(isStraightCurve([p0, new Vector(0.5, 30), new Vector(-0.5, 60), p3], 1)).toBe(true);
+  expect(isStraightCurve([p0, new Vector(0.5, 30), new Vector(-0.5, 60), p3], 0.1)).toBe(false);
+  expect(isStraightCurve([p0, new Vector(0, -30), new Vector(0, 60), p3], 1)).toBe(false);
+  expect(isStraightCurve([p0, new Vector(0, 30), new Vector(0, 60), p0], 1)).toBe(false);
+});
+
+test("fitSpeedLimitFromPoints", () => {
+  const path = new Path(new CustomPathConfig());
+
+  fitSpeedLimitFromPoints(path, [
+    { x: 0, y: 0, speed: 30.12345 },
+    { x: 0, y: 10, speed: 200 },
+    { x: 0, y: 20, speed: 0 } // ignored
+  ]);
+  expect(path.pc.speedLimit.from).toBe(20);
+  expect(path.pc.speedLimit.to).toBe(127);
+
+  fitSpeedLimitFromPoints(path, [
+    { x: 0, y: 0, speed: 10.12345 },
+    { x: 0, y: 10, speed: 50 },
+    { x: 0, y: 20, speed: 0 }
+  ]);
+  expect(path.pc.speedLimit.from).toBe(10.123);
+  expect(path.pc.speedLimit.to).toBe(50);
+
+  fitSpeedLimitFromPoints(path, [{ x: 0, y: 0, speed: 0 }]);
+  expect(path.pc.speedLimit.to).toBe(50);
+});
+
+test("fitPathFromPoints", () => {
+  const path = new Path(new CustomPathConfig());
+  path.pc.speedLimit.from = 0;
+  path.pc.speedLimit.to = 100;
+
+  const points = [];
+  for (let i = 0; i <= 10; i++) points.push({ x: 0, y: i * 10, speed: 100, heading: i === 0 ? 90 : undefined });
+  points[5].heading = 180;
+  points[5].speed = 50;
+  points.push({ x: 0, y: 100, speed: 0 }); // duplicated
+
+  fitPathFromPoints(path, points, { tolerance: 1, speedTolerance: 1 });
+
+  expect(path.segments.length).toBe(2);
+  expect(path.segments[0].isLinear()).toBe(true);
+  expect(path.segments[1].isLinear()).toBe(true);
+  expect(path.segments[0].first.heading).toBe(90);
+  expect(path.segments[0].last.heading).toBe(180);
+  expect(path.segments[1].last.heading).toBe(180);
+  expect(path.segments[1].last.y).toBe(100);
+
+  const keyframes = path.segments.flatMap(segment => segment.speed.list);
+  expect(keyframes.map(kf => kf.yPos)).toEqual([1, 1, 0.5, 1, 1]);
+  expect(path.segments[0].speed.list.map(kf => kf.xPos)).toEqual([0, 0.8]);
+  expect(path.segments[1].speed.list.map(kf => kf.xPos)).toEqual([0, 0.2, 0.8]);
+});
@@ -0,0 +1,373 @@
+import { Coordinate } from "./Coordinate";
+import { Control, EndControl, Path, Segment, SpeedKeyframe, Vector } from "./Path";
+import { clamp } from "./Util";
+
+/**
+ * A point decoded from a path file, used as the input of the curve fitting.
+ */
+export interface FittingPoint extends Coordinate {
+  speed: number;
+  heading?: number;
+}
+
+/**
+ * A cubic bezier curve fitted through the points from index `from` to index `to` (inclusive).
+ */
+export interface BezierFittingResult {
+  from: number;
+  to: number;
+  controls: [Vector, Vector, Vector, Vector];
+}
+
+export interface PathFittingOptions {
+  tolerance: number; // The maximum distance between the points and the fitted curves, in the unit of length of the points
+  speedTolerance: number; // The maximum difference between the speeds and the fitted speed profile
+}
+
+const MAX_REPARAMETERIZE_ITERATIONS = 4;
+
+function normalize(vec: Vector): Vector {
+  const length = Math.hypot(vec.x, vec.y);
+  return length === 0 ? new Vector(0, 0) : vec.divide(length);
+}
+
+/**
+ * @returns The unit tangent at the given index, looking at the neighbouring points in the given direction.
+ * Duplicated points are skipped.
+ */
+function getEndTangent(points: Vector[], idx: number, direction: 1 | -1): Vector {
+  for (let i = idx + direction; i >= 0 && i < points.length; i += direction) {
+    const tangent = normalize(points[i].subtract(points[idx]));
+    if (tangent.x !== 0 || tangent.y !== 0) return tangent;
+  }
+  return new Vector(0, 0);
+}
+
+function getBezierPoint(controls: Vector[], t: number): Vector {
+  const mt = 1 - t;
+  const [p0, p1, p2, p3] = controls;
+  return p0
+    .multiply(mt * mt * mt)
+    .add(p1.multiply(3 * mt * mt * t))
+    .add(p2.multiply(3 * mt * t * t))
+    .add(p3.multiply(t * t * t));
+}
+
+/**
+ * @returns The parameter of each point based on the accumulated chord length, from 0 to 1
+ */
+function getChordLengthParameters(points: Vector[], from: number, to: number): number[] {
+  const u = [0];
+  for (let i = from + 1; i <= to; i++) u.push(u[u.length - 1] + points[i].distance(points[i - 1]));
+
+  const total = u[u.length - 1];
+  return total === 0 ? u.map((_, i) => i / (u.length - 1)) : u.map(value => value / total);
+}
+
+/**
+ * ALGO: Least squares fitting of the two inner control points with the given tangents, see "An Algorithm for
+ * Automatically Fitting Digitized Curves" by Philip J. Schneider, Graphics Gems, 1990
+ */
+function generateBezier(
+  points: Vector[],
+  from: number,
+  to: number,
+  u: number[],
+  tangent1: Vector,
+  tangent2: Vector
+): [Vector, Vector, Vector, Vector] {
+  const first = points[from];
+  const last = points[to];
+
+  const c = [
+    [0, 0],
+    [0, 0]
+  ];
+  const x = [0, 0];
+
+  for (let i = 0; i < u.length; i++) {
+    const t = u[i];
+    const mt = 1 - t;
+    const b1 = 3 * mt * mt * t;
+    const b2 = 3 * mt * t * t;
+    const a1 = tangent1.multiply(b1);
+    const a2 = tangent2.multiply(b2);
+
+    c[0][0] += a1.dot(a1);
+    c[0][1] += a1.dot(a2);
+    c[1][1] += a2.dot(a2);
+
+    const tmp = points[from + i].subtract(getBezierPoint([first, first, last, last], t));
+    x[0] += a1.dot(tmp);
+    x[1] += a2.dot(tmp);
+  }
+  c[1][0] = c[0][1];
+
+  const detC0C1 = c[0][0] * c[1][1] - c[1][0] * c[0][1];
+  const detC0X = c[0][0] * x[1] - c[1][0] * x[0];
+  const detXC1 = x[0] * c[1][1] - x[1] * c[0][1];
+
+  let alpha1 = detC0C1 === 0 ? 0 : detXC1 / detC0C1;
+  let alpha2 = detC0C1 === 0 ? 0 : detC0X / detC0C1;
+
+  // ALGO: Fall back to the Wu/Barsky heuristic if the solution is degenerated
+  const segmentLength = first.distance(last);
+  const epsilon = 1e-6 * segmentLength;
+  if (alpha1 < epsilon || alpha2 < epsilon) {
+    alpha1 = alpha2 = segmentLength / 3;
+  }
+
+  return [first, first.add(tangent1.multiply(alpha1)), last.add(tangent2.multiply(alpha2)), last];
+}
+
+/**
+ * ALGO: Improve the parameters with one step of Newton-Raphson, finding the closest point on the curve
+ */
+function reparameterize(controls: Vector[], points: Vector[], from: number, u: number[]): number[] {
+  const [p0, p1, p2, p3] = controls;
+  const d1 = [p1.subtract(p0).multiply(3), p2.subtract(p1).multiply(3), p3.subtract(p2).multiply(3)];
+  const d2 = [d1[1].subtract(d1[0]).multiply(2), d1[2].subtract(d1[1]).multiply(2)];
+
+  return u.map((t, i) => {
+    const mt = 1 - t;
+    const point = getBezierPoint(controls, t);
+    const first = d1[0]
+      .multiply(mt * mt)
+      .add(d1[1].multiply(2 * mt * t))
+      .add(d1[2].multiply(t * t));
+    const second = d2[0].multiply(mt).add(d2[1].multiply(t));
+    const diff = point.subtract(points[from + i]);
+
+    const numerator = diff.dot(first);
+    const denominator = first.dot(first) + diff.dot(second);
+    return denominator === 0 ? t : clamp(t - numerator / denominator, 0, 1);
+  });
+}
+
+/**
+ * @returns The maximum distance between the points and the curve, and the index of the point
+ */
+function getMaxError(controls: Vector[], points: Vector[], from: number, u: number[]): [number, number] {
+  let maxError = 0;
+  let splitIdx = Math.floor((from + from + u.length - 1) / 2);
+  for (let i = 1; i < u.length - 1; i++) {
+    const error = getBezierPoint(controls, u[i]).distance(points[from + i]);
+    if (error > maxError) {
+      maxError = error;
+      splitIdx = from + i;
+    }
+  }
+  return [maxError, splitIdx];
+}
+
+function fitCubic(
+  points: Vector[],
+  from: number,
+  to: number,
+  tangent1: Vector,
+  tangent2: Vector,
+  tolerance: number,
+  result: BezierFittingResult[]
+) {
+  if (to - from === 1) {
+    const distance = points[from].distance(points[to]) / 3;
+    result.push({
+      from,
+      to,
+      controls: [
+        points[from],
+        points[from].add(tangent1.multiply(distance)),
+        points[to].add(tangent2.multiply(distance)),
+        points[to]
+      ]
+    });
+    return;
+  }
+
+  let u = getChordLengthParameters(points, from, to);
+  let controls = generateBezier(points, from, to, u, tangent1, tangent2);
+  let [maxError, splitIdx] = getMaxError(controls, points, from, u);
+  if (maxError <= tolerance) {
+    result.push({ from, to, controls });
+    return;
+  }
+
+  // ALGO: If the error is not too large, try to improve the parameters before splitting the curve
+  if (maxError <= tolerance * 4) {
+    for (let i = 0; i < MAX_REPARAMETERIZE_ITERATIONS; i++) {
+      u = reparameterize(controls, points, from, u);
+      controls = generateBezier(points, from, to, u, tangent1, tangent2);
+      [maxError, splitIdx] = getMaxError(controls, points, from, u);
+      if (maxError <= tolerance) {
+        result.push({ from, to, controls });
+        return;
+      }
+    }
+  }
+
+  // ALGO: Split at the point with the maximum error, the tangent at the split point keeps the curves smooth
+  let centerTangent = normalize(points[splitIdx - 1].subtract(points[splitIdx + 1]));
+  if (centerTangent.x === 0 && centerTangent.y === 0) centerTangent = getEndTangent(points, splitIdx, -1);
+
+  fitCubic(points, from, splitIdx, tangent1, centerTangent, tolerance, result);
+  fitCubic(points, splitIdx, to, centerTangent.multiply(-1), tangent2, tolerance, result);
+}
+
+/**
+ * Fits a minimal set of connected cubic bezier curves through the given points.
+ *
+ * @param points - The points to fit, in order
+ * @param tolerance - The maximum distance between any point and the fitted curves
+ * @returns The fitted curves, in order, the first curve starts from index 0 and the last curve ends at the last index
+ */
+export function fitBezierCurves(points: Vector[], tolerance: number): BezierFittingResult[] {
+  if (points.length < 2) return [];
+
+  const result: BezierFittingResult[] = [];
+  const last = points.length - 1;
+  fitCubic(points, 0, last, getEndTangent(points, 0, 1), getEndTangent(points, last, -1), tolerance, result);
+  return result;
+}
+
+/**
+ * @returns true if both inner control points are on the line between the end points within the tolerance
+ */
+export function isStraightCurve(controls: [Vector, Vector, Vector, Vector], tolerance: number): boolean {
+  const [p0, p1, p2, p3] = controls;
+  const chord = p3.subtract(p0);
+  const lengthSquared = chord.dot(chord);
+  if (lengthSquared === 0) return false;
+
+  return [p1, p2].every(control => {
+    const t = control.subtract(p0).dot(chord) / lengthSquared;
+    if (t < 0 || t > 1) return false;
+    return p0.add(chord.multiply(t)).distance(control) <= tolerance;
+  });
+}
+
+/**
+ * Simplifies the given values into a piecewise linear function using the Ramer-Douglas-Peucker algorithm.
+ *
+ * @param values - The values, the index is used as the x-axis
+ * @param tolerance - The maximum difference between any value and the linear function
+ * @returns The indexes of the break points in ascending order, including the first and the last index
+ */
+export function fitPiecewiseLinear(values: number[], tolerance: number): number[] {
+  if (values.length === 0) return [];
+  if (values.length === 1) return [0];
+
+  const isBreakPoint = values.map(() => false);
+  isBreakPoint[0] = isBreakPoint[values.length - 1] = true;
+
+  const stack: [number, number][] = [[0, values.length - 1]];
+  while (stack.length > 0) {
+    const [from, to] = stack.pop()!;
+
+    let maxError = 0;
+    let maxIdx = -1;
+    for (let i = from + 1; i < to; i++) {
+      const expected = values[from] + ((values[to] - values[from]) * (i - from)) / (to - from);
+      const error = Math.abs(values[i] - expected);
+      if (error > maxError) {
+        maxError = error;
+        maxIdx = i;
+      }
+    }
+
+    if (maxError > tolerance) {
+      isBreakPoint[maxIdx] = true;
+      stack.push([from, maxIdx], [maxIdx, to]);
+    }
+  }
+
+  return values.map((_, idx) => idx).filter(idx => isBreakPoint[idx]);
+}
+
+/**
+ * Sets the speed limit of the path config to cover the speeds of the points.
+ *
+ * @param path - The path to update
+ * @param points - The points of the path, the speed of the last point is ignored
+ */
+export function fitSpeedLimitFromPoints(path: Path, points: FittingPoint[]) {
+  // ALGO: The speed limit covers all point speeds, the last point is always 0 and ignored
+  const speeds = points.slice(0, -1).map(point => point.speed);
+  if (speeds.length === 0) return;
+
+  const speedLimit = path.pc.speedLimit;
+  const minLimit = speedLimit.minLimit.value;
+  const maxLimit = speedLimit.maxLimit.value;
+  speedLimit.to = clamp(Math.max(...speeds).toUser(), minLimit, maxLimit);
+  speedLimit.from = clamp(Math.min(speedLimit.from, ...speeds).toUser(), minLimit, speedLimit.to);
+}
+
+/**
+ * Reconstructs the segments and the speed keyframes of a path from a list of points.
+ *
+ * The points with heading are treated as end controls, the segments between them are fitted separately.
+ * Fitted curves that are straight within the tolerance become linear segments.
+ * The speed limit of the path config must be set before calling this function, see fitSpeedLimitFromPoints.
+ *
+ * @param path - The empty path to fill in
+ * @param points - The points of the path, the speed of the last point is ignored
+ * @param options - The fitting options
+ * @returns The given path
+ */
+export function fitPathFromPoints(path: Path, points: FittingPoint[], options: PathFittingOptions): Path {
+  // ALGO: Remove consecutive duplicated points, keeping the heading if any
+  const uniquePoints: FittingPoint[] = [];
+  for (const point of points) {
+    const prev = uniquePoints[uniquePoints.length - 1];
+    if (prev !== undefined && prev.x === point.x && prev.y === point.y) {
+      if (point.heading !== undefined) uniquePoints[uniquePoints.length - 1] = { ...prev, heading: point.heading };
+      continue;
+    }
+    uniquePoints.push(point);
+  }
+  if (uniquePoints.length < 2) return path;
+
+  const vectors = uniquePoints.map(point => new Vector(point.x, point.y));
+  const curves: BezierFittingResult[] = [];
+
+  // ALGO: The points with heading are the end controls of the original path
+  let from = 0;
+  for (let i = 1; i < uniquePoints.length; i++) {
+    if (uniquePoints[i].heading === undefined && i !== uniquePoints.length - 1) continue;
+
+    for (const curve of fitBezierCurves(vectors.slice(from, i + 1), options.tolerance)) {
+      curves.push({ ...curve, from: curve.from + from, to: curve.to + from });
+    }
+    from = i;
+  }
+
+  let heading = uniquePoints[0].heading ?? 0;
+  let first = new EndControl(vectors[0].x, vectors[0].y, heading);
+  for (const curve of curves) {
+    heading = uniquePoints[curve.to].heading ?? heading;
+    const [, p1, p2, p3] = curve.controls;
+    const last = new EndControl(p3.x, p3.y, heading);
+    if (isStraightCurve(curve.controls, options.tolerance)) {
+      path.segments.push(new Segment(first, last));
+    } else {
+      path.segments.push(new Segment(first, new Control(p1.x, p1.y), new Control(p2.x, p2.y), last));
+    }
+    first = last;
+  }
+
+  // ALGO: The speed profile is approximated by keyframes at the break points of a piecewise linear function
+  const limitFrom = path.pc.speedLimit.from;
+  const limitTo = path.pc.speedLimit.to;
+  const limitDiff = limitTo - limitFrom;
+  const speeds = uniquePoints.slice(0, -1).map(point => point.speed);
+
+  let curveIdx = 0;
+  for (const idx of fitPiecewiseLinear(speeds, options.speedTolerance)) {
+    while (curves[curveIdx].to <= idx) curveIdx++;
+    const curve = curves[curveIdx];
+    const xPos = (idx - curve.from) / (curve.to - curve.from);
+    const yPos = limitDiff === 0 ? 1 : clamp((speeds[idx] - limitFrom) / limitDiff, 0, 1);
+    path.segments[curveIdx].speed.add(new SpeedKeyframe(xPos, yPos));
+  }
+
+  return path;
+}
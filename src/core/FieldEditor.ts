@@ -1,10 +1,12 @@
 import { action, makeAutoObservable } from "mobx";
-import { toDerivativeHeading, toHeading, firstDerivative } from "./Calculation";
+import { getRobotHeadingAt, toHeading } from "./Calculation";
 import { CanvasEntity, FieldCanvasConverter } from "./Canvas";
 import { getAppStores } from "./MainApp";
-import { Vector } from "./Path";
+import { Point, Vector } from "./Path";
 import { clamp } from "./Util";
-import { MagnetReference } from "./Magnet";
+import { MagnetGrid, MagnetReference } from "./Magnet";
+import { CoordinateSystemTransformation } from "./CoordinateSystem";
+import { Quantity, UnitOfLength } from "./Unit";
 
 export type CanvasEntityInteraction =
   | {
@@ -24,6 +26,7 @@ export class FieldEditor {
   private _lastInteraction: CanvasEntityInteraction | undefined = undefined;
   private selectedBefore: string[] = []; // Selected controls before area selection
   private offsetStart: Vector | undefined = undefined;
+  private _isMeasuring: boolean = false;
   private wheelInteractionState: {
     type: "panning" | "change heading value";
     lastTimestamp: number;
@@ -36,6 +39,12 @@ export class FieldEditor {
 
   mousePosInUOL: Vector | undefined = undefined;
 
+  measurement: Vector[] = []; // The points of the measurement in progress, in UOL
+  // ALGO: The pinned measurements are annotations, they are not exported and are cleared when the editor is reset
+  pinnedMeasurements: Vector[][] = [];
+
+  linkedItem: string | undefined = undefined; // The uid of the path or segment linked from the output preview
+
   constructor() {
     makeAutoObservable(this, { fcc: false });
 
@@ -153,6 +162,19 @@ export class FieldEditor {
     return true;
   }
 
+  /**
+   * Places the robot at the given point of a path, the heading is calculated based on the holonomic setting
+   * @param point The point of the path
+   * @param position The position of the robot, the position of the point if not specified
+   */
+  showRobotAt(point: Point, position: Vector = point): void {
+    const { app } = getAppStores();
+
+    app.robot.position.setXY(position);
+    app.robot.position.heading = getRobotHeadingAt(point, app.gc.robotIsHolonomic);
+    app.robot.position.visible = true;
+  }
+
   showRobot(posInPx: Vector): boolean {
     const { app } = getAppStores();
 
@@ -181,24 +203,7 @@ export class FieldEditor {
     }
 
     if (closestPoint !== undefined && closestDistance < magnetDistance * 4) {
-      app.robot.position.setXY(closestPoint);
-
-      const t = closestPoint.sampleT;
-      const segment = closestPoint.sampleRef;
-      const c0 = segment.first;
-      const c3 = segment.last;
-
-      if (app.gc.robotIsHolonomic === "force-static") {
-        app.robot.position.heading = c0.heading;
-      } else if (app.gc.robotIsHolonomic === true || app.gc.robotIsHolonomic === "force-holonomic") {
-        const c3Heading = toDerivativeHeading(c0.heading, c3.heading);
-        app.robot.position.heading = c0.heading + c3Heading * t;
-      } else {
-        const heading = toHeading(firstDerivative(closestPoint.sampleRef, closestPoint.sampleT));
-        app.robot.position.heading = heading;
-      }
-
-      app.robot.position.visible = true;
+      this.showRobotAt(closestPoint);
     }
 
     return true;
@@ -286,6 +291,49 @@ export class FieldEditor {
     }
   }
 
+  /**
+   * UX: The point snaps to the closest visible control, so the distance between controls can be measured
+   *
+   * @param posInUOL The position of the new point
+   */
+  addMeasurementPoint(posInUOL: Vector): void {
+    const { app } = getAppStores();
+
+    let point = posInUOL;
+    let closestDistance = app.gc.controlMagnetDistance;
+    for (const path of app.paths) {
+      if (path.visible === false) continue;
+      for (const control of path.controls) {
+        if (control.visible === false) continue;
+        const distance = control.distance(posInUOL);
+        if (distance < closestDistance) {
+          closestDistance = distance;
+          point = control.toVector();
+        }
+      }
+    }
+
+    // UX: Start a new measurement if the last one is completed with three points
+    if (this.measurement.length >= 3) this.measurement = [point];
+    else this.measurement = [...this.measurement, point];
+  }
+
+  /**
+   * @returns true if the measurement in progress is pinned
+   */
+  pinMeasurement(): boolean {
+    if (this.measurement.length < 2) return false;
+
+    this.pinnedMeasurements = [...this.pinnedMeasurements, this.measurement];
+    this.measurement = [];
+    return true;
+  }
+
+  clearMeasurements(): void {
+    this.measurement = [];
+    this.pinnedMeasurements = [];
+  }
+
   reset() {
     this._areaSelection = undefined;
     this._lastInteraction = undefined;
@@ -296,6 +344,9 @@ export class FieldEditor {
     this.offset = new Vector(0, 0);
     this.scale = 1;
     this.wheelInteractionState = { type: "panning", lastTimestamp: 0 };
+    this.measurement = [];
+    this.pinnedMeasurements = [];
+    this.linkedItem = undefined;
     // ALGO: Use fcc?. because it may be undefined
     // ALGO: Settle all the konva elements
     this.fcc?.stage?.stopDrag();
@@ -333,6 +384,51 @@ export class FieldEditor {
     return this._lastInteraction;
   }
 
+  get isMeasuring() {
+    return this._isMeasuring;
+  }
+
+  set isMeasuring(isMeasuring: boolean) {
+    this._isMeasuring = isMeasuring;
+    this.measurement = [];
+    this.tooltipPosition = undefined;
+  }
+
+  /**
+   * ALGO: The origin of the coordinate system might be relative to the beginning of the path
+   *
+   * @returns The transformation of the active coordinate system, relative to the interested path
+   */
+  get coordinateSystemTransformation(): CoordinateSystemTransformation {
+    const { app } = getAppStores();
+
+    const beginning = app.interestedPath()?.segments[0]?.first ?? { x: 0, y: 0, heading: 0 };
+    return new CoordinateSystemTransformation(app.coordinateSystem, app.fieldDimension, beginning);
+  }
+
+  /**
+   * @returns The grid aligned to the origin of the active coordinate system, or undefined if the grid is hidden
+   */
+  get grid(): MagnetGrid | undefined {
+    const { app, appPreferences } = getAppStores();
+    if (appPreferences.isGridVisible === false) return undefined;
+
+    const spacing = new Quantity<UnitOfLength>(appPreferences.gridSpacing, appPreferences.gridSpacingUnit).to(
+      app.gc.uol
+    );
+    if (!(spacing > 0)) return undefined;
+
+    const cst = this.coordinateSystemTransformation;
+    const origin = cst.inverseTransform({ x: 0, y: 0 });
+    const axis = cst.inverseTransform({ x: 0, y: 1 });
+
+    return {
+      origin: new Vector(origin.x, origin.y),
+      heading: toHeading(new Vector(axis.x - origin.x, axis.y - origin.y)),
+      spacing
+    };
+  }
+
   private set interaction(newIt: CanvasEntityInteraction | undefined) {
     const oldIt = this._interaction;
     if ((oldIt === undefined) !== (newIt === undefined)) {
@@ -0,0 +1,90 @@
+import { getAppStores } from "./MainApp";
+import { EndControl, Segment } from "./Path";
+import { UnitOfLength } from "./Unit";
+import { CoordinateSystemTransformation } from "./CoordinateSystem";
+import {
+  computeAngleFormula,
+  computeLengthFormula,
+  isValidFormulaVariableName,
+  parseFormulaVariables
+} from "./Formula";
+
+test("dummy", () => {
+  getAppStores(); // suppress constructor error
+});
+
+test("variable names", () => {
+  expect(isValidFormulaVariableName("offset")).toBe(true);
+  expect(isValidFormulaVariableName("_a1")).toBe(true);
+  expect(isValidFormulaVariableName("1a")).toBe(false);
+  expect(isValidFormulaVariableName("a b")).toBe(false);
+  expect(isValidFormulaVariableName("sqrt")).toBe(false);
+  expect(isValidFormulaVariableName("tileSize")).toBe(false);
+  expect(isValidFormulaVariableName("offset", [{ name: "offset", value: "1" }])).toBe(false);
+
+  expect(parseFormulaVariables(undefined)).toEqual([]);
+  expect(parseFormulaVariables([{ name: "a", value: "1in" }])).toEqual([{ name: "a", value: "1in" }]);
+  expect(() => parseFormulaVariables({})).toThrow();
+  expect(() => parseFormulaVariables([{ name: "<img>", value: "1" }])).toThrow();
+  expect(() => parseFormulaVariables([{ name: "a", value: 1 }])).toThrow();
+  expect(() =>
+    parseFormulaVariables([
+      { name: "a", value: "1" },
+      { name: "a", value: "2" }
+    ])
+  ).toThrow();
+});
+
+test("compute formula with variables, constants and references", () => {
+  const { app } = getAppStores();
+
+  const path = app.format.createPath();
+  path.name = "Path 1";
+  path.segments.push(new Segment(new EndControl(0, 0, 0), new EndControl(10, 20, 90)));
+  app.paths = [path];
+  app.variables = [
+    { name: "offset", value: "2 * half" },
+    { name: "half", value: "1tile / 2" },
+    { name: "loop", value: "loop + 1" }
+  ];
+
+  const uol = app.gc.uol;
+  const tile = computeLengthFormula("1tile", uol)!;
+  expect(computeLengthFormula("tileSize", uol)).toBeCloseTo(tile);
+  expect(computeLengthFormula("offset + 1tile", uol)).toBeCloseTo(tile * 2);
+  expect(computeLengthFormula("hypot(3, 4)", uol)).toBe(5);
+  expect(computeLengthFormula("fieldHalfHeight * 2", uol)).toBeCloseTo(computeLengthFormula("fieldHeight", uol)!);
+
+  const cst = new CoordinateSystemTransformation(app.coordinateSystem, app.fieldDimension, path.segments[0].first);
+  const end2 = cst.transform(path.segments[0].last);
+  expect(computeLengthFormula('@"Path 1".end2.x + 1tile', uol)).toBeCloseTo(end2.x + tile);
+  expect(computeLengthFormula('@"Path 1".control2.y', uol)).toBeCloseTo(end2.y);
+  expect(computeLengthFormula('@"Path 1".end2.y', UnitOfLength.Millimeter)).toBeCloseTo(end2.y * uol * 10);
+  expect(computeAngleFormula('@"Path 1".end2.heading + 90')).toBeCloseTo((end2 as any).heading + 90);
+
+  expect(computeLengthFormula('@"Path 1".end3.x', uol)).toBeUndefined(); // not found
+  expect(computeLengthFormula('@"Path 1".end2.heading', uol)).toBeUndefined(); // not a length
+  expect(computeLengthFormula("loop", uol)).toBeUndefined(); // circular reference
+  expect(computeLengthFormula("sqrt(-1)", uol)).toBeUndefined(); // not a finite number
+  expect(computeLengthFormula("unknown", uol)).toBeUndefined();
+
+  app.variables = [];
+});
+
+test("Export and import variables", async () => {
+  const { app } = getAppStores();
+  app.newFile();
+  expect(app.exportPDJData().variables).toBeUndefined();
+
+  app.variables = [{ name: "offset", value: "1tile + 2in" }];
+  const data = app.exportPDJData();
+  expect(data.variables).toEqual([{ name: "offset", value: "1tile + 2in" }]);
+
+  app.newFile();
+  expect(app.variables).toEqual([]);
+
+  await app.importPDJData(JSON.parse(JSON.stringify(data)));
+  expect(app.variables).toEqual([{ name: "offset", value: "1tile + 2in" }]);
+
+  app.newFile();
+});
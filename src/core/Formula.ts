@@ -0,0 +1,212 @@
+import { getAppStores } from "./MainApp";
+import { AnyControl, EndControl, Path } from "./Path";
+import { Quantity, Unit, UnitOfAngle, UnitOfLength } from "./Unit";
+import { isCoordinateWithHeading } from "./Coordinate";
+import { CoordinateSystemTransformation } from "./CoordinateSystem";
+import { parseFormula } from "./Util";
+import { FormulaContext, NumberUOA, NumberUOL, NumberWithUnit, TokenParser, isFormulaBuiltInName } from "@token/Tokens";
+
+/**
+ * A user-defined variable of the project, the value is a formula which can refer to other variables
+ */
+export interface FormulaVariable {
+  name: string;
+  value: string;
+}
+
+export type FormulaQuantityKind = "length" | "angle";
+
+const FORMULA_LENGTH_CONSTANT_NAMES = ["tileSize", "fieldWidth", "fieldHeight", "fieldHalfWidth", "fieldHalfHeight"];
+
+/**
+ * @param name The name of the variable
+ * @param variables The other variables of the project
+ * @returns Whether the name is a valid identifier which is not used by other variables, functions and constants
+ */
+export function isValidFormulaVariableName(name: string, variables: readonly FormulaVariable[] = []): boolean {
+  return (
+    /^[A-Za-z_]\w*$/.test(name) &&
+    !isFormulaBuiltInName(name) &&
+    !FORMULA_LENGTH_CONSTANT_NAMES.includes(name) &&
+    variables.every(variable => variable.name !== name)
+  );
+}
+
+/**
+ * SECURITY: The input data might be invalid, the variables are validated before being used
+ *
+ * @param data The variables in the path file data
+ * @returns The variables
+ * @throws Error if any variable is invalid
+ */
+export function parseFormulaVariables(data: unknown): FormulaVariable[] {
+  if (data === undefined) return [];
+  if (!Array.isArray(data)) throw new Error("Unable to open the path file. Invalid variables.");
+
+  const rtn: FormulaVariable[] = [];
+  for (const raw of data) {
+    const name = raw?.name;
+    const value = raw?.value;
+    if (typeof name !== "string" || typeof value !== "string" || !isValidFormulaVariableName(name, rtn)) {
+      throw new Error("Unable to open the path file. Invalid variable.");
+    }
+    rtn.push({ name, value });
+  }
+  return rtn;
+}
+
+/**
+ * @param name The name of the control to be referred, e.g. "end3" or "control5"
+ * @param endControls The end controls of the path
+ * @param controls All controls of the path
+ * @returns The control, or undefined if the control is not found
+ */
+function findReferencedControl(
+  name: string,
+  endControls: readonly AnyControl[],
+  controls: readonly AnyControl[]
+): AnyControl | undefined {
+  // ALGO: The index is one-based, e.g. "end1" is the first end control of the path
+  const match = /^(end|control)(\d+)$/.exec(name);
+  if (match === null) return undefined;
+
+  const index = parseInt(match[2]) - 1;
+  return match[1] === "end" ? endControls[index] : controls[index];
+}
+
+/**
+ * @param path The path containing the control
+ * @param control The control
+ * @returns The reference to the control without the property, e.g. "@Path1.end3" or '@"Path 1".control5'
+ */
+export function getFormulaReferenceName(path: Path, control: AnyControl): string {
+  const pathName = /^\w+$/.test(path.name) ? path.name : JSON.stringify(path.name);
+  if (control instanceof EndControl) {
+    const index = path.segments.findIndex(segment => segment.first === control);
+    return `@${pathName}.end${index === -1 ? path.segments.length + 1 : index + 1}`;
+  } else {
+    return `@${pathName}.control${path.controls.indexOf(control) + 1}`;
+  }
+}
+
+/**
+ * The formula context of the active routine in the app
+ *
+ * The constants are the tile size and the field dimensions. The references are in the format
+ * "@PathName.endN.x", "@PathName.endN.y", "@PathName.endN.heading" or "@PathName.controlN.x",
+ * the coordinates are in the coordinate system of the format, relative to the beginning of the referred path if needed.
+ */
+export class ProjectFormulaContext<U extends Unit> implements FormulaContext<U> {
+  private resolving: string[] = [];
+
+  constructor(readonly kind: FormulaQuantityKind, readonly numParser: TokenParser<NumberWithUnit<U>>) {}
+
+  getVariable(name: string, inherit: U): number | undefined {
+    const { app } = getAppStores();
+
+    const variable = app.variables.find(variable => variable.name === name);
+    if (variable !== undefined) {
+      if (this.resolving.includes(name)) throw new Error(`Circular reference of variable "${name}"`);
+
+      const computation = parseFormula(variable.value, this.numParser);
+      if (computation === null) throw new Error(`Invalid value of variable "${name}"`);
+
+      this.resolving.push(name);
+      try {
+        return computation.compute(inherit, this);
+      } finally {
+        this.resolving.pop();
+      }
+    }
+
+    if (this.kind !== "length") return undefined;
+
+    const inheritUOL = inherit as unknown as UnitOfLength;
+    const heightInMM = app.fieldImageAsset.heightInMM;
+    const { width, height } = app.fieldDimension;
+    // ALGO: The field dimension is not available before the field image is loaded, assume the field is square
+    const widthInMM = width > 0 && height > 0 ? (heightInMM * width) / height : heightInMM;
+
+    switch (name) {
+      case "tileSize":
+        return new Quantity<UnitOfLength>(1, UnitOfLength.Tile).to(inheritUOL);
+      case "fieldWidth":
+        return new Quantity<UnitOfLength>(widthInMM, UnitOfLength.Millimeter).to(inheritUOL);
+      case "fieldHeight":
+        return new Quantity<UnitOfLength>(heightInMM, UnitOfLength.Millimeter).to(inheritUOL);
+      case "fieldHalfWidth":
+        return new Quantity<UnitOfLength>(widthInMM / 2, UnitOfLength.Millimeter).to(inheritUOL);
+      case "fieldHalfHeight":
+        return new Quantity<UnitOfLength>(heightInMM / 2, UnitOfLength.Millimeter).to(inheritUOL);
+      default:
+        return undefined;
+    }
+  }
+
+  getReference(path: readonly string[], inherit: U): number | undefined {
+    const { app } = getAppStores();
+
+    if (path.length !== 3) return undefined;
+    const [pathName, controlName, property] = path;
+
+    const target = app.paths.find(p => p.name === pathName);
+    if (target === undefined || target.segments.length === 0) return undefined;
+
+    const endControls = [target.segments[0].first, ...target.segments.map(segment => segment.last)];
+    const control = findReferencedControl(controlName, endControls, target.controls);
+    if (control === undefined) return undefined;
+
+    const cst = new CoordinateSystemTransformation(app.coordinateSystem, app.fieldDimension, target.segments[0].first);
+    const coord = cst.transform(control);
+
+    if (property === "x" || property === "y") {
+      if (this.kind !== "length") throw new Error(`Reference "@${path.join(".")}" is not an angle`);
+      return new Quantity(coord[property], app.gc.uol).to(inherit as unknown as UnitOfLength);
+    } else if (property === "heading") {
+      if (!isCoordinateWithHeading(coord)) return undefined;
+      if (this.kind !== "angle") throw new Error(`Reference "@${path.join(".")}" is not a length`);
+      return new Quantity<UnitOfAngle>(coord.heading, UnitOfAngle.Degree).to(inherit as unknown as UnitOfAngle);
+    } else {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * @param input The formula
+ * @param context The context to resolve the variables and references
+ * @param inherit The unit of the result, numbers without a unit are in this unit
+ * @returns The result, or undefined if the formula is invalid or the result is not a finite number
+ */
+export function computeFormula<U extends Unit>(
+  input: string,
+  context: ProjectFormulaContext<U>,
+  inherit: U
+): number | undefined {
+  const computation = parseFormula(input, context.numParser);
+  if (computation === null) return undefined;
+
+  try {
+    const rtn = computation.compute(inherit, context);
+    return isFinite(rtn) ? rtn : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * @param input The formula, e.g. "@Path1.end3.x + 1tile"
+ * @param inherit The unit of the result
+ * @returns The length, or undefined if the formula is invalid
+ */
+export function computeLengthFormula(input: string, inherit: UnitOfLength): number | undefined {
+  return computeFormula(input, new ProjectFormulaContext("length", NumberUOL.parse), inherit);
+}
+
+/**
+ * @param input The formula, e.g. "atan2(1, 1) + @Path1.end3.heading"
+ * @returns The angle in degrees, or undefined if the formula is invalid
+ */
+export function computeAngleFormula(input: string): number | undefined {
+  return computeFormula(input, new ProjectFormulaContext("angle", NumberUOA.parse), UnitOfAngle.Degree);
+}
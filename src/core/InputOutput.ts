@@ -3,6 +3,8 @@ import { getAppStores } from "./MainApp";
 import { enqueueErrorSnackbar, enqueueSuccessSnackbar } from "@app/Notice";
 import { Logger } from "./Logger";
 import { isBraveBrowser, isFirefox } from "./Util";
+import { AutosaveSnapshot } from "./Autosave";
+import { decodeShareLinkFragment, encodeShareLink, isShareLinkFragment } from "./ShareLink";
 
 const logger = Logger("I/O");
 
@@ -164,13 +166,20 @@ async function readFileFromInput(): Promise<ArrayBuffer | undefined> {
   return buffer;
 }
 
-function downloadFile(buffer: ArrayBuffer) {
+/**
+ * Downloads the buffer as a file, it does not acknowledge the autosave, the caller should do it if the buffer is the
+ * project file
+ *
+ * @param buffer The content of the file
+ * @param name The file name, the name of the mounting file by default
+ */
+export function downloadFile(buffer: ArrayBuffer, name?: string) {
   const { app } = getAppStores();
 
   const a = document.createElement("a");
   const file = new Blob([buffer], { type: "text/plain" });
   a.href = URL.createObjectURL(file);
-  a.download = app.mountingFile.name;
+  a.download = name ?? app.mountingFile.name;
   a.click();
 
   getAppStores().ga.gtag("event", "download_file_format", { format: app.format.getName() });
@@ -217,6 +226,7 @@ export async function onNew(saveCheck: boolean = true): Promise<boolean> {
 
   app.newFile();
   app.mountingFile = new IOFileHandle();
+  app.autosave.acknowledge();
   return true;
 }
 
@@ -232,6 +242,7 @@ export async function onSave(): Promise<boolean> {
 
   if (await writeFile(output)) {
     app.history.save();
+    app.autosave.acknowledge();
     return true;
   } else {
     return false;
@@ -250,6 +261,7 @@ export async function onSaveAs(): Promise<boolean> {
 
   if (await writeFile(output)) {
     app.history.save();
+    app.autosave.acknowledge();
     return true;
   } else {
     return false;
@@ -295,6 +307,7 @@ export async function onDownload(fallback: boolean = false): Promise<boolean> {
   if (output === undefined) return false;
 
   downloadFile(output);
+  app.autosave.acknowledge();
 
   return true;
 }
@@ -303,24 +316,49 @@ export async function onDownload(fallback: boolean = false): Promise<boolean> {
  * @returns true if the file is downloaded, false otherwise
  */
 export async function onDownloadAs(fallback: boolean = false): Promise<boolean> {
+  const { app } = getAppStores();
+
   const output = exportFile();
   if (output === undefined) return false;
 
+  const onConfirm = () => {
+    downloadFile(output);
+    app.autosave.acknowledge();
+  };
+
   if (fallback) {
     if (isBraveBrowser()) {
-      return fileNameConfirm(
-        'The "File System Access API" is disabled. Falling back to download.',
-        downloadFile.bind(null, output)
-      );
+      return fileNameConfirm('The "File System Access API" is disabled. Falling back to download.', onConfirm);
     } else {
       return fileNameConfirm(
         "Writing file to the disk is not supported in this browser. Falling back to download.",
-        downloadFile.bind(null, output)
+        onConfirm
       );
     }
   } else {
-    return fileNameConfirm("", downloadFile.bind(null, output));
+    return fileNameConfirm("", onConfirm);
+  }
+}
+
+/**
+ * Download one output per routine, or one combined output if the format can hold all routines in a file
+ *
+ * @returns true if the files are downloaded, false otherwise
+ */
+export async function onDownloadAllRoutines(): Promise<boolean> {
+  const { app } = getAppStores();
+
+  let outputs: { name: string; buffer: ArrayBuffer }[];
+  try {
+    outputs = app.exportRoutineFiles(app.mountingFile.name);
+  } catch (err) {
+    enqueueErrorSnackbar(logger, err);
+    return false;
   }
+
+  for (const output of outputs) downloadFile(output.buffer, output.name);
+
+  return true;
 }
 
 export async function onDropFile(file: File, saveCheck: boolean = true): Promise<boolean> {
@@ -340,3 +378,89 @@ export async function onDropFile(file: File, saveCheck: boolean = true): Promise
     return false;
   }
 }
+
+export async function onRecover(snapshot: AutosaveSnapshot, saveCheck: boolean = true): Promise<boolean> {
+  const { app } = getAppStores();
+
+  if (saveCheck && app.history.isModified()) return saveConfirm(onRecover.bind(null, snapshot, false));
+
+  const data = await app.autosave.loadSnapshotData(snapshot);
+  if (data === undefined) {
+    enqueueErrorSnackbar(logger, "The snapshot is no longer available");
+    return false;
+  }
+
+  try {
+    await app.importPDJData(data);
+    // UX: The recovered file is not linked to any file on the disk
+    app.mountingFile = new IOFileHandle(null, snapshot.fileName);
+    app.autosave.acknowledge();
+    return true;
+  } catch (err) {
+    enqueueErrorSnackbar(logger, err);
+    return false;
+  }
+}
+
+/**
+ * Copy a link containing the whole project to the clipboard, the link is shown to the user if the clipboard is not
+ * available
+ *
+ * @returns true if the link is created, false otherwise
+ */
+export async function onShareLink(): Promise<boolean> {
+  const { app, confirmation } = getAppStores();
+
+  let link: string;
+  try {
+    link = encodeShareLink(app.exportPDJData(), window.location.href);
+  } catch (err) {
+    enqueueErrorSnackbar(logger, err);
+    return false;
+  }
+
+  try {
+    await navigator.clipboard.writeText(link);
+    enqueueSuccessSnackbar(logger, "Link copied to clipboard");
+  } catch (err) {
+    logger.error(err);
+    // UX: Let the user copy the link manually
+    await confirmation.prompt({
+      title: "Share Link",
+      description: "Copy the link below to share the project.",
+      buttons: [{ label: "Close", color: "success" }],
+      inputLabel: "Link",
+      inputDefaultValue: link
+    });
+  }
+
+  getAppStores().ga.gtag("event", "share_link_format", { format: app.format.getName() });
+
+  return true;
+}
+
+/**
+ * Open the project in the fragment of the current URL, if any
+ *
+ * @returns true if a shared project is opened, false otherwise
+ */
+export async function onOpenShareLink(saveCheck: boolean = true): Promise<boolean> {
+  const { app } = getAppStores();
+
+  const hash = window.location.hash;
+  if (!isShareLinkFragment(hash)) return false;
+
+  if (saveCheck && app.history.isModified()) return saveConfirm(onOpenShareLink.bind(null, false));
+
+  // UX: Remove the fragment so that reloading the page does not open the shared project again
+  window.history.replaceState(null, "", window.location.pathname + window.location.search);
+
+  try {
+    await app.importPDJData(decodeShareLinkFragment(hash));
+    app.mountingFile = new IOFileHandle();
+    return true;
+  } catch (err) {
+    enqueueErrorSnackbar(logger, err);
+    return false;
+  }
+}
@@ -0,0 +1,39 @@
+import { Vector } from "./Path";
+import { getGridLines, getGridReferences, magnet } from "./Magnet";
+
+test("grid lines", () => {
+  const grid = { origin: new Vector(5, 5), heading: 0, spacing: 10 };
+
+  const lines = getGridLines(grid, new Vector(0, 0), 20);
+  expect(lines.filter(line => line.heading === 0).map(line => line.source.x)).toEqual([-15, -5, 5, 15]);
+  expect(lines.filter(line => line.heading === 90).map(line => line.source.y)).toEqual([15, 5, -5, -15]);
+  lines.forEach(line => expect(line.source.distance(new Vector(0, 0))).toBeLessThanOrEqual(20));
+
+  expect(getGridLines({ ...grid, spacing: 0 }, new Vector(0, 0), 20)).toEqual([]);
+  expect(getGridLines({ ...grid, spacing: 0.001 }, new Vector(0, 0), 20)).toEqual([]); // too dense
+});
+
+test("snap to grid", () => {
+  const grid = { origin: new Vector(0, 0), heading: 0, spacing: 10 };
+
+  // the intersection
+  let target = new Vector(19, 31);
+  let [result, refs] = magnet(target, getGridReferences(target, grid), 2);
+  expect(result.x).toBeCloseTo(20);
+  expect(result.y).toBeCloseTo(30);
+  expect(refs.length).toBe(2);
+
+  // the grid line
+  target = new Vector(15, 31);
+  [result, refs] = magnet(target, getGridReferences(target, grid), 2);
+  expect(result.x).toBeCloseTo(15);
+  expect(result.y).toBeCloseTo(30);
+  expect(refs.length).toBe(1);
+
+  // the rotated grid
+  const rotated = { origin: new Vector(0, 0), heading: 45, spacing: Math.SQRT2 * 10 };
+  target = new Vector(19.5, 0.5);
+  [result] = magnet(target, getGridReferences(target, rotated), 2);
+  expect(result.x).toBeCloseTo(20);
+  expect(result.y).toBeCloseTo(0);
+});
@@ -1,4 +1,9 @@
-import { findClosestPointOnLine, findLinesIntersection } from "./Calculation";
+import {
+  boundHeading,
+  findClosestPointOnLine,
+  findLinesIntersection,
+  fromHeadingInDegreeToAngleInRadian
+} from "./Calculation";
 import { Vector } from "./Path";
 
 function findClosetReference(target: Vector, refs: MagnetReference[]): [Vector, MagnetReference | undefined] {
@@ -46,3 +51,54 @@ export interface MagnetReference {
   source: Vector;
   heading: number;
 }
+
+/**
+ * A square grid, e.g. the tile grid of the field
+ */
+export interface MagnetGrid {
+  origin: Vector; // A grid intersection, e.g. the origin of the coordinate system
+  heading: number; // The heading of one of the grid axes
+  spacing: number; // The distance between grid lines, in the same unit of length as the origin
+}
+
+/**
+ * The maximum number of grid lines in one direction, the grid is not rendered or magnetized if it is too dense
+ */
+export const MAX_GRID_LINES = 500;
+
+/**
+ * @param grid The grid
+ * @param center The center of the area
+ * @param radius The radius of the area
+ * @returns The grid lines passing through the area, the source of each line is the closest point to the center
+ */
+export function getGridLines(grid: MagnetGrid, center: Vector, radius: number): MagnetReference[] {
+  if (!(grid.spacing > 0) || (radius * 2) / grid.spacing > MAX_GRID_LINES) return [];
+
+  const lines: MagnetReference[] = [];
+  for (const heading of [grid.heading, grid.heading + 90]) {
+    const theta = fromHeadingInDegreeToAngleInRadian(heading + 90);
+    const across = new Vector(Math.cos(theta), Math.sin(theta));
+    const offset = center.subtract(grid.origin).dot(across);
+
+    const from = Math.ceil((offset - radius) / grid.spacing);
+    const to = Math.floor((offset + radius) / grid.spacing);
+    for (let i = from; i <= to; i++) {
+      lines.push({ source: center.add(across.multiply(i * grid.spacing - offset)), heading: boundHeading(heading) });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * ALGO: Only the grid lines around the target are returned, the intersections are found by the magnet function
+ * with the perpendicular lines.
+ *
+ * @param target The position of the dragging control
+ * @param grid The grid
+ * @returns The grid lines around the target as magnet references
+ */
+export function getGridReferences(target: Vector, grid: MagnetGrid): MagnetReference[] {
+  return getGridLines(grid, target, grid.spacing);
+}
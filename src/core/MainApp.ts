@@ -3,16 +3,16 @@ import DOMPurify from "dompurify"; // cspell:disable-line
 import { GeneralConfig } from "../format/Config";
 import { AnyControl, EndControl, Path, PathTreeItem, Vector, relatedPaths, traversal } from "./Path";
 import { addToArray, removeFromArray, runInActionAsync } from "./Util";
-import { Format, convertPathFileData, getAllFormats, importPDJDataFromTextFile } from "../format/Format";
+import { ExportContext, Format, getAllFormats, importPDJDataFromTextFile } from "../format/Format";
 import { promptFieldImage } from "./FieldImagePrompt";
 import { PathDotJerryioFormatV0_1 } from "../format/PathDotJerryioFormatV0_1";
-import { instanceToPlain, plainToClassFromExist } from "class-transformer";
 import { Quantity, UnitConverter, UnitOfLength } from "./Unit";
 import { CommandHistory } from "./Command";
+import { CollisionRange, FieldObstacle, convertObstacle, getCollisionRanges } from "./Collision";
 import { SemVer } from "semver";
 import { Confirmation } from "@app/common.blocks/modal/ConfirmationModal";
 import { GoogleAnalytics } from "./GoogleAnalytics";
-import { IOFileHandle } from "./InputOutput";
+import { IOFileHandle, onOpenShareLink } from "./InputOutput";
 import { getPathSamplePoints, getUniformPointsFromSamples } from "./Calculation";
 import { APP_VERSION_STRING } from "../Version";
 import { Logger } from "./Logger";
@@ -20,15 +20,27 @@ import { onLatestVersionChange } from "./Versioning";
 import { enqueueSuccessSnackbar } from "@app/Notice";
 import * as SWR from "./ServiceWorkerRegistration";
 import { AppClipboard } from "./Clipboard";
-import { validate } from "class-validator";
 import { FieldEditor } from "./FieldEditor";
 import { SpeedEditor } from "./SpeedEditor";
+import { Playback } from "./Playback";
+import { OdometryLog } from "./OdometryLog";
+import { AutosaveManager } from "./Autosave";
 import { AssetManager, FieldImageAsset, FieldImageOriginType, getDefaultBuiltInFieldImage } from "./Asset";
 import { Preferences, getPreference } from "./Preferences";
 import { LemLibFormatV0_4 } from "../format/LemLibFormatV0_4";
 import { LemLibFormatV1_0 } from "../format/LemLibFormatV1_0";
 import { UserInterface } from "./Layout";
-import { CoordinateSystem, Dimension, getNamedCoordinateSystems } from "./CoordinateSystem";
+import {
+  CoordinateSystem,
+  Dimension,
+  NamedCoordinateSystem,
+  getNamedCoordinateSystems,
+  parseCoordinateSystem
+} from "./CoordinateSystem";
+import { DEFAULT_ROUTINE_NAME, Routine, getRoutineFileName } from "./Routine";
+import { createPDJData, loadPDJData } from "./ProjectData";
+import { FormulaVariable } from "./Formula";
+import { Constraint, observeConstraints } from "./Constraint";
 
 export const APP_VERSION = new SemVer(APP_VERSION_STRING);
 
@@ -42,7 +54,10 @@ export class MainApp {
   private usingUOL: UnitOfLength = UnitOfLength.Centimeter;
   public mountingFile: IOFileHandle = new IOFileHandle(null); // This is intended to be modified outside the class
 
-  public paths: Path[] = [];
+  public routines: Routine[] = [];
+  public routine: Routine = new Routine(); // The active routine, this is intended to be modified outside the class
+  public variables: FormulaVariable[] = []; // The variables of the project, this is intended to be modified outside the class
+  public constraints: Constraint[] = []; // The constraints of the project, this is intended to be modified outside the class
   public hoverItem: string | undefined = undefined;
   private selected: string[] = []; // ALGO: Not using Set because order matters
   private lastInterestedPath: Path | undefined = undefined; // ALGO: For adding controls
@@ -56,6 +71,9 @@ export class MainApp {
   readonly history: CommandHistory = new CommandHistory(this);
   readonly fieldEditor = new FieldEditor();
   readonly speedEditor = new SpeedEditor();
+  readonly playback = new Playback();
+  readonly odometryLog = new OdometryLog();
+  readonly autosave = new AutosaveManager();
 
   // null = loading, undefined = not available
   public latestVersion: SemVer | null | undefined = undefined;
@@ -72,7 +90,7 @@ export class MainApp {
       () => this.format,
       action((newFormat: Format, oldFormat: Format) => {
         oldFormat.unregister();
-        newFormat.register(this, ui);
+        newFormat.register(this, getAppStores().ui);
 
         this.resetUserControl();
         this.resetAllEditors();
@@ -88,17 +106,33 @@ export class MainApp {
 
         const uc = new UnitConverter(oldUOL, newUOL);
 
-        for (const path of this.paths) {
+        for (const path of this.routines.flatMap(routine => routine.paths)) {
           for (const control of path.controls) {
             control.x = uc.fromAtoB(control.x);
             control.y = uc.fromAtoB(control.y);
           }
         }
 
+        // UX: Keep the measurements at the same position on the field
+        const convert = (points: Vector[]) => points.map(p => new Vector(uc.fromAtoB(p.x), uc.fromAtoB(p.y)));
+        this.fieldEditor.measurement = convert(this.fieldEditor.measurement);
+        this.fieldEditor.pinnedMeasurements = this.fieldEditor.pinnedMeasurements.map(convert);
+
         this.usingUOL = newUOL;
       })
     );
 
+    reaction(
+      () => this.routine,
+      action((newRoutine: Routine) => {
+        this.resetUserControl();
+        this.resetAllEditors();
+
+        // UX: Expand all paths
+        for (const path of newRoutine.paths) this.addExpanded(path);
+      })
+    );
+
     reaction(
       () => this.gc.showRobot,
       action((showRobot: boolean) => {
@@ -110,6 +144,8 @@ export class MainApp {
 
     reaction(() => this.latestVersion, onLatestVersionChange);
 
+    observeConstraints(this.history, this);
+
     reaction(
       () => this.mountingFile.handle,
       handle => {
@@ -143,6 +179,12 @@ export class MainApp {
       localStorage.setItem("appVersion", APP_VERSION_STRING);
       if (lastTimeAppVersion !== null) enqueueSuccessSnackbar(logger, "Updated to v" + APP_VERSION_STRING);
     }
+
+    this.autosave.start();
+
+    // UX: Open the shared project on startup, or when a share link is pasted to the address bar
+    onOpenShareLink(false);
+    window.addEventListener("hashchange", () => onOpenShareLink());
   }
 
   onSelectAll() {
@@ -171,11 +213,24 @@ export class MainApp {
     }
   }
 
+  /**
+   * @returns The paths of the active routine
+   */
+  get paths(): Path[] {
+    return this.routine.paths;
+  }
+
+  set paths(paths: Path[]) {
+    this.routine.paths = paths;
+  }
+
   @computed get gc(): GeneralConfig {
     return this.format.getGeneralConfig();
   }
 
   @computed get fieldImageAsset(): FieldImageAsset<FieldImageOriginType> {
+    const { assetManager } = getAppStores();
+
     return assetManager.getAssetBySignature(this.gc.fieldImage.signature) ?? getDefaultBuiltInFieldImage();
   }
 
@@ -183,10 +238,54 @@ export class MainApp {
     return this.fieldDimension_;
   }
 
+  /**
+   * @returns the built-in coordinate systems followed by the valid custom coordinate systems in the preferences
+   */
+  @computed get coordinateSystems(): NamedCoordinateSystem[] {
+    const { appPreferences } = getAppStores();
+
+    const builtIn = getNamedCoordinateSystems();
+    // ALGO: The preferences can be modified outside the app, the stored value may not be an array
+    const stored: unknown = appPreferences.customCoordinateSystems;
+    const custom = (Array.isArray(stored) ? stored : []).flatMap(system => {
+      try {
+        return [parseCoordinateSystem(system)];
+      } catch (e) {
+        logger.error("Invalid custom coordinate system", e);
+        return [];
+      }
+    });
+    return [...builtIn, ...custom.filter(system => builtIn.every(cs => cs.name !== system.name))];
+  }
+
   @computed get coordinateSystem(): CoordinateSystem {
-    return (
-      getNamedCoordinateSystems().find(cs => cs.name === this.gc.coordinateSystem) ?? getNamedCoordinateSystems()[0]
-    );
+    const systems = this.coordinateSystems;
+    return systems.find(cs => cs.name === this.gc.coordinateSystem) ?? systems[0];
+  }
+
+  @computed get obstacles(): FieldObstacle[] {
+    // ALGO: The obstacles of the field image are in mm
+    return this.fieldImageAsset.obstacles.map(obstacle => convertObstacle(obstacle, this.gc.uol));
+  }
+
+  @computed get pathCollisions(): Map<Path, CollisionRange[]> {
+    const rtn = new Map<Path, CollisionRange[]>();
+    const obstacles = this.obstacles;
+    if (obstacles.length === 0) return rtn;
+
+    const robot = { width: this.gc.robotWidth, height: this.gc.robotHeight, isHolonomic: this.gc.robotIsHolonomic };
+    for (const path of this.paths) {
+      if (path.visible === false) continue;
+      rtn.set(path, getCollisionRanges(path.cachedResult.points, robot, obstacles));
+    }
+    return rtn;
+  }
+
+  /**
+   * @returns The ranges of points where the robot collides with the obstacles, empty if the path is hidden
+   */
+  getPathCollisions(path: Path): CollisionRange[] {
+    return this.pathCollisions.get(path) ?? [];
   }
 
   isSelected(x: PathTreeItem | string): boolean {
@@ -322,6 +421,7 @@ export class MainApp {
   resetAllEditors(): void {
     this.fieldEditor.reset();
     this.speedEditor.reset();
+    this.playback.reset();
   }
 
   resetFieldOffsetAndScale() {
@@ -329,27 +429,35 @@ export class MainApp {
     this.fieldEditor.scale = 1;
   }
 
-  private setFormatAndPaths(format: Format, paths: Path[]): void {
+  private setFormatAndRoutines(format: Format, routines: Routine[], activeRoutineIndex: number): void {
     const purify = DOMPurify();
 
-    this.expanded = [];
-    for (const path of paths) {
-      // SECURITY: Sanitize path names, beware of XSS attack from the path file
-      const temp = purify.sanitize(path.name, { ALLOWED_TAGS: [] });
-      path.name = temp === "" ? "Path" : temp;
-
-      // ALGO: Link the first vector of each segment to the last vector of the previous segment
-      for (let j = 1; j < path.segments.length; j++) {
-        path.segments[j].first = path.segments[j - 1].last;
-      }
+    for (const routine of routines) {
+      // SECURITY: Sanitize routine names, beware of XSS attack from the path file
+      const temp = purify.sanitize(routine.name, { ALLOWED_TAGS: [] });
+      routine.name = temp === "" ? DEFAULT_ROUTINE_NAME : temp;
+
+      for (const path of routine.paths) {
+        // SECURITY: Sanitize path names, beware of XSS attack from the path file
+        const temp = purify.sanitize(path.name, { ALLOWED_TAGS: [] });
+        path.name = temp === "" ? "Path" : temp;
 
-      // UX: Expand all paths
-      this.expanded.push(path.uid);
+        // ALGO: Link the first vector of each segment to the last vector of the previous segment
+        for (let j = 1; j < path.segments.length; j++) {
+          path.segments[j].first = path.segments[j - 1].last;
+        }
+      }
     }
 
+    const routine = routines[activeRoutineIndex] ?? routines[0];
+
+    // UX: Expand all paths
+    this.expanded = routine.paths.map(path => path.uid);
+
     this.format = format;
     this.usingUOL = format.getGeneralConfig().uol;
-    this.paths = paths;
+    this.routines = routines;
+    this.routine = routine;
   }
 
   /**
@@ -358,50 +466,21 @@ export class MainApp {
    * @param data the path file data
    */
   async importPDJData(data: Record<string, any>): Promise<void> {
-    // ALGO: Convert the path file to the app version
-    while (data.appVersion !== APP_VERSION.version) {
-      if (convertPathFileData(data) === false) throw new Error("Unable to open the path file. Try updating the app.");
-    }
-
-    const format = getAllFormats().find(f => f.getName() === data.format);
-    if (format === undefined) throw new Error("Format not found.");
+    const { format, routines, activeRoutineIndex, variables, constraints } = await loadPDJData(data);
+    const gc = format.getGeneralConfig();
 
-    if (data.gc?.fieldImage?.origin) format.getGeneralConfig().fieldImage.origin = undefined as any; // ALGO: Remove default origin
-
-    const gc = plainToClassFromExist(format.getGeneralConfig(), data.gc, {
-      excludeExtraneousValues: true,
-      exposeDefaultValues: true
-    });
-    const paths: Path[] = [];
-    for (const pathRaw of data.paths) {
-      const path = format.createPath();
-      const pathPC = path.pc;
-      plainToClassFromExist(path, pathRaw, { excludeExtraneousValues: true, exposeDefaultValues: true });
-      path.pc = plainToClassFromExist(pathPC, pathRaw.pc, { exposeDefaultValues: true });
-
-      paths.push(path);
-    }
-
-    const errors = [...(await validate(gc)), ...(await Promise.all(paths.map(path => validate(path)))).flat()];
-    if (errors.length > 0) {
-      errors.forEach(e => logger.error("Validation errors", e.constraints, `in ${e.property}`, e));
-      throw new Error("Unable to open the path file due to validation errors.");
-    }
-
-    ga.gtag("event", "import_file_format", { format: format.getName() });
+    getAppStores().ga.gtag("event", "import_file_format", { format: format.getName() });
 
     const result = await runInActionAsync(() => promptFieldImage(gc.fieldImage));
     if (result === false) gc.fieldImage = getDefaultBuiltInFieldImage().getSignatureAndOrigin();
 
-    this.setFormatAndPaths(format, paths);
+    this.setFormatAndRoutines(format, routines, activeRoutineIndex);
+    this.variables = variables;
+    this.constraints = constraints;
   }
 
   exportPDJData(): Record<string, any> {
-    return {
-      appVersion: APP_VERSION.version,
-      format: this.format.getName(),
-      ...instanceToPlain({ gc: this.format.getGeneralConfig(), paths: this.paths })
-    };
+    return createPDJData(this.format, this.routines, this.routine, this.variables, this.constraints);
   }
 
   newFile() {
@@ -409,7 +488,10 @@ export class MainApp {
 
     this.format = newFormat;
     this.usingUOL = this.gc.uol;
-    this.paths = [];
+    this.routines = [new Routine()];
+    this.routine = this.routines[0];
+    this.variables = [];
+    this.constraints = [];
   }
 
   /**
@@ -459,7 +541,9 @@ export class MainApp {
     const result = await runInActionAsync(() => promptFieldImage(format.getGeneralConfig().fieldImage));
     if (result === false) format.getGeneralConfig().fieldImage = getDefaultBuiltInFieldImage().getSignatureAndOrigin();
 
-    this.setFormatAndPaths(format, paths);
+    this.setFormatAndRoutines(format, [new Routine(DEFAULT_ROUTINE_NAME, paths)], 0);
+    this.variables = [];
+    this.constraints = [];
   }
 
   /**
@@ -467,28 +551,88 @@ export class MainApp {
    * @returns the path file buffer in ArrayBuffer
    */
   exportFile(): ArrayBuffer {
-    return this.format.exportFile();
+    return this.format.exportFile(this);
   }
-}
 
-export type AppStores = typeof appStores;
+  /**
+   * Export all routines, one output per routine, or one combined output if the format can hold all routines in a file
+   *
+   * @throws Error if any routine can not be exported
+   * @param fileName the file name of the project
+   * @returns the file names and the path file buffers in ArrayBuffer
+   */
+  exportRoutineFiles(fileName: string): { name: string; buffer: ArrayBuffer }[] {
+    if (this.format.exportProjectFile !== undefined)
+      return [{ name: fileName, buffer: this.format.exportProjectFile(this) }];
+
+    // ALGO: Each routine is exported with its own context, the state of the app is not changed
+    return this.routines.map(routine => ({
+      name: getRoutineFileName(fileName, routine.name),
+      buffer: this.format.exportFile(this.createRoutineExportContext(routine))
+    }));
+  }
+
+  /**
+   * @param routine The routine to export
+   * @returns The export context of the routine, the same as the app if it is the active routine
+   */
+  private createRoutineExportContext(routine: Routine): ExportContext {
+    if (routine === this.routine) return this;
+
+    return {
+      routines: this.routines,
+      paths: routine.paths,
+      fieldImageAsset: this.fieldImageAsset,
+      // ALGO: The selection only applies to the active routine, the first path of other routines is exported
+      interestedPath: () => routine.paths[0],
+      exportPDJData: () => createPDJData(this.format, this.routines, routine, this.variables, this.constraints)
+    };
+  }
+}
 
-const appPreferences = new Preferences();
-const assetManager = new AssetManager();
-const clipboard = new AppClipboard();
-const confirmation = new Confirmation();
-const ga = new GoogleAnalytics();
-const ui = new UserInterface();
-const app = new MainApp(); // ALGO: The app must be created last
+export interface AppStores {
+  readonly app: MainApp;
+  readonly appPreferences: Preferences;
+  readonly assetManager: AssetManager;
+  readonly clipboard: AppClipboard;
+  readonly confirmation: Confirmation;
+  readonly ga: GoogleAnalytics;
+  readonly ui: UserInterface;
+}
 
-const appStores = { app, appPreferences, assetManager, clipboard, confirmation, ga, ui } as const;
+let appStores: AppStores | undefined = undefined;
 
+/**
+ * ALGO: The stores are created on first use, the headless converter loads the formats without creating the app
+ */
 export function getAppStores(): AppStores {
+  if (appStores === undefined) {
+    const appPreferences = new Preferences();
+    const assetManager = new AssetManager();
+    const clipboard = new AppClipboard();
+    const confirmation = new Confirmation();
+    const ga = new GoogleAnalytics();
+    const ui = new UserInterface();
+
+    // ALGO: The app must be created last, the other stores are available during its construction
+    const stores = { appPreferences, assetManager, clipboard, confirmation, ga, ui } as {
+      -readonly [K in keyof AppStores]: AppStores[K];
+    };
+    appStores = stores;
+    stores.app = new MainApp();
+  }
+  return appStores;
+}
+
+/**
+ * @returns the stores if they are created, without creating them
+ */
+export function getCreatedAppStores(): AppStores | undefined {
   return appStores;
 }
 
 // @ts-ignore
-(window.testFunction = action(() => {
+window.testFunction = action(() => {
   const { app } = getAppStores();
 
   const density = new Quantity(2, UnitOfLength.Centimeter);
@@ -502,7 +646,7 @@ export function getAppStores(): AppStores {
     const uniformResult = getUniformPointsFromSamples(sampleResult, density);
     logger.log(uniformResult);
   }
-}))();
+});
 
 // @ts-ignore
 window.unregisterSW = action(() => {
@@ -0,0 +1,96 @@
+import { getAppStores } from "./MainApp";
+import { CoordinateSystemTransformation, getNamedCoordinateSystems } from "./CoordinateSystem";
+import { EndControl, Segment, Vector } from "./Path";
+import { measure } from "./Measurement";
+
+test("dummy", () => {
+  getAppStores(); // suppress constructor error
+});
+
+test("measure", () => {
+  const [vexGps, cartesian] = getNamedCoordinateSystems();
+  const dimension = { width: 0, height: 0 };
+  const beginning = { x: 0, y: 0, heading: 0 };
+  const points = [new Vector(0, 0), new Vector(0, 10), new Vector(10, 10)];
+
+  let cst = new CoordinateSystemTransformation(vexGps, dimension, beginning);
+  expect(measure(points.slice(0, 1), cst)).toBeUndefined();
+
+  const result1 = measure(points.slice(0, 2), cst)!;
+  expect(result1.distance).toBeCloseTo(10);
+  expect(result1.heading).toBeCloseTo(0);
+  expect(result1.angle).toBeUndefined();
+
+  const result2 = measure(points, cst)!;
+  expect(result2.distance2).toBeCloseTo(10);
+  expect(result2.heading2).toBeCloseTo(90);
+  expect(result2.angle).toBeCloseTo(90);
+  expect(result2.headingDifference).toBeCloseTo(90); // clockwise turn
+
+  // the heading convention of the coordinate system
+  cst = new CoordinateSystemTransformation(cartesian, dimension, beginning);
+  const result3 = measure(points, cst)!;
+  expect(result3.heading).toBeCloseTo(90);
+  expect(result3.heading2).toBeCloseTo(0);
+  expect(result3.angle).toBeCloseTo(90);
+  expect(result3.headingDifference).toBeCloseTo(-90);
+});
+
+test("measurement points and pinned measurements", () => {
+  const { app } = getAppStores();
+  const fieldEditor = app.fieldEditor;
+
+  const control = new EndControl(50, 50, 0);
+  app.paths = [app.format.createPath(new Segment(new EndControl(0, 0, 0), control))];
+
+  fieldEditor.isMeasuring = true;
+  expect(fieldEditor.pinMeasurement()).toBe(false);
+
+  fieldEditor.addMeasurementPoint(new Vector(10, 10));
+  fieldEditor.addMeasurementPoint(new Vector(50, 50.5)); // snap to the control
+  expect(fieldEditor.measurement).toEqual([new Vector(10, 10), new Vector(50, 50)]);
+
+  fieldEditor.addMeasurementPoint(new Vector(-30, 20));
+  fieldEditor.addMeasurementPoint(new Vector(-40, 20)); // start a new measurement
+  expect(fieldEditor.measurement).toEqual([new Vector(-40, 20)]);
+
+  fieldEditor.addMeasurementPoint(new Vector(-40, 30));
+  expect(fieldEditor.pinMeasurement()).toBe(true);
+  expect(fieldEditor.measurement).toEqual([]);
+  expect(fieldEditor.pinnedMeasurements).toEqual([[new Vector(-40, 20), new Vector(-40, 30)]]);
+
+  // the pinned measurements are not exported
+  expect(JSON.stringify(app.exportPDJData())).not.toContain("-40");
+
+  fieldEditor.isMeasuring = false;
+  expect(fieldEditor.pinnedMeasurements.length).toBe(1);
+  fieldEditor.clearMeasurements();
+  expect(fieldEditor.pinnedMeasurements).toEqual([]);
+
+  app.newFile();
+});
+
+test("pinned measurements are cleared when the project changes", async () => {
+  const { app } = getAppStores();
+  const fieldEditor = app.fieldEditor;
+
+  const pin = () => {
+    fieldEditor.addMeasurementPoint(new Vector(0, 0));
+    fieldEditor.addMeasurementPoint(new Vector(0, 10));
+    expect(fieldEditor.pinMeasurement()).toBe(true);
+  };
+
+  pin();
+  app.newFile();
+  expect(fieldEditor.pinnedMeasurements).toEqual([]);
+
+  pin();
+  await app.importPDJData(app.exportPDJData());
+  expect(fieldEditor.pinnedMeasurements).toEqual([]);
+
+  pin();
+  fieldEditor.reset();
+  expect(fieldEditor.pinnedMeasurements).toEqual([]);
+
+  app.newFile();
+});
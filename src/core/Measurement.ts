@@ -0,0 +1,46 @@
+import { toDerivativeHeading, toHeading } from "./Calculation";
+import { CoordinateSystemTransformation } from "./CoordinateSystem";
+import { Vector } from "./Path";
+import { clamp } from "./Util";
+
+/**
+ * The result of measuring two or three points on the field
+ */
+export interface MeasurementResult {
+  distance: number; // The distance between the first and the second point, in the unit of length of the points
+  heading: number; // The heading from the first point to the second point, in the coordinate system
+  angle?: number; // The angle at the second point between the first and the third point, [0, 180] in degrees
+  distance2?: number; // The distance between the second and the third point
+  heading2?: number; // The heading from the second point to the third point, in the coordinate system
+  headingDifference?: number; // The heading difference from the first to the second heading, (-180, 180] in degrees
+}
+
+/**
+ * ALGO: The headings are transformed into the coordinate system, so the heading difference honors the heading
+ * direction of the coordinate system, e.g. counterclockwise headings give a positive difference for a left turn.
+ *
+ * @param points The two or three points in the unit of length of the format
+ * @param cst The transformation of the active coordinate system
+ * @returns The result of the measurement, or undefined if there are less than two points
+ */
+export function measure(points: readonly Vector[], cst: CoordinateSystemTransformation): MeasurementResult | undefined {
+  if (points.length < 2) return undefined;
+
+  const getHeading = (from: Vector, to: Vector) =>
+    cst.transform({ x: from.x, y: from.y, heading: toHeading(to.subtract(from)) }).heading;
+
+  const [first, second, third] = points;
+  const result: MeasurementResult = { distance: first.distance(second), heading: getHeading(first, second) };
+  if (third === undefined) return result;
+
+  const a = first.subtract(second);
+  const b = third.subtract(second);
+  const lengths = a.distance(new Vector(0, 0)) * b.distance(new Vector(0, 0));
+
+  result.angle = lengths === 0 ? 0 : (Math.acos(clamp(a.dot(b) / lengths, -1, 1)) * 180) / Math.PI;
+  result.distance2 = second.distance(third);
+  result.heading2 = getHeading(second, third);
+  result.headingDifference = toDerivativeHeading(result.heading, result.heading2);
+
+  return result;
+}
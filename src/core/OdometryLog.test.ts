@@ -0,0 +1,97 @@
+import { getAppStores } from "./MainApp";
+import { EndControl, Point, Segment } from "./Path";
+import { CoordinateSystemTransformation, getNamedCoordinateSystems } from "./CoordinateSystem";
+import { getCrossTrackErrorStatistics, matchOdometryLog, parseOdometryLog, toOdometryLogPoints } from "./OdometryLog";
+
+test("dummy", () => {
+  getAppStores(); // suppress constructor error
+});
+
+test("parse CSV log", () => {
+  expect(parseOdometryLog("time,x,y,heading,velocity\n0.1,1,2,90,5\n0,0,0,0,\n")).toEqual([
+    { timestamp: 0, x: 0, y: 0, heading: 0, velocity: undefined },
+    { timestamp: 0.1, x: 1, y: 2, heading: 90, velocity: 5 }
+  ]);
+
+  // without header
+  expect(parseOdometryLog("# comment\n0;1;2;3\n")).toEqual([
+    { timestamp: 0, x: 1, y: 2, heading: 3, velocity: undefined }
+  ]);
+
+  // without header, in e-notation
+  expect(parseOdometryLog("0,1.2e-3,5,90\n1E2,-3e1,4,0\n")).toEqual([
+    { timestamp: 0, x: 0.0012, y: 5, heading: 90, velocity: undefined },
+    { timestamp: 100, x: -30, y: 4, heading: 0, velocity: undefined }
+  ]);
+
+  // in milliseconds, with columns in a different order
+  expect(parseOdometryLog("x\ty\ttheta\ttime_ms\n1\t2\t3\t500")).toEqual([
+    { timestamp: 0.5, x: 1, y: 2, heading: 3, velocity: undefined }
+  ]);
+
+  expect(() => parseOdometryLog("time,x,y\n0,1,2")).toThrow('Missing column "heading"');
+  expect(() => parseOdometryLog("time,x,y,heading\n0,1,abc,3")).toThrow('Invalid number "abc" at line 2');
+});
+
+test("parse JSON log", () => {
+  expect(parseOdometryLog('[{"t": 1, "x": 1, "y": 2, "heading": 3, "speed": 4}]')).toEqual([
+    { timestamp: 1, x: 1, y: 2, heading: 3, velocity: 4 }
+  ]);
+  expect(parseOdometryLog('{"entries": [{"timestamp": 0, "x": 0, "y": 0, "theta": 0}]}')).toEqual([
+    { timestamp: 0, x: 0, y: 0, heading: 0, velocity: undefined }
+  ]);
+
+  expect(() => parseOdometryLog('{"x": 1}')).toThrow("Expected an array of entries");
+  expect(() => parseOdometryLog('[{"t": 1, "x": 1, "heading": 3}]')).toThrow('Missing "y" at index 0');
+});
+
+test("convert log to field coordinates", () => {
+  const gps = getNamedCoordinateSystems()[0];
+  const cst = CoordinateSystemTransformation.buildWithoutBeginningInfo(gps as any, { width: 0, height: 0 });
+
+  const points = toOdometryLogPoints(
+    [
+      { timestamp: 0, x: 0, y: 0, heading: 0 },
+      { timestamp: 1, x: 0, y: 10, heading: 0 },
+      { timestamp: 2, x: 0, y: 20, heading: 0, velocity: 3 }
+    ],
+    cst
+  );
+
+  expect(points.map(p => [p.x, p.y, p.heading].map(v => v.toUser()))).toEqual([
+    [0, 0, 0],
+    [0, 10, 0],
+    [0, 20, 0]
+  ]);
+  expect(points.map(p => p.velocity)).toEqual([10, 10, 3]);
+  expect(points.map(p => p.isVelocityRecorded)).toEqual([false, false, true]);
+});
+
+test("match log and cross-track error statistics", () => {
+  const segment = new Segment(new EndControl(0, 0, 0), new EndControl(0, 20, 0));
+  const result = {
+    points: [0, 5, 10, 15, 20].map(y => new Point(0, y, segment, y / 20)),
+    segmentIndexes: [
+      { index: 0, from: 0, to: 3 },
+      { index: 1, from: 3, to: 5 }
+    ]
+  };
+
+  const matches = matchOdometryLog(result, [
+    { x: 1, y: 1 },
+    { x: -2, y: 7 },
+    { x: 3, y: 19 },
+    { x: 0, y: 0 } // ALGO: The progress never decreases
+  ]);
+
+  expect(matches.map(m => m?.pointIndex)).toEqual([0, 1, 4, 3]);
+  expect(matches.map(m => m?.segmentIndex)).toEqual([0, 0, 1, 1]);
+  expect(matches.map(m => m?.error.toUser())).toEqual([1, 2, 3, 15]);
+
+  const statistics = getCrossTrackErrorStatistics(3, matches);
+  expect(statistics.map(s => s.count)).toEqual([2, 2, 0]);
+  expect(statistics[0].mean).toBeCloseTo(1.5);
+  expect(statistics[0].rms).toBeCloseTo(Math.sqrt(2.5));
+  expect(statistics[1].max).toBeCloseTo(15);
+  expect(statistics[2]).toEqual({ segmentIndex: 2, count: 0, mean: 0, rms: 0, max: 0 });
+});
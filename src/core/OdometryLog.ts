@@ -0,0 +1,331 @@
+import { makeAutoObservable, observable } from "mobx";
+import { getAppStores } from "./MainApp";
+import { Path } from "./Path";
+import { Coordinate, CoordinateWithHeading } from "./Coordinate";
+import { CoordinateSystemTransformation } from "./CoordinateSystem";
+import { UniformCalculationResult } from "./Calculation";
+import { clamp } from "./Util";
+
+/**
+ * Represents a pose recorded by the robot, in the coordinate system of the format
+ */
+export interface OdometryLogEntry {
+  timestamp: number; // in seconds
+  x: number;
+  y: number;
+  heading: number;
+  velocity?: number; // in the speed unit of the format, as recorded by the robot
+}
+
+/**
+ * Represents a pose recorded by the robot, in the field coordinate system
+ */
+export interface OdometryLogPoint extends CoordinateWithHeading {
+  timestamp: number; // in seconds
+  velocity: number; // in the speed unit of the format if it is recorded, otherwise in UOL per second
+  isVelocityRecorded: boolean; // false if the velocity is derived from the positions
+}
+
+/**
+ * Represents the closest position on the planned path of a pose in the log
+ */
+export interface OdometryLogMatch {
+  pointIndex: number; // The index of the closest point in the uniform points array
+  segmentIndex: number; // The index of the segment in the path
+  error: number; // The cross-track error, the distance to the planned path
+}
+
+export interface CrossTrackErrorStatistics {
+  segmentIndex: number;
+  count: number; // The number of poses matched to the segment
+  mean: number;
+  rms: number;
+  max: number;
+}
+
+const COLUMN_ALIASES: { [key in keyof OdometryLogEntry]-?: string[] } = {
+  timestamp: ["timestamp", "time", "t", "timestamp_ms", "time_ms", "ms"],
+  x: ["x"],
+  y: ["y"],
+  heading: ["heading", "theta", "angle", "h"],
+  velocity: ["velocity", "speed", "vel", "v"]
+};
+
+const MILLISECOND_COLUMNS = ["timestamp_ms", "time_ms", "ms"];
+
+function parseLogNumber(value: unknown, where: string): number {
+  const num = typeof value === "number" ? value : typeof value === "string" ? Number(value.trim()) : NaN;
+  if (typeof value === "string" && value.trim() === "") throw new Error(`Missing number ${where}`);
+  if (!isFinite(num)) throw new Error(`Invalid number "${value}" ${where}`);
+  return num;
+}
+
+function parseJSONLog(text: string): OdometryLogEntry[] {
+  const data = JSON.parse(text);
+  const rows = Array.isArray(data) ? data : data?.entries;
+  if (!Array.isArray(rows)) throw new Error("Expected an array of entries");
+
+  return rows.map((row, index) => {
+    if (typeof row !== "object" || row === null) throw new Error(`Invalid entry at index ${index}`);
+
+    const read = (key: keyof OdometryLogEntry, optional: boolean) => {
+      const alias = COLUMN_ALIASES[key].find(alias => alias in row);
+      if (alias === undefined) {
+        if (optional) return undefined;
+        throw new Error(`Missing "${key}" at index ${index}`);
+      }
+      const value = parseLogNumber(row[alias], `at index ${index}`);
+      return MILLISECOND_COLUMNS.includes(alias) ? value / 1000 : value;
+    };
+
+    return {
+      timestamp: read("timestamp", false)!,
+      x: read("x", false)!,
+      y: read("y", false)!,
+      heading: read("heading", false)!,
+      velocity: read("velocity", true)
+    };
+  });
+}
+
+function parseCSVLog(text: string): OdometryLogEntry[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+    .filter(({ line }) => line !== "" && !line.startsWith("#"));
+  if (lines.length === 0) return [];
+
+  const delimiter = [",", "\t", ";"].find(d => lines[0].line.includes(d)) ?? ",";
+  const split = (line: string) => line.split(delimiter).map(cell => cell.trim().toLowerCase());
+
+  // ALGO: The header is optional, the columns are timestamp, x, y, heading and velocity in order without the header
+  const header = split(lines[0].line);
+  const hasHeader = header.some(cell => cell !== "" && !isFinite(Number(cell)));
+  const findColumn = (key: keyof OdometryLogEntry) => header.findIndex(cell => COLUMN_ALIASES[key].includes(cell));
+  const columns: { [key in keyof OdometryLogEntry]-?: number } = hasHeader
+    ? {
+        timestamp: findColumn("timestamp"),
+        x: findColumn("x"),
+        y: findColumn("y"),
+        heading: findColumn("heading"),
+        velocity: findColumn("velocity")
+      }
+    : { timestamp: 0, x: 1, y: 2, heading: 3, velocity: 4 };
+  const isMillisecond = hasHeader && MILLISECOND_COLUMNS.includes(header[columns.timestamp]);
+
+  for (const key of ["timestamp", "x", "y", "heading"] as const) {
+    if (columns[key] === -1) throw new Error(`Missing column "${key}"`);
+  }
+
+  return lines.slice(hasHeader ? 1 : 0).map(({ line, number }) => {
+    const cells = line.split(delimiter);
+    const read = (column: number) => parseLogNumber(cells[column] ?? "", `at line ${number}`);
+    const hasVelocity = columns.velocity !== -1 && (cells[columns.velocity] ?? "").trim() !== "";
+
+    return {
+      timestamp: read(columns.timestamp) / (isMillisecond ? 1000 : 1),
+      x: read(columns.x),
+      y: read(columns.y),
+      heading: read(columns.heading),
+      velocity: hasVelocity ? read(columns.velocity) : undefined
+    };
+  });
+}
+
+/**
+ * Parses a telemetry log recorded by the robot, the format is detected by the content
+ *
+ * @param text The content of a CSV or JSON file
+ * @returns The entries sorted by timestamp
+ * @throws Error if the content is not a valid log
+ */
+export function parseOdometryLog(text: string): OdometryLogEntry[] {
+  const trimmed = text.trim();
+  const isJSON = trimmed.startsWith("[") || trimmed.startsWith("{");
+  const entries = isJSON ? parseJSONLog(trimmed) : parseCSVLog(trimmed);
+
+  return entries.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Converts the log to the field coordinate system
+ *
+ * @param entries The entries in the coordinate system of the format
+ * @param cst The transformation of the coordinate system, the beginning of the path is the referenced path
+ * @returns The poses in the field coordinate system
+ */
+export function toOdometryLogPoints(
+  entries: OdometryLogEntry[],
+  cst: CoordinateSystemTransformation
+): OdometryLogPoint[] {
+  const poses = entries.map(entry => cst.inverseTransform({ x: entry.x, y: entry.y, heading: entry.heading }));
+
+  return entries.map((entry, index) => {
+    const isVelocityRecorded = entry.velocity !== undefined;
+    let velocity = entry.velocity;
+    if (velocity === undefined) {
+      // ALGO: Central difference, the velocity is in UOL per second
+      const prev = Math.max(index - 1, 0);
+      const next = Math.min(index + 1, entries.length - 1);
+      const dt = entries[next].timestamp - entries[prev].timestamp;
+      const distance = Math.hypot(poses[next].x - poses[prev].x, poses[next].y - poses[prev].y);
+      velocity = dt > 0 ? distance / dt : 0;
+    }
+
+    return { ...poses[index], timestamp: entry.timestamp, velocity, isVelocityRecorded };
+  });
+}
+
+/**
+ * ALGO: The cross-track error is the distance from the pose to the closest line between two adjacent points.
+ * The progress along the path never decreases, so a path crossing itself is matched in order.
+ *
+ * @param result The uniform points of the planned path
+ * @param log The poses in the field coordinate system
+ * @returns The match of each pose, or undefined if the path has no points
+ */
+export function matchOdometryLog(
+  result: UniformCalculationResult,
+  log: Coordinate[]
+): (OdometryLogMatch | undefined)[] {
+  const points = result.points;
+  if (points.length === 0) return log.map(() => undefined);
+
+  const getSegmentIndex = (pointIndex: number) => {
+    const boundary = result.segmentIndexes.find(b => b.from <= pointIndex && pointIndex < b.to);
+    return boundary?.index ?? Math.max(result.segmentIndexes.length - 1, 0);
+  };
+
+  let progress = 0;
+  return log.map(pose => {
+    let best = { pointIndex: progress, error: Infinity, line: progress };
+    for (let i = progress; i < points.length; i++) {
+      const a = points[i];
+      const b = points[Math.min(i + 1, points.length - 1)];
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const lengthSquared = dx * dx + dy * dy;
+      const t = lengthSquared === 0 ? 0 : clamp(((pose.x - a.x) * dx + (pose.y - a.y) * dy) / lengthSquared, 0, 1);
+      const error = Math.hypot(pose.x - (a.x + dx * t), pose.y - (a.y + dy * t));
+      if (error < best.error) {
+        best = { pointIndex: t < 0.5 ? i : Math.min(i + 1, points.length - 1), error, line: i };
+      }
+    }
+
+    progress = best.line;
+    return { pointIndex: best.pointIndex, segmentIndex: getSegmentIndex(best.pointIndex), error: best.error };
+  });
+}
+
+/**
+ * @param segmentCount The number of segments in the path
+ * @param matches The matches of the poses
+ * @returns The statistics of each segment, including the segments without any matched pose
+ */
+export function getCrossTrackErrorStatistics(
+  segmentCount: number,
+  matches: (OdometryLogMatch | undefined)[]
+): CrossTrackErrorStatistics[] {
+  const rtn: CrossTrackErrorStatistics[] = [];
+  for (let segmentIndex = 0; segmentIndex < segmentCount; segmentIndex++) {
+    rtn.push({ segmentIndex, count: 0, mean: 0, rms: 0, max: 0 });
+  }
+
+  for (const match of matches) {
+    if (match === undefined) continue;
+
+    const stat = rtn[match.segmentIndex];
+    if (stat === undefined) continue;
+
+    stat.count++;
+    stat.mean += match.error;
+    stat.rms += match.error ** 2;
+    stat.max = Math.max(stat.max, match.error);
+  }
+
+  for (const stat of rtn) {
+    if (stat.count === 0) continue;
+    stat.mean /= stat.count;
+    stat.rms = Math.sqrt(stat.rms / stat.count);
+  }
+
+  return rtn;
+}
+
+// observable class
+export class OdometryLog {
+  private _name: string | undefined = undefined;
+  private _entries: OdometryLogEntry[] = [];
+  private _path: Path | undefined = undefined;
+
+  isVisible: boolean = true;
+
+  constructor() {
+    makeAutoObservable<OdometryLog, "_entries" | "_path">(this, {
+      _entries: observable.ref,
+      _path: observable.ref
+    });
+  }
+
+  load(name: string, entries: OdometryLogEntry[], path: Path | undefined) {
+    this._name = name;
+    this._entries = entries;
+    this._path = path;
+    this.isVisible = true;
+  }
+
+  clear() {
+    this._name = undefined;
+    this._entries = [];
+    this._path = undefined;
+  }
+
+  get name(): string | undefined {
+    return this._name;
+  }
+
+  get entries(): OdometryLogEntry[] {
+    return this._entries;
+  }
+
+  get isLoaded(): boolean {
+    return this._name !== undefined;
+  }
+
+  /**
+   * @returns the planned path to compare with, or undefined if the path is removed
+   */
+  get path(): Path | undefined {
+    const { app } = getAppStores();
+    return this._path !== undefined && app.paths.includes(this._path) ? this._path : undefined;
+  }
+
+  set path(path: Path | undefined) {
+    this._path = path;
+  }
+
+  /**
+   * @returns the poses in the field coordinate system, the coordinate system is relative to the planned path if needed
+   */
+  get points(): OdometryLogPoint[] {
+    const { app } = getAppStores();
+
+    const beginning = this.path?.segments[0]?.first ?? { x: 0, y: 0, heading: 0 };
+    const cst = new CoordinateSystemTransformation(app.coordinateSystem, app.fieldDimension, beginning);
+    return toOdometryLogPoints(this._entries, cst);
+  }
+
+  get matches(): (OdometryLogMatch | undefined)[] {
+    const path = this.path;
+    if (path === undefined) return [];
+
+    return matchOdometryLog(path.cachedResult, this.points);
+  }
+
+  get statistics(): CrossTrackErrorStatistics[] {
+    const path = this.path;
+    if (path === undefined) return [];
+
+    return getCrossTrackErrorStatistics(path.segments.length, this.matches);
+  }
+}
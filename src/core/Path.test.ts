@@ -10,7 +10,9 @@ import {
   Vector,
   createStructureMemento,
   applyStructureMemento,
-  LookaheadKeyframe
+  LookaheadKeyframe,
+  HeadingKeyframe,
+  EventMarker
 } from "./Path";
 import { CustomPathConfig } from "../format/Config.test";
 import { validate } from "class-validator";
@@ -176,6 +178,56 @@ test("validate LookaheadKeyframe", async () => {
   expect(await validate(k)).toHaveLength(3);
 });
 
+test("validate HeadingKeyframe", async () => {
+  const k = new HeadingKeyframe(0.123, 450);
+
+  expect(k.uid).toHaveLength(10);
+  expect(k.xPos).toBe(0.123);
+  expect(k.yPos).toBe(0.25);
+  expect(k.heading).toBe(90);
+
+  expect(await validate(k)).toHaveLength(0);
+
+  const p = instanceToPlain(k);
+  const k2 = plainToClass(HeadingKeyframe, p, { excludeExtraneousValues: true, exposeDefaultValues: true });
+
+  expect(await validate(k2)).toHaveLength(0);
+  expect(k2).toStrictEqual(k);
+
+  (k as any).uid = "123456789-";
+  expect(await validate(k)).toHaveLength(1);
+
+  (k as any).uid = "";
+  (k as any).xPos = 1;
+  (k as any).yPos = 1.1;
+  expect(await validate(k)).toHaveLength(3);
+});
+
+test("validate EventMarker", async () => {
+  const k = new EventMarker(0.123, "Intake On");
+
+  expect(k.uid).toHaveLength(10);
+  expect(k.xPos).toBe(0.123);
+  expect(k.yPos).toBe(0);
+  expect(k.name).toBe("Intake On");
+
+  expect(await validate(k)).toHaveLength(0);
+
+  const p = instanceToPlain(k);
+  const k2 = plainToClass(EventMarker, p, { excludeExtraneousValues: true, exposeDefaultValues: true });
+
+  expect(await validate(k2)).toHaveLength(0);
+  expect(k2).toStrictEqual(k);
+
+  (k as any).uid = "123456789-";
+  expect(await validate(k)).toHaveLength(1);
+
+  (k as any).uid = "";
+  (k as any).xPos = 1;
+  (k as any).name = "";
+  expect(await validate(k)).toHaveLength(3);
+});
+
 test("validate Segment", async () => {
   const controls: [EndControl, Control, Control, EndControl] = [
     new EndControl(0, 1, 2),
@@ -191,6 +243,8 @@ test("validate Segment", async () => {
   expect(s.last).toStrictEqual(controls[3]);
   expect(s.speed).toHaveLength(0);
   expect(s.lookahead).toHaveLength(0);
+  expect(s.heading).toHaveLength(0);
+  expect(s.marker).toHaveLength(0);
 
   expect(await validate(s)).toHaveLength(0);
 
@@ -210,7 +264,9 @@ test("validate Segment", async () => {
   (s as any).controls = controls[0];
   (s as any).speed_ = new SpeedKeyframe(0, 0);
   (s as any).lookahead_ = new LookaheadKeyframe(0, 0);
-  expect(await validate(s)).toHaveLength(4);
+  (s as any).heading_ = new HeadingKeyframe(0, 0);
+  (s as any).marker_ = new EventMarker(0, "Marker");
+  expect(await validate(s)).toHaveLength(6);
 });
 
 test("validate Path", async () => {
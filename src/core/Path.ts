@@ -5,6 +5,7 @@ import {
   IsBoolean,
   IsNumber,
   IsObject,
+  IsString,
   Matches,
   MinLength,
   ValidateNested,
@@ -16,7 +17,7 @@ import { observable, makeAutoObservable, makeObservable, computed } from "mobx";
 import { ValidateNumber, makeId } from "./Util";
 import { PathConfig } from "../format/Config";
 import { InteractiveEntity, CanvasEntity, InteractiveEntityParent } from "./Canvas";
-import { PointCalculationResult, boundHeading } from "./Calculation";
+import { PointCalculationResult, boundHeading, toDerivativeHeading } from "./Calculation";
 import { Coordinate, CoordinateWithHeading } from "./Coordinate";
 
 // Not observable
@@ -162,6 +163,7 @@ export class SamplePoint extends Vector {
 export class Point extends Vector {
   public isLast: boolean = false;
   public bentRate: number = 0;
+  public holonomicHeading: number | undefined = undefined; // The heading of a holonomic robot, interpolated by heading keyframes
 
   // ALGO: It is possible that the heading is defined and isLast is true but sampleT is not 1.
 
@@ -389,6 +391,57 @@ export class LookaheadKeyframe extends Keyframe implements CanvasEntity {
   }
 }
 
+// observable class
+export class HeadingKeyframe extends Keyframe implements CanvasEntity {
+  constructor(
+    xPos: number, // [0...1)
+    heading: number // [0...360)
+  ) {
+    // ALGO: The y position is the heading divided by 360
+    super(xPos, boundHeading(heading) / 360);
+    makeObservable(this, {});
+  }
+
+  get heading(): number {
+    return boundHeading(this.yPos * 360);
+  }
+
+  process(pc: PathConfig, responsible: Point[], nextFrame?: HeadingKeyframe): void {
+    const from = this.heading;
+    // ALGO: Turn in the direction with the smallest angle
+    const delta = nextFrame ? toDerivativeHeading(from, nextFrame.heading) : 0;
+
+    const length = responsible.length;
+    for (let i = 0; i < length; i++) {
+      responsible[i].holonomicHeading = boundHeading(from + (delta * i) / length); // length - 1 + 1
+    }
+  }
+}
+
+// observable class
+export class EventMarker extends Keyframe implements CanvasEntity {
+  @IsString()
+  @MinLength(1)
+  @Expose()
+  public name: string;
+
+  constructor(
+    xPos: number, // [0...1)
+    name: string
+  ) {
+    // ALGO: The y position is not used by event markers
+    super(xPos, 0);
+    this.name = name;
+    makeObservable(this, {
+      name: observable
+    });
+  }
+
+  process(pc: PathConfig, responsible: Point[], nextFrame?: EventMarker): void {
+    // ALGO: Event markers do not affect the points
+  }
+}
+
 export class KeyframeList<T extends Keyframe> {
   constructor(private readonly listGetter: () => T[], public readonly accept: new (...args: any) => T) {}
 
@@ -444,8 +497,13 @@ export type LinearSegmentControls = [EndControl, EndControl];
 export type CubicSegmentControls = [EndControl, Control, Control, EndControl];
 export type SegmentControls = LinearSegmentControls | CubicSegmentControls;
 
-export type SegmentKeyframeKey = "speed" | "lookahead";
-export type SegmentKeyframeKeyMap = { speed: SpeedKeyframe; lookahead: LookaheadKeyframe };
+export type SegmentKeyframeKey = "speed" | "lookahead" | "heading" | "marker";
+export type SegmentKeyframeKeyMap = {
+  speed: SpeedKeyframe;
+  lookahead: LookaheadKeyframe;
+  heading: HeadingKeyframe;
+  marker: EventMarker;
+};
 
 // observable class
 export class Segment implements CanvasEntity {
@@ -478,6 +536,20 @@ export class Segment implements CanvasEntity {
   private lookahead_: LookaheadKeyframe[] = [];
   @Exclude()
   public lookahead = new KeyframeList(() => this.lookahead_, LookaheadKeyframe); // XXX: Do not rename it to "lookaheadKeyframes"
+  @ValidateNested()
+  @IsArray()
+  @Expose({ name: "headingKeyframes" }) // XXX: Do not rename it to "heading"
+  @Type(() => HeadingKeyframe)
+  private heading_: HeadingKeyframe[] = [];
+  @Exclude()
+  public heading = new KeyframeList(() => this.heading_, HeadingKeyframe); // XXX: Do not rename it to "headingKeyframes"
+  @ValidateNested()
+  @IsArray()
+  @Expose({ name: "eventMarkers" }) // XXX: Do not rename it to "marker"
+  @Type(() => EventMarker)
+  private marker_: EventMarker[] = [];
+  @Exclude()
+  public marker = new KeyframeList(() => this.marker_, EventMarker); // XXX: Do not rename it to "eventMarkers"
   @Matches(/^[a-zA-Z0-9]+$/)
   @MinLength(10)
   @Expose()
@@ -0,0 +1,151 @@
+import { computed, makeAutoObservable, observable } from "mobx";
+import { getAppStores } from "./MainApp";
+import { Path, Vector } from "./Path";
+import {
+  TrajectoryCalculationResult,
+  TrajectoryState,
+  getPathTrajectory,
+  getTrajectoryStateAt,
+  getTrajectoryStateIndexAt
+} from "./Trajectory";
+import { UnitOfLength } from "./Unit";
+import { clamp } from "./Util";
+
+export const PLAYBACK_SPEED_MULTIPLIERS = [0.25, 0.5, 1, 2, 4];
+
+// observable class
+export class Playback {
+  private _path: Path | undefined = undefined;
+  private _time: number = 0;
+  private _isPlaying: boolean = false;
+  private lastTimestamp: number | undefined = undefined;
+  private requestId: number | undefined = undefined;
+
+  speedMultiplier: number = 1;
+
+  constructor() {
+    // ALGO: The trajectory is read in the animation frame callback outside reactions, it is kept alive to avoid
+    // recalculating it in every frame
+    makeAutoObservable<Playback, "_path" | "lastTimestamp" | "requestId">(this, {
+      _path: observable.ref,
+      lastTimestamp: false,
+      requestId: false,
+      trajectory: computed({ keepAlive: true })
+    });
+  }
+
+  private tick(timestamp: number) {
+    if (this._isPlaying === false) return;
+
+    const elapsed = this.lastTimestamp === undefined ? 0 : (timestamp - this.lastTimestamp) / 1000;
+    this.lastTimestamp = timestamp;
+
+    const duration = this.duration;
+    this._time = Math.min(this._time + elapsed * this.speedMultiplier, duration);
+    this.updateRobot();
+
+    if (this._time >= duration) {
+      this.pause();
+    } else {
+      this.requestId = requestAnimationFrame(timestamp => this.tick(timestamp));
+    }
+  }
+
+  private updateRobot() {
+    const state = this.state;
+    if (state === undefined) return;
+
+    getAppStores().app.fieldEditor.showRobotAt(state.point, new Vector(state.x, state.y));
+  }
+
+  play() {
+    if (this.duration === 0) return;
+
+    // UX: Start over if the playback is finished
+    if (this._time >= this.duration) this._time = 0;
+
+    this._isPlaying = true;
+    this.lastTimestamp = undefined;
+    this.requestId = requestAnimationFrame(timestamp => this.tick(timestamp));
+  }
+
+  pause() {
+    this._isPlaying = false;
+    if (this.requestId !== undefined) cancelAnimationFrame(this.requestId);
+    this.requestId = undefined;
+  }
+
+  toggle() {
+    if (this._isPlaying) this.pause();
+    else this.play();
+  }
+
+  seek(time: number) {
+    this._time = clamp(time, 0, this.duration);
+    this.updateRobot();
+  }
+
+  reset() {
+    this.pause();
+    this._time = 0;
+  }
+
+  get path(): Path | undefined {
+    return this._path;
+  }
+
+  set path(path: Path | undefined) {
+    if (this._path === path) return;
+
+    // UX: Start over if the interested path is changed
+    this.reset();
+    this._path = path;
+  }
+
+  get isPlaying(): boolean {
+    return this._isPlaying;
+  }
+
+  /**
+   * @returns true if the playback is playing or paused in the middle
+   */
+  get isActive(): boolean {
+    return this._isPlaying || this._time !== 0;
+  }
+
+  get time(): number {
+    return this._time;
+  }
+
+  get trajectory(): TrajectoryCalculationResult | undefined {
+    if (this._path === undefined) return undefined;
+
+    const { appPreferences } = getAppStores();
+    return getPathTrajectory(this._path, {
+      uol: UnitOfLength.Meter,
+      maxVelocity: appPreferences.playbackMaxVelocity,
+      maxAcceleration: appPreferences.playbackMaxAcceleration
+    });
+  }
+
+  get duration(): number {
+    return this.trajectory?.duration ?? 0;
+  }
+
+  get state(): TrajectoryState | undefined {
+    const trajectory = this.trajectory;
+    if (trajectory === undefined) return undefined;
+
+    return getTrajectoryStateAt(trajectory, this._time);
+  }
+
+  /**
+   * @returns the index of the point at the current time, or -1 if there is no trajectory
+   */
+  get pointIndex(): number {
+    const trajectory = this.trajectory;
+    if (trajectory === undefined) return -1;
+
+    return getTrajectoryStateIndexAt(trajectory, this._time);
+  }
+}
@@ -1,6 +1,8 @@
 import { makeAutoObservable, intercept } from "mobx";
 import { AppThemeType } from "@app/Theme";
 import { LayoutType } from "./Layout";
+import { NamedCoordinateSystem } from "./CoordinateSystem";
+import { UnitOfLength } from "./Unit";
 
 export class Preferences {
   private disposers: (() => void)[] = []; // intercept() disposer
@@ -12,6 +14,16 @@ export class Preferences {
   public themeType: AppThemeType = AppThemeType.Dark;
   public layoutType: LayoutType = LayoutType.Classic;
   public lastSelectedFormat: string = "path.jerryio v0.1.x (cm, rpm)";
+  public playbackMaxVelocity: number = 1.5; // m/s
+  public playbackMaxAcceleration: number = 3; // m/s^2
+  public curveFittingTolerance: number = 5; // mm
+  public autosaveInterval: number = 60; // seconds, 0 = disabled
+  public maxAutosaveSnapshots: number = 10;
+  public autosaveRetentionDays: number = 7;
+  public customCoordinateSystems: NamedCoordinateSystem[] = []; // ALGO: Replace the array to save the changes
+  public isGridVisible: boolean = false;
+  public gridSpacing: number = 1; // in gridSpacingUnit
+  public gridSpacingUnit: UnitOfLength = UnitOfLength.Tile;
 
   // Not in local storage
   public isSpeedCanvasVisible: boolean = true; // In classic layout only
@@ -49,7 +61,17 @@ export class Preferences {
       this.link("isExperimentalFeaturesEnabled", "experimentalFeaturesEnabled"),
       this.link("themeType", "theme"),
       this.link("layoutType", "layout"),
-      this.link("lastSelectedFormat", "lastSelectedFormat")
+      this.link("lastSelectedFormat", "lastSelectedFormat"),
+      this.link("playbackMaxVelocity", "playbackMaxVelocity"),
+      this.link("playbackMaxAcceleration", "playbackMaxAcceleration"),
+      this.link("curveFittingTolerance", "curveFittingTolerance"),
+      this.link("autosaveInterval", "autosaveInterval"),
+      this.link("maxAutosaveSnapshots", "maxAutosaveSnapshots"),
+      this.link("autosaveRetentionDays", "autosaveRetentionDays"),
+      this.link("customCoordinateSystems", "customCoordinateSystems"),
+      this.link("isGridVisible", "gridVisible"),
+      this.link("gridSpacing", "gridSpacing"),
+      this.link("gridSpacingUnit", "gridSpacingUnit")
     ];
   }
 }
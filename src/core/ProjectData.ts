@@ -0,0 +1,133 @@
+import { plainToClassFromExist, instanceToPlain } from "class-transformer";
+import { validate } from "class-validator";
+import { Format, convertPathFileData, getAllFormats } from "../format/Format";
+import { APP_VERSION } from "./MainApp";
+import { Path } from "./Path";
+import { DEFAULT_ROUTINE_NAME, Routine } from "./Routine";
+import { Logger } from "./Logger";
+import { FormulaVariable, parseFormulaVariables } from "./Formula";
+import { Constraint, parseConstraints } from "./Constraint";
+
+const logger = Logger("Project");
+
+/**
+ * A project loaded from the path file data, the general config is stored in the format
+ */
+export interface LoadedProject {
+  format: Format;
+  routines: Routine[];
+  activeRoutineIndex: number;
+  variables: FormulaVariable[];
+  constraints: Constraint[];
+}
+
+/**
+ * SECURITY: The input data might be invalid and contain malicious code.
+ * The names of the routines and paths are not sanitized.
+ *
+ * @throws Error if the data is invalid or the format is not found
+ * @param data the path file data, it is converted to the app version in place
+ * @param formats the formats to look up the format of the data
+ * @returns the loaded project
+ */
+export async function loadPDJData(
+  data: Record<string, any>,
+  formats: Format[] = getAllFormats()
+): Promise<LoadedProject> {
+  // ALGO: Convert the path file to the app version
+  while (data.appVersion !== APP_VERSION.version) {
+    if (convertPathFileData(data) === false) throw new Error("Unable to open the path file. Try updating the app.");
+  }
+
+  const format = formats.find(f => f.getName() === data.format);
+  if (format === undefined) throw new Error("Format not found.");
+
+  if (data.gc?.fieldImage?.origin) format.getGeneralConfig().fieldImage.origin = undefined as any; // ALGO: Remove default origin
+
+  const gc = plainToClassFromExist(format.getGeneralConfig(), data.gc, {
+    excludeExtraneousValues: true,
+    exposeDefaultValues: true
+  });
+  const createPaths = (pathsRaw: any[]): Path[] => {
+    if (!Array.isArray(pathsRaw)) throw new Error("Unable to open the path file. The paths are missing.");
+
+    return pathsRaw.map(pathRaw => {
+      const path = format.createPath();
+      const pathPC = path.pc;
+      plainToClassFromExist(path, pathRaw, { excludeExtraneousValues: true, exposeDefaultValues: true });
+      path.pc = plainToClassFromExist(pathPC, pathRaw.pc, { exposeDefaultValues: true });
+
+      // ALGO: Link the first vector of each segment to the last vector of the previous segment
+      for (let j = 1; j < path.segments.length; j++) {
+        path.segments[j].first = path.segments[j - 1].last;
+      }
+
+      return path;
+    });
+  };
+
+  // ALGO: The paths of the active routine are stored in "paths" for compatibility, other routines are in "routines"
+  const routines: Routine[] = [];
+  let activeRoutineIndex = 0;
+  if (Array.isArray(data.routines) && data.routines.length > 0) {
+    activeRoutineIndex = Number.isInteger(data.activeRoutine) ? data.activeRoutine : 0;
+    if (activeRoutineIndex < 0 || activeRoutineIndex >= data.routines.length) activeRoutineIndex = 0;
+
+    data.routines.forEach((routineRaw: any, idx: number) => {
+      if (typeof routineRaw?.name !== "string") throw new Error("Unable to open the path file. Invalid routine.");
+      const pathsRaw = idx === activeRoutineIndex ? data.paths : routineRaw.paths;
+      routines.push(new Routine(routineRaw.name, createPaths(pathsRaw)));
+    });
+  } else {
+    routines.push(new Routine(DEFAULT_ROUTINE_NAME, createPaths(data.paths)));
+  }
+  const paths = routines.flatMap(routine => routine.paths);
+
+  const variables = parseFormulaVariables(data.variables);
+  const constraints = parseConstraints(data.constraints);
+
+  const errors = [...(await validate(gc)), ...(await Promise.all(paths.map(path => validate(path)))).flat()];
+  if (errors.length > 0) {
+    errors.forEach(e => logger.error("Validation errors", e.constraints, `in ${e.property}`, e));
+    throw new Error("Unable to open the path file due to validation errors.");
+  }
+
+  return { format, routines, activeRoutineIndex, variables, constraints };
+}
+
+/**
+ * @param format the format of the project
+ * @param routines the routines of the project
+ * @param activeRoutine the active routine
+ * @param variables the variables of the project
+ * @param constraints the constraints of the project
+ * @returns the path file data
+ */
+export function createPDJData(
+  format: Format,
+  routines: readonly Routine[],
+  activeRoutine: Routine,
+  variables: readonly FormulaVariable[] = [],
+  constraints: readonly Constraint[] = []
+): Record<string, any> {
+  const data: Record<string, any> = {
+    appVersion: APP_VERSION.version,
+    format: format.getName(),
+    ...instanceToPlain({ gc: format.getGeneralConfig(), paths: activeRoutine.paths })
+  };
+
+  // ALGO: Single routine projects are stored in the same way as before
+  if (routines.length > 1 || activeRoutine.name !== DEFAULT_ROUTINE_NAME) {
+    data.routines = routines.map(routine =>
+      routine === activeRoutine
+        ? { name: routine.name }
+        : { name: routine.name, ...instanceToPlain({ paths: routine.paths }) }
+    );
+    data.activeRoutine = routines.indexOf(activeRoutine);
+  }
+
+  if (variables.length > 0) data.variables = variables.map(({ name, value }) => ({ name, value }));
+  if (constraints.length > 0) data.constraints = constraints.map(constraint => ({ ...constraint }));
+
+  return data;
+}
@@ -0,0 +1,74 @@
+import { getAppStores } from "./MainApp";
+import { AddRoutine, RemoveRoutine, UpdateProperties } from "./Command";
+import { DEFAULT_ROUTINE_NAME, Routine, getRoutineFileName } from "./Routine";
+import { EndControl, Path, Segment } from "./Path";
+
+test("dummy", () => {
+  getAppStores(); // suppress constructor error
+});
+
+test("getRoutineFileName", () => {
+  expect(getRoutineFileName("path.jerryio.txt", "Skills")).toBe("path.jerryio-Skills.txt");
+  expect(getRoutineFileName("auton", "Left Match")).toBe("auton-Left Match");
+  expect(getRoutineFileName(".txt", "Skills")).toBe(".txt-Skills");
+  expect(getRoutineFileName("path.txt", "../a/b")).toBe("path-___a_b.txt");
+  expect(getRoutineFileName("path.txt", "  ")).toBe("path.txt");
+});
+
+test("AddRoutine and RemoveRoutine", () => {
+  const main = new Routine();
+  const container = { routines: [main], routine: main };
+
+  const skills = new Routine("Skills");
+  const add = new AddRoutine(container, skills);
+  add.execute();
+  expect(container.routines).toEqual([main, skills]);
+  expect(container.routine).toBe(skills);
+
+  add.undo();
+  expect(container.routines).toEqual([main]);
+  expect(container.routine).toBe(main);
+
+  add.redo();
+  const remove = new RemoveRoutine(container, skills);
+  expect(remove.execute()).toBe(true);
+  expect(container.routines).toEqual([main]);
+  expect(container.routine).toBe(main);
+
+  remove.undo();
+  expect(container.routines).toEqual([main, skills]);
+  expect(container.routine).toBe(skills);
+
+  // ALGO: A project has at least one routine
+  expect(new RemoveRoutine({ routines: [main], routine: main }, main).execute()).toBe(false);
+});
+
+test("Export and import routines", async () => {
+  const { app } = getAppStores();
+  app.newFile();
+
+  const path = app.format.createPath(new Segment(new EndControl(0, 0, 0), new EndControl(10, 0, 0)));
+  app.history.execute("Add routine", new AddRoutine(app, new Routine("Skills", [path])));
+  expect(app.paths).toEqual([path]);
+
+  app.history.execute("Switch routine", new UpdateProperties(app, { routine: app.routines[0] }));
+  expect(app.paths).toEqual([]);
+
+  const data = app.exportPDJData();
+  expect(data.paths).toEqual([]);
+  expect(data.activeRoutine).toBe(0);
+  expect(data.routines).toHaveLength(2);
+  expect(data.routines[0]).toEqual({ name: DEFAULT_ROUTINE_NAME });
+  expect(data.routines[1].name).toBe("Skills");
+  expect(data.routines[1].paths).toHaveLength(1);
+
+  await app.importPDJData(JSON.parse(JSON.stringify(data)));
+  expect(app.routines.map(routine => routine.name)).toEqual([DEFAULT_ROUTINE_NAME, "Skills"]);
+  expect(app.routine).toBe(app.routines[0]);
+  expect(app.routines[1].paths[0].segments).toHaveLength(1);
+  expect(app.routines[1].paths[0]).toBeInstanceOf(Path);
+
+  // ALGO: Single routine projects are stored in the same way as before
+  app.newFile();
+  expect(app.exportPDJData().routines).toBeUndefined();
+});
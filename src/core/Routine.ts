@@ -0,0 +1,40 @@
+import { makeAutoObservable } from "mobx";
+import { Path } from "./Path";
+import { makeId } from "./Util";
+
+export const DEFAULT_ROUTINE_NAME = "Main";
+
+/**
+ * A named set of paths in a project, e.g. a skills run or a match autonomous routine.
+ * All routines in a project share the same format and general config, e.g. robot dimensions and field image.
+ */
+export class Routine {
+  readonly uid: string = makeId(10);
+
+  constructor(public name: string = DEFAULT_ROUTINE_NAME, public paths: Path[] = []) {
+    makeAutoObservable(this);
+  }
+}
+
+/**
+ * The object holding the routines of a project and the active routine, i.e. MainApp
+ */
+export interface RoutineContainer {
+  routines: Routine[];
+  routine: Routine;
+}
+
+/**
+ * @param fileName The file name of the project, e.g. "path.jerryio.txt"
+ * @param routineName The name of the routine
+ * @returns The file name of the output of the routine, e.g. "path.jerryio-Skills.txt"
+ */
+export function getRoutineFileName(fileName: string, routineName: string): string {
+  // SECURITY: The routine name is not safe, characters that are not allowed in file names are replaced
+  const suffix = routineName.replace(/[^\w\- ]/g, "_").trim();
+  if (suffix === "") return fileName;
+
+  const dot = fileName.lastIndexOf(".");
+  if (dot <= 0) return `${fileName}-${suffix}`;
+  return `${fileName.substring(0, dot)}-${suffix}${fileName.substring(dot)}`;
+}
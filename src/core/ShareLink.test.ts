@@ -0,0 +1,28 @@
+import { compressToEncodedURIComponent } from "lz-string";
+import { decodeShareLinkFragment, encodeShareLink, isShareLinkFragment } from "./ShareLink";
+
+test("encodeShareLink and decodeShareLinkFragment", () => {
+  const data = { appVersion: "0.8.3", format: "path.jerryio v0.1.x (cm, rpm)", gc: {}, paths: [{ name: "Path 1" }] };
+
+  const link = encodeShareLink(data, "https://path.jerryio.com/#share=old");
+  expect(link.startsWith("https://path.jerryio.com/#share=")).toBe(true);
+  expect(link.split("#")).toHaveLength(2);
+
+  const hash = link.substring(link.indexOf("#"));
+  expect(isShareLinkFragment(hash)).toBe(true);
+  expect(decodeShareLinkFragment(hash)).toEqual(data);
+});
+
+test("decodeShareLinkFragment with invalid fragment", () => {
+  expect(isShareLinkFragment("")).toBe(false);
+  expect(isShareLinkFragment("#other")).toBe(false);
+
+  expect(() => decodeShareLinkFragment("#other")).toThrowError("The link does not contain a shared project");
+  expect(() => decodeShareLinkFragment("#share=")).toThrowError("The shared link is broken or incomplete");
+  expect(() => decodeShareLinkFragment("#share=" + compressToEncodedURIComponent("not a json"))).toThrowError(
+    "The shared link is broken or incomplete"
+  );
+  expect(() => decodeShareLinkFragment("#share=" + compressToEncodedURIComponent("[1, 2]"))).toThrowError(
+    "The shared link does not contain a valid project"
+  );
+});
@@ -0,0 +1,47 @@
+import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from "lz-string";
+
+const FRAGMENT_PREFIX = "#share=";
+
+/**
+ * @param data The path file data
+ * @param baseUrl The URL of the app, the existing fragment is removed
+ * @returns The link with the compressed path file data in the fragment
+ */
+export function encodeShareLink(data: Record<string, any>, baseUrl: string): string {
+  const url = baseUrl.split("#")[0];
+  return url + FRAGMENT_PREFIX + compressToEncodedURIComponent(JSON.stringify(data));
+}
+
+/**
+ * @param hash The fragment of the URL, including the leading "#"
+ * @returns true if the fragment contains a shared project
+ */
+export function isShareLinkFragment(hash: string): boolean {
+  return hash.startsWith(FRAGMENT_PREFIX);
+}
+
+/**
+ * SECURITY: The fragment is not safe, the decoded data must be validated by the importer before use
+ *
+ * @throws Error if the fragment is not a valid share link
+ * @param hash The fragment of the URL, including the leading "#"
+ * @returns The path file data
+ */
+export function decodeShareLinkFragment(hash: string): Record<string, any> {
+  if (!isShareLinkFragment(hash)) throw new Error("The link does not contain a shared project");
+
+  const json = decompressFromEncodedURIComponent(hash.substring(FRAGMENT_PREFIX.length));
+  if (!json) throw new Error("The shared link is broken or incomplete");
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error("The shared link is broken or incomplete");
+  }
+
+  if (typeof data !== "object" || data === null || Array.isArray(data))
+    throw new Error("The shared link does not contain a valid project");
+
+  return data as Record<string, any>;
+}
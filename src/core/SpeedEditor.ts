@@ -1,11 +1,17 @@
 import { makeAutoObservable, action } from "mobx";
 import { GraphCanvasConverter } from "./Canvas";
-import { SpeedKeyframe, KeyframePos, Path } from "./Path";
+import { SpeedKeyframe, KeyframePos, Path, HeadingKeyframe } from "./Path";
 import { clamp } from "./Util";
 
+/**
+ * The keyframes shown on the graph, the speed graph is always available, the heading graph is only available for
+ * holonomic robots
+ */
+export type GraphType = "speed" | "heading";
+
 export type KeyframeInteraction =
   | {
-      keyframe: SpeedKeyframe;
+      keyframe: SpeedKeyframe | HeadingKeyframe;
       type: "touch" | "drag/hover";
     }
   | {
@@ -18,6 +24,7 @@ export class SpeedEditor {
   private _interaction: KeyframeInteraction | undefined = undefined;
   private _lastInteraction: KeyframeInteraction | undefined = undefined;
   isAddingKeyframe: boolean = false;
+  graph: GraphType = "speed";
   tooltipPosition: KeyframePos | undefined = undefined;
 
   path: Path | undefined = undefined;
@@ -58,7 +65,7 @@ export class SpeedEditor {
     this.tooltipPosition = undefined;
   }
 
-  interact(keyframe: SpeedKeyframe, type: "touch" | "drag/hover") {
+  interact(keyframe: SpeedKeyframe | HeadingKeyframe, type: "touch" | "drag/hover") {
     if (this._interaction !== undefined && this._interaction.keyframe !== keyframe) return false;
     this.interaction = { keyframe, type };
     return true;
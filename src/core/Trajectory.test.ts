@@ -0,0 +1,204 @@
+import { CustomPathConfig } from "../format/Config.test";
+import { getPathPoints } from "./Calculation";
+import { Control, EndControl, Path, Point, Segment } from "./Path";
+import {
+  backwardPass,
+  forwardPass,
+  getPointDistances,
+  getTrajectory,
+  getTrajectoryStateAt,
+  getTrajectoryStateIndexAt
+} from "./Trajectory";
+import { Quantity, UnitOfLength } from "./Unit";
+
+function makeStraightPoints(count: number, spacing: number): Point[] {
+  const segment = new Segment(new EndControl(0, 0, 0), new EndControl(0, (count - 1) * spacing, 0));
+  const rtn: Point[] = [];
+  for (let i = 0; i < count; i++) rtn.push(new Point(0, i * spacing, segment, i / (count - 1), 100));
+  return rtn;
+}
+
+test("getPointDistances", () => {
+  const points = makeStraightPoints(5, 2);
+
+  expect(getPointDistances(points)).toEqual([2, 2, 2, 2]);
+  expect(getPointDistances(points.slice(0, 1))).toEqual([]);
+  expect(getPointDistances([])).toEqual([]);
+});
+
+test("forwardPass", () => {
+  const velocities = [0, 100, 100, 100, 1];
+  const distances = [2, 2, 2, 2];
+
+  forwardPass(velocities, distances, { maxAcceleration: 1 });
+
+  expect(velocities[0]).toEqual(0);
+  expect(velocities[1]).toBeCloseTo(Math.sqrt(4));
+  expect(velocities[2]).toBeCloseTo(Math.sqrt(8));
+  expect(velocities[3]).toBeCloseTo(Math.sqrt(12));
+  expect(velocities[4]).toEqual(1);
+});
+
+test("backwardPass", () => {
+  const velocities = [100, 100, 100, 100, 0];
+  const distances = [2, 2, 2, 2];
+
+  backwardPass(velocities, distances, { maxAcceleration: 1 });
+
+  expect(velocities[0]).toBeCloseTo(Math.sqrt(16));
+  expect(velocities[1]).toBeCloseTo(Math.sqrt(12));
+  expect(velocities[2]).toBeCloseTo(Math.sqrt(8));
+  expect(velocities[3]).toBeCloseTo(Math.sqrt(4));
+  expect(velocities[4]).toEqual(0);
+});
+
+test("forwardPass with jerk limit", () => {
+  const distances = new Array(99).fill(0.5);
+
+  const unlimited = new Array(100).fill(100);
+  unlimited[0] = 0;
+  forwardPass(unlimited, distances, { maxAcceleration: 2 });
+
+  const limited = new Array(100).fill(100);
+  limited[0] = 0;
+  forwardPass(limited, distances, { maxAcceleration: 2, maxJerk: 1 });
+
+  // ALGO: From rest, d = j * t^3 / 6 and v = j * t^2 / 2
+  const t = Math.cbrt(6 * 0.5);
+  expect(limited[1]).toBeCloseTo(t ** 2 / 2);
+
+  for (let i = 1; i < 100; i++) {
+    expect(limited[i]).toBeLessThanOrEqual(unlimited[i] + 1e-9);
+    expect(limited[i]).toBeGreaterThan(limited[i - 1]);
+  }
+
+  // ALGO: The acceleration between any two points never exceeds the maximum acceleration
+  for (let i = 0; i < 99; i++) {
+    expect((limited[i + 1] ** 2 - limited[i] ** 2) / (2 * 0.5)).toBeLessThanOrEqual(2 + 1e-9);
+  }
+});
+
+test("getTrajectory with no points", () => {
+  const result = getTrajectory([], UnitOfLength.Inch, { uol: UnitOfLength.Inch, maxVelocity: 1, maxAcceleration: 1 });
+
+  expect(result.duration).toEqual(0);
+  expect(result.states).toEqual([]);
+});
+
+test("getTrajectory with trapezoidal profile", () => {
+  // 100 cm straight line, 1 cm apart
+  const points = makeStraightPoints(101, 1);
+
+  const result = getTrajectory(points, UnitOfLength.Centimeter, {
+    uol: UnitOfLength.Meter,
+    maxVelocity: 1,
+    maxAcceleration: 2
+  });
+
+  expect(result.states.length).toEqual(101);
+  expect(result.states[0].time).toEqual(0);
+  expect(result.states[0].velocity).toEqual(0);
+  expect(result.states[100].velocity).toEqual(0);
+
+  // ALGO: 25cm to accelerate to 100cm/s, 50cm cruise, 25cm to decelerate
+  expect(result.states[50].velocity).toBeCloseTo(100);
+  expect(result.states[25].velocity).toBeCloseTo(100);
+  expect(result.states[10].velocity).toBeCloseTo(Math.sqrt(2 * 200 * 10));
+  expect(result.states[90].velocity).toBeCloseTo(Math.sqrt(2 * 200 * 10));
+
+  // ALGO: 0.5s to accelerate, 0.5s to cruise, 0.5s to decelerate
+  expect(result.duration).toBeCloseTo(1.5);
+  expect(result.states[10].acceleration).toBeCloseTo(200);
+  expect(result.states[50].acceleration).toBeCloseTo(0);
+  expect(result.states[90].acceleration).toBeCloseTo(-200);
+
+  for (let i = 1; i < 101; i++) {
+    expect(result.states[i].time).toBeGreaterThan(result.states[i - 1].time);
+    expect(result.states[i].heading).toEqual(0);
+    expect(result.states[i].angularVelocity).toBeCloseTo(0);
+  }
+});
+
+test("getTrajectory with velocity limits and end velocity", () => {
+  const points = makeStraightPoints(11, 1);
+  const velocityLimits = [5, 5, 5, 5, 5, 1, 5, 5, 5, 5, 5];
+
+  const result = getTrajectory(
+    points,
+    UnitOfLength.Inch,
+    { uol: UnitOfLength.Inch, maxVelocity: 10, maxAcceleration: 1000, startVelocity: 2, endVelocity: 3 },
+    velocityLimits
+  );
+
+  expect(result.states[0].velocity).toEqual(2);
+  expect(result.states[5].velocity).toEqual(1);
+  expect(result.states[3].velocity).toEqual(5);
+  expect(result.states[10].velocity).toEqual(3);
+});
+
+test("getTrajectory with turning", () => {
+  const path = new Path(
+    new CustomPathConfig(),
+    new Segment(new EndControl(0, 0, 0), new Control(0, 60), new Control(60, 60), new EndControl(60, 0, 0))
+  );
+  const points = getPathPoints(path, new Quantity(2, UnitOfLength.Centimeter)).points;
+
+  const result = getTrajectory(points, UnitOfLength.Centimeter, {
+    uol: UnitOfLength.Centimeter,
+    maxVelocity: 100,
+    maxAcceleration: 100
+  });
+
+  expect(result.states.length).toEqual(points.length);
+  expect(result.states[0].heading).toBeCloseTo(0, -1);
+  expect(result.states[result.states.length - 2].heading).toBeCloseTo(180, -1);
+
+  // ALGO: The robot turns clockwise along the path
+  const middle = result.states[Math.floor(result.states.length / 2)];
+  expect(middle.angularVelocity).toBeGreaterThan(0);
+  expect(middle.heading).toBeGreaterThan(45);
+  expect(middle.heading).toBeLessThan(135);
+});
+
+test("getTrajectoryStateIndexAt", () => {
+  const points = makeStraightPoints(101, 1);
+  const result = getTrajectory(points, UnitOfLength.Centimeter, {
+    uol: UnitOfLength.Centimeter,
+    maxVelocity: 100,
+    maxAcceleration: 200
+  });
+
+  expect(getTrajectoryStateIndexAt({ duration: 0, states: [] }, 1)).toEqual(-1);
+  expect(getTrajectoryStateIndexAt(result, -1)).toEqual(0);
+  expect(getTrajectoryStateIndexAt(result, 0)).toEqual(0);
+  expect(getTrajectoryStateIndexAt(result, result.duration)).toEqual(100);
+  expect(getTrajectoryStateIndexAt(result, result.duration + 1)).toEqual(100);
+  for (let i = 0; i < 101; i++) {
+    expect(getTrajectoryStateIndexAt(result, result.states[i].time)).toEqual(i);
+  }
+});
+
+test("getTrajectoryStateAt", () => {
+  const points = makeStraightPoints(101, 1);
+  const result = getTrajectory(points, UnitOfLength.Centimeter, {
+    uol: UnitOfLength.Centimeter,
+    maxVelocity: 100,
+    maxAcceleration: 200
+  });
+
+  expect(getTrajectoryStateAt({ duration: 0, states: [] }, 1)).toBeUndefined();
+
+  const first = getTrajectoryStateAt(result, 0)!;
+  expect(first.y).toEqual(0);
+  expect(first.velocity).toEqual(0);
+
+  const last = getTrajectoryStateAt(result, result.duration + 1)!;
+  expect(last.y).toEqual(100);
+  expect(last.point).toBe(points[100]);
+
+  const middle = getTrajectoryStateAt(result, (result.states[50].time + result.states[51].time) / 2)!;
+  expect(middle.y).toBeCloseTo(50.5);
+  expect(middle.x).toEqual(0);
+  expect(middle.velocity).toBeCloseTo(100);
+  expect(middle.point).toBe(points[50]);
+});
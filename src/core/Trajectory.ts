@@ -0,0 +1,306 @@
+import { boundHeading, toDerivativeHeading, toHeading } from "./Calculation";
+import { Path, Point } from "./Path";
+import { UnitConverter, UnitOfLength } from "./Unit";
+
+/**
+ * Represents the kinematic limits used when limiting the velocities of a set of points in one direction.
+ */
+export interface MotionProfileLimits {
+  maxAcceleration: number; // The maximum acceleration, in unit of velocity squared per unit of length.
+  maxJerk?: number; // The maximum jerk, unlimited if undefined.
+}
+
+/**
+ * Represents the physical constraints of a trajectory.
+ *
+ * All values are expressed in the unit of length specified by `uol`, per second.
+ */
+export interface TrajectoryConstraints {
+  uol: UnitOfLength; // The unit of length of the constraints.
+  maxVelocity: number; // The maximum velocity, in uol/s.
+  maxAcceleration: number; // The maximum acceleration, in uol/s^2.
+  maxDeceleration?: number; // The maximum deceleration, in uol/s^2. Same as maxAcceleration if undefined.
+  maxJerk?: number; // The maximum jerk, in uol/s^3. Unlimited if undefined.
+  startVelocity?: number; // The velocity at the beginning of the trajectory, in uol/s. 0 if undefined.
+  endVelocity?: number; // The velocity at the end of the trajectory, in uol/s. 0 if undefined.
+}
+
+/**
+ * Represents the state of the robot at a specific time along a trajectory.
+ */
+export interface TrajectoryState {
+  time: number; // The time since the beginning of the trajectory, in seconds.
+  x: number; // The x position, in the unit of length of the path.
+  y: number; // The y position, in the unit of length of the path.
+  heading: number; // The heading of travel in degrees [0, 360).
+  velocity: number; // The linear velocity, in the unit of length of the path per second.
+  acceleration: number; // The linear acceleration, in the unit of length of the path per second squared.
+  angularVelocity: number; // The angular velocity, in degrees per second. Positive is clockwise.
+  point: Point; // The point this state is generated from.
+}
+
+/**
+ * Represents the result of time-parameterizing a set of points.
+ */
+export interface TrajectoryCalculationResult {
+  duration: number; // The total time of the trajectory, in seconds.
+  states: TrajectoryState[]; // The timestamped states, one for each point.
+}
+
+/**
+ * Calculates the distance between each pair of consecutive points.
+ *
+ * @param points The points to measure.
+ * @returns The distances, the i-th element is the distance between point i and point i + 1.
+ */
+export function getPointDistances(points: Point[]): number[] {
+  const rtn: number[] = [];
+  for (let i = 0; i < points.length - 1; i++) rtn.push(points[i].distance(points[i + 1]));
+  return rtn;
+}
+
+/**
+ * Calculates the highest velocity the robot can reach after traveling the given distance, with the acceleration
+ * ramping up at the maximum jerk until it reaches the maximum acceleration.
+ *
+ * @param v0 The initial velocity.
+ * @param a0 The initial acceleration.
+ * @param distance The distance to travel.
+ * @param maxAcceleration The maximum acceleration.
+ * @param maxJerk The maximum jerk.
+ * @returns The reachable velocity.
+ */
+function getJerkLimitedVelocity(
+  v0: number,
+  a0: number,
+  distance: number,
+  maxAcceleration: number,
+  maxJerk: number
+): number {
+  // ALGO: Ramp up from zero acceleration if the robot was decelerating, this keeps the distance function monotonic
+  a0 = Math.min(Math.max(a0, 0), maxAcceleration);
+
+  // ALGO: The time and distance needed to ramp the acceleration up to the maximum
+  const rampTime = (maxAcceleration - a0) / maxJerk;
+  const rampDistance = v0 * rampTime + (a0 * rampTime ** 2) / 2 + (maxJerk * rampTime ** 3) / 6;
+
+  if (distance <= rampDistance) {
+    // ALGO: Find the time to travel the distance with bisection, d(t) = v0 * t + a0 * t^2 / 2 + j * t^3 / 6
+    let low = 0;
+    let high = rampTime;
+    for (let i = 0; i < 50; i++) {
+      const t = (low + high) / 2;
+      const d = v0 * t + (a0 * t ** 2) / 2 + (maxJerk * t ** 3) / 6;
+      if (d < distance) low = t;
+      else high = t;
+    }
+    const t = (low + high) / 2;
+    return v0 + a0 * t + (maxJerk * t ** 2) / 2;
+  } else {
+    // ALGO: Accelerate at the maximum acceleration for the remaining distance
+    const rampVelocity = v0 + a0 * rampTime + (maxJerk * rampTime ** 2) / 2;
+    // v = sqrt(v_0^2 + 2ad)
+    return Math.sqrt(rampVelocity ** 2 + 2 * maxAcceleration * (distance - rampDistance));
+  }
+}
+
+/**
+ * Limits the velocities in place so that the robot never accelerates faster than the limits, from the first point to
+ * the last point.
+ *
+ * @param velocities The velocity of each point, modified in place.
+ * @param distances The distance between each pair of consecutive points, see `getPointDistances`.
+ * @param limits The limits to apply.
+ */
+export function forwardPass(velocities: number[], distances: number[], limits: MotionProfileLimits) {
+  const { maxAcceleration, maxJerk } = limits;
+  const isJerkLimited = maxJerk !== undefined && isFinite(maxJerk) && maxJerk > 0;
+
+  let acceleration = 0;
+  for (let i = 0; i < velocities.length - 1; i++) {
+    const v0 = velocities[i];
+    const distance = distances[i];
+
+    const reachable = isJerkLimited
+      ? getJerkLimitedVelocity(v0, acceleration, distance, maxAcceleration, maxJerk)
+      : // v = sqrt(v_0^2 + 2ad)
+        Math.sqrt(v0 ** 2 + 2 * maxAcceleration * distance);
+
+    velocities[i + 1] = Math.min(velocities[i + 1], reachable);
+
+    const v1 = velocities[i + 1];
+    // ALGO: Keep the last acceleration if the points are at the same position
+    if (distance !== 0) acceleration = (v1 ** 2 - v0 ** 2) / (2 * distance);
+  }
+}
+
+/**
+ * Limits the velocities in place so that the robot never decelerates faster than the limits, from the last point to
+ * the first point.
+ *
+ * @param velocities The velocity of each point, modified in place.
+ * @param distances The distance between each pair of consecutive points, see `getPointDistances`.
+ * @param limits The limits to apply, the maximum acceleration is used as the maximum deceleration.
+ */
+export function backwardPass(velocities: number[], distances: number[], limits: MotionProfileLimits) {
+  // ALGO: Decelerating forward is the same as accelerating backward
+  const reversedVelocities = velocities.slice().reverse();
+  forwardPass(reversedVelocities, distances.slice().reverse(), limits);
+
+  reversedVelocities.reverse().forEach((velocity, idx) => (velocities[idx] = velocity));
+}
+
+/**
+ * Time-parameterizes the given points with the given constraints.
+ *
+ * @param points The points to time-parameterize, usually from `getPathPoints`.
+ * @param uol The unit of length of the points.
+ * @param constraints The physical constraints of the robot.
+ * @param velocityLimits The optional velocity limit of each point, in uol/s.
+ * @returns The timestamped states, one for each point.
+ */
+export function getTrajectory(
+  points: Point[],
+  uol: UnitOfLength,
+  constraints: TrajectoryConstraints,
+  velocityLimits?: number[]
+): TrajectoryCalculationResult {
+  if (points.length === 0) return { duration: 0, states: [] };
+
+  const uc = new UnitConverter(constraints.uol, uol);
+  const maxVelocity = uc.fromAtoB(constraints.maxVelocity);
+  const maxAcceleration = uc.fromAtoB(constraints.maxAcceleration);
+  const maxDeceleration = uc.fromAtoB(constraints.maxDeceleration ?? constraints.maxAcceleration);
+  const maxJerk = constraints.maxJerk === undefined ? undefined : uc.fromAtoB(constraints.maxJerk);
+
+  const distances = getPointDistances(points);
+  const velocities = points.map((_, idx) => Math.max(0, Math.min(maxVelocity, velocityLimits?.[idx] ?? Infinity)));
+  velocities[0] = Math.min(velocities[0], uc.fromAtoB(constraints.startVelocity ?? 0));
+  velocities[velocities.length - 1] = Math.min(
+    velocities[velocities.length - 1],
+    uc.fromAtoB(constraints.endVelocity ?? 0)
+  );
+
+  forwardPass(velocities, distances, { maxAcceleration, maxJerk });
+  backwardPass(velocities, distances, { maxAcceleration: maxDeceleration, maxJerk });
+
+  // ALGO: The heading of travel at each point is the direction to the next point, the last point keeps the previous
+  const headings: number[] = [];
+  for (let i = 0; i < points.length; i++) {
+    if (i < distances.length && distances[i] !== 0) headings.push(toHeading(points[i + 1].subtract(points[i])));
+    else headings.push(headings[i - 1] ?? 0);
+  }
+
+  const states: TrajectoryState[] = [];
+  let time = 0;
+  for (let i = 0; i < points.length; i++) {
+    const point = points[i];
+    const v0 = velocities[i];
+    const state: TrajectoryState = {
+      time,
+      x: point.x,
+      y: point.y,
+      heading: headings[i],
+      velocity: v0,
+      acceleration: 0,
+      angularVelocity: 0,
+      point
+    };
+    states.push(state);
+
+    if (i === points.length - 1) break;
+
+    const distance = distances[i];
+    const v1 = velocities[i + 1];
+
+    let dt: number;
+    if (distance === 0) {
+      dt = 0;
+    } else if (v0 + v1 === 0) {
+      // ALGO: The robot has to travel the distance anyway, accelerate and then decelerate at the maximum rate
+      dt = 2 * Math.sqrt(distance / Math.max(maxAcceleration, Number.EPSILON));
+    } else {
+      // ALGO: Assume constant acceleration between two points, t = 2d / (v_0 + v)
+      dt = (2 * distance) / (v0 + v1);
+    }
+
+    if (distance !== 0) state.acceleration = (v1 ** 2 - v0 ** 2) / (2 * distance);
+    if (dt !== 0) state.angularVelocity = toDerivativeHeading(headings[i], headings[i + 1]) / dt;
+
+    time += dt;
+  }
+
+  return { duration: time, states };
+}
+
+/**
+ * Time-parameterizes the points of the given path with the given constraints.
+ *
+ * The speed of each point is treated as a fraction of the maximum speed of the path.
+ *
+ * @param path The path to time-parameterize.
+ * @param constraints The physical constraints of the robot.
+ * @returns The timestamped states, one for each point of the path.
+ */
+export function getPathTrajectory(path: Path, constraints: TrajectoryConstraints): TrajectoryCalculationResult {
+  const uol = path.pc.format.getGeneralConfig().uol;
+  const points = path.cachedResult.points;
+  const speedTo = path.pc.speedLimit.to;
+
+  const maxVelocity = new UnitConverter(constraints.uol, uol).fromAtoB(constraints.maxVelocity);
+  const velocityLimits = points.map(point => (maxVelocity * point.speed) / (speedTo || 1));
+
+  return getTrajectory(points, uol, constraints, velocityLimits);
+}
+
+/**
+ * Finds the index of the last state at or before the given time.
+ *
+ * @param result The trajectory to search.
+ * @param time The time since the beginning of the trajectory, in seconds.
+ * @returns The index of the state, or -1 if the trajectory is empty.
+ */
+export function getTrajectoryStateIndexAt(result: TrajectoryCalculationResult, time: number): number {
+  const states = result.states;
+  if (states.length === 0) return -1;
+
+  // ALGO: Binary search, states are sorted by time
+  let low = 0;
+  let high = states.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (states[mid].time <= time) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/**
+ * Calculates the state at the given time by interpolating between the two closest states.
+ *
+ * @param result The trajectory to sample.
+ * @param time The time since the beginning of the trajectory, in seconds. It is clamped to the duration.
+ * @returns The interpolated state, or undefined if the trajectory is empty.
+ */
+export function getTrajectoryStateAt(result: TrajectoryCalculationResult, time: number): TrajectoryState | undefined {
+  const idx = getTrajectoryStateIndexAt(result, time);
+  if (idx === -1) return undefined;
+
+  const from = result.states[idx];
+  const to = result.states[idx + 1];
+  if (to === undefined || to.time === from.time) return { ...from };
+
+  const ratio = Math.min(Math.max((time - from.time) / (to.time - from.time), 0), 1);
+  const lerp = (a: number, b: number) => a + (b - a) * ratio;
+
+  return {
+    time: lerp(from.time, to.time),
+    x: lerp(from.x, to.x),
+    y: lerp(from.y, to.y),
+    heading: boundHeading(from.heading + toDerivativeHeading(from.heading, to.heading) * ratio),
+    velocity: lerp(from.velocity, to.velocity),
+    acceleration: from.acceleration,
+    angularVelocity: from.angularVelocity,
+    point: from.point
+  };
+}
@@ -0,0 +1,120 @@
+import { getAppStores } from "./MainApp";
+import { CoordinateSystemTransformation, getNamedCoordinateSystems } from "./CoordinateSystem";
+import { Control, EndControl, HeadingKeyframe, Segment, Vector } from "./Path";
+import {
+  IDENTITY_TRANSFORMATION,
+  getTransformHeadingKeyframes,
+  getTransformTargets,
+  toFieldTransformation,
+  transformControl
+} from "./Transform";
+import { TransformControls } from "./Command";
+
+test("dummy", () => {
+  getAppStores(); // suppress constructor error
+});
+
+test("transform control", () => {
+  // rotate clockwise around the origin
+  const rotated = transformControl(new EndControl(0, 10, 0), { ...IDENTITY_TRANSFORMATION, angle: 90 });
+  expect(rotated.x).toBeCloseTo(10);
+  expect(rotated.y).toBeCloseTo(0);
+  expect((rotated as EndControl).heading).toBeCloseTo(90);
+
+  // scale around the pivot, then translate
+  const scaled = transformControl(new Control(15, 10), {
+    ...IDENTITY_TRANSFORMATION,
+    dx: 1,
+    dy: -1,
+    scale: 2,
+    pivot: new Vector(10, 10)
+  });
+  expect(scaled).toEqual({ x: 21, y: 9 });
+});
+
+test("transform targets", () => {
+  const a = new EndControl(0, 0, 0);
+  const c1 = new Control(5, 0);
+  const c2 = new Control(5, 10);
+  const b = new EndControl(10, 10, 0);
+  const c = new EndControl(20, 10, 0);
+  const { app } = getAppStores();
+  const path = app.format.createPath(new Segment(a, c1, c2, b), new Segment(b, c));
+
+  expect(getTransformTargets([path], [b.uid])).toEqual([b, c2]);
+  expect(getTransformTargets([path], [a.uid, c2.uid])).toEqual([a, c1, c2]);
+
+  c.lock = true;
+  expect(getTransformTargets([path], [b.uid, c.uid])).toEqual([b, c2]);
+
+  path.lock = true;
+  expect(getTransformTargets([path], [b.uid])).toEqual([]);
+});
+
+test("to field transformation", () => {
+  const [vexGps, cartesian] = getNamedCoordinateSystems();
+  const dimension = { width: 0, height: 0 };
+  const beginning = { x: 0, y: 0, heading: 0 };
+  const transformation = { ...IDENTITY_TRANSFORMATION, angle: 30, scale: 2 };
+
+  const gps = toFieldTransformation(transformation, new CoordinateSystemTransformation(vexGps, dimension, beginning));
+  expect(gps.angle).toBeCloseTo(30);
+  expect(gps.scale).toBe(2);
+  expect(gps.dx).toBeCloseTo(0);
+  expect(gps.dy).toBeCloseTo(0);
+
+  // the heading convention of the coordinate system
+  const cst = new CoordinateSystemTransformation(cartesian, dimension, beginning);
+  expect(toFieldTransformation(transformation, cst).angle).toBeCloseTo(-30);
+});
+
+test("transform controls with command history", () => {
+  const { app } = getAppStores();
+  app.newFile();
+
+  const a = new EndControl(0, 0, 0);
+  const b = new EndControl(10, 0, 90);
+  const segment = new Segment(a, b);
+  segment.heading.add(new HeadingKeyframe(0.5, 300));
+  app.paths = [app.format.createPath(segment)];
+  const keyframes = getTransformHeadingKeyframes(app.paths, [a, b]);
+  expect(keyframes).toEqual(segment.heading.list);
+  expect(getTransformHeadingKeyframes(app.paths, [a])).toEqual([]);
+
+  // merged transformations are undone together
+  app.history.execute(
+    "Move 2 controls",
+    new TransformControls([a, b], { ...IDENTITY_TRANSFORMATION, dx: 5 }, keyframes),
+    5000
+  );
+  app.history.execute(
+    "Move 2 controls",
+    new TransformControls([a, b], { ...IDENTITY_TRANSFORMATION, dy: 5 }, keyframes),
+    5000
+  );
+  expect(a.toVector()).toEqual(new Vector(5, 5));
+  expect(b.toVector()).toEqual(new Vector(15, 5));
+
+  app.history.execute(
+    "Rotate 2 controls",
+    new TransformControls([a, b], { ...IDENTITY_TRANSFORMATION, angle: 90, pivot: new Vector(5, 5) }, keyframes)
+  );
+  expect(b.x).toBeCloseTo(5);
+  expect(b.y).toBeCloseTo(-5);
+  expect(b.heading).toBeCloseTo(180);
+  expect(keyframes[0].heading).toBeCloseTo(30);
+
+  app.history.undo();
+  expect(b.toVector()).toEqual(new Vector(15, 5));
+  expect(b.heading).toBe(90);
+  expect(keyframes[0].heading).toBeCloseTo(300);
+
+  app.history.undo();
+  expect(a.toVector()).toEqual(new Vector(0, 0));
+  expect(b.toVector()).toEqual(new Vector(10, 0));
+
+  app.history.redo();
+  expect(b.toVector()).toEqual(new Vector(15, 5));
+
+  app.newFile();
+});
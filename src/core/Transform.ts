@@ -0,0 +1,117 @@
+import { boundHeading, fromDegreeToRadian } from "./Calculation";
+import { CoordinateSystemTransformation } from "./CoordinateSystem";
+import { AnyControl, Control, EndControl, HeadingKeyframe, Path, Vector } from "./Path";
+
+/**
+ * A transformation of controls, the controls are rotated and scaled around the pivot, then translated
+ */
+export interface ControlTransformation {
+  dx: number; // in UOL
+  dy: number; // in UOL
+  angle: number; // in degrees, rotates clockwise when it is positive, the same direction as the heading
+  scale: number; // uniform scale factor, must be positive
+  pivot: Vector; // in UOL
+}
+
+export const IDENTITY_TRANSFORMATION: Readonly<ControlTransformation> = {
+  dx: 0,
+  dy: 0,
+  angle: 0,
+  scale: 1,
+  pivot: new Vector(0, 0)
+};
+
+/**
+ * @param control The control to transform
+ * @param transformation The transformation
+ * @returns The new position of the control, and the new heading if it is an end control
+ */
+export function transformControl(
+  control: AnyControl,
+  transformation: ControlTransformation
+): Partial<EndControl> | Partial<Control> {
+  const { dx, dy, angle, scale, pivot } = transformation;
+
+  // ALGO: Rotate clockwise, the same direction as the heading
+  const theta = fromDegreeToRadian(angle);
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  const rx = (control.x - pivot.x) * scale;
+  const ry = (control.y - pivot.y) * scale;
+
+  const x = pivot.x + rx * cos + ry * sin + dx;
+  const y = pivot.y - rx * sin + ry * cos + dy;
+
+  if (control instanceof EndControl) return { x, y, heading: boundHeading(control.heading + angle) };
+  else return { x, y };
+}
+
+/**
+ * UX: The controls are transformed together with the sibling controls of the selected end controls,
+ * the same as dragging the end controls. Hidden and locked controls are not transformed.
+ *
+ * @param paths The paths
+ * @param selected The uids of the selected controls
+ * @returns The controls to transform
+ */
+export function getTransformTargets(paths: Path[], selected: readonly string[]): AnyControl[] {
+  const targets: AnyControl[] = [];
+
+  for (const path of paths) {
+    if (path.visible === false || path.lock) continue;
+
+    const controls = path.controls;
+    const isTransformable = (control: AnyControl | undefined): control is AnyControl =>
+      control !== undefined && control.visible && !control.lock && !targets.includes(control);
+
+    controls.forEach((control, idx) => {
+      if (!selected.includes(control.uid) || !isTransformable(control)) return;
+      targets.push(control);
+
+      if (control instanceof EndControl) {
+        for (const sibling of [controls[idx - 1], controls[idx + 1]]) {
+          if (sibling instanceof Control && isTransformable(sibling)) targets.push(sibling);
+        }
+      }
+    });
+  }
+
+  return targets;
+}
+
+/**
+ * @param paths The paths
+ * @param targets The controls to transform
+ * @returns The heading keyframes of the segments whose end controls are both transformed
+ */
+export function getTransformHeadingKeyframes(paths: Path[], targets: AnyControl[]): HeadingKeyframe[] {
+  return paths
+    .flatMap(path => path.segments)
+    .filter(segment => targets.includes(segment.first) && targets.includes(segment.last))
+    .flatMap(segment => segment.heading.list);
+}
+
+/**
+ * ALGO: The translation and the pivot are converted from the coordinate system to the field, the angle follows the
+ * heading direction of the coordinate system, e.g. a positive angle rotates counterclockwise in the Cartesian plane.
+ *
+ * @param transformation The transformation in the coordinate system
+ * @param cst The transformation of the coordinate system
+ * @returns The transformation in the field
+ */
+export function toFieldTransformation(
+  transformation: ControlTransformation,
+  cst: CoordinateSystemTransformation
+): ControlTransformation {
+  const origin = cst.inverseTransform({ x: 0, y: 0 });
+  const translated = cst.inverseTransform({ x: transformation.dx, y: transformation.dy });
+  const pivot = cst.inverseTransform(transformation.pivot);
+
+  return {
+    dx: translated.x - origin.x,
+    dy: translated.y - origin.y,
+    angle: transformation.angle * cst.system.headingDirection,
+    scale: transformation.scale,
+    pivot: new Vector(pivot.x, pivot.y)
+  };
+}
@@ -71,3 +71,24 @@ export class UnitConverter<T extends Unit> {
     return (b * this.beta) / this.alpha;
   }
 }
+
+/**
+ * @param uol The unit of length
+ * @returns The abbreviation of the unit of length, the same as the unit suffix accepted by the input fields
+ */
+export function getUnitOfLengthAbbreviation(uol: UnitOfLength): string {
+  switch (uol) {
+    case UnitOfLength.Millimeter:
+      return "mm";
+    case UnitOfLength.Centimeter:
+      return "cm";
+    case UnitOfLength.Meter:
+      return "m";
+    case UnitOfLength.Inch:
+      return "in";
+    case UnitOfLength.Foot:
+      return "ft";
+    case UnitOfLength.Tile:
+      return "tile";
+  }
+}
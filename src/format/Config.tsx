@@ -4,7 +4,7 @@ import { Format } from "./Format";
 import { BentRateApplicationDirection, Path } from "@core/Path";
 import { FieldImageOriginType, FieldImageSignatureAndOrigin, getDefaultBuiltInFieldImage } from "@core/Asset";
 import { EditableNumberRange, NumberRange } from "@core/Util";
-import { getAppStores } from "@core/MainApp";
+import { getCreatedAppStores } from "@core/MainApp";
 
 export function convertGeneralConfigUOL(gc: GeneralConfig, fromUOL: UnitOfLength) {
   const toUOL = gc.uol;
@@ -60,7 +60,10 @@ export function initGeneralConfig(gc: GeneralConfig) {
   );
 
   intercept(gc, "fieldImage", change => {
-    const { app, assetManager } = getAppStores();
+    // ALGO: Only the config of the app is checked, the app is not created for the configs used without it
+    const stores = getCreatedAppStores();
+    if (stores?.app === undefined) return change;
+    const { app, assetManager } = stores;
 
     if (app.gc === gc && assetManager.getAssetBySignature(change.newValue.signature) === undefined) {
       change.newValue = getDefaultBuiltInFieldImage().getSignatureAndOrigin();
@@ -1,8 +1,8 @@
 import { action } from "mobx";
 import { instanceToPlain, plainToClassFromExist, plainToInstance, Expose, Exclude, Type } from "class-transformer";
-import { MainApp } from "@core/MainApp";
+import { APP_VERSION, MainApp } from "@core/MainApp";
 import { Segment, EndControl, Path } from "@core/Path";
-import { Format } from "./Format";
+import { Format, convertPathFileData } from "./Format";
 import DOMPurify from "dompurify";
 import { PointCalculationResult } from "@core/Calculation";
 import { GeneralConfig, convertFormat } from "./Config";
@@ -96,6 +96,24 @@ test(
   })
 );
 
+test("Convert path file data from v0.8", () => {
+  const data: Record<string, any> = {
+    appVersion: "0.8.3",
+    format: "path.jerryio v0.1",
+    gc: {},
+    paths: [{ segments: [{ controls: [], speedProfiles: [], lookaheadKeyframes: [] }] }]
+  };
+
+  expect(convertPathFileData(data)).toBe(true);
+  expect(data.appVersion).toBe("0.9.0");
+  expect(data.paths[0].segments[0].headingKeyframes).toEqual([]);
+  expect(data.paths[0].segments[0].eventMarkers).toEqual([]);
+  expect(data.routines).toBeUndefined();
+
+  while (data.appVersion !== APP_VERSION.version) expect(convertPathFileData(data)).toBe(true);
+  expect(convertPathFileData({ appVersion: "99.0.0" })).toBe(false);
+});
+
 test("Segment serialize", () => {
   let s = new Segment(new EndControl(-12, -34, 9), new EndControl(-56, 78, 0));
   let p = instanceToPlain(s);
@@ -1,6 +1,15 @@
-import { Path, Segment } from "@core/Path";
+import { EndControl, EventMarker, Path, Segment, SegmentVariant, SpeedKeyframe } from "@core/Path";
 import { GeneralConfig } from "./Config";
-import { PointCalculationResult } from "@core/Calculation";
+import { PointCalculationResult, boundHeading, toDerivativeHeading, toHeading } from "@core/Calculation";
+import {
+  AddCubicSegment,
+  AddKeyframe,
+  AddLinearSegment,
+  ConvertSegment,
+  InsertControls,
+  InsertPaths,
+  UpdatePathTreeItems
+} from "@core/Command";
 import { APP_VERSION, MainApp } from "@core/MainApp";
 import { Range } from "semver";
 import { UserInterface } from "@core/Layout";
@@ -11,7 +20,46 @@ import { LemLibOdomGeneratorFormatV0_4 } from "./LemLibOdomGeneratorFormatV0_4";
 import { LemLibFormatV1_0 } from "./LemLibFormatV1_0";
 import { isExperimentalFeaturesEnabled } from "@core/Preferences";
 import { RigidCodeGenFormatV0_1 } from "./RigidCodeGenFormatV0_1";
+import { VexTemplateCodeGenFormatV0_1 } from "./VexTemplateCodeGenFormatV0_1";
 import { MoveToPointCodeGenFormatV0_1 } from "./MoveToPointCodeGenFormatV0_1";
+import { PathPlannerFormatV2025_0 } from "./PathPlannerFormatV2025_0";
+import { Routine } from "@core/Routine";
+import { FieldImageAsset, FieldImageOriginType } from "@core/Asset";
+
+/**
+ * The project data required to export a path file.
+ * It is provided by MainApp in the browser, or by the headless converter without the app.
+ */
+export interface ExportContext {
+  readonly routines: readonly Routine[];
+  readonly paths: Path[]; // The paths of the active routine
+  readonly fieldImageAsset: FieldImageAsset<FieldImageOriginType>;
+
+  /**
+   * @returns the path to export for formats supporting a single path only
+   */
+  interestedPath(): Path | undefined;
+
+  /**
+   * @returns the PATH.JERRYIO-DATA of the project
+   */
+  exportPDJData(): Record<string, any>;
+}
+
+/**
+ * The path or the segment a range of the generated code is generated from
+ */
+export interface CodeSource {
+  start: number; // The index of the first character in the code
+  end: number; // The index after the last character in the code
+  path: Path;
+  segment?: Segment;
+}
+
+export interface GeneratedCode {
+  code: string;
+  sources: CodeSource[]; // The ranges may be nested, e.g. a segment range inside a path range
+}
 
 export interface Format {
   isInit: boolean;
@@ -105,10 +153,34 @@ export interface Format {
   importPDJDataFromFile(buffer: ArrayBuffer): Record<string, any> | undefined;
 
   /**
+   * The format should not access the app state directly, all project data is provided by the context.
+   *
+   * @throws Error if the file can not be exported
+   * @param context the project to export
+   * @returns the path file buffer in ArrayBuffer
+   */
+  exportFile(context: ExportContext): ArrayBuffer;
+
+  /**
+   * Exports all routines of the project into a single file.
+   * This method is optional, it is implemented by formats that can hold multiple paths from different routines.
+   * Otherwise, the app exports one file per routine with exportFile().
+   *
    * @throws Error if the file can not be exported
+   * @param context the project to export
    * @returns the path file buffer in ArrayBuffer
    */
-  exportFile(): ArrayBuffer;
+  exportProjectFile?(context: ExportContext): ArrayBuffer;
+
+  /**
+   * Generates the code with the source of each part of it, it is used by the output preview panel.
+   * This method is optional, it is implemented by the code generator formats.
+   *
+   * @throws Error if the code can not be generated
+   * @param context the project to export
+   * @returns the generated code and the sources
+   */
+  generateCode?(context: ExportContext): GeneratedCode;
 }
 
 export function getAllGeneralFormats(): Format[] {
@@ -119,13 +191,19 @@ export function getAllDeprecatedFormats(): Format[] {
   return [new LemLibOdomGeneratorFormatV0_4()];
 }
 
-export function getAllExperimentalFormats(): Format[] {
-  if (!isExperimentalFeaturesEnabled()) return [];
-  return [new LemLibFormatV1_0(), new RigidCodeGenFormatV0_1(), new MoveToPointCodeGenFormatV0_1()];
+export function getAllExperimentalFormats(isEnabled: boolean = isExperimentalFeaturesEnabled()): Format[] {
+  if (!isEnabled) return [];
+  return [
+    new LemLibFormatV1_0(),
+    new RigidCodeGenFormatV0_1(),
+    new MoveToPointCodeGenFormatV0_1(),
+    new VexTemplateCodeGenFormatV0_1(),
+    new PathPlannerFormatV2025_0()
+  ];
 }
 
-export function getAllFormats(): Format[] {
-  return [...getAllGeneralFormats(), ...getAllDeprecatedFormats(), ...getAllExperimentalFormats()];
+export function getAllFormats(includeExperimental: boolean = isExperimentalFeaturesEnabled()): Format[] {
+  return [...getAllGeneralFormats(), ...getAllDeprecatedFormats(), ...getAllExperimentalFormats(includeExperimental)];
 }
 
 interface PathFileDataConverter {
@@ -225,10 +303,27 @@ const convertFromV0_7_0ToV0_8_0: PathFileDataConverter = {
   }
 };
 
-const convertFromV0_8_0ToCurrentAppVersion: PathFileDataConverter = {
+const convertFromV0_8_0ToV0_9_0: PathFileDataConverter = {
   version: new Range("~0.8"),
   convert: (data: Record<string, any>): void => {
-    // From v0.8.0 to current app version
+    // New heading keyframes and event markers in segments
+    // The routines, variables and constraints are optional, the project has a single routine without them
+    for (const path of Array.isArray(data.paths) ? data.paths : []) {
+      for (const segment of Array.isArray(path?.segments) ? path.segments : []) {
+        segment.headingKeyframes ??= [];
+        segment.eventMarkers ??= [];
+      }
+    }
+
+    // From v0.8.0 to v0.9.0
+    data.appVersion = "0.9.0";
+  }
+};
+
+const convertFromV0_9_0ToCurrentAppVersion: PathFileDataConverter = {
+  version: new Range("~0.9"),
+  convert: (data: Record<string, any>): void => {
+    // From v0.9.0 to current app version
     data.appVersion = APP_VERSION.version;
   }
 };
@@ -242,7 +337,8 @@ export function convertPathFileData(data: Record<string, any>): boolean {
     convertFromV0_5_0ToV0_6_0,
     convertFromV0_6_0ToV0_7_0,
     convertFromV0_7_0ToV0_8_0,
-    convertFromV0_8_0ToCurrentAppVersion
+    convertFromV0_8_0ToV0_9_0,
+    convertFromV0_9_0ToCurrentAppVersion
   ]) {
     if (version.test(data.appVersion)) {
       convert(data);
@@ -269,3 +365,96 @@ export function importPDJDataFromTextFile(buffer: ArrayBuffer): Record<string, a
 
   return data;
 }
+
+/**
+ * Registers the history event listeners of the formats with linear segments only, for example, the code gen formats.
+ * The heading of the first end control of each segment is fixed to face forward or backward along the segment.
+ *
+ * @param app the main app
+ * @param isSpeedKeyframeAllowed true if the speed keyframes are kept, for example, for the speed of each movement
+ * @returns the disposers of the event listeners
+ */
+export function registerLinearSegmentsWithFixedHeading(app: MainApp, isSpeedKeyframeAllowed: boolean): (() => void)[] {
+  const fixEndControlsHeading = () => {
+    app.paths.forEach(path => {
+      path.segments.forEach(segment => {
+        const first = segment.first;
+        const last = segment.last;
+        const suggestedHeading = toHeading(last.subtract(first));
+        const acceptableHeading1 = suggestedHeading;
+        const acceptableHeading2 = boundHeading(suggestedHeading + 180);
+        const currentHeading = first.heading;
+        const delta1 = Math.abs(toDerivativeHeading(currentHeading, acceptableHeading1));
+        const delta2 = Math.abs(toDerivativeHeading(currentHeading, acceptableHeading2));
+        if (delta1 < delta2) first.heading = acceptableHeading1;
+        else first.heading = acceptableHeading2;
+        if (!isSpeedKeyframeAllowed) segment.speed.list.length = 0;
+        segment.lookahead.list.length = 0;
+        segment.heading.list.length = 0;
+      });
+    });
+  };
+
+  return [
+    app.history.addEventListener("beforeExecution", event => {
+      if (event.isCommandInstanceOf(AddCubicSegment)) {
+        event.isCancelled = true;
+
+        const cancelledCommand = event.command;
+        app.history.execute(
+          `Add linear segment with end control point ${cancelledCommand.end.uid} to path ${cancelledCommand.path.uid}`,
+          new AddLinearSegment(cancelledCommand.path, cancelledCommand.end)
+        );
+      } else if (event.isCommandInstanceOf(ConvertSegment) && event.command.variant === SegmentVariant.Cubic) {
+        event.isCancelled = true;
+      } else if (event.isCommandInstanceOf(UpdatePathTreeItems)) {
+        const targets = event.command.targets;
+        const newValues = event.command.newValues;
+
+        const isLastEndControlOfPath = (target: EndControl) => {
+          return app.paths.some(path => path.segments.at(-1)?.last === target);
+        };
+
+        targets.forEach(target => {
+          if (target instanceof EndControl) {
+            const isChangingHeadingValue = "heading" in newValues && newValues.heading !== undefined;
+            if (!isChangingHeadingValue) return;
+
+            if (isLastEndControlOfPath(target)) return;
+
+            const oldValue = target.heading;
+            newValues.heading = boundHeading(oldValue + 180);
+          }
+        });
+      } else if (event.isCommandInstanceOf(InsertPaths)) {
+        event.command.inserting.forEach(path => {
+          path.segments.forEach(segment => {
+            segment.controls = [segment.first, segment.last];
+
+            segment.first.heading = toHeading(segment.last.subtract(segment.first));
+          });
+        });
+      } else if (event.isCommandInstanceOf(InsertControls)) {
+        event.command.inserting = event.command.inserting.filter(control => control instanceof EndControl);
+      } else if (
+        event.isCommandInstanceOf(AddKeyframe) &&
+        !(event.command.keyframe instanceof EventMarker) &&
+        !(isSpeedKeyframeAllowed && event.command.keyframe instanceof SpeedKeyframe)
+      ) {
+        event.isCancelled = true;
+      }
+    }),
+    app.history.addEventListener("merge", event => {
+      fixEndControlsHeading();
+    }),
+    app.history.addEventListener("execute", event => {
+      fixEndControlsHeading();
+    }),
+    app.history.addEventListener("afterUndo", event => {
+      fixEndControlsHeading();
+    }),
+    app.history.addEventListener("afterRedo", event => {
+      fixEndControlsHeading();
+    })
+  ];
+}
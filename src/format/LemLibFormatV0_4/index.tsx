@@ -1,10 +1,10 @@
 import { makeAutoObservable } from "mobx";
-import { MainApp, getAppStores } from "@core/MainApp";
+import { MainApp } from "@core/MainApp";
 import { clamp, makeId } from "@core/Util";
 import { Control, EndControl, Path, Segment, SpeedKeyframe, Vector } from "@core/Path";
 import { UnitOfLength, UnitConverter, Quantity } from "@core/Unit";
 import { GeneralConfig, convertFormat } from "../Config";
-import { Format, importPDJDataFromTextFile } from "../Format";
+import { ExportContext, Format, importPDJDataFromTextFile } from "../Format";
 import { AddKeyframe } from "@core/Command";
 import { PointCalculationResult, getPathPoints } from "@core/Calculation";
 import { GeneralConfigImpl } from "./GeneralConfig";
@@ -177,14 +177,12 @@ export class LemLibFormatV0_4 implements Format {
     return importPDJDataFromTextFile(buffer);
   }
 
-  exportFile(): ArrayBuffer {
-    const { app } = getAppStores();
-
+  exportFile(context: ExportContext): ArrayBuffer {
     // ALGO: The implementation is adopted from https://github.com/LemLib/Path-Gen under the GPLv3 license.
 
     let fileContent = "";
 
-    const path = app.interestedPath();
+    const path = context.interestedPath();
     if (path === undefined) throw new Error("No path to export");
     if (path.segments.length === 0) throw new Error("No segment to export");
 
@@ -242,7 +240,7 @@ export class LemLibFormatV0_4 implements Format {
       }
     }
 
-    fileContent += "#PATH.JERRYIO-DATA " + JSON.stringify(app.exportPDJData());
+    fileContent += "#PATH.JERRYIO-DATA " + JSON.stringify(context.exportPDJData());
 
     return new TextEncoder().encode(fileContent);
   }
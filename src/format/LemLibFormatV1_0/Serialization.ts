@@ -9,6 +9,7 @@ export namespace LemLibV1_0 {
     speed: number; // m/s
     heading?: number;
     lookahead?: number; // mm
+    marker?: number; // The index of the event marker in the path
   }
 
   export interface LemLibPathData {
@@ -20,6 +21,7 @@ export namespace LemLibV1_0 {
     let flag = 0;
     if (waypoint.heading !== undefined) flag |= 0x01;
     if (waypoint.lookahead !== undefined) flag |= 0x02;
+    if (waypoint.marker !== undefined) flag |= 0x04;
     buffer.writeInt8(flag);
     buffer.writeInt16LE(Math.round(waypoint.x * 2));
     buffer.writeInt16LE(Math.round(waypoint.y * 2));
@@ -33,6 +35,9 @@ export namespace LemLibV1_0 {
     if (waypoint.lookahead !== undefined) {
       buffer.writeInt16LE(Math.round(waypoint.lookahead * 2));
     }
+    if (waypoint.marker !== undefined) {
+      buffer.writeInt16LE(waypoint.marker);
+    }
   }
 
   export function readWaypoint(buffer: SmartBuffer): LemLibWaypoint {
@@ -51,7 +56,9 @@ export namespace LemLibV1_0 {
     if (flag & 0x02) {
       waypoint.lookahead = buffer.readInt16LE() / 2;
     }
-    if (flag & 0x04) buffer.readInt16LE(); // Reserved
+    if (flag & 0x04) {
+      waypoint.marker = buffer.readInt16LE();
+    }
     if (flag & 0x08) buffer.readInt16LE(); // Reserved
     if (flag & 0x10) buffer.readInt16LE(); // Reserved
     if (flag & 0x20) buffer.readInt16LE(); // Reserved
@@ -61,15 +68,31 @@ export namespace LemLibV1_0 {
     return waypoint;
   }
 
-  export function writePath(buffer: SmartBuffer, path: Path) {
-    buffer.writeStringNT(path.name);
+  export function writePath(buffer: SmartBuffer, path: Path, name: string = path.name) {
+    buffer.writeStringNT(name);
     buffer.writeInt8(0);
     // No metadata
     const result = path.pc.format.getPathPoints(path);
     const points = result.points;
+
+    // ALGO: Only one marker can be attached to a waypoint, the later marker is moved to the next free waypoint
+    const markers = new Map<number, number>(); // point index -> marker index
+    result.markerIndexes.forEach((ikf, markerIdx) => {
+      let pointIdx = ikf.index;
+      while (markers.has(pointIdx)) pointIdx++;
+      if (pointIdx < points.length) markers.set(pointIdx, markerIdx);
+    });
+
     buffer.writeUInt16LE(points.length);
-    points.forEach(point => {
-      writeWaypoint(buffer, point);
+    points.forEach((point, idx) => {
+      writeWaypoint(buffer, {
+        x: point.x,
+        y: point.y,
+        speed: point.speed,
+        heading: point.heading,
+        lookahead: point.lookahead,
+        marker: markers.get(idx)
+      });
     });
   }
 
@@ -87,15 +110,20 @@ export namespace LemLibV1_0 {
     return { name, waypoints };
   }
 
-  export function writePathFile(buffer: SmartBuffer, paths: Path[], pathFileData: Record<string, any>) {
+  export function writePathFile(
+    buffer: SmartBuffer,
+    paths: Path[],
+    pathFileData: Record<string, any>,
+    names: string[] = paths.map(path => path.name)
+  ) {
     const bodyBeginIdx = buffer.writeOffset;
     buffer.writeUInt8(4); // Metadata size
     const metadataStartIdx = buffer.writeOffset;
     buffer.writeUInt32LE(0); // Placeholder
 
     buffer.writeUInt16LE(paths.length);
-    paths.forEach(path => {
-      writePath(buffer, path);
+    paths.forEach((path, idx) => {
+      writePath(buffer, path, names[idx]);
     });
 
     // The first 4 bytes of metadata is the pointer to the end of the body
@@ -106,10 +134,7 @@ export namespace LemLibV1_0 {
     buffer.writeString(JSON.stringify(pathFileData));
   }
 
-  export function readPathFile(
-    buffer: SmartBuffer
-  ): { paths: LemLibPathData[]; pathFileData: Record<string, any> } | undefined {
-    const bodyBeginIdx = buffer.readOffset;
+  export function readPathFileBody(buffer: SmartBuffer): { paths: LemLibPathData[]; sizeOfBody: number } {
     const metadataSize = buffer.readUInt8();
     const metadataStartIdx = buffer.readOffset;
     const metadataEndIdx = metadataStartIdx + metadataSize;
@@ -122,6 +147,15 @@ export namespace LemLibV1_0 {
       paths.push(readPath(buffer));
     }
 
+    return { paths, sizeOfBody };
+  }
+
+  export function readPathFile(
+    buffer: SmartBuffer
+  ): { paths: LemLibPathData[]; pathFileData: Record<string, any> } | undefined {
+    const bodyBeginIdx = buffer.readOffset;
+    const { paths, sizeOfBody } = readPathFileBody(buffer);
+
     buffer.readOffset = bodyBeginIdx + sizeOfBody;
     const signature = buffer.readStringNT();
     if (signature !== "#PATH.JERRYIO-DATA") return undefined;
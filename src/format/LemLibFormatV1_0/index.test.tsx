@@ -1,7 +1,7 @@
 import { SmartBuffer } from "smart-buffer";
 import { MainApp, getAppStores } from "@core/MainApp";
 import { LemLibFormatV1_0 } from ".";
-import { EndControl, Segment } from "@core/Path";
+import { Control, EndControl, EventMarker, Segment } from "@core/Path";
 import { LemLibV1_0 } from "./Serialization";
 
 test("dummy", () => {
@@ -63,6 +63,27 @@ test("read write path", () => {
   }
 });
 
+test("read write path with event markers", () => {
+  const format = new LemLibFormatV1_0();
+
+  const path = format.createPath();
+  path.segments.push(new Segment(new EndControl(0, 0, 0), new EndControl(0, 100, 0)));
+  path.segments[0].marker.add(new EventMarker(0.5, "Intake On"));
+  path.segments[0].marker.add(new EventMarker(0.5, "Clamp"));
+
+  const buffer1 = SmartBuffer.fromSize(1024); // auto resize
+
+  LemLibV1_0.writePath(buffer1, path);
+
+  const result = LemLibV1_0.readPath(buffer1);
+
+  const markerIdx = path.cachedResult.markerIndexes[0].index;
+  expect(result.waypoints[markerIdx].marker).toBe(0);
+  // ALGO: The second marker is moved to the next waypoint
+  expect(result.waypoints[markerIdx + 1].marker).toBe(1);
+  expect(result.waypoints.filter(waypoint => waypoint.marker !== undefined).length).toBe(2);
+});
+
 test("read write path file", () => {
   const app = new MainApp();
   const format = new LemLibFormatV1_0();
@@ -100,3 +121,52 @@ test("read write path file", () => {
     expect(point2.lookahead).toBe(point1.lookahead);
   }
 });
+
+test("import paths from file without path.jerryio data", () => {
+  const app = new MainApp();
+  const format = new LemLibFormatV1_0();
+  app.format = format;
+
+  const path = format.createPath();
+  path.name = "Test Path";
+  app.paths.push(path);
+
+  path.segments.push(
+    new Segment(new EndControl(0, 0, 0), new Control(0, 600), new Control(600, 600), new EndControl(600, 0, 90))
+  );
+  path.segments.push(new Segment(path.segments[0].last, new EndControl(600, -600, 180)));
+
+  const buffer1 = SmartBuffer.fromSize(1024); // auto resize
+  LemLibV1_0.writePathFile(buffer1, [path], app.exportPDJData());
+
+  // ALGO: Remove the path.jerryio data
+  const sizeOfBody = buffer1.readUInt32LE(1);
+  const arrayBuffer = buffer1.toBuffer().subarray(0, sizeOfBody);
+
+  expect(format.importPDJDataFromFile(arrayBuffer)).toBeUndefined();
+
+  const paths = format.importPathsFromFile(arrayBuffer);
+  expect(paths.length).toBe(1);
+
+  const result = paths[0];
+  expect(result.name).toBe("Test Path");
+  expect(result.segments.length).toBeGreaterThanOrEqual(2);
+  expect(result.segments[0].first.x).toBe(0);
+  expect(result.segments[0].first.y).toBe(0);
+  expect(result.segments[result.segments.length - 1].last.x).toBe(600);
+  expect(result.segments[result.segments.length - 1].last.y).toBe(-600);
+  expect(result.segments[result.segments.length - 1].last.heading).toBeCloseTo(180);
+
+  // ALGO: The reconstructed path produces similar points
+  const points1 = path.cachedResult.points;
+  const points2 = format.getPathPoints(result).points;
+  expect(Math.abs(points2.length - points1.length)).toBeLessThanOrEqual(2);
+  for (const point of points2) {
+    const closest = Math.min(...points1.map(p => p.distance(point)));
+    expect(closest).toBeLessThan(format.getGeneralConfig().pointDensity);
+  }
+
+  const speeds1 = points1.map(p => p.speed);
+  const speeds2 = points2.map(p => p.speed);
+  expect(Math.max(...speeds2)).toBeCloseTo(Math.max(...speeds1));
+});
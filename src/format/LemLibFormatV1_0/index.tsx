@@ -5,13 +5,15 @@ import { Path, Segment, SpeedKeyframe } from "@core/Path";
 import { makeId } from "@core/Util";
 import { GeneralConfig, convertFormat } from "../Config";
 import { Quantity, UnitConverter, UnitOfLength } from "@core/Unit";
-import { Format } from "../Format";
+import { ExportContext, Format } from "../Format";
 import { PointCalculationResult, getPathPoints } from "@core/Calculation";
 import { SmartBuffer } from "smart-buffer";
 import { GeneralConfigImpl } from "./GeneralConfig";
 import { UserInterface } from "@core/Layout";
 import { PathConfigImpl, PathConfigPanel } from "./PathConfig";
 import { LemLibV1_0 } from "./Serialization";
+import { backwardPass, getPointDistances } from "@core/Trajectory";
+import { FittingPoint, fitPathFromPoints, fitSpeedLimitFromPoints } from "@core/CurveFitting";
 
 // observable class
 export class LemLibFormatV1_0 implements Format {
@@ -100,19 +102,46 @@ export class LemLibFormatV1_0 implements Format {
     });
     const rate = (path.pc as PathConfigImpl).maxDecelerationRate;
 
-    for (let i = result.points.length - 2; i >= 0; i--) {
-      const last = result.points[i + 1];
-      const current = result.points[i];
+    // ALGO: Limit the speed so that the robot can decelerate to the speed of the next point
+    const speeds = result.points.map(point => point.speed);
+    const distances = getPointDistances(result.points).map(distance => uc.fromAtoB(distance));
+    backwardPass(speeds, distances, { maxAcceleration: rate });
+    result.points.forEach((point, idx) => (point.speed = speeds[idx]));
 
-      // v = sqrt(v_0^2 + 2ad)
-      const newSpeed = Math.sqrt(Math.pow(last.speed, 2) + 2 * rate * uc.fromAtoB(last.distance(current)));
-      current.speed = Math.min(current.speed, newSpeed);
-    }
     return result;
   }
 
-  importPathsFromFile(buffer: ArrayBuffer): Path[] {
-    throw new Error("Unable to import paths from this format, try other formats?");
+  importPathsFromFile(arrayBuffer: ArrayBuffer): Path[] {
+    const buffer = SmartBuffer.fromBuffer(Buffer.from(arrayBuffer));
+
+    let pathData: LemLibV1_0.LemLibPathData[];
+    try {
+      pathData = LemLibV1_0.readPathFileBody(buffer).paths;
+    } catch (e) {
+      throw new Error("Unable to import paths from this format, try other formats?");
+    }
+    if (pathData.length === 0) throw new Error("Invalid file format, no path is found");
+
+    const uc = new UnitConverter(UnitOfLength.Millimeter, this.gc.uol);
+    const tolerance = uc.fromAtoB(getAppStores().appPreferences.curveFittingTolerance);
+
+    return pathData.map(data => {
+      const path = this.createPath();
+      path.name = data.name;
+
+      const points: FittingPoint[] = data.waypoints.map(waypoint => ({
+        x: uc.fromAtoB(waypoint.x),
+        y: uc.fromAtoB(waypoint.y),
+        speed: waypoint.speed,
+        heading: waypoint.heading
+      }));
+      fitSpeedLimitFromPoints(path, points);
+
+      return fitPathFromPoints(path, points, {
+        tolerance,
+        speedTolerance: (path.pc.speedLimit.to - path.pc.speedLimit.from) / 100
+      });
+    });
   }
 
   importPDJDataFromFile(arrayBuffer: ArrayBuffer): Record<string, any> | undefined {
@@ -135,14 +164,23 @@ export class LemLibFormatV1_0 implements Format {
     return pathFileData;
   }
 
-  exportFile(): ArrayBuffer {
-    const { app } = getAppStores();
-
+  exportFile(context: ExportContext): ArrayBuffer {
     // ALGO: The implementation is adopted from https://github.com/LemLib/path under the MIT license.
 
     const buffer = SmartBuffer.fromSize(1024 * 10); // Initial size of 10KB
 
-    LemLibV1_0.writePathFile(buffer, app.paths, app.exportPDJData());
+    LemLibV1_0.writePathFile(buffer, context.paths, context.exportPDJData());
+
+    return buffer.toBuffer();
+  }
+
+  exportProjectFile(context: ExportContext): ArrayBuffer {
+    const buffer = SmartBuffer.fromSize(1024 * 10); // Initial size of 10KB
+
+    // ALGO: The path names are prefixed with the routine name to be unique in the file, e.g. "Skills/Path 1"
+    const paths = context.routines.flatMap(routine => routine.paths);
+    const names = context.routines.flatMap(routine => routine.paths.map(path => `${routine.name}/${path.name}`));
+    LemLibV1_0.writePathFile(buffer, paths, context.exportPDJData(), names);
 
     return buffer.toBuffer();
   }
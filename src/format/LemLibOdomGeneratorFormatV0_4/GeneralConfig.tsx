@@ -12,15 +12,15 @@ import { UnitOfLength } from "@core/Unit";
 import { IS_MAC_OS, getMacHotKeyString, ValidateNumber } from "@core/Util";
 import { Int, CodePointBuffer } from "@src/token/Tokens";
 import { Expose, Type, Exclude } from "class-transformer";
-import { IsPositive, IsBoolean, ValidateNested, IsObject, IsString, MinLength, IsIn } from "class-validator";
+import { IsPositive, IsBoolean, ValidateNested, IsObject, IsString, MinLength } from "class-validator";
 import { observer } from "mobx-react-lite";
 import { GeneralConfig, initGeneralConfig } from "../Config";
-import { Format } from "../Format";
+import { ExportContext, Format } from "../Format";
 import { PanelBox } from "@src/app/component.blocks/PanelBox";
-import { getNamedCoordinateSystems } from "@src/core/CoordinateSystem";
+import { ValidateCoordinateSystemName } from "@src/core/CoordinateSystem";
 
 interface FormatWithExportCode extends Format {
-  exportCode(): string;
+  exportCode(context: ExportContext): string;
 }
 
 const logger = Logger("LemLib Odom Code Gen v0.4.x (inch)");
@@ -34,7 +34,7 @@ const GeneralConfigPanel = observer((props: { config: GeneralConfigImpl }) => {
 
   const onCopyCode = action(() => {
     try {
-      const code = config.format.exportCode();
+      const code = config.format.exportCode(app);
 
       navigator.clipboard.writeText(code);
 
@@ -138,7 +138,7 @@ export class GeneralConfigImpl implements GeneralConfig {
   @IsBoolean()
   @Expose()
   relativeCoords: boolean = true;
-  @IsIn(getNamedCoordinateSystems().map(s => s.name))
+  @ValidateCoordinateSystemName()
   @Expose()
   coordinateSystem: string = "VEX Gaming Positioning System";
   @Exclude()
@@ -1,10 +1,10 @@
 import { makeAutoObservable } from "mobx";
-import { MainApp, getAppStores } from "@core/MainApp";
+import { MainApp } from "@core/MainApp";
 import { makeId } from "@core/Util";
 import { Path, Segment, Vector } from "@core/Path";
 import { UnitOfLength, UnitConverter, Quantity } from "@core/Unit";
 import { GeneralConfig, convertFormat } from "../Config";
-import { Format, importPDJDataFromTextFile } from "../Format";
+import { ExportContext, Format, importPDJDataFromTextFile } from "../Format";
 import { PointCalculationResult, getPathPoints, getDiscretePoints, fromDegreeToRadian } from "@core/Calculation";
 import { euclideanRotation } from "@core/Coordinate";
 import { UserInterface } from "@core/Layout";
@@ -63,13 +63,11 @@ export class LemLibOdomGeneratorFormatV0_4 implements Format {
     throw new Error("Unable to import paths from this format, try other formats?");
   }
 
-  exportCode(): string {
-    const { app } = getAppStores();
-
+  exportCode(context: ExportContext): string {
     let rtn = "";
-    const gc = app.gc as GeneralConfigImpl;
+    const gc = this.gc as GeneralConfigImpl;
 
-    const path = app.interestedPath();
+    const path = context.interestedPath();
     if (path === undefined) throw new Error("No path to export");
     if (path.segments.length === 0) throw new Error("No segment to export");
 
@@ -102,14 +100,12 @@ export class LemLibOdomGeneratorFormatV0_4 implements Format {
     return importPDJDataFromTextFile(buffer);
   }
 
-  exportFile(): ArrayBuffer {
-    const { app } = getAppStores();
-
-    let fileContent = this.exportCode();
+  exportFile(context: ExportContext): ArrayBuffer {
+    let fileContent = this.exportCode(context);
 
     fileContent += "\n";
 
-    fileContent += "#PATH.JERRYIO-DATA " + JSON.stringify(app.exportPDJData());
+    fileContent += "#PATH.JERRYIO-DATA " + JSON.stringify(context.exportPDJData());
 
     return new TextEncoder().encode(fileContent);
   }
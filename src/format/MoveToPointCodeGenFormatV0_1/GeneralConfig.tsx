@@ -4,33 +4,44 @@ import { enqueueSuccessSnackbar, enqueueErrorSnackbar } from "@src/app/Notice";
 import { FieldImageSignatureAndOrigin, FieldImageOriginType, getDefaultBuiltInFieldImage } from "@core/Asset";
 import { useCustomHotkeys, getEnableOnNonTextInputFieldsHotkeysOptions } from "@core/Hook";
 import { getAppStores } from "@core/MainApp";
+import { setLastCopiedCode } from "@core/CodePreview";
 import { Logger } from "@core/Logger";
 import { UnitOfLength } from "@core/Unit";
 import { IS_MAC_OS, getMacHotKeyString, ValidateNumber } from "@core/Util";
 import { Expose, Exclude, Type } from "class-transformer";
-import { IsPositive, IsBoolean, ValidateNested, IsObject, IsString, IsIn } from "class-validator";
+import { IsPositive, IsBoolean, ValidateNested, IsObject, IsString } from "class-validator";
 import { observer } from "mobx-react-lite";
 import { GeneralConfig, initGeneralConfig } from "../Config";
-import { Format } from "../Format";
+import { ExportContext, Format } from "../Format";
 import { PanelBox } from "@src/app/component.blocks/PanelBox";
-import { getNamedCoordinateSystems } from "@src/core/CoordinateSystem";
+import { ValidateCoordinateSystemName } from "@src/core/CoordinateSystem";
+import { getTemplateSetError } from "@src/token/Template";
 
 interface FormatWithExportCode extends Format {
-  exportCode(): string;
+  exportCode(context: ExportContext): string;
 }
 
 const logger = Logger("Move-to-Point Code Gen v0.1.x");
 
 const EditOutputTemplateConfirmationDescription = observer((props: { value: IObservableValue<string> }) => {
+  const error = getTemplateSetError(props.value.get());
+
   return (
     <>
       <Typography>Edit the output template to generate your own code.</Typography>
+      <Typography variant="body2" color="text.secondary">
+        Tags: if, elif, else, for ... in ... and end. Functions: fixed(value, digits), round, unit(value, "in") and
+        more. Variables: name, code, segments and points in path; index, fromX, fromY, x, y, distance, heading and speed
+        in moveToPoint; marker and distance in marker.
+      </Typography>
       <TextField
         InputLabelProps={{ shrink: true }}
         size="small"
         sx={{ width: "100%" }}
         multiline
-        maxRows={4}
+        maxRows={12}
+        error={error !== undefined}
+        helperText={error}
         value={props.value.get()}
         onChange={event => props.value.set(event.target.value)}
         data-gramm="false" // disable grammarly
@@ -42,15 +53,16 @@ const EditOutputTemplateConfirmationDescription = observer((props: { value: IObs
 const GeneralConfigPanel = observer((props: { config: GeneralConfigImpl }) => {
   const { config } = props;
 
-  const { confirmation, ui } = getAppStores();
+  const { app, confirmation, ui } = getAppStores();
 
   const isUsingEditor = !confirmation.isOpen && !ui.isOpeningModal;
 
   const onCopyCode = action(() => {
     try {
-      const code = config.format.exportCode();
+      const code = config.format.exportCode(app);
 
       navigator.clipboard.writeText(code);
+      setLastCopiedCode(code);
 
       enqueueSuccessSnackbar(logger, "Copied");
     } catch (e) {
@@ -125,7 +137,7 @@ export class GeneralConfigImpl implements GeneralConfig {
   @Expose()
   fieldImage: FieldImageSignatureAndOrigin<FieldImageOriginType> =
     getDefaultBuiltInFieldImage().getSignatureAndOrigin();
-  @IsIn(getNamedCoordinateSystems().map(s => s.name))
+  @ValidateCoordinateSystemName()
   @Expose()
   coordinateSystem: string = "VEX Gaming Positioning System";
   @IsString()
@@ -134,7 +146,8 @@ export class GeneralConfigImpl implements GeneralConfig {
 
 \${code}
 \`
-moveToPoint: \`moveToPoint(\${x}, \${y}, \${heading}, \${speed});\``;
+moveToPoint: \`moveToPoint(\${x}, \${y}, \${heading}, \${speed});\`
+marker: \`// \${marker}\``;
 
   @Exclude()
   private format_: FormatWithExportCode;
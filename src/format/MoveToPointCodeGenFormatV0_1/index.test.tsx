@@ -0,0 +1,29 @@
+import { getAppStores } from "@core/MainApp";
+import { EndControl, EventMarker, Segment } from "@core/Path";
+import { MoveToPointCodeGenFormatV0_1 } from ".";
+import { GeneralConfigImpl } from "./GeneralConfig";
+
+test("dummy", () => {
+  getAppStores(); // suppress constructor error
+});
+
+test("export markers", () => {
+  const format = new MoveToPointCodeGenFormatV0_1();
+  const path = format.createPath(new Segment(new EndControl(0, 0, 0), new EndControl(0, 60, 0)));
+  path.name = "Test";
+  path.segments[0].marker.list.push(new EventMarker(0.5, "Intake"));
+
+  const context = {
+    routines: [],
+    paths: [path],
+    fieldImageAsset: undefined as any,
+    interestedPath: () => path,
+    exportPDJData: () => ({})
+  };
+  expect(format.exportCode(context)).toBe("// Test\n\n// Intake\nmoveToPoint(0, 60, 0, 30);\n\n");
+
+  // the markers are skipped without the marker template
+  const gc = format.getGeneralConfig() as GeneralConfigImpl;
+  gc.outputTemplate = gc.outputTemplate.replace(/\nmarker: .*$/, "");
+  expect(format.exportCode(context)).toBe("// Test\n\nmoveToPoint(0, 60, 0, 30);\n\n");
+});
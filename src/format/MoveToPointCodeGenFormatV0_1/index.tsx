@@ -1,14 +1,15 @@
 import { makeAutoObservable } from "mobx";
-import { MainApp, getAppStores } from "@core/MainApp";
+import { MainApp } from "@core/MainApp";
 import { makeId } from "@core/Util";
 import { Quantity } from "@core/Unit";
 import { GeneralConfig, convertFormat } from "../Config";
-import { Format, importPDJDataFromTextFile } from "../Format";
+import { CodeSource, ExportContext, Format, GeneratedCode, importPDJDataFromTextFile } from "../Format";
 import { AddCubicSegment, AddLinearSegment, ConvertSegment, InsertControls, InsertPaths } from "@core/Command";
 import { PointCalculationResult, getPathPoints } from "@core/Calculation";
 import { EndControl, Path, Segment, SegmentVariant } from "@core/Path";
-import { BackQuoteString, CodePointBuffer } from "@token/Tokens";
+import { TemplateVariables, parseTemplateSet } from "@token/Template";
 import { UserInterface } from "@core/Layout";
+import { OutputPreviewPanel } from "@app/common.blocks/panel/OutputPreviewPanel";
 import { PathConfigImpl, PathConfigPanel } from "./PathConfig";
 import { GeneralConfigImpl } from "./GeneralConfig";
 
@@ -64,7 +65,8 @@ export class MoveToPointCodeGenFormatV0_1 implements Format {
           event.command.inserting = event.command.inserting.filter(control => control instanceof EndControl);
         }
       }),
-      ui.registerPanel(PathConfigPanel).disposer
+      ui.registerPanel(PathConfigPanel).disposer,
+      ui.registerPanel(OutputPreviewPanel).disposer
     );
   }
 
@@ -116,87 +118,108 @@ export class MoveToPointCodeGenFormatV0_1 implements Format {
     return importPDJDataFromTextFile(buffer);
   }
 
-  private getTemplatesSet(): { [key: string]: string } {
-    const template = this.gc.outputTemplate;
-    const rtn: { [key: string]: string } = {};
-
-    const cpb = new CodePointBuffer(template);
-
-    while (cpb.hasNext()) {
-      const key = cpb.readSafeChunk();
-      const colon = cpb.next();
-
-      if (key === "" || colon !== ":") {
-        // skip this line
-        while (cpb.hasNext() && cpb.next() !== "\n") {}
-        continue;
-      }
-
-      cpb.readDelimiter();
-
-      const value = BackQuoteString.parse(cpb);
-      if (value === null) break;
-
-      rtn[key] = value.content;
-
-      // skip this line
-      while (cpb.hasNext() && cpb.next() !== "\n") {}
-    }
-
-    return rtn;
-  }
+  private getSegmentVariables(path: Path): TemplateVariables[] {
+    const pc = path.pc as PathConfigImpl;
 
-  private applyTemplate(template: string, values: { [key: string]: number | boolean | string }): string {
-    return template.replace(/\${([^}]+)}/g, (_, key) => (values[key] ?? "") + "");
+    return path.segments.map((segment, index) => {
+      const first = segment.first;
+      const last = segment.last;
+      const distance = first.distance(last);
+
+      return {
+        index,
+        fromX: first.x.toUser(),
+        fromY: first.y.toUser(),
+        x: last.x.toUser(),
+        y: last.y.toUser(),
+        distance: distance.toUser(),
+        heading: last.heading.toUser(),
+        speed: pc.speed,
+        // ALGO: The distance is measured from the beginning of the segment to the marker
+        markers: segment.marker.list.map(marker => ({
+          marker: marker.name,
+          distance: (distance * marker.xPos).toUser()
+        }))
+      };
+    });
   }
 
-  private exportHolonomicMovementCode(path: Path, templates: { [key: string]: string }) {
+  private exportHolonomicMovementCode(
+    path: Path,
+    segments: TemplateVariables[],
+    render: (name: string, variables: TemplateVariables) => string,
+    hasMarkerTemplate: boolean
+  ): GeneratedCode {
     let rtn = "";
+    const sources: CodeSource[] = [];
 
-    const pc = path.pc as PathConfigImpl;
+    path.segments.forEach((segment, index) => {
+      const variables = segments[index];
+      const start = rtn.length;
 
-    for (const segment of path.segments) {
-      const last = segment.last;
+      // ALGO: Markers are emitted before the movement of the segment they are placed on
+      // The markers are skipped if the marker template is not defined
+      for (const marker of hasMarkerTemplate ? (variables.markers as TemplateVariables[]) : []) {
+        rtn += render("marker", { ...variables, ...marker }) + "\n";
+      }
 
-      const nextHeading = last.heading;
+      rtn += render("moveToPoint", variables) + "\n";
 
-      rtn +=
-        this.applyTemplate(templates.moveToPoint ?? "", {
-          x: last.x.toUser(),
-          y: last.y.toUser(),
-          heading: nextHeading.toUser(),
-          speed: pc.speed
-        }) + "\n";
-    }
+      sources.push({ start, end: rtn.length, path, segment });
+    });
 
-    return rtn;
+    return { code: rtn, sources };
   }
 
-  exportCode(): string {
-    const { app } = getAppStores();
-
+  /**
+   * @throws TemplateError if the output template can not be rendered
+   */
+  generateCode(context: ExportContext): GeneratedCode {
     let rtn = "";
+    const sources: CodeSource[] = [];
+
+    const templates = parseTemplateSet(this.gc.outputTemplate, true);
+    const options = { uol: this.gc.uol };
+    const render = (name: string, variables: TemplateVariables) => templates[name]?.render(variables, options) ?? "";
+
+    context.paths.forEach(path => {
+      const segments = this.getSegmentVariables(path);
+      const points = this.getPathPoints(path).points.map(point => ({
+        x: point.x.toUser(),
+        y: point.y.toUser(),
+        heading: (point.holonomicHeading ?? point.heading)?.toUser()
+      }));
+
+      const movement = this.exportHolonomicMovementCode(path, segments, render, templates.marker !== undefined);
+      const output = render("path", { name: path.name, code: movement.code, segments, points });
+
+      // ALGO: The sources of the movement code are shifted if the code is found in the output of the path template
+      const offset = movement.code === "" ? -1 : output.indexOf(movement.code);
+      if (offset !== -1) {
+        const shift = rtn.length + offset;
+        sources.push(...movement.sources.map(s => ({ ...s, start: s.start + shift, end: s.end + shift })));
+      }
+      sources.push({ start: rtn.length, end: rtn.length + output.length, path });
 
-    const templates = this.getTemplatesSet();
-
-    app.paths.forEach(path => {
-      rtn += this.applyTemplate(templates.path ?? "", {
-        name: path.name,
-        code: this.exportHolonomicMovementCode(path, templates)
-      });
+      rtn += output;
     });
 
-    return rtn;
+    return { code: rtn, sources };
   }
 
-  exportFile(): ArrayBuffer {
-    const { app } = getAppStores();
+  /**
+   * @throws TemplateError if the output template can not be rendered
+   */
+  exportCode(context: ExportContext): string {
+    return this.generateCode(context).code;
+  }
 
-    let fileContent = this.exportCode();
+  exportFile(context: ExportContext): ArrayBuffer {
+    let fileContent = this.exportCode(context);
 
     fileContent += "\n";
 
-    fileContent += "#PATH.JERRYIO-DATA " + JSON.stringify(app.exportPDJData());
+    fileContent += "#PATH.JERRYIO-DATA " + JSON.stringify(context.exportPDJData());
 
     return new TextEncoder().encode(fileContent);
   }
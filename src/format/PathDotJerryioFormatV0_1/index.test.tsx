@@ -0,0 +1,102 @@
+import { getAppStores } from "@core/MainApp";
+import { Control, EndControl, Segment } from "@core/Path";
+import { ConstraintType } from "@core/Constraint";
+import { PathDotJerryioFormatV0_1 } from ".";
+import { TextDecoder, TextEncoder } from "util";
+
+Object.assign(global, { TextDecoder, TextEncoder }); // jsdom does not provide them
+
+test("dummy", () => {
+  getAppStores(); // suppress constructor error
+});
+
+test("import paths from file without path.jerryio data", () => {
+  const { app } = getAppStores();
+  const format = new PathDotJerryioFormatV0_1();
+  app.format = format;
+
+  const path1 = format.createPath();
+  path1.name = "Path 1";
+  path1.segments.push(
+    new Segment(new EndControl(-60, -60, 0), new Control(-60, 0), new Control(0, 0), new EndControl(0, 60, 90))
+  );
+  path1.segments.push(new Segment(path1.segments[0].last, new EndControl(60, 60, 90)));
+
+  const path2 = format.createPath();
+  path2.name = "Path 2";
+  path2.segments.push(new Segment(new EndControl(0, 0, 0), new EndControl(0, 100, 0)));
+
+  app.paths.push(path1, path2);
+
+  // ALGO: Remove the path.jerryio data
+  const fileContent = new TextDecoder().decode(format.exportFile(app));
+  const buffer = new TextEncoder().encode(
+    fileContent
+      .split("\n")
+      .filter(line => !line.startsWith("#PATH.JERRYIO-DATA"))
+      .join("\n")
+  );
+
+  expect(format.importPDJDataFromFile(buffer)).toBeUndefined();
+
+  const paths = format.importPathsFromFile(buffer);
+  expect(paths.length).toBe(2);
+  expect(paths[0].name).toBe("Path 1");
+  expect(paths[1].name).toBe("Path 2");
+
+  expect(paths[0].segments.length).toBeGreaterThanOrEqual(2);
+  expect(paths[0].segments[0].isCubic()).toBe(true);
+  expect(paths[0].segments[paths[0].segments.length - 1].isLinear()).toBe(true);
+  expect(paths[0].segments[0].first.heading).toBe(0);
+  expect(paths[0].segments[paths[0].segments.length - 1].last.heading).toBe(90);
+
+  expect(paths[1].segments.length).toBe(1);
+  expect(paths[1].segments[0].isLinear()).toBe(true);
+  expect(paths[1].segments[0].last.y).toBe(100);
+
+  // ALGO: The reconstructed path produces similar points and speeds
+  const points1 = path1.cachedResult.points;
+  const points2 = format.getPathPoints(paths[0]).points;
+  expect(Math.abs(points2.length - points1.length)).toBeLessThanOrEqual(2);
+  for (const point of points2) {
+    const closest = Math.min(...points1.map(p => p.distance(point)));
+    expect(closest).toBeLessThan(format.getGeneralConfig().pointDensity);
+  }
+  expect(paths[0].pc.speedLimit.to).toBe(path1.pc.speedLimit.to);
+});
+
+test("import paths from invalid file", () => {
+  const format = new PathDotJerryioFormatV0_1();
+
+  expect(() => format.importPathsFromFile(new TextEncoder().encode("1,2,3\n"))).toThrowError();
+  expect(() => format.importPathsFromFile(new TextEncoder().encode("#PATH-POINTS-START Path\n1,a,3\n"))).toThrowError(
+    /line 2/
+  );
+});
+
+test("import paths from file without path.jerryio data resets the project", async () => {
+  const { app } = getAppStores();
+  app.format = new PathDotJerryioFormatV0_1();
+  app.newFile();
+
+  const a = new EndControl(0, 0, 0);
+  const b = new EndControl(0, 100, 0);
+  app.paths.push(app.format.createPath(new Segment(a, b)));
+  app.constraints = [{ type: ConstraintType.Distance, target: b.uid, anchor: a.uid, distance: 100 }];
+  app.variables = [{ name: "offset", value: "10" }];
+
+  const fileContent = new TextDecoder().decode(app.exportFile());
+  const buffer = new TextEncoder().encode(
+    fileContent
+      .split("\n")
+      .filter(line => !line.startsWith("#PATH.JERRYIO-DATA"))
+      .join("\n")
+  );
+
+  await app.importFile(buffer);
+  expect(app.paths).toHaveLength(1);
+  expect(app.constraints).toEqual([]);
+  expect(app.variables).toEqual([]);
+
+  app.newFile();
+});
@@ -3,13 +3,14 @@ import { MainApp, getAppStores } from "@core/MainApp";
 import { makeId } from "@core/Util";
 import { Quantity, UnitConverter, UnitOfLength } from "@core/Unit";
 import { GeneralConfig, convertFormat } from "../Config";
-import { Format, importPDJDataFromTextFile } from "../Format";
+import { ExportContext, Format, importPDJDataFromTextFile } from "../Format";
 import { PointCalculationResult, getPathPoints } from "@core/Calculation";
 import { Path, Segment } from "@core/Path";
 import { isCoordinateWithHeading } from "@core/Coordinate";
 import { GeneralConfigImpl } from "./GeneralConfig";
 import { PathConfigImpl, PathConfigPanel } from "./PathConfig";
 import { UserInterface } from "@core/Layout";
+import { FittingPoint, fitPathFromPoints, fitSpeedLimitFromPoints } from "@core/CurveFitting";
 
 // observable class
 export class PathDotJerryioFormatV0_1 implements Format {
@@ -65,22 +66,58 @@ export class PathDotJerryioFormatV0_1 implements Format {
   }
 
   importPathsFromFile(buffer: ArrayBuffer): Path[] {
-    throw new Error("Unable to import paths from this format, try other formats?");
+    const { appPreferences } = getAppStores();
+
+    const fileContent = new TextDecoder().decode(buffer);
+    const lines = fileContent.split("\n");
+
+    const uc = new UnitConverter(UnitOfLength.Centimeter, this.gc.uol);
+    const tolerance = new UnitConverter(UnitOfLength.Millimeter, this.gc.uol).fromAtoB(
+      appPreferences.curveFittingTolerance
+    );
+
+    const blocks: { name: string; points: FittingPoint[] }[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (line.startsWith("#PATH-POINTS-START")) {
+        blocks.push({ name: line.substring("#PATH-POINTS-START".length).trim(), points: [] });
+        continue;
+      }
+      if (line === "" || line.startsWith("#") || blocks.length === 0) continue;
+
+      const tokens = line.split(",").map(token => Number(token));
+      if ((tokens.length !== 3 && tokens.length !== 4) || tokens.some(token => isNaN(token)))
+        throw new Error("Invalid file format, unable to parse point at line " + (i + 1));
+
+      const [x, y, speed, heading] = tokens;
+      blocks[blocks.length - 1].points.push({ x: uc.fromAtoB(x), y: uc.fromAtoB(y), speed, heading });
+    }
+    if (blocks.length === 0) throw new Error("Invalid file format, unable to find line '#PATH-POINTS-START'");
+
+    return blocks.map(block => {
+      const path = this.createPath();
+      path.name = block.name || "Path";
+
+      fitSpeedLimitFromPoints(path, block.points);
+
+      return fitPathFromPoints(path, block.points, {
+        tolerance,
+        speedTolerance: (path.pc.speedLimit.to - path.pc.speedLimit.from) / 100
+      });
+    });
   }
 
   importPDJDataFromFile(buffer: ArrayBuffer): Record<string, any> | undefined {
     return importPDJDataFromTextFile(buffer);
   }
 
-  exportFile(): ArrayBuffer {
-    const { app } = getAppStores();
-
+  exportFile(context: ExportContext): ArrayBuffer {
     let fileContent = "";
 
-    const uc = new UnitConverter(app.gc.uol, UnitOfLength.Centimeter);
-    const density = new Quantity(app.gc.pointDensity, app.gc.uol);
+    const uc = new UnitConverter(this.gc.uol, UnitOfLength.Centimeter);
+    const density = new Quantity(this.gc.pointDensity, this.gc.uol);
 
-    for (const path of app.paths) {
+    for (const path of context.paths) {
       fileContent += `#PATH-POINTS-START ${path.name}\n`;
 
       const points = getPathPoints(path, density).points;
@@ -93,7 +130,7 @@ export class PathDotJerryioFormatV0_1 implements Format {
       }
     }
 
-    fileContent += "#PATH.JERRYIO-DATA " + JSON.stringify(app.exportPDJData());
+    fileContent += "#PATH.JERRYIO-DATA " + JSON.stringify(context.exportPDJData());
 
     return new TextEncoder().encode(fileContent);
   }
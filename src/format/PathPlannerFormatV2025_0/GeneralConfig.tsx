@@ -0,0 +1,117 @@
+import { makeAutoObservable, action } from "mobx";
+import { Button, Typography } from "@mui/material";
+import { enqueueErrorSnackbar } from "@src/app/Notice";
+import { FieldImageSignatureAndOrigin, FieldImageOriginType, getDefaultBuiltInFieldImage } from "@core/Asset";
+import { getAppStores } from "@core/MainApp";
+import { downloadFile } from "@core/InputOutput";
+import { Logger } from "@core/Logger";
+import { Path } from "@core/Path";
+import { UnitOfLength } from "@core/Unit";
+import { ValidateNumber } from "@core/Util";
+import { Expose, Exclude, Type } from "class-transformer";
+import { IsPositive, IsBoolean, ValidateNested, IsObject } from "class-validator";
+import { observer } from "mobx-react-lite";
+import { GeneralConfig, initGeneralConfig } from "../Config";
+import { ExportContext, Format } from "../Format";
+import { PanelBox } from "@src/app/component.blocks/PanelBox";
+import { ValidateCoordinateSystemName } from "@src/core/CoordinateSystem";
+
+interface FormatWithExportPathPlannerFiles extends Format {
+  exportPathFile(context: ExportContext, path: Path): ArrayBuffer;
+  exportAutoFile(context: ExportContext): ArrayBuffer;
+}
+
+const logger = Logger("PathPlanner v2025.0.x");
+
+const GeneralConfigPanel = observer((props: { config: GeneralConfigImpl }) => {
+  const { config } = props;
+
+  const { app } = getAppStores();
+
+  const onDownloadPaths = action(() => {
+    try {
+      for (const path of app.paths) {
+        downloadFile(config.format.exportPathFile(app, path), path.name + ".path");
+      }
+    } catch (e) {
+      enqueueErrorSnackbar(logger, e);
+    }
+  });
+
+  const onDownloadAuto = action(() => {
+    try {
+      const name = app.mountingFile.name.replace(/\.(path|auto)$/, "");
+      downloadFile(config.format.exportAutoFile(app), name + ".auto");
+    } catch (e) {
+      enqueueErrorSnackbar(logger, e);
+    }
+  });
+
+  return (
+    <>
+      <Typography marginTop="16px">Export Settings</Typography>
+      <Typography variant="body2" color="grey">
+        Each path is saved as a .path file. The .auto file runs all paths in order by their names.
+      </Typography>
+      <PanelBox marginTop="16px">
+        <Button variant="contained" onClick={onDownloadPaths} disabled={app.paths.length === 0}>
+          Download Path Files
+        </Button>
+        <Button variant="text" onClick={onDownloadAuto} disabled={app.paths.length === 0}>
+          Download Auto
+        </Button>
+      </PanelBox>
+    </>
+  );
+});
+
+// observable class
+export class GeneralConfigImpl implements GeneralConfig {
+  @IsPositive()
+  @Expose()
+  robotWidth: number = 30;
+  @IsPositive()
+  @Expose()
+  robotHeight: number = 30;
+  @IsBoolean()
+  @Expose()
+  robotIsHolonomic: boolean = true;
+  @IsBoolean()
+  @Expose()
+  showRobot: boolean = false;
+  @ValidateNumber(num => num > 0 && num <= 1000) // Don't use IsEnum
+  @Expose()
+  uol: UnitOfLength = UnitOfLength.Centimeter;
+  @IsPositive()
+  @Expose()
+  pointDensity: number = 2;
+  @IsPositive()
+  @Expose()
+  controlMagnetDistance: number = 5;
+  @Type(() => FieldImageSignatureAndOrigin)
+  @ValidateNested()
+  @IsObject()
+  @Expose()
+  fieldImage: FieldImageSignatureAndOrigin<FieldImageOriginType> =
+    getDefaultBuiltInFieldImage().getSignatureAndOrigin();
+  @ValidateCoordinateSystemName()
+  @Expose()
+  coordinateSystem: string = "VEX Gaming Positioning System";
+  @Exclude()
+  private format_: FormatWithExportPathPlannerFiles;
+
+  constructor(format: FormatWithExportPathPlannerFiles) {
+    this.format_ = format;
+    makeAutoObservable(this);
+
+    initGeneralConfig(this);
+  }
+
+  get format() {
+    return this.format_;
+  }
+
+  getAdditionalConfigUI() {
+    return <GeneralConfigPanel config={this} />;
+  }
+}
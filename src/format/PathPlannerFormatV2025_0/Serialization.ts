@@ -0,0 +1,374 @@
+import {
+  fromAngleInRadianToHeadingInDegree,
+  fromDegreeToRadian,
+  fromHeadingInDegreeToAngleInRadian,
+  fromRadiansToDegree
+} from "@core/Calculation";
+import { Control, EndControl, HeadingKeyframe, Path, Segment, SpeedKeyframe, Vector } from "@core/Path";
+import { UnitConverter, UnitOfLength } from "@core/Unit";
+import { PathConfigImpl } from "./PathConfig";
+
+export namespace PathPlanner {
+  export interface Translation {
+    x: number; // m
+    y: number; // m
+  }
+
+  export interface Waypoint {
+    anchor: Translation;
+    prevControl: Translation | null;
+    nextControl: Translation | null;
+    isLocked: boolean;
+    linkedName: string | null;
+  }
+
+  export interface RotationTarget {
+    waypointRelativePos: number;
+    rotationDegrees: number; // counterclockwise from the positive x-axis
+    rotation?: number; // ALGO: Used instead of "rotationDegrees" in PathPlanner 2024
+  }
+
+  export interface Constraints {
+    maxVelocity: number; // m/s
+    maxAcceleration: number; // m/s^2
+    maxAngularVelocity: number; // deg/s
+    maxAngularAcceleration: number; // deg/s^2
+    nominalVoltage?: number;
+    unlimited?: boolean;
+  }
+
+  export interface ConstraintZone {
+    name: string;
+    minWaypointRelativePos: number;
+    maxWaypointRelativePos: number;
+    constraints: Constraints;
+  }
+
+  export interface State {
+    velocity: number; // m/s
+    rotation: number; // counterclockwise from the positive x-axis
+  }
+
+  export interface PathFile {
+    version: string;
+    waypoints: Waypoint[];
+    rotationTargets: RotationTarget[];
+    constraintZones: ConstraintZone[];
+    pointTowardsZones: unknown[];
+    eventMarkers: unknown[];
+    globalConstraints: Constraints;
+    goalEndState: State;
+    reversed: boolean;
+    folder: string | null;
+    idealStartingState: State;
+    previewStartingState?: State; // ALGO: Used instead of "idealStartingState" in PathPlanner 2024 and earlier
+    useDefaultConstraints: boolean;
+    pathJerryioData?: Record<string, any>; // Ignored by PathPlanner
+  }
+
+  export interface Command {
+    type: string;
+    data: Record<string, any>;
+  }
+
+  export interface AutoFile {
+    version: string;
+    command: Command;
+    resetOdom: boolean;
+    folder: string | null;
+    choreoAuto: boolean;
+  }
+
+  /**
+   * Describes how the PathPlanner field coordinates are placed in the path.jerryio coordinates
+   */
+  export interface CoordinateMapping {
+    uol: UnitOfLength; // The unit of length of the path
+    origin: Vector; // The position of the PathPlanner origin in the unit of length of the path
+  }
+
+  export const FILE_VERSION = "2025.0";
+
+  function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+
+  function isFiniteNumber(value: unknown): value is number {
+    return typeof value === "number" && isFinite(value);
+  }
+
+  function isTranslation(value: unknown): value is Translation {
+    return isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+  }
+
+  function isStateWithRotation(value: unknown): value is State {
+    return isObject(value) && isFiniteNumber(value.rotation);
+  }
+
+  export function isAutoFile(data: unknown): data is AutoFile {
+    return isObject(data) && isObject(data.command) && typeof data.command.type === "string";
+  }
+
+  export function isPathFile(data: unknown): data is PathFile {
+    return isObject(data) && Array.isArray(data.waypoints);
+  }
+
+  export function hasPDJData(data: PathFile): data is PathFile & Required<Pick<PathFile, "pathJerryioData">> {
+    return isObject(data.pathJerryioData);
+  }
+
+  export function toTranslation(vec: Vector, mapping: CoordinateMapping): Translation {
+    const uc = new UnitConverter(mapping.uol, UnitOfLength.Meter);
+    return {
+      x: uc.fromAtoB(vec.x - mapping.origin.x).toUser(4),
+      y: uc.fromAtoB(vec.y - mapping.origin.y).toUser(4)
+    };
+  }
+
+  export function fromTranslation(translation: Translation, mapping: CoordinateMapping): Vector {
+    const uc = new UnitConverter(UnitOfLength.Meter, mapping.uol);
+    return new Vector(uc.fromAtoB(translation.x) + mapping.origin.x, uc.fromAtoB(translation.y) + mapping.origin.y);
+  }
+
+  /**
+   * @param heading The heading in degrees, starting from north and increasing clockwise
+   * @returns The rotation in degrees (-180, 180], starting from east and increasing counterclockwise
+   */
+  export function toRotation(heading: number): number {
+    return fromRadiansToDegree(fromHeadingInDegreeToAngleInRadian(heading));
+  }
+
+  /**
+   * @param rotation The rotation in degrees, starting from east and increasing counterclockwise
+   * @returns The heading in degrees [0, 360), starting from north and increasing clockwise
+   */
+  export function fromRotation(rotation: number): number {
+    return fromAngleInRadianToHeadingInDegree(fromDegreeToRadian(rotation));
+  }
+
+  function toConstraints(pc: PathConfigImpl, maxVelocity: number): Constraints {
+    return {
+      maxVelocity,
+      maxAcceleration: pc.maxAcceleration,
+      maxAngularVelocity: pc.maxAngularVelocity,
+      maxAngularAcceleration: pc.maxAngularAcceleration,
+      nominalVoltage: 12.0,
+      unlimited: false
+    };
+  }
+
+  export function writePath(path: Path, mapping: CoordinateMapping): PathFile {
+    const pc = path.pc as PathConfigImpl;
+    const segments = path.segments;
+    if (segments.length === 0) throw new Error(`Path "${path.name}" has no segment`);
+
+    // ALGO: A linear segment is a cubic segment with control points on the line
+    const lerp = (a: Vector, b: Vector, t: number) => new Vector(a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t);
+    const getControls = (segment: Segment): [Vector, Vector] =>
+      segment.isCubic()
+        ? [segment.controls[1], segment.controls[2]]
+        : [lerp(segment.first, segment.last, 1 / 3), lerp(segment.first, segment.last, 2 / 3)];
+
+    const waypoints: Waypoint[] = [];
+    for (let i = 0; i <= segments.length; i++) {
+      const prev = segments[i - 1];
+      const next = segments[i];
+      const anchor = next?.first ?? prev.last;
+      waypoints.push({
+        anchor: toTranslation(anchor, mapping),
+        prevControl: prev ? toTranslation(getControls(prev)[1], mapping) : null,
+        nextControl: next ? toTranslation(getControls(next)[0], mapping) : null,
+        isLocked: false,
+        linkedName: null
+      });
+    }
+
+    const rotationTargets: RotationTarget[] = [];
+    for (let i = 1; i < segments.length; i++) {
+      rotationTargets.push({ waypointRelativePos: i, rotationDegrees: toRotation(segments[i].first.heading) });
+    }
+    // ALGO: Each heading keyframe becomes a rotation target in the middle of the segment
+    segments.forEach((segment, idx) => {
+      segment.heading.list.forEach(kf => {
+        rotationTargets.push({
+          waypointRelativePos: (idx + kf.xPos).toUser(),
+          rotationDegrees: toRotation(kf.heading)
+        });
+      });
+    });
+    rotationTargets.sort((a, b) => a.waypointRelativePos - b.waypointRelativePos);
+
+    // ALGO: Each speed keyframe below the maximum speed becomes a constraint zone until the next keyframe
+    const speedFrom = pc.speedLimit.from;
+    const speedTo = pc.speedLimit.to;
+    const keyframes = segments.flatMap((segment, idx) =>
+      segment.speed.list
+        .slice()
+        .sort((a, b) => a.xPos - b.xPos)
+        .map(kf => ({ pos: idx + kf.xPos, velocity: speedFrom + kf.yPos * (speedTo - speedFrom) }))
+    );
+    const constraintZones: ConstraintZone[] = [];
+    keyframes.forEach((kf, idx) => {
+      if (kf.velocity >= speedTo) return;
+      constraintZones.push({
+        name: "Constraints Zone",
+        minWaypointRelativePos: kf.pos.toUser(),
+        maxWaypointRelativePos: (keyframes[idx + 1]?.pos ?? segments.length).toUser(),
+        constraints: toConstraints(pc, kf.velocity.toUser())
+      });
+    });
+
+    return {
+      version: FILE_VERSION,
+      waypoints,
+      rotationTargets,
+      constraintZones,
+      pointTowardsZones: [],
+      eventMarkers: [],
+      globalConstraints: toConstraints(pc, speedTo),
+      goalEndState: { velocity: 0, rotation: toRotation(segments[segments.length - 1].last.heading) },
+      reversed: false,
+      folder: null,
+      idealStartingState: { velocity: 0, rotation: toRotation(segments[0].first.heading) },
+      useDefaultConstraints: false
+    };
+  }
+
+  /**
+   * SECURITY: The input is not safe, the data is validated before use
+   *
+   * @throws Error if the data is not a valid PathPlanner path file
+   * @param data The parsed JSON data
+   * @param path The empty path to fill in
+   * @param mapping The coordinate mapping
+   * @returns The given path
+   */
+  export function readPath(data: unknown, path: Path, mapping: CoordinateMapping): Path {
+    if (!isPathFile(data)) throw new Error("Invalid PathPlanner path file, waypoints not found");
+
+    const waypoints = data.waypoints;
+    if (waypoints.length < 2) throw new Error("Invalid PathPlanner path file, at least 2 waypoints are required");
+
+    for (const waypoint of waypoints) {
+      if (!isObject(waypoint) || !isTranslation(waypoint.anchor))
+        throw new Error("Invalid PathPlanner path file, waypoint anchor is not a translation");
+    }
+
+    const rotations = new Map<number, number>();
+    if (isStateWithRotation(data.idealStartingState)) rotations.set(0, data.idealStartingState.rotation);
+    else if (isStateWithRotation(data.previewStartingState)) rotations.set(0, data.previewStartingState.rotation);
+    if (isStateWithRotation(data.goalEndState)) rotations.set(waypoints.length - 1, data.goalEndState.rotation);
+
+    // ALGO: Rotation targets at the waypoints are represented by the heading of end controls
+    // Rotation targets in the middle of a segment are represented by heading keyframes
+    const headingKeyframes: { pos: number; rotation: number }[] = [];
+    for (const target of Array.isArray(data.rotationTargets) ? data.rotationTargets : []) {
+      if (!isObject(target) || !isFiniteNumber(target.waypointRelativePos)) continue;
+      const rotation = target.rotationDegrees ?? target.rotation;
+      if (!isFiniteNumber(rotation)) continue;
+
+      const idx = Math.round(target.waypointRelativePos);
+      if (Math.abs(idx - target.waypointRelativePos) > 1e-3) {
+        headingKeyframes.push({ pos: target.waypointRelativePos, rotation });
+        continue;
+      }
+      if (rotations.has(idx)) continue;
+      rotations.set(idx, rotation);
+    }
+
+    // ALGO: Waypoints without rotation target keep the heading of the previous waypoint
+    const endControls: EndControl[] = [];
+    let lastHeading = 0;
+    for (let i = 0; i < waypoints.length; i++) {
+      const rotation = rotations.get(i);
+      if (rotation !== undefined) lastHeading = fromRotation(rotation);
+      const anchor = fromTranslation(waypoints[i].anchor, mapping);
+      endControls.push(new EndControl(anchor.x, anchor.y, lastHeading));
+    }
+
+    for (let i = 0; i < waypoints.length - 1; i++) {
+      const first = endControls[i];
+      const last = endControls[i + 1];
+      const next = waypoints[i].nextControl;
+      const prev = waypoints[i + 1].prevControl;
+
+      if (!isTranslation(next) || !isTranslation(prev)) {
+        path.segments.push(new Segment(first, last));
+        continue;
+      }
+
+      const c1 = fromTranslation(next, mapping);
+      const c2 = fromTranslation(prev, mapping);
+      path.segments.push(new Segment(first, new Control(c1.x, c1.y), new Control(c2.x, c2.y), last));
+    }
+
+    for (const { pos, rotation } of headingKeyframes) {
+      const idx = Math.floor(pos);
+      const segment = path.segments[idx];
+      if (segment === undefined || pos < 0) continue;
+      segment.heading.add(new HeadingKeyframe(pos - idx, fromRotation(rotation)));
+    }
+
+    const pc = path.pc as PathConfigImpl;
+    const global = data.globalConstraints;
+    if (isObject(global)) {
+      if (isFiniteNumber(global.maxVelocity) && global.maxVelocity > 0) {
+        pc.speedLimit = {
+          ...pc.speedLimit,
+          maxLimit: {
+            value: Math.max(pc.speedLimit.maxLimit.value, global.maxVelocity),
+            label: Math.max(pc.speedLimit.maxLimit.value, global.maxVelocity) + ""
+          },
+          from: Math.min(pc.speedLimit.from, global.maxVelocity),
+          to: global.maxVelocity
+        };
+      }
+      if (isFiniteNumber(global.maxAcceleration) && global.maxAcceleration > 0)
+        pc.maxAcceleration = global.maxAcceleration;
+      if (isFiniteNumber(global.maxAngularVelocity) && global.maxAngularVelocity > 0)
+        pc.maxAngularVelocity = global.maxAngularVelocity;
+      if (isFiniteNumber(global.maxAngularAcceleration) && global.maxAngularAcceleration > 0)
+        pc.maxAngularAcceleration = global.maxAngularAcceleration;
+    }
+
+    // ALGO: Each constraint zone becomes two speed keyframes, one at the beginning and one at the end of the zone
+    // ALGO: Adjacent zones share a position, the beginning of the next zone takes precedence over the end of the previous one
+    const speedFrom = pc.speedLimit.from;
+    const speedTo = pc.speedLimit.to;
+    const addKeyframe = (pos: number, yPos: number) => {
+      const idx = Math.floor(pos);
+      const segment = path.segments[idx];
+      if (segment === undefined || pos < 0) return;
+      const xPos = pos - idx;
+      if (segment.speed.list.some(kf => Math.abs(kf.xPos - xPos) < 1e-6)) return;
+      segment.speed.add(new SpeedKeyframe(xPos, Math.min(Math.max(yPos, 0), 1)));
+    };
+    const zones: { min: number; max: number; velocity: number }[] = [];
+    for (const zone of Array.isArray(data.constraintZones) ? data.constraintZones : []) {
+      if (!isObject(zone) || !isObject(zone.constraints)) continue;
+      const { minWaypointRelativePos: min, maxWaypointRelativePos: max } = zone;
+      const velocity = zone.constraints.maxVelocity;
+      if (!isFiniteNumber(min) || !isFiniteNumber(max) || !isFiniteNumber(velocity) || min >= max) continue;
+      zones.push({ min, max, velocity });
+    }
+    zones.forEach(({ min, velocity }) => addKeyframe(min, (velocity - speedFrom) / (speedTo - speedFrom || 1)));
+    zones.forEach(({ max }) => addKeyframe(max, 1));
+
+    return path;
+  }
+
+  export function writeAuto(paths: Path[]): AutoFile {
+    return {
+      version: FILE_VERSION,
+      command: {
+        type: "sequential",
+        data: {
+          commands: paths.map(path => ({ type: "path", data: { pathName: path.name } }))
+        }
+      },
+      resetOdom: true,
+      folder: null,
+      choreoAuto: false
+    };
+  }
+}
@@ -0,0 +1,231 @@
+import { getAppStores } from "@core/MainApp";
+import { Control, EndControl, HeadingKeyframe, Segment, SpeedKeyframe, Vector } from "@core/Path";
+import { UnitOfLength } from "@core/Unit";
+import { Routine } from "@core/Routine";
+import { PathPlannerFormatV2025_0 } from ".";
+import { PathConfigImpl } from "./PathConfig";
+import { PathPlanner } from "./Serialization";
+import { TextDecoder, TextEncoder } from "util";
+
+Object.assign(global, { TextDecoder, TextEncoder }); // jsdom does not provide them
+
+const mapping: PathPlanner.CoordinateMapping = { uol: UnitOfLength.Centimeter, origin: new Vector(-180, -180) };
+
+test("dummy", () => {
+  getAppStores(); // suppress constructor error
+});
+
+test("rotation conversion", () => {
+  expect(PathPlanner.toRotation(0)).toBeCloseTo(90);
+  expect(PathPlanner.toRotation(90)).toBeCloseTo(0);
+  expect(PathPlanner.toRotation(180)).toBeCloseTo(-90);
+  expect(Math.abs(PathPlanner.toRotation(270))).toBeCloseTo(180);
+
+  expect(PathPlanner.fromRotation(90)).toBeCloseTo(0);
+  expect(PathPlanner.fromRotation(0)).toBeCloseTo(90);
+  expect(PathPlanner.fromRotation(-90)).toBeCloseTo(180);
+  expect(PathPlanner.fromRotation(180)).toBeCloseTo(270);
+
+  for (let heading = 0; heading < 360; heading += 15) {
+    expect(PathPlanner.fromRotation(PathPlanner.toRotation(heading))).toBeCloseTo(heading);
+  }
+});
+
+test("translation conversion", () => {
+  expect(PathPlanner.toTranslation(new Vector(-180, -180), mapping)).toEqual({ x: 0, y: 0 });
+  expect(PathPlanner.toTranslation(new Vector(20, -30), mapping)).toEqual({ x: 2, y: 1.5 });
+
+  const vec = PathPlanner.fromTranslation({ x: 2, y: 1.5 }, mapping);
+  expect(vec.x).toBeCloseTo(20);
+  expect(vec.y).toBeCloseTo(-30);
+});
+
+test("write read path", () => {
+  const format = new PathPlannerFormatV2025_0();
+
+  const path = format.createPath();
+  path.segments.push(
+    new Segment(new EndControl(-100, -100, 0), new Control(-100, 0), new Control(0, 0), new EndControl(0, 100, 90))
+  );
+  path.segments.push(new Segment(path.segments[0].last, new EndControl(100, 100, 180)));
+  path.segments[1].speed.add(new SpeedKeyframe(0.5, 0));
+  path.segments[1].heading.add(new HeadingKeyframe(0.25, 135));
+
+  const data = PathPlanner.writePath(path, mapping);
+
+  expect(data.version).toBe(PathPlanner.FILE_VERSION);
+  expect(data.waypoints.length).toBe(3);
+  expect(data.waypoints[0].prevControl).toBeNull();
+  expect(data.waypoints[0].nextControl).toEqual({ x: 0.8, y: 1.8 });
+  expect(data.waypoints[2].nextControl).toBeNull();
+  expect(data.rotationTargets.length).toBe(2);
+  expect(data.rotationTargets[0]).toEqual({ waypointRelativePos: 1, rotationDegrees: 0 });
+  expect(data.rotationTargets[1].waypointRelativePos).toBe(1.25);
+  expect(data.rotationTargets[1].rotationDegrees).toBeCloseTo(-45);
+  expect(data.idealStartingState.rotation).toBeCloseTo(90);
+  expect(data.goalEndState.rotation).toBeCloseTo(-90);
+  expect(data.constraintZones.length).toBe(1);
+  expect(data.constraintZones[0].minWaypointRelativePos).toBe(1.5);
+  expect(data.constraintZones[0].maxWaypointRelativePos).toBe(2);
+
+  const result = PathPlanner.readPath(JSON.parse(JSON.stringify(data)), format.createPath(), mapping);
+
+  expect(result.segments.length).toBe(2);
+  // ALGO: Linear segments are written as cubic segments
+  expect(result.segments[0].isCubic()).toBe(true);
+  expect(result.segments[1].isCubic()).toBe(true);
+  expect(result.segments[0].first.heading).toBeCloseTo(0);
+  expect(result.segments[1].first.heading).toBeCloseTo(90);
+  expect(result.segments[1].last.heading).toBeCloseTo(180);
+
+  for (let i = 0; i < 4; i++) {
+    expect(result.segments[0].controls[i].x).toBeCloseTo(path.segments[0].controls[i].x);
+    expect(result.segments[0].controls[i].y).toBeCloseTo(path.segments[0].controls[i].y);
+  }
+  expect(result.segments[1].last.x).toBeCloseTo(100);
+  expect(result.segments[1].last.y).toBeCloseTo(100);
+
+  const keyframes = result.segments[1].speed.list;
+  expect(keyframes.length).toBe(1);
+  expect(keyframes[0].xPos).toBeCloseTo(0.5);
+  expect(keyframes[0].yPos).toBeCloseTo(0);
+
+  const headingKeyframes = result.segments[1].heading.list;
+  expect(headingKeyframes.length).toBe(1);
+  expect(headingKeyframes[0].xPos).toBeCloseTo(0.25);
+  expect(headingKeyframes[0].heading).toBeCloseTo(135);
+});
+
+test("write read path with adjacent constraint zones", () => {
+  const format = new PathPlannerFormatV2025_0();
+
+  const path = format.createPath();
+  path.segments.push(new Segment(new EndControl(-100, -100, 0), new EndControl(100, 100, 0)));
+  path.segments[0].speed.add(new SpeedKeyframe(0.2, 0.5));
+  path.segments[0].speed.add(new SpeedKeyframe(0.5, 0.3));
+
+  const data = PathPlanner.writePath(path, mapping);
+
+  expect(data.constraintZones.length).toBe(2);
+  expect(data.constraintZones[0].maxWaypointRelativePos).toBe(data.constraintZones[1].minWaypointRelativePos);
+
+  const result = PathPlanner.readPath(JSON.parse(JSON.stringify(data)), format.createPath(), mapping);
+
+  const keyframes = result.segments[0].speed.list.slice().sort((a, b) => a.xPos - b.xPos);
+  expect(keyframes.length).toBe(2);
+  expect(keyframes[0].xPos).toBeCloseTo(0.2);
+  expect(keyframes[0].yPos).toBeCloseTo(0.5);
+  expect(keyframes[1].xPos).toBeCloseTo(0.5);
+  expect(keyframes[1].yPos).toBeCloseTo(0.3);
+});
+
+test("read path with global constraints", () => {
+  const format = new PathPlannerFormatV2025_0();
+
+  const data = {
+    waypoints: [
+      { anchor: { x: 1, y: 1 }, prevControl: null, nextControl: null },
+      { anchor: { x: 2, y: 1 }, prevControl: null, nextControl: null },
+      { anchor: { x: 2, y: 2 }, prevControl: null, nextControl: null }
+    ],
+    rotationTargets: [{ waypointRelativePos: 0.5, rotationDegrees: 45 }],
+    globalConstraints: { maxVelocity: 2, maxAcceleration: 4, maxAngularVelocity: 360, maxAngularAcceleration: 180 },
+    goalEndState: { velocity: 0, rotation: 0 },
+    previewStartingState: { rotation: 180 }
+  };
+
+  const path = PathPlanner.readPath(data, format.createPath(), mapping);
+  const pc = path.pc as PathConfigImpl;
+
+  expect(path.segments.length).toBe(2);
+  expect(path.segments[0].isLinear()).toBe(true);
+  expect(path.segments[0].first.heading).toBeCloseTo(270);
+  // ALGO: The rotation target in the middle of a segment becomes a heading keyframe
+  expect(path.segments[0].last.heading).toBeCloseTo(270);
+  expect(path.segments[0].heading.list.length).toBe(1);
+  expect(path.segments[0].heading.list[0].xPos).toBeCloseTo(0.5);
+  expect(path.segments[0].heading.list[0].heading).toBeCloseTo(45);
+  expect(path.segments[1].last.heading).toBeCloseTo(90);
+  expect(pc.speedLimit.to).toBe(2);
+  expect(pc.maxAcceleration).toBe(4);
+  expect(pc.maxAngularVelocity).toBe(360);
+  expect(pc.maxAngularAcceleration).toBe(180);
+});
+
+test("read invalid path", () => {
+  const format = new PathPlannerFormatV2025_0();
+
+  expect(() => PathPlanner.readPath({}, format.createPath(), mapping)).toThrowError();
+  expect(() => PathPlanner.readPath({ waypoints: [] }, format.createPath(), mapping)).toThrowError();
+  expect(() =>
+    PathPlanner.readPath({ waypoints: [{ anchor: { x: 0 } }, { anchor: {} }] }, format.createPath(), mapping)
+  ).toThrowError();
+});
+
+test("import auto file", () => {
+  const format = new PathPlannerFormatV2025_0();
+
+  const path1 = format.createPath();
+  path1.name = "Path 1";
+  const auto = PathPlanner.writeAuto([path1]);
+
+  expect(auto.command.data.commands).toEqual([{ type: "path", data: { pathName: "Path 1" } }]);
+
+  const buffer = new TextEncoder().encode(JSON.stringify(auto));
+  expect(() => format.importPathsFromFile(buffer)).toThrowError(/auto file/);
+  expect(format.importPDJDataFromFile(buffer)).toBeUndefined();
+});
+
+test("import PDJ data", () => {
+  const format = new PathPlannerFormatV2025_0();
+
+  const data = { waypoints: [], pathJerryioData: { appVersion: "0.0.0" } };
+  expect(format.importPDJDataFromFile(new TextEncoder().encode(JSON.stringify(data)))).toEqual({ appVersion: "0.0.0" });
+  expect(format.importPDJDataFromFile(new TextEncoder().encode("not a json"))).toBeUndefined();
+});
+
+test("export all routines with a selected path", () => {
+  const { app } = getAppStores();
+  app.format = new PathPlannerFormatV2025_0();
+  app.newFile();
+
+  const path1 = app.format.createPath(new Segment(new EndControl(0, 0, 0), new EndControl(10, 0, 0)));
+  path1.name = "Main";
+  app.paths.push(path1);
+  const path2 = app.format.createPath(new Segment(new EndControl(0, 0, 0), new EndControl(0, 10, 0)));
+  path2.name = "Skills";
+  app.routines.push(new Routine("Skills", [path2]));
+  app.setSelected([path1]);
+
+  const outputs = app.exportRoutineFiles("auto.path");
+  expect(outputs.map(output => output.name)).toEqual(["auto-Main.path", "auto-Skills.path"]);
+  const skills = JSON.parse(new TextDecoder().decode(outputs[1].buffer));
+  expect(skills.pathJerryioData.activeRoutine).toBe(1);
+
+  // ALGO: The app state is not changed
+  expect(app.routine).toBe(app.routines[0]);
+  expect(app.selectedPath).toBe(path1);
+
+  app.newFile();
+});
+
+test("export path and auto files with a context", () => {
+  const format = new PathPlannerFormatV2025_0();
+
+  const path = format.createPath(new Segment(new EndControl(0, 0, 0), new EndControl(0, 10, 0)));
+  path.name = "Skills";
+  const context = {
+    routines: [],
+    paths: [path],
+    fieldImageAsset: getAppStores().app.fieldImageAsset,
+    interestedPath: () => path,
+    exportPDJData: () => ({})
+  };
+
+  const pathFile = JSON.parse(new TextDecoder().decode(format.exportPathFile(context, path)));
+  expect(pathFile.waypoints.length).toBe(2);
+  expect(pathFile.pathJerryioData).toBeUndefined();
+
+  const autoFile = JSON.parse(new TextDecoder().decode(format.exportAutoFile(context)));
+  expect(autoFile.command.data.commands).toEqual([{ type: "path", data: { pathName: "Skills" } }]);
+});
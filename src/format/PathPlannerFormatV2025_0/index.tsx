@@ -0,0 +1,128 @@
+import { makeAutoObservable } from "mobx";
+import { MainApp, getAppStores } from "@core/MainApp";
+import { makeId } from "@core/Util";
+import { Quantity, UnitConverter, UnitOfLength } from "@core/Unit";
+import { GeneralConfig, convertFormat } from "../Config";
+import { ExportContext, Format } from "../Format";
+import { PointCalculationResult, getPathPoints } from "@core/Calculation";
+import { Path, Segment, Vector } from "@core/Path";
+import { FieldImageAsset, FieldImageOriginType } from "@core/Asset";
+import { UserInterface } from "@core/Layout";
+import { GeneralConfigImpl } from "./GeneralConfig";
+import { PathConfigImpl, PathConfigPanel } from "./PathConfig";
+import { PathPlanner } from "./Serialization";
+
+// observable class
+export class PathPlannerFormatV2025_0 implements Format {
+  isInit: boolean = false;
+  uid: string;
+
+  private gc = new GeneralConfigImpl(this);
+
+  private readonly disposers: (() => void)[] = [];
+
+  constructor() {
+    this.uid = makeId(10);
+    makeAutoObservable(this);
+  }
+
+  createNewInstance(): Format {
+    return new PathPlannerFormatV2025_0();
+  }
+
+  getName(): string {
+    return "PathPlanner v2025.0";
+  }
+
+  getDescription(): string {
+    return "Path and auto files for PathPlanner, using m as the unit of length and m/s as the speed unit. The origin is at the bottom left corner of the field.";
+  }
+
+  register(app: MainApp, ui: UserInterface): void {
+    if (this.isInit) return;
+    this.isInit = true;
+
+    this.disposers.push(ui.registerPanel(PathConfigPanel).disposer);
+  }
+
+  unregister(): void {
+    this.disposers.forEach(disposer => disposer());
+  }
+
+  getGeneralConfig(): GeneralConfig {
+    return this.gc;
+  }
+
+  createPath(...segments: Segment[]): Path {
+    return new Path(new PathConfigImpl(this), ...segments);
+  }
+
+  getPathPoints(path: Path): PointCalculationResult {
+    return getPathPoints(path, new Quantity(this.gc.pointDensity, this.gc.uol));
+  }
+
+  convertFromFormat(oldFormat: Format, oldPaths: Path[]): Path[] {
+    return convertFormat(this, oldFormat, oldPaths);
+  }
+
+  /**
+   * @param fieldImageAsset The field image of the project
+   * @returns The coordinate mapping with the PathPlanner origin at the bottom left corner of the field
+   */
+  getCoordinateMapping(fieldImageAsset: FieldImageAsset<FieldImageOriginType>): PathPlanner.CoordinateMapping {
+    const uc = new UnitConverter(UnitOfLength.Millimeter, this.gc.uol);
+    const half = uc.fromAtoB(fieldImageAsset.heightInMM) / 2;
+    return { uol: this.gc.uol, origin: new Vector(-half, -half) };
+  }
+
+  importPathsFromFile(buffer: ArrayBuffer): Path[] {
+    const { app } = getAppStores();
+
+    let data: unknown;
+    try {
+      data = JSON.parse(new TextDecoder().decode(buffer));
+    } catch (e) {
+      throw new Error("Unable to import paths from this format, the file is not a valid JSON file");
+    }
+
+    if (PathPlanner.isAutoFile(data)) {
+      throw new Error("Unable to import an auto file, it only refers to paths by name. Please open the .path files");
+    }
+
+    const path = PathPlanner.readPath(data, this.createPath(), this.getCoordinateMapping(app.fieldImageAsset));
+    path.name = app.mountingFile.name.replace(/\.path$/, "") || "Path";
+
+    return [path];
+  }
+
+  importPDJDataFromFile(buffer: ArrayBuffer): Record<string, any> | undefined {
+    try {
+      const data = JSON.parse(new TextDecoder().decode(buffer));
+      if (PathPlanner.isPathFile(data) && PathPlanner.hasPDJData(data)) return data.pathJerryioData;
+    } catch (e) {}
+
+    return undefined;
+  }
+
+  exportPathFile(context: ExportContext, path: Path): ArrayBuffer {
+    const data = PathPlanner.writePath(path, this.getCoordinateMapping(context.fieldImageAsset));
+    return new TextEncoder().encode(JSON.stringify(data, null, 2));
+  }
+
+  exportAutoFile(context: ExportContext): ArrayBuffer {
+    const data = PathPlanner.writeAuto(context.paths);
+    return new TextEncoder().encode(JSON.stringify(data, null, 2));
+  }
+
+  exportFile(context: ExportContext): ArrayBuffer {
+    const path = context.interestedPath();
+    if (path === undefined) throw new Error("No path to export");
+
+    // ALGO: PathPlanner ignores unknown fields, the path.jerryio data is embedded for lossless round trip
+    const data = {
+      ...PathPlanner.writePath(path, this.getCoordinateMapping(context.fieldImageAsset)),
+      pathJerryioData: context.exportPDJData()
+    };
+    return new TextEncoder().encode(JSON.stringify(data, null, 2));
+  }
+}
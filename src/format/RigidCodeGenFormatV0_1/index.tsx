@@ -1,24 +1,23 @@
 import { makeAutoObservable } from "mobx";
-import { MainApp, getAppStores } from "@core/MainApp";
+import { MainApp } from "@core/MainApp";
 import { makeId } from "@core/Util";
 import { Quantity } from "@core/Unit";
 import { GeneralConfig, convertFormat } from "../Config";
-import { Format, importPDJDataFromTextFile } from "../Format";
 import {
-  AddCubicSegment,
-  AddKeyframe,
-  AddLinearSegment,
-  ConvertSegment,
-  InsertControls,
-  InsertPaths,
-  UpdatePathTreeItems
-} from "@core/Command";
+  CodeSource,
+  ExportContext,
+  Format,
+  GeneratedCode,
+  importPDJDataFromTextFile,
+  registerLinearSegmentsWithFixedHeading
+} from "../Format";
 import { PointCalculationResult, boundHeading, getPathPoints, toDerivativeHeading, toHeading } from "@core/Calculation";
-import { EndControl, Path, Segment, SegmentVariant } from "@core/Path";
-import { BackQuoteString, CodePointBuffer } from "@src/token/Tokens";
+import { Path, Segment } from "@core/Path";
+import { TemplateVariables, parseTemplateSet } from "@src/token/Template";
 import { PathConfigImpl, PathConfigPanel } from "./PathConfig";
 import { GeneralConfigImpl, HeadingOutputType } from "./GeneralConfig";
 import { UserInterface } from "@core/Layout";
+import { OutputPreviewPanel } from "@app/common.blocks/panel/OutputPreviewPanel";
 
 // observable class
 export class RigidCodeGenFormatV0_1 implements Format {
@@ -50,83 +49,10 @@ export class RigidCodeGenFormatV0_1 implements Format {
     if (this.isInit) return;
     this.isInit = true;
 
-    const fixEndControlsHeading = () => {
-      app.paths.forEach(path => {
-        path.segments.forEach(segment => {
-          const first = segment.first;
-          const last = segment.last;
-          const suggestedHeading = toHeading(last.subtract(first));
-          const acceptableHeading1 = suggestedHeading;
-          const acceptableHeading2 = boundHeading(suggestedHeading + 180);
-          const currentHeading = first.heading;
-          const delta1 = Math.abs(toDerivativeHeading(currentHeading, acceptableHeading1));
-          const delta2 = Math.abs(toDerivativeHeading(currentHeading, acceptableHeading2));
-          if (delta1 < delta2) first.heading = acceptableHeading1;
-          else first.heading = acceptableHeading2;
-          segment.speed.list.length = 0;
-          segment.lookahead.list.length = 0;
-        });
-      });
-    };
-
     this.disposers.push(
-      app.history.addEventListener("beforeExecution", event => {
-        if (event.isCommandInstanceOf(AddCubicSegment)) {
-          event.isCancelled = true;
-
-          const cancelledCommand = event.command;
-          app.history.execute(
-            `Add linear segment with end control point ${cancelledCommand.end.uid} to path ${cancelledCommand.path.uid}`,
-            new AddLinearSegment(cancelledCommand.path, cancelledCommand.end)
-          );
-        } else if (event.isCommandInstanceOf(ConvertSegment) && event.command.variant === SegmentVariant.Cubic) {
-          event.isCancelled = true;
-        } else if (event.isCommandInstanceOf(UpdatePathTreeItems)) {
-          const targets = event.command.targets;
-          const newValues = event.command.newValues;
-
-          const isLastEndControlOfPath = (target: EndControl) => {
-            return app.paths.some(path => path.segments.at(-1)?.last === target);
-          };
-
-          targets.forEach(target => {
-            if (target instanceof EndControl) {
-              const isChangingHeadingValue = "heading" in newValues && newValues.heading !== undefined;
-              if (!isChangingHeadingValue) return;
-
-              if (isLastEndControlOfPath(target)) return;
-
-              const oldValue = target.heading;
-              newValues.heading = boundHeading(oldValue + 180);
-            }
-          });
-        } else if (event.isCommandInstanceOf(InsertPaths)) {
-          event.command.inserting.forEach(path => {
-            path.segments.forEach(segment => {
-              segment.controls = [segment.first, segment.last];
-
-              segment.first.heading = toHeading(segment.last.subtract(segment.first));
-            });
-          });
-        } else if (event.isCommandInstanceOf(InsertControls)) {
-          event.command.inserting = event.command.inserting.filter(control => control instanceof EndControl);
-        } else if (event.isCommandInstanceOf(AddKeyframe)) {
-          event.isCancelled = true;
-        }
-      }),
-      app.history.addEventListener("merge", event => {
-        fixEndControlsHeading();
-      }),
-      app.history.addEventListener("execute", event => {
-        fixEndControlsHeading();
-      }),
-      app.history.addEventListener("afterUndo", event => {
-        fixEndControlsHeading();
-      }),
-      app.history.addEventListener("afterRedo", event => {
-        fixEndControlsHeading();
-      }),
-      ui.registerPanel(PathConfigPanel).disposer
+      ...registerLinearSegmentsWithFixedHeading(app, false),
+      ui.registerPanel(PathConfigPanel).disposer,
+      ui.registerPanel(OutputPreviewPanel).disposer
     );
   }
 
@@ -154,6 +80,7 @@ export class RigidCodeGenFormatV0_1 implements Format {
         segment.first.heading = toHeading(segment.last.subtract(segment.first));
         segment.speed.list.length = 0;
         segment.lookahead.list.length = 0;
+        segment.heading.list.length = 0;
       });
       path.pc.speedLimit = {
         minLimit: { value: 0, label: "0" },
@@ -182,111 +109,126 @@ export class RigidCodeGenFormatV0_1 implements Format {
     return importPDJDataFromTextFile(buffer);
   }
 
-  private getTemplatesSet(): { [key: string]: string } {
-    const template = this.gc.outputTemplate;
-    const rtn: { [key: string]: string } = {};
-
-    const cpb = new CodePointBuffer(template);
-
-    while (cpb.hasNext()) {
-      const key = cpb.readSafeChunk();
-      const colon = cpb.next();
-
-      if (key === "" || colon !== ":") {
-        // skip this line
-        while (cpb.hasNext() && cpb.next() !== "\n") {}
-        continue;
-      }
-
-      cpb.readDelimiter();
-
-      const value = BackQuoteString.parse(cpb);
-      if (value === null) break;
-
-      rtn[key] = value.content;
-
-      // skip this line
-      while (cpb.hasNext() && cpb.next() !== "\n") {}
-    }
-
-    return rtn;
-  }
-
-  private applyTemplate(template: string, values: { [key: string]: number | boolean | string }): string {
-    return template.replace(/\${([^}]+)}/g, (_, key) => (values[key] ?? "") + "");
-  }
-
-  private exportRigidMovementCode(path: Path, templates: { [key: string]: string }) {
-    let rtn = "";
-
-    const gc = this.gc as GeneralConfigImpl;
+  private getSegmentVariables(path: Path): TemplateVariables[] {
     const pc = path.pc as PathConfigImpl;
 
-    const startHeading = path.segments[0].first.heading;
-
-    for (const segment of path.segments) {
+    return path.segments.map((segment, index) => {
       const first = segment.first;
       const last = segment.last;
-
       const distance = first.distance(last);
 
-      const forwardHeading = toHeading(last.subtract(first));
-      const movementTemplate = (first.heading === forwardHeading ? templates.forward : templates.backward) ?? "";
-      const movementTemplateValues = {
+      return {
+        index,
         fromX: first.x.toUser(),
         fromY: first.y.toUser(),
         x: last.x.toUser(),
         y: last.y.toUser(),
         distance: distance.toUser(),
-        speed: pc.speed
+        heading: last.heading.toUser(),
+        reversed: first.heading !== toHeading(last.subtract(first)),
+        speed: pc.speed,
+        // ALGO: The distance is measured from the beginning of the segment to the marker
+        markers: segment.marker.list.map(marker => ({
+          marker: marker.name,
+          distance: (distance * marker.xPos).toUser()
+        }))
       };
-      rtn += this.applyTemplate(movementTemplate, movementTemplateValues) + "\n";
+    });
+  }
+
+  private exportRigidMovementCode(
+    path: Path,
+    segments: TemplateVariables[],
+    render: (name: string, variables: TemplateVariables) => string,
+    hasMarkerTemplate: boolean
+  ): GeneratedCode {
+    let rtn = "";
+    const sources: CodeSource[] = [];
+
+    const gc = this.gc as GeneralConfigImpl;
+
+    const startHeading = path.segments[0].first.heading;
+
+    path.segments.forEach((segment, index) => {
+      const variables = segments[index];
+      const start = rtn.length;
 
-      const nextHeading = last.heading;
+      // ALGO: Rigid movements are blocking, markers are emitted before the movement of the segment they are placed on
+      // The markers are skipped if the marker template is not defined
+      for (const marker of hasMarkerTemplate ? (variables.markers as TemplateVariables[]) : []) {
+        rtn += render("marker", { ...variables, ...marker }) + "\n";
+      }
+
+      rtn += render(variables.reversed ? "backward" : "forward", variables) + "\n";
+
+      const forwardHeading = toHeading(segment.last.subtract(segment.first));
+      const nextHeading = segment.last.heading;
       if (gc.headingOutputType === HeadingOutputType.Absolute) {
-        rtn += this.applyTemplate(templates.turnTo ?? "", { heading: nextHeading.toUser(), speed: pc.speed }) + "\n";
+        rtn += render("turnTo", { ...variables, heading: nextHeading.toUser() }) + "\n";
       } else if (gc.headingOutputType === HeadingOutputType.Relative) {
         const deltaHeading = boundHeading(nextHeading - startHeading);
-        rtn += this.applyTemplate(templates.turnTo ?? "", { heading: deltaHeading.toUser(), speed: pc.speed }) + "\n";
+        rtn += render("turnTo", { ...variables, heading: deltaHeading.toUser() }) + "\n";
       } else {
         const deltaHeading = toDerivativeHeading(forwardHeading, nextHeading);
-        if (deltaHeading > 0)
-          rtn +=
-            this.applyTemplate(templates.turnRight ?? "", { heading: deltaHeading.toUser(), speed: pc.speed }) + "\n";
-        else if (deltaHeading < 0)
-          rtn +=
-            this.applyTemplate(templates.turnLeft ?? "", { heading: -deltaHeading.toUser(), speed: pc.speed }) + "\n";
+        if (deltaHeading > 0) rtn += render("turnRight", { ...variables, heading: deltaHeading.toUser() }) + "\n";
+        else if (deltaHeading < 0) rtn += render("turnLeft", { ...variables, heading: -deltaHeading.toUser() }) + "\n";
       }
-    }
 
-    return rtn;
-  }
+      sources.push({ start, end: rtn.length, path, segment });
+    });
 
-  exportCode(): string {
-    const { app } = getAppStores();
+    return { code: rtn, sources };
+  }
 
+  /**
+   * @throws TemplateError if the output template can not be rendered
+   */
+  generateCode(context: ExportContext): GeneratedCode {
     let rtn = "";
+    const sources: CodeSource[] = [];
+
+    const templates = parseTemplateSet(this.gc.outputTemplate, true);
+    const options = { uol: this.gc.uol };
+    const render = (name: string, variables: TemplateVariables) => templates[name]?.render(variables, options) ?? "";
+
+    context.paths.forEach(path => {
+      const segments = this.getSegmentVariables(path);
+      const points = this.getPathPoints(path).points.map(point => ({
+        x: point.x.toUser(),
+        y: point.y.toUser(),
+        heading: point.heading?.toUser()
+      }));
+
+      const movement = this.exportRigidMovementCode(path, segments, render, templates.marker !== undefined);
+      const output = render("path", { name: path.name, code: movement.code, segments, points });
+
+      // ALGO: The sources of the movement code are shifted if the code is found in the output of the path template
+      const offset = movement.code === "" ? -1 : output.indexOf(movement.code);
+      if (offset !== -1) {
+        const shift = rtn.length + offset;
+        sources.push(...movement.sources.map(s => ({ ...s, start: s.start + shift, end: s.end + shift })));
+      }
+      sources.push({ start: rtn.length, end: rtn.length + output.length, path });
 
-    const templates = this.getTemplatesSet();
-
-    app.paths.forEach(path => {
-      rtn += this.applyTemplate(templates.path ?? "", {
-        name: path.name,
-        code: this.exportRigidMovementCode(path, templates)
-      });
+      rtn += output;
     });
 
-    return rtn;
+    return { code: rtn, sources };
   }
 
-  exportFile(): ArrayBuffer {
-    const { app } = getAppStores();
+  /**
+   * @throws TemplateError if the output template can not be rendered
+   */
+  exportCode(context: ExportContext): string {
+    return this.generateCode(context).code;
+  }
 
-    let fileContent = this.exportCode();
+  exportFile(context: ExportContext): ArrayBuffer {
+    let fileContent = this.exportCode(context);
 
     fileContent += "\n";
 
-    fileContent += "#PATH.JERRYIO-DATA " + JSON.stringify(app.exportPDJData());
+    fileContent += "#PATH.JERRYIO-DATA " + JSON.stringify(context.exportPDJData());
 
     return new TextEncoder().encode(fileContent);
   }
@@ -0,0 +1,198 @@
+import { makeAutoObservable, action } from "mobx";
+import { Typography, Button } from "@mui/material";
+import { enqueueSuccessSnackbar, enqueueErrorSnackbar } from "@src/app/Notice";
+import { FormEnumSelect } from "@src/app/component.blocks/FormEnumSelect";
+import { FormInputField } from "@src/app/component.blocks/FormInputField";
+import { FieldImageSignatureAndOrigin, FieldImageOriginType, getDefaultBuiltInFieldImage } from "@core/Asset";
+import { UpdateProperties } from "@core/Command";
+import { setLastCopiedCode } from "@core/CodePreview";
+import { useCustomHotkeys, getEnableOnNonTextInputFieldsHotkeysOptions } from "@core/Hook";
+import { getAppStores } from "@core/MainApp";
+import { Logger } from "@core/Logger";
+import { UnitOfLength } from "@core/Unit";
+import { IS_MAC_OS, getMacHotKeyString, ValidateNumber } from "@core/Util";
+import { NumberT, CodePointBuffer } from "@src/token/Tokens";
+import { Expose, Exclude, Type } from "class-transformer";
+import { IsPositive, IsBoolean, ValidateNested, IsObject, IsEnum, IsString, MinLength } from "class-validator";
+import { observer } from "mobx-react-lite";
+import { GeneralConfig, initGeneralConfig } from "../Config";
+import { ExportContext, Format } from "../Format";
+import { PanelBox } from "@src/app/component.blocks/PanelBox";
+import { ValidateCoordinateSystemName } from "@src/core/CoordinateSystem";
+
+interface FormatWithExportCode extends Format {
+  exportCode(context: ExportContext): string;
+}
+
+const logger = Logger("EZ/JAR-Template Code Gen v0.1.x");
+
+export enum VexTemplate {
+  EZTemplate = "EZ-Template",
+  JARTemplate = "JAR-Template"
+}
+
+export enum MovementType {
+  DriveDistance = "Drive Distance", // Drive straight and turn in place
+  Odometry = "Odometry" // Drive to the end point of each segment
+}
+
+const GeneralConfigPanel = observer((props: { config: GeneralConfigImpl }) => {
+  const { config } = props;
+
+  const { app, confirmation, ui } = getAppStores();
+
+  const isUsingEditor = !confirmation.isOpen && !ui.isOpeningModal;
+
+  const onCopyCode = action(() => {
+    try {
+      const code = config.format.exportCode(app);
+
+      navigator.clipboard.writeText(code);
+      setLastCopiedCode(code);
+
+      enqueueSuccessSnackbar(logger, "Copied");
+    } catch (e) {
+      enqueueErrorSnackbar(logger, e);
+    }
+  });
+
+  useCustomHotkeys("Shift+Mod+C", onCopyCode, getEnableOnNonTextInputFieldsHotkeysOptions(isUsingEditor));
+
+  const hotkey = IS_MAC_OS ? getMacHotKeyString("Shift+Mod+C") : "Shift+Ctrl+C";
+
+  return (
+    <>
+      <Typography marginTop="16px">Export Settings</Typography>
+      <PanelBox>
+        <FormEnumSelect
+          sx={{ marginTop: "16px", width: "50%" }}
+          label="Template"
+          enumValue={config.template}
+          onEnumChange={value => {
+            app.history.execute(`Set template to ${value}`, new UpdateProperties(config, { template: value }));
+          }}
+          enumType={VexTemplate}
+        />
+        <FormEnumSelect
+          sx={{ marginTop: "16px", width: "50%" }}
+          label="Movement Type"
+          enumValue={config.movementType}
+          onEnumChange={value => {
+            app.history.execute(`Set movement type to ${value}`, new UpdateProperties(config, { movementType: value }));
+          }}
+          enumType={MovementType}
+        />
+      </PanelBox>
+      <PanelBox>
+        <FormInputField
+          label="Chassis Name"
+          getValue={() => config.chassisName}
+          setValue={(value: string) => {
+            app.history.execute(`Change chassis variable name`, new UpdateProperties(config, { chassisName: value }));
+          }}
+          isValidIntermediate={() => true}
+          isValidValue={(candidate: string) => candidate !== ""}
+          sx={{ marginTop: "16px" }}
+        />
+        <FormEnumSelect
+          sx={{ marginTop: "16px", width: "8rem" }}
+          label="Output Unit"
+          enumValue={config.outputUnit}
+          onEnumChange={value => {
+            app.history.execute(`Set output unit of length`, new UpdateProperties(config, { outputUnit: value }));
+          }}
+          enumType={UnitOfLength}
+        />
+      </PanelBox>
+      <PanelBox>
+        <FormInputField
+          label="Turn Speed (%)"
+          getValue={() => config.turnSpeed.toUser() + ""}
+          setValue={(value: string) => {
+            const parsedValue = Math.min(Math.max(parseFloat(value), 0), 100);
+            app.history.execute(
+              `Change turn speed to ${parsedValue}`,
+              new UpdateProperties(config, { turnSpeed: parsedValue })
+            );
+          }}
+          isValidIntermediate={() => true}
+          isValidValue={(candidate: string) => NumberT.parse(new CodePointBuffer(candidate)) !== null}
+          sx={{ marginTop: "16px" }}
+          numeric
+        />
+      </PanelBox>
+      <PanelBox marginTop="32px">
+        <Button variant="contained" title={`Copy Generated Code (${hotkey})`} onClick={onCopyCode}>
+          Copy Code
+        </Button>
+      </PanelBox>
+    </>
+  );
+});
+
+// observable class
+export class GeneralConfigImpl implements GeneralConfig {
+  @IsPositive()
+  @Expose()
+  robotWidth: number = 12;
+  @IsPositive()
+  @Expose()
+  robotHeight: number = 12;
+  @Exclude()
+  readonly robotIsHolonomic = "force-static";
+  @IsBoolean()
+  @Expose()
+  showRobot: boolean = false;
+  @ValidateNumber(num => num > 0 && num <= 1000) // Don't use IsEnum
+  @Expose()
+  uol: UnitOfLength = UnitOfLength.Inch;
+  @IsPositive()
+  @Expose()
+  pointDensity: number = 2; // inches
+  @IsPositive()
+  @Expose()
+  controlMagnetDistance: number = 5 / 2.54;
+  @Type(() => FieldImageSignatureAndOrigin)
+  @ValidateNested()
+  @IsObject()
+  @Expose()
+  fieldImage: FieldImageSignatureAndOrigin<FieldImageOriginType> =
+    getDefaultBuiltInFieldImage().getSignatureAndOrigin();
+  @ValidateCoordinateSystemName()
+  @Expose()
+  coordinateSystem: string = "VEX Gaming Positioning System";
+  @IsEnum(VexTemplate)
+  @Expose()
+  template: VexTemplate = VexTemplate.EZTemplate;
+  @IsEnum(MovementType)
+  @Expose()
+  movementType: MovementType = MovementType.DriveDistance;
+  @IsString()
+  @MinLength(1)
+  @Expose()
+  chassisName: string = "chassis";
+  @ValidateNumber(num => num > 0 && num <= 1000) // Don't use IsEnum
+  @Expose()
+  outputUnit: UnitOfLength = UnitOfLength.Inch;
+  @ValidateNumber(num => num >= 0 && num <= 100)
+  @Expose()
+  turnSpeed: number = 70;
+
+  @Exclude()
+  private format_: FormatWithExportCode;
+
+  constructor(format: FormatWithExportCode) {
+    this.format_ = format;
+    makeAutoObservable(this);
+
+    initGeneralConfig(this);
+  }
+
+  get format() {
+    return this.format_;
+  }
+
+  getAdditionalConfigUI() {
+    return <GeneralConfigPanel config={this} />;
+  }
+}
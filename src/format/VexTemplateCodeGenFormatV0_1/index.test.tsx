@@ -0,0 +1,112 @@
+import { getAppStores } from "@core/MainApp";
+import { EndControl, EventMarker, Segment } from "@core/Path";
+import { UnitOfLength } from "@core/Unit";
+import { VexTemplateCodeGenFormatV0_1 } from ".";
+import { GeneralConfigImpl, MovementType, VexTemplate } from "./GeneralConfig";
+
+test("dummy", () => {
+  getAppStores(); // suppress constructor error
+});
+
+function setupPaths() {
+  const { app } = getAppStores();
+  const format = new VexTemplateCodeGenFormatV0_1();
+  app.format = format;
+
+  const path = format.createPath();
+  path.name = "Path 1";
+  path.segments.push(new Segment(new EndControl(0, 0, 0), new EndControl(0, 24, 90)));
+  path.segments.push(new Segment(path.segments[0].last, new EndControl(24, 24, 180)));
+  path.segments[0].marker.list.push(new EventMarker(0.5, "Intake"));
+  app.paths = [path];
+
+  return { app, format, gc: format.getGeneralConfig() as GeneralConfigImpl };
+}
+
+test("export EZ-Template code", () => {
+  const { app, format, gc } = setupPaths();
+
+  expect(format.exportCode(app).split("\n")).toEqual([
+    "// Path 1",
+    "chassis.pid_drive_set(24_in, 127);",
+    "chassis.pid_wait_until(12_in);",
+    "// Intake",
+    "chassis.pid_wait();",
+    "chassis.pid_turn_set(90_deg, 89);",
+    "chassis.pid_wait();",
+    "chassis.pid_drive_set(24_in, 127);",
+    "chassis.pid_wait();",
+    "chassis.pid_turn_set(180_deg, 89);",
+    "chassis.pid_wait();",
+    "",
+    ""
+  ]);
+
+  gc.movementType = MovementType.Odometry;
+  gc.outputUnit = UnitOfLength.Centimeter;
+  expect(format.exportCode(app).split("\n")).toEqual([
+    "// Path 1",
+    "// Intake",
+    "chassis.pid_odom_set({{0_cm, 60.96_cm}, fwd, 127});",
+    "chassis.pid_wait();",
+    "chassis.pid_odom_set({{60.96_cm, 60.96_cm}, fwd, 127});",
+    "chassis.pid_wait();",
+    "chassis.pid_turn_set(180_deg, 89);",
+    "chassis.pid_wait();",
+    "",
+    ""
+  ]);
+});
+
+test("export JAR-Template code", () => {
+  const { app, format, gc } = setupPaths();
+  gc.template = VexTemplate.JARTemplate;
+  gc.chassisName = "robot";
+
+  expect(format.exportCode(app).split("\n")).toEqual([
+    "// Path 1",
+    "// Intake",
+    "robot.drive_distance(24, 0, 12, 8.4);",
+    "robot.turn_to_angle(90, 8.4);",
+    "robot.drive_distance(24, 90, 12, 8.4);",
+    "robot.turn_to_angle(180, 8.4);",
+    "",
+    ""
+  ]);
+
+  gc.movementType = MovementType.Odometry;
+  expect(format.exportCode(app).split("\n")).toEqual([
+    "// Path 1",
+    "// Intake",
+    "robot.drive_to_point(0, 24, 0, 12, 8.4);",
+    "robot.drive_to_point(24, 24, 0, 12, 8.4);",
+    "robot.turn_to_angle(180, 8.4);",
+    "",
+    ""
+  ]);
+});
+
+test("generate code with segment sources", () => {
+  const { app, format } = setupPaths();
+
+  const generated = format.generateCode(app);
+  const path = app.paths[0];
+  expect(generated.sources.filter(s => s.segment !== undefined).map(s => s.segment)).toEqual(path.segments);
+
+  const second = generated.sources.find(s => s.segment === path.segments[1])!;
+  expect(generated.code.substring(second.start, second.end)).toBe(
+    "chassis.pid_drive_set(24_in, 127);\nchassis.pid_wait();\nchassis.pid_turn_set(180_deg, 89);\nchassis.pid_wait();\n"
+  );
+});
+
+test("export names with line breaks as comments", () => {
+  const { app, format } = setupPaths();
+  app.paths[0].name = "Path 1\nchassis.pid_drive_set(100_in, 127);";
+  app.paths[0].segments[0].marker.list[0].name = "Intake\r\n\r\nintake.move(127);";
+
+  const lines = format.exportCode(app).split("\n");
+  expect(lines[0]).toBe("// Path 1 chassis.pid_drive_set(100_in, 127);");
+  expect(lines[3]).toBe("// Intake intake.move(127);");
+  expect(lines).not.toContain("chassis.pid_drive_set(100_in, 127);");
+  expect(lines).not.toContain("intake.move(127);");
+});
@@ -0,0 +1,286 @@
+import { makeAutoObservable } from "mobx";
+import { MainApp } from "@core/MainApp";
+import { makeId } from "@core/Util";
+import { Quantity, UnitConverter, UnitOfLength } from "@core/Unit";
+import { GeneralConfig, convertFormat } from "../Config";
+import {
+  CodeSource,
+  ExportContext,
+  Format,
+  GeneratedCode,
+  importPDJDataFromTextFile,
+  registerLinearSegmentsWithFixedHeading
+} from "../Format";
+import {
+  PointCalculationResult,
+  boundHeading,
+  fromDegreeToRadian,
+  getPathPoints,
+  toDerivativeHeading,
+  toHeading
+} from "@core/Calculation";
+import { euclideanRotation } from "@core/Coordinate";
+import { Path, Segment, Vector } from "@core/Path";
+import { UserInterface } from "@core/Layout";
+import { OutputPreviewPanel } from "@app/common.blocks/panel/OutputPreviewPanel";
+import { PathConfigImpl, PathConfigPanel } from "./PathConfig";
+import { GeneralConfigImpl, MovementType, VexTemplate } from "./GeneralConfig";
+
+const OKAPI_LENGTH_UNITS: { [key in UnitOfLength]: string } = {
+  [UnitOfLength.Millimeter]: "_mm",
+  [UnitOfLength.Centimeter]: "_cm",
+  [UnitOfLength.Meter]: "_m",
+  [UnitOfLength.Inch]: "_in",
+  [UnitOfLength.Foot]: "_ft",
+  [UnitOfLength.Tile]: "_tile"
+};
+
+/**
+ * SECURITY: The names are written by the user, a line break would end the comment and inject code
+ *
+ * @param text The text of the comment, e.g. the name of a path or an event marker
+ * @returns The single line comment
+ */
+function toComment(text: string): string {
+  return "// " + text.replace(/[\r\n]+/g, " ");
+}
+
+// observable class
+export class VexTemplateCodeGenFormatV0_1 implements Format {
+  isInit: boolean = false;
+  uid: string;
+
+  private gc = new GeneralConfigImpl(this);
+
+  private readonly disposers: (() => void)[] = [];
+
+  constructor() {
+    this.uid = makeId(10);
+    makeAutoObservable(this);
+  }
+
+  createNewInstance(): Format {
+    return new VexTemplateCodeGenFormatV0_1();
+  }
+
+  getName(): string {
+    return "EZ/JAR-Template Code Gen v0.1";
+  }
+
+  getDescription(): string {
+    return "Generates chassis movement calls for EZ-Template or JAR-Template, one drive and turn for each segment.";
+  }
+
+  register(app: MainApp, ui: UserInterface): void {
+    if (this.isInit) return;
+    this.isInit = true;
+
+    // ALGO: The same as the Rigid Code Gen format, but the speed keyframes are kept for the speed of each movement
+    this.disposers.push(
+      ...registerLinearSegmentsWithFixedHeading(app, true),
+      ui.registerPanel(PathConfigPanel).disposer,
+      ui.registerPanel(OutputPreviewPanel).disposer
+    );
+  }
+
+  unregister(): void {
+    this.disposers.forEach(disposer => disposer());
+  }
+
+  getGeneralConfig(): GeneralConfig {
+    return this.gc;
+  }
+
+  createPath(...segments: Segment[]): Path {
+    return new Path(new PathConfigImpl(this), ...segments);
+  }
+
+  getPathPoints(path: Path): PointCalculationResult {
+    return getPathPoints(path, new Quantity(this.gc.pointDensity, this.gc.uol));
+  }
+
+  convertFromFormat(oldFormat: Format, oldPaths: Path[]): Path[] {
+    const newPaths = convertFormat(this, oldFormat, oldPaths);
+    newPaths.forEach(path => {
+      path.segments.forEach(segment => {
+        segment.controls = [segment.first, segment.last];
+        segment.first.heading = toHeading(segment.last.subtract(segment.first));
+        segment.lookahead.list.length = 0;
+        segment.heading.list.length = 0;
+      });
+      path.pc.bentRateApplicableRange = {
+        minLimit: { value: 0, label: "0" },
+        maxLimit: { value: 1, label: "1" },
+        step: 0.001,
+        from: 0,
+        to: 1
+      };
+    });
+
+    return newPaths;
+  }
+
+  importPathsFromFile(buffer: ArrayBuffer): Path[] {
+    throw new Error("Unable to import paths from this format, try other formats?");
+  }
+
+  importPDJDataFromFile(buffer: ArrayBuffer): Record<string, any> | undefined {
+    return importPDJDataFromTextFile(buffer);
+  }
+
+  private formatLength(value: number): string {
+    const gc = this.gc as GeneralConfigImpl;
+    const output = new UnitConverter(gc.uol, gc.outputUnit).fromAtoB(value).toUser();
+    // ALGO: EZ-Template uses okapi units, JAR-Template uses plain numbers in the unit of its drive constants
+    return gc.template === VexTemplate.EZTemplate ? output + OKAPI_LENGTH_UNITS[gc.outputUnit] : output + "";
+  }
+
+  private formatAngle(value: number): string {
+    const gc = this.gc as GeneralConfigImpl;
+    return gc.template === VexTemplate.EZTemplate ? value.toUser() + "_deg" : value.toUser() + "";
+  }
+
+  /**
+   * @param percent The speed in percentage
+   * @returns The speed in the unit of the template, [0, 127] for EZ-Template or volts [0, 12] for JAR-Template
+   */
+  private formatSpeed(percent: number): string {
+    const gc = this.gc as GeneralConfigImpl;
+    return gc.template === VexTemplate.EZTemplate
+      ? Math.round((percent * 127) / 100) + ""
+      : ((percent * 12) / 100).toUser(2) + "";
+  }
+
+  private exportPathCode(path: Path): GeneratedCode {
+    let rtn = "";
+    const sources: CodeSource[] = [];
+
+    const gc = this.gc as GeneralConfigImpl;
+    const pc = path.pc as PathConfigImpl;
+    const chassis = gc.chassisName;
+    const isEZ = gc.template === VexTemplate.EZTemplate;
+    const isOdom = gc.movementType === MovementType.Odometry;
+    const turnSpeed = this.formatSpeed(gc.turnSpeed);
+
+    const emit = (line: string) => (rtn += line + "\n");
+
+    // ALGO: The robot starts at the first end control, facing forward, with the odometry and the IMU reset to zero
+    // ALGO: +Y is forward and +X is to the right of the robot at the beginning, the heading increases clockwise
+    const start = path.segments[0].first;
+    const startHeading = start.heading;
+    const toLocal = (v: Vector) => euclideanRotation(fromDegreeToRadian(startHeading), v.subtract(start));
+    const toLocalHeading = (heading: number) => boundHeading(heading - startHeading);
+
+    // ALGO: The heading is not bounded, the robot turns the shortest way from the current heading
+    let currentHeading = 0;
+    const turnTo = (heading: number) => {
+      const delta = toDerivativeHeading(boundHeading(currentHeading), toLocalHeading(heading));
+      currentHeading += delta;
+      return Math.abs(delta.toUser()) > 0;
+    };
+
+    const result = this.getPathPoints(path);
+
+    path.segments.forEach((segment, index) => {
+      const begin = rtn.length;
+      const first = segment.first;
+      const last = segment.last;
+      const isLastSegment = index === path.segments.length - 1;
+
+      // ALGO: The max speed of the movement is the highest speed of the points in the segment
+      const range = result.segmentIndexes[index];
+      const speeds = result.points.slice(range?.from ?? 0, range?.to ?? 0).map(point => point.speed);
+      const speed = this.formatSpeed(speeds.length > 0 ? Math.max(...speeds) : pc.speedLimit.to);
+
+      // ALGO: The heading of the first end control is the facing direction of the robot during the movement
+      turnTo(first.heading);
+      const reversed = first.heading !== toHeading(last.subtract(first));
+      const distance = first.distance(last) * (reversed ? -1 : 1);
+      const end = toLocal(last);
+      const markers = segment.marker.list;
+
+      if (isEZ && !isOdom) {
+        emit(`${chassis}.pid_drive_set(${this.formatLength(distance)}, ${speed});`);
+        // ALGO: EZ-Template movements are not blocking, markers are placed with pid_wait_until
+        for (const marker of markers) {
+          emit(`${chassis}.pid_wait_until(${this.formatLength(Math.abs(distance) * marker.xPos)});`);
+          emit(toComment(marker.name));
+        }
+        emit(`${chassis}.pid_wait();`);
+      } else if (isEZ) {
+        markers.forEach(marker => emit(toComment(marker.name)));
+        const direction = reversed ? "rev" : "fwd";
+        emit(
+          `${chassis}.pid_odom_set({{${this.formatLength(end.x)}, ${this.formatLength(
+            end.y
+          )}}, ${direction}, ${speed}});`
+        );
+        emit(`${chassis}.pid_wait();`);
+      } else {
+        // ALGO: JAR-Template movements are blocking, markers are emitted before the movement
+        markers.forEach(marker => emit(toComment(marker.name)));
+        const heading = this.formatAngle(currentHeading);
+        if (isOdom && !reversed) {
+          emit(
+            `${chassis}.drive_to_point(${this.formatLength(end.x)}, ${this.formatLength(
+              end.y
+            )}, 0, ${speed}, ${turnSpeed});`
+          );
+        } else {
+          // ALGO: JAR-Template can not drive to a point backward, drive_distance is used instead
+          emit(`${chassis}.drive_distance(${this.formatLength(distance)}, ${heading}, ${speed}, ${turnSpeed});`);
+        }
+      }
+
+      // ALGO: The robot turns to the heading of the next segment in place, or the final heading of the path
+      // With odometry movements, the robot faces the next end control automatically
+      if ((!isOdom || isLastSegment) && turnTo(last.heading)) {
+        if (isEZ) {
+          emit(`${chassis}.pid_turn_set(${this.formatAngle(currentHeading)}, ${turnSpeed});`);
+          emit(`${chassis}.pid_wait();`);
+        } else {
+          emit(`${chassis}.turn_to_angle(${this.formatAngle(currentHeading)}, ${turnSpeed});`);
+        }
+      }
+
+      sources.push({ start: begin, end: rtn.length, path, segment });
+    });
+
+    return { code: rtn, sources };
+  }
+
+  generateCode(context: ExportContext): GeneratedCode {
+    let rtn = "";
+    const sources: CodeSource[] = [];
+
+    context.paths.forEach(path => {
+      if (path.segments.length === 0) return;
+
+      const begin = rtn.length;
+      rtn += toComment(path.name) + "\n";
+
+      const pathCode = this.exportPathCode(path);
+      const shift = rtn.length;
+      sources.push(...pathCode.sources.map(s => ({ ...s, start: s.start + shift, end: s.end + shift })));
+      rtn += pathCode.code + "\n";
+
+      sources.push({ start: begin, end: rtn.length, path });
+    });
+
+    return { code: rtn, sources };
+  }
+
+  exportCode(context: ExportContext): string {
+    return this.generateCode(context).code;
+  }
+
+  exportFile(context: ExportContext): ArrayBuffer {
+    let fileContent = this.exportCode(context);
+
+    fileContent += "\n";
+
+    fileContent += "#PATH.JERRYIO-DATA " + JSON.stringify(context.exportPDJData());
+
+    return new TextEncoder().encode(fileContent);
+  }
+}
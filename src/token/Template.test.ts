@@ -0,0 +1,147 @@
+/* eslint-disable no-template-curly-in-string */
+import { UnitOfLength } from "@core/Unit";
+import { Template, TemplateError, parseTemplateSet } from "./Template";
+
+function render(source: string, variables: { [key: string]: any } = {}) {
+  return Template.parse(source).render(variables);
+}
+
+function getError(callback: () => void): TemplateError | undefined {
+  try {
+    callback();
+  } catch (err) {
+    if (err instanceof TemplateError) return err;
+    throw err;
+  }
+  return undefined;
+}
+
+test("Template output", () => {
+  expect(render("moveTo(${x}, ${y});", { x: 1.5, y: -2 })).toBe("moveTo(1.5, -2);");
+  expect(render("${missing}|${name}", { name: "Path 1" })).toBe("|Path 1");
+  expect(render("$${x} ${x}", { x: 1 })).toBe("${x} 1");
+  expect(render("${segment.x} ${points[1].y}", { segment: { x: 3 }, points: [{ y: 1 }, { y: 2 }] })).toBe("3 2");
+  expect(render("${segment.constructor}", { segment: {} })).toBe("");
+  expect(render("${points.length} ${points[5]} ${points.map}", { points: [1, 2] })).toBe("2  ");
+});
+
+test("Template expression", () => {
+  expect(render("${1 + 2 * 3} ${(1 + 2) * 3} ${7 % 4} ${-x / 2}", { x: 3 })).toBe("7 9 3 -1.5");
+  expect(render("${'a' + 1} ${\"}\" + 'b'}")).toBe("a1 }b");
+  expect(render("${x > 1 && x <= 2} ${x == 1 || not true} ${!reversed}", { x: 2, reversed: false })).toBe(
+    "true false true"
+  );
+  expect(render("${reversed ? -speed : speed}", { reversed: true, speed: 100 })).toBe("-100");
+  expect(render("${distance / speed * 1000 + 500}", { distance: 60, speed: 120 })).toBe("1000");
+});
+
+test("Template functions", () => {
+  expect(render("${fixed(x, 2)} ${round(x, 1)} ${round(x)} ${floor(x)} ${ceil(x)}", { x: 1.255 })).toBe(
+    "1.25 1.3 1 1 2"
+  );
+  expect(render("${abs(-2)} ${sqrt(16)} ${min(3, 1, 2)} ${max(3, 1, 2)} ${len(list)}", { list: [1, 2] })).toBe(
+    "2 4 1 3 2"
+  );
+  expect(render("${round(deg(rad(90)), 3)}")).toBe("90");
+  expect(Template.parse("${unit(x, 'in')}").render({ x: 2.54 }, { uol: UnitOfLength.Centimeter })).toBe("1");
+  expect(Template.parse("${unit(x, 'mm')}").render({ x: 1 }, { uol: UnitOfLength.Meter })).toBe("1000");
+});
+
+test("Template blocks", () => {
+  const ifTemplate = "${if reversed}\nbackward();\n${elif turn}\n  turn();\n${else}\nforward();\n${end}\ndone";
+  expect(render(ifTemplate, { reversed: true })).toBe("backward();\ndone");
+  expect(render(ifTemplate, { turn: 1 })).toBe("  turn();\ndone");
+  expect(render(ifTemplate, {})).toBe("forward();\ndone");
+  expect(render("a${if x} b${end} c", { x: true })).toBe("a b c");
+
+  const forTemplate =
+    "${for s in segments}\n  move(${s.x}, ${loop.index}/${loop.count})${if !loop.last},${end}\n${end}";
+  expect(render(forTemplate, { segments: [{ x: 1 }, { x: 2 }] })).toBe("  move(1, 0/2),\n  move(2, 1/2)\n");
+  expect(render(forTemplate, { segments: [] })).toBe("");
+  expect(render(forTemplate, {})).toBe("");
+  expect(render("${for a in x}${for b in a}${b}${end};${end}", { x: [[1, 2], [3]] })).toBe("12;3;");
+});
+
+test("Template errors", () => {
+  expect(getError(() => Template.parse("a\n  ${x +}"))).toMatchObject({
+    reason: "Unexpected end of expression",
+    line: 2,
+    column: 8
+  });
+  expect(getError(() => Template.parse("${x"))).toMatchObject({ reason: "Unclosed tag", line: 1, column: 1 });
+  expect(getError(() => Template.parse("${if x}\nabc"))).toMatchObject({
+    reason: 'Missing "end" tag of "if"',
+    line: 1,
+    column: 3
+  });
+  expect(getError(() => Template.parse("${end}"))).toMatchObject({ reason: 'Unexpected "end"' });
+  expect(getError(() => Template.parse("${x y}"))).toMatchObject({ reason: 'Unexpected "y"', column: 5 });
+  expect(getError(() => Template.parse("${foo(1)}"))).toMatchObject({ reason: 'Unknown function "foo"' });
+  expect(getError(() => Template.parse("${toString()}"))).toMatchObject({ reason: 'Unknown function "toString"' });
+  expect(getError(() => Template.parse("${constructor(1)}"))).toMatchObject({
+    reason: 'Unknown function "constructor"'
+  });
+  expect(getError(() => Template.parse("${for if in x}${end}"))).toMatchObject({ reason: 'Unexpected "if"' });
+  expect(getError(() => Template.parse("${x # 1}"))).toMatchObject({ reason: 'Unexpected character "#"' });
+  expect(getError(() => Template.parse("\n${unit(1, 'yard')}").render({}))).toMatchObject({
+    reason: 'Unknown unit "yard"',
+    line: 2,
+    column: 3
+  });
+  expect(getError(() => Template.parse("${for a in x}${end}").render({ x: 1 }))).toMatchObject({
+    reason: "Expected a list"
+  });
+  expect(getError(() => Template.parse("${x < '2'}").render({ x: 1 }))).toMatchObject({
+    reason: "Unable to compare number with string",
+    column: 5
+  });
+  expect(getError(() => Template.parse("${x >= 1}").render({}))).toMatchObject({
+    reason: "Unable to compare undefined with number"
+  });
+  expect(render("${'a' < 'b'} ${2 >= 10}")).toBe("true false");
+});
+
+test("parseTemplateSet", () => {
+  const templates = parseTemplateSet("path: `// ${name}\n${code}`\n// comment\nforward: `forward(\\`${x}\\`);`\nx: y");
+  expect(Object.keys(templates)).toEqual(["path", "forward"]);
+  expect(templates.path.render({ name: "Path 1", code: "abc" })).toBe("// Path 1\nabc");
+  expect(templates.forward.render({ x: 1 })).toBe("forward(`1`);");
+
+  expect(getError(() => parseTemplateSet("path: `abc`\nforward: `\\`\\` ${x +}`"))).toMatchObject({
+    line: 2,
+    column: 21
+  });
+  expect(getError(() => parseTemplateSet("path: `abc`\nforward: `abc"))).toMatchObject({
+    reason: 'Unclosed template "forward"',
+    line: 2,
+    column: 10
+  });
+});
+
+test("parseTemplateSet in lenient mode", () => {
+  // the default output template of Rigid Code Gen v0.1 before the template language
+  const legacyDefault = `path: \`// \${name}
+
+\${code}
+\`
+forward: \`forward(\${distance}, \${speed});\`
+backward: \`backward(\${distance}, \${speed});\`
+turnLeft: \`turnLeft(\${heading}, \${speed});\`
+turnRight: \`turnRight(\${heading}, \${speed});\`
+turnTo: \`turnTo(\${heading}, \${speed});\``;
+  const defaults = parseTemplateSet(legacyDefault, true);
+  expect(defaults.path.render({ name: "Path 1", code: "forward(60, 100);\n" })).toBe(
+    "// Path 1\n\nforward(60, 100);\n\n"
+  );
+  expect(defaults.forward.render({ distance: 60, speed: 100 })).toBe("forward(60, 100);");
+  expect(defaults.turnTo.render({ heading: 90.5, speed: 100 })).toBe("turnTo(90.5, 100);");
+
+  // ALGO: The invalid templates are rendered in the old syntax, unknown keys are replaced with an empty string
+  const templates = parseTemplateSet("path: `${name} ${unknown key} ${ if}`\nforward: `move(${x}, ${`", true);
+  expect(templates.path.render({ name: "Path 1" })).toBe("Path 1  ");
+  expect(templates.forward.render({ x: 1 })).toBe("move(1, ${");
+
+  // ALGO: An unclosed template ends the template set
+  expect(Object.keys(parseTemplateSet("path: `abc`\nforward: `abc", true))).toEqual(["path"]);
+  expect(getError(() => parseTemplateSet("forward: `move(${x}, ${`"))).toBeDefined();
+});
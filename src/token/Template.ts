@@ -0,0 +1,700 @@
+import { UnitConverter, UnitOfAngle, UnitOfLength } from "@core/Unit";
+import { BackQuoteString, CodePointBuffer } from "./Tokens";
+
+/**
+ * The template language used by the code generator formats.
+ *
+ * Text is copied to the output as is, except the tags:
+ * - `${expression}` outputs the value of the expression, e.g. `${x}`, `${fixed(distance / 2, 1)}`
+ * - `${if expression}`, `${elif expression}`, `${else}` and `${end}` output the first branch whose condition is true
+ * - `${for item in expression}` and `${end}` output the body for each item in the list, the variable `loop` holds
+ *   `index`, `count`, `first` and `last` of the current iteration
+ * - `$${` outputs `${`
+ *
+ * Expressions support numbers, strings in double or single quotes, `true` and `false`, variables, member access
+ * (`segment.x`, `points[0]`), arithmetic (`+ - * / %`), comparison (`== != < <= > >=`), logic (`&& || !`, or `and`,
+ * `or`, `not`), the conditional operator (`a ? b : c`) and the built-in functions listed in `TEMPLATE_FUNCTIONS`.
+ * Only two numbers or two strings can be compared with `< <= > >=`, otherwise a TemplateError is thrown.
+ *
+ * UX: A line containing only a block tag, e.g. `${if reversed}`, is removed from the output entirely
+ */
+
+export type TemplateValue = number | boolean | string | undefined | TemplateValue[] | TemplateVariables;
+
+export interface TemplateVariables {
+  [key: string]: TemplateValue;
+}
+
+export interface TemplateRenderOptions {
+  uol?: UnitOfLength; // The unit of length of the variables, it is used by the unit function
+}
+
+/**
+ * The error thrown when a template can not be parsed or rendered, the position is 1-based
+ */
+export class TemplateError extends Error {
+  constructor(readonly reason: string, readonly line: number, readonly column: number) {
+    super(`${reason} at line ${line}, column ${column}`);
+    this.name = "TemplateError";
+  }
+}
+
+type TemplateFunction = (options: TemplateRenderOptions, ...args: TemplateValue[]) => TemplateValue;
+
+const UNITS_OF_LENGTH: { [name: string]: UnitOfLength } = {
+  mm: UnitOfLength.Millimeter,
+  cm: UnitOfLength.Centimeter,
+  m: UnitOfLength.Meter,
+  in: UnitOfLength.Inch,
+  inch: UnitOfLength.Inch,
+  ft: UnitOfLength.Foot,
+  foot: UnitOfLength.Foot,
+  feet: UnitOfLength.Foot,
+  t: UnitOfLength.Tile,
+  tile: UnitOfLength.Tile
+};
+
+function toPrecision(digits: TemplateValue): number {
+  return Math.min(Math.max(Math.floor(Number(digits ?? 0)) || 0, 0), 20);
+}
+
+export const TEMPLATE_FUNCTIONS: { [name: string]: TemplateFunction } = {
+  fixed: (_, value, digits) => Number(value).toFixed(toPrecision(digits)),
+  round: (_, value, digits) => Number(Number(value).toFixed(toPrecision(digits))),
+  floor: (_, value) => Math.floor(Number(value)),
+  ceil: (_, value) => Math.ceil(Number(value)),
+  abs: (_, value) => Math.abs(Number(value)),
+  sqrt: (_, value) => Math.sqrt(Number(value)),
+  min: (_, ...values) => Math.min(...values.map(Number)),
+  max: (_, ...values) => Math.max(...values.map(Number)),
+  len: (_, value) => (Array.isArray(value) || typeof value === "string" ? value.length : 0),
+  rad: (_, value) => new UnitConverter(UnitOfAngle.Degree, UnitOfAngle.Radian).fromAtoB(Number(value)),
+  deg: (_, value) => new UnitConverter(UnitOfAngle.Radian, UnitOfAngle.Degree).fromAtoB(Number(value)),
+  unit: (options, value, name) => {
+    const target = UNITS_OF_LENGTH[String(name)];
+    if (target === undefined) throw new Error(`Unknown unit "${name}"`);
+    return new UnitConverter(options.uol ?? UnitOfLength.Centimeter, target).fromAtoB(Number(value));
+  }
+};
+
+type TemplateExpression = { index: number } & (
+  | { type: "literal"; value: TemplateValue }
+  | { type: "variable"; name: string }
+  | { type: "member"; object: TemplateExpression; property: TemplateExpression }
+  | { type: "call"; name: string; args: TemplateExpression[] }
+  | { type: "unary"; operator: string; operand: TemplateExpression }
+  | { type: "binary"; operator: string; left: TemplateExpression; right: TemplateExpression }
+  | { type: "conditional"; test: TemplateExpression; consequent: TemplateExpression; alternate: TemplateExpression }
+);
+
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "output"; expression: TemplateExpression }
+  | { type: "if"; branches: { test: TemplateExpression; body: TemplateNode[] }[]; alternate: TemplateNode[] }
+  | { type: "for"; name: string; list: TemplateExpression; body: TemplateNode[] };
+
+type TemplateChunk = { type: "text"; text: string } | { type: "tag"; content: string; index: number };
+
+interface ExpressionToken {
+  type: "number" | "string" | "identifier" | "punctuator" | "end";
+  value: string;
+  index: number;
+}
+
+const PUNCTUATORS = ["&&", "||", "==", "!=", "<=", ">=", "+", "-", "*", "/", "%", "<", ">", "!", "?", ":", ".", ",", "(", ")", "[", "]"]; // prettier-ignore
+
+const BLOCK_KEYWORDS = ["if", "elif", "else", "end", "for"];
+
+const RESERVED_WORDS = [...BLOCK_KEYWORDS, "in", "and", "or", "not", "true", "false"];
+
+/**
+ * @param source The source
+ * @param index The index of the character in the source
+ * @returns The 1-based line and column of the character
+ */
+function getLineAndColumn(source: string, index: number): [number, number] {
+  const before = source.substring(0, index);
+  const line = before.split("\n").length;
+  return [line, index - before.lastIndexOf("\n")];
+}
+
+function getKeyword(content: string): string {
+  return /^\s*([A-Za-z_]\w*)/.exec(content)?.[1] ?? "";
+}
+
+/**
+ * ALGO: Split the source into text and tags, the tag ends at the first "}" outside of string literals
+ */
+function splitChunks(source: string, fail: (reason: string, index: number) => never): TemplateChunk[] {
+  const chunks: TemplateChunk[] = [];
+  let text = "";
+  let i = 0;
+  while (i < source.length) {
+    if (source.startsWith("$${", i)) {
+      text += "${";
+      i += 3;
+    } else if (source.startsWith("${", i)) {
+      const start = i + 2;
+      let quote: string | undefined;
+      let j = start;
+      for (; j < source.length; j++) {
+        const c = source[j];
+        if (quote !== undefined) {
+          if (c === "\\") j++;
+          else if (c === quote) quote = undefined;
+        } else if (c === '"' || c === "'") quote = c;
+        else if (c === "}") break;
+      }
+      if (j >= source.length) fail("Unclosed tag", i);
+
+      chunks.push({ type: "text", text }, { type: "tag", content: source.substring(start, j), index: start });
+      text = "";
+      i = j + 1;
+    } else {
+      text += source[i++];
+    }
+  }
+  chunks.push({ type: "text", text });
+
+  // ALGO: Remove the whitespaces and the line break around a block tag if it is the only content on the line
+  // The chunks are alternating between text and tag, starting and ending with text
+  // The decisions are made with the original text, then the texts are trimmed
+  const texts = chunks.filter((chunk): chunk is { type: "text"; text: string } => chunk.type === "text");
+  const ranges = texts.map(chunk => [0, chunk.text.length]);
+  for (let k = 1; k < texts.length; k++) {
+    const tag = chunks[k * 2 - 1] as { content: string };
+    if (!BLOCK_KEYWORDS.includes(getKeyword(tag.content))) continue;
+
+    const prev = texts[k - 1].text;
+    const next = texts[k].text;
+    const lineStart = prev.lastIndexOf("\n") + 1;
+    const nextLineBreak = next.indexOf("\n");
+    const lineEnd = nextLineBreak !== -1 ? nextLineBreak + 1 : next.length;
+    const isLineStart = lineStart !== 0 || k === 1;
+    const isLineEnd = nextLineBreak !== -1 || k === texts.length - 1;
+
+    if (
+      isLineStart &&
+      isLineEnd &&
+      prev.substring(lineStart).trim() === "" &&
+      next.substring(0, lineEnd).trim() === ""
+    ) {
+      ranges[k - 1][1] = Math.max(ranges[k - 1][0], lineStart);
+      ranges[k][0] = lineEnd;
+    }
+  }
+  texts.forEach((chunk, k) => (chunk.text = chunk.text.substring(ranges[k][0], ranges[k][1])));
+
+  return chunks;
+}
+
+/**
+ * A recursive descent parser of the expressions in a tag
+ */
+class ExpressionParser {
+  private tokens: ExpressionToken[] = [];
+  private pos = 0;
+
+  constructor(content: string, offset: number, private fail: (reason: string, index: number) => never) {
+    let i = 0;
+    while (i < content.length) {
+      const c = content[i];
+      if (/\s/.test(c)) {
+        i++;
+        continue;
+      }
+
+      const index = offset + i;
+      const rest = content.substring(i);
+      const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(rest);
+      const identifier = /^[A-Za-z_]\w*/.exec(rest);
+      if (number) {
+        this.tokens.push({ type: "number", value: number[0], index });
+        i += number[0].length;
+      } else if (identifier) {
+        this.tokens.push({ type: "identifier", value: identifier[0], index });
+        i += identifier[0].length;
+      } else if (c === '"' || c === "'") {
+        let value = "";
+        let j = i + 1;
+        for (; j < content.length && content[j] !== c; j++) {
+          if (content[j] === "\\") j++;
+          value += content[j] ?? "";
+        }
+        if (j >= content.length) this.fail("Unclosed string", index);
+        this.tokens.push({ type: "string", value, index });
+        i = j + 1;
+      } else {
+        const punctuator = PUNCTUATORS.find(p => rest.startsWith(p));
+        if (punctuator === undefined) this.fail(`Unexpected character "${c}"`, index);
+        this.tokens.push({ type: "punctuator", value: punctuator, index });
+        i += punctuator.length;
+      }
+    }
+    this.tokens.push({ type: "end", value: "", index: offset + content.length });
+  }
+
+  peek(): ExpressionToken {
+    return this.tokens[this.pos];
+  }
+
+  next(): ExpressionToken {
+    return this.tokens[Math.min(this.pos++, this.tokens.length - 1)];
+  }
+
+  accept(...values: string[]): ExpressionToken | undefined {
+    const token = this.peek();
+    if ((token.type === "punctuator" || token.type === "identifier") && values.includes(token.value)) {
+      return this.next();
+    }
+    return undefined;
+  }
+
+  expect(value: string): ExpressionToken {
+    const token = this.accept(value);
+    if (token === undefined) this.unexpected();
+    return token;
+  }
+
+  expectIdentifier(): string {
+    const token = this.peek();
+    if (token.type !== "identifier" || RESERVED_WORDS.includes(token.value)) this.unexpected();
+    return this.next().value;
+  }
+
+  expectEnd(): void {
+    if (this.peek().type !== "end") this.unexpected();
+  }
+
+  unexpected(): never {
+    const token = this.peek();
+    if (token.type === "end") this.fail("Unexpected end of expression", token.index);
+    else this.fail(`Unexpected "${token.type === "string" ? "string" : token.value}"`, token.index);
+  }
+
+  parseExpression(): TemplateExpression {
+    const test = this.parseBinary(0);
+    const question = this.accept("?");
+    if (question === undefined) return test;
+
+    const consequent = this.parseExpression();
+    this.expect(":");
+    const alternate = this.parseExpression();
+    return { type: "conditional", test, consequent, alternate, index: question.index };
+  }
+
+  private static readonly PRECEDENCE: string[][] = [
+    ["||", "or"],
+    ["&&", "and"],
+    ["==", "!="],
+    ["<", "<=", ">", ">="],
+    ["+", "-"],
+    ["*", "/", "%"]
+  ];
+
+  private parseBinary(level: number): TemplateExpression {
+    if (level >= ExpressionParser.PRECEDENCE.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    let token: ExpressionToken | undefined;
+    while ((token = this.accept(...ExpressionParser.PRECEDENCE[level])) !== undefined) {
+      const operator = token.value === "or" ? "||" : token.value === "and" ? "&&" : token.value;
+      const right = this.parseBinary(level + 1);
+      left = { type: "binary", operator, left, right, index: token.index };
+    }
+    return left;
+  }
+
+  private parseUnary(): TemplateExpression {
+    const token = this.accept("-", "!", "not");
+    if (token === undefined) return this.parsePostfix();
+
+    const operator = token.value === "not" ? "!" : token.value;
+    return { type: "unary", operator, operand: this.parseUnary(), index: token.index };
+  }
+
+  private parsePostfix(): TemplateExpression {
+    let expression = this.parsePrimary();
+    let token: ExpressionToken | undefined;
+    while ((token = this.accept(".", "[")) !== undefined) {
+      if (token.value === ".") {
+        const name = this.peek();
+        if (name.type !== "identifier") this.unexpected();
+        this.next();
+        const property: TemplateExpression = { type: "literal", value: name.value, index: name.index };
+        expression = { type: "member", object: expression, property, index: token.index };
+      } else {
+        const property = this.parseExpression();
+        this.expect("]");
+        expression = { type: "member", object: expression, property, index: token.index };
+      }
+    }
+    return expression;
+  }
+
+  private parsePrimary(): TemplateExpression {
+    const token = this.peek();
+    const index = token.index;
+    if (token.type === "number") {
+      this.next();
+      return { type: "literal", value: Number(token.value), index };
+    } else if (token.type === "string") {
+      this.next();
+      return { type: "literal", value: token.value, index };
+    } else if (this.accept("(")) {
+      const expression = this.parseExpression();
+      this.expect(")");
+      return expression;
+    } else if (this.accept("true")) {
+      return { type: "literal", value: true, index };
+    } else if (this.accept("false")) {
+      return { type: "literal", value: false, index };
+    }
+
+    const name = this.expectIdentifier();
+    if (!this.accept("(")) return { type: "variable", name, index };
+
+    // SECURITY: Only the built-in functions can be called, not the properties inherited from Object
+    if (!Object.prototype.hasOwnProperty.call(TEMPLATE_FUNCTIONS, name)) this.fail(`Unknown function "${name}"`, index);
+    const args: TemplateExpression[] = [];
+    if (!this.accept(")")) {
+      do {
+        args.push(this.parseExpression());
+      } while (this.accept(","));
+      this.expect(")");
+    }
+    return { type: "call", name, args, index };
+  }
+}
+
+function isComparable(value: TemplateValue): value is number | string {
+  return typeof value === "number" || typeof value === "string";
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return !!value;
+}
+
+function stringify(value: TemplateValue): string {
+  if (value === undefined) return "";
+  if (typeof value === "object" && !Array.isArray(value)) return "";
+  return String(value);
+}
+
+/**
+ * A parsed template, it can be rendered multiple times with different variables
+ */
+export class Template {
+  private constructor(private readonly nodes: TemplateNode[], private readonly locate: (index: number) => number[]) {}
+
+  /**
+   * @throws TemplateError if the template is invalid
+   * @param source The source of the template
+   * @param toSourceIndex Maps the index in the template to the index in the source for error reporting
+   * @param fullSource The source for error reporting, the template itself by default
+   * @returns The parsed template
+   */
+  static parse(
+    source: string,
+    toSourceIndex: (index: number) => number = index => index,
+    fullSource: string = source
+  ): Template {
+    const locate = (index: number) => getLineAndColumn(fullSource, toSourceIndex(index));
+    const fail = (reason: string, index: number): never => {
+      const [line, column] = locate(index);
+      throw new TemplateError(reason, line, column);
+    };
+
+    const chunks = splitChunks(source, fail);
+    let pos = 0;
+
+    const parseNodes = (
+      terminators: string[]
+    ): { nodes: TemplateNode[]; terminator?: { keyword: string; parser: ExpressionParser } } => {
+      const nodes: TemplateNode[] = [];
+      while (pos < chunks.length) {
+        const chunk = chunks[pos++];
+        if (chunk.type === "text") {
+          if (chunk.text !== "") nodes.push({ type: "text", text: chunk.text });
+          continue;
+        }
+
+        const parser = new ExpressionParser(chunk.content, chunk.index, fail);
+        const keyword = getKeyword(chunk.content);
+        if (terminators.includes(keyword)) {
+          parser.next();
+          return { nodes, terminator: { keyword, parser } };
+        } else if (keyword === "if") {
+          parser.next();
+          nodes.push(parseIf(chunk.index, parser));
+        } else if (keyword === "for") {
+          parser.next();
+          const name = parser.expectIdentifier();
+          parser.expect("in");
+          const list = parser.parseExpression();
+          parser.expectEnd();
+          const body = parseNodes(["end"]);
+          const terminator = body.terminator ?? fail('Missing "end" tag of "for"', chunk.index);
+          terminator.parser.expectEnd();
+          nodes.push({ type: "for", name, list, body: body.nodes });
+        } else if (BLOCK_KEYWORDS.includes(keyword)) {
+          fail(`Unexpected "${keyword}"`, chunk.index);
+        } else {
+          const expression = parser.parseExpression();
+          parser.expectEnd();
+          nodes.push({ type: "output", expression });
+        }
+      }
+      return { nodes };
+    };
+
+    const parseIf = (index: number, parser: ExpressionParser): TemplateNode => {
+      const branches: { test: TemplateExpression; body: TemplateNode[] }[] = [];
+      let alternate: TemplateNode[] = [];
+      let keyword = "if";
+      while (true) {
+        let test: TemplateExpression | undefined;
+        if (keyword !== "else") {
+          test = parser.parseExpression();
+        }
+        parser.expectEnd();
+
+        const body = parseNodes(keyword === "else" ? ["end"] : ["elif", "else", "end"]);
+        const terminator = body.terminator ?? fail('Missing "end" tag of "if"', index);
+        if (test === undefined) alternate = body.nodes;
+        else branches.push({ test, body: body.nodes });
+
+        parser = terminator.parser;
+        keyword = terminator.keyword;
+        if (keyword === "end") {
+          parser.expectEnd();
+          break;
+        }
+      }
+      return { type: "if", branches, alternate };
+    };
+
+    const { nodes } = parseNodes([]);
+    return new Template(nodes, locate);
+  }
+
+  /**
+   * Parse the template in the syntax before the template language, `${key}` outputs the variable and other text is
+   * copied as is. It never fails
+   *
+   * @param source The source of the template
+   * @returns The parsed template
+   */
+  static parseLegacy(source: string): Template {
+    const nodes: TemplateNode[] = [];
+    let last = 0;
+    for (const match of source.matchAll(/\${([^}]+)}/g)) {
+      const index = match.index!;
+      if (index > last) nodes.push({ type: "text", text: source.substring(last, index) });
+      nodes.push({ type: "output", expression: { type: "variable", name: match[1], index } });
+      last = index + match[0].length;
+    }
+    if (last < source.length) nodes.push({ type: "text", text: source.substring(last) });
+
+    return new Template(nodes, index => getLineAndColumn(source, index));
+  }
+
+  /**
+   * @throws TemplateError if the template can not be rendered, e.g. an unknown unit is used
+   * @param variables The variables
+   * @param options The render options
+   * @returns The output
+   */
+  render(variables: TemplateVariables, options: TemplateRenderOptions = {}): string {
+    return this.renderNodes(this.nodes, variables, options);
+  }
+
+  private renderNodes(nodes: TemplateNode[], scope: TemplateVariables, options: TemplateRenderOptions): string {
+    let rtn = "";
+    for (const node of nodes) {
+      if (node.type === "text") {
+        rtn += node.text;
+      } else if (node.type === "output") {
+        rtn += stringify(this.evaluate(node.expression, scope, options));
+      } else if (node.type === "if") {
+        const branch = node.branches.find(b => isTruthy(this.evaluate(b.test, scope, options)));
+        rtn += this.renderNodes(branch?.body ?? node.alternate, scope, options);
+      } else {
+        const list = this.evaluate(node.list, scope, options);
+        if (list === undefined) continue;
+        if (!Array.isArray(list)) this.fail("Expected a list", node.list.index);
+
+        for (let index = 0; index < list.length; index++) {
+          const loop = { index, count: list.length, first: index === 0, last: index === list.length - 1 };
+          rtn += this.renderNodes(node.body, { ...scope, [node.name]: list[index], loop }, options);
+        }
+      }
+    }
+    return rtn;
+  }
+
+  private evaluate(
+    expression: TemplateExpression,
+    scope: TemplateVariables,
+    options: TemplateRenderOptions
+  ): TemplateValue {
+    switch (expression.type) {
+      case "literal":
+        return expression.value;
+      case "variable":
+        return Object.prototype.hasOwnProperty.call(scope, expression.name) ? scope[expression.name] : undefined;
+      case "member": {
+        const object = this.evaluate(expression.object, scope, options);
+        const property = this.evaluate(expression.property, scope, options);
+        if (typeof object !== "object" || !isComparable(property)) return undefined;
+        // SECURITY: Only own properties are accessible, the prototype chain is not exposed to the template
+        if (!Object.prototype.hasOwnProperty.call(object, property)) return undefined;
+        if (Array.isArray(object)) return property === "length" ? object.length : object[Number(property)];
+        return object[property];
+      }
+      case "call": {
+        const args = expression.args.map(arg => this.evaluate(arg, scope, options));
+        try {
+          return TEMPLATE_FUNCTIONS[expression.name](options, ...args);
+        } catch (err) {
+          return this.fail(err instanceof Error ? err.message : String(err), expression.index);
+        }
+      }
+      case "unary": {
+        const operand = this.evaluate(expression.operand, scope, options);
+        return expression.operator === "!" ? !isTruthy(operand) : -Number(operand);
+      }
+      case "binary": {
+        const left = this.evaluate(expression.left, scope, options);
+        // ALGO: Logical operators are short-circuited and return the operand like JavaScript
+        if (expression.operator === "&&")
+          return isTruthy(left) ? this.evaluate(expression.right, scope, options) : left;
+        if (expression.operator === "||")
+          return isTruthy(left) ? left : this.evaluate(expression.right, scope, options);
+
+        const right = this.evaluate(expression.right, scope, options);
+        switch (expression.operator) {
+          case "+":
+            if (typeof left === "string" || typeof right === "string") return stringify(left) + stringify(right);
+            return Number(left) + Number(right);
+          case "-":
+            return Number(left) - Number(right);
+          case "*":
+            return Number(left) * Number(right);
+          case "/":
+            return Number(left) / Number(right);
+          case "%":
+            return Number(left) % Number(right);
+          case "==":
+            return left === right;
+          case "!=":
+            return left !== right;
+        }
+
+        // ALGO: Only numbers or strings can be compared with each other, there is no implicit conversion
+        if (!isComparable(left) || !isComparable(right) || typeof left !== typeof right) {
+          return this.fail(`Unable to compare ${typeof left} with ${typeof right}`, expression.index);
+        }
+        switch (expression.operator) {
+          case "<":
+            return left < right;
+          case "<=":
+            return left <= right;
+          case ">":
+            return left > right;
+          default:
+            return left >= right;
+        }
+      }
+      case "conditional":
+        return isTruthy(this.evaluate(expression.test, scope, options))
+          ? this.evaluate(expression.consequent, scope, options)
+          : this.evaluate(expression.alternate, scope, options);
+    }
+  }
+
+  private fail(reason: string, index: number): never {
+    const [line, column] = this.locate(index);
+    throw new TemplateError(reason, line, column);
+  }
+}
+
+/**
+ * Parse the named templates in the format of `name: \`template\``, one per line. Lines in other formats are ignored.
+ *
+ * UX: The output templates saved before the template language might not be valid, e.g. with a stray `${`. In lenient
+ * mode, an invalid template is parsed in the old syntax and an unclosed template ends the template set, the same as
+ * before, so that the old output templates can still be exported
+ *
+ * @throws TemplateError if any template is invalid and it is not in lenient mode, the position is relative to the
+ * whole source
+ * @param source The source of the template set, e.g. the output template in the general config
+ * @param lenient Whether to fall back to the old syntax instead of throwing
+ * @returns The templates by name
+ */
+export function parseTemplateSet(source: string, lenient = false): { [key: string]: Template } {
+  const rtn: { [key: string]: Template } = {};
+
+  const cpb = new CodePointBuffer(source);
+  const skipLine = () => {
+    while (cpb.hasNext() && cpb.next() !== "\n") {}
+  };
+
+  while (cpb.hasNext()) {
+    const key = cpb.readSafeChunk();
+    const colon = cpb.next();
+
+    if (key === "" || colon !== ":") {
+      skipLine();
+      continue;
+    }
+
+    cpb.readDelimiter();
+
+    const start = cpb.getIndex();
+    if (cpb.peek() !== "`") {
+      skipLine();
+      continue;
+    }
+
+    const value = BackQuoteString.parse(cpb);
+    if (value === null) {
+      if (lenient) break;
+      const [line, column] = getLineAndColumn(source, start);
+      throw new TemplateError(`Unclosed template "${key}"`, line, column);
+    }
+
+    // ALGO: Map the index in the content to the index in the source, the escape characters are removed in the content
+    const sourceIndexes: number[] = [];
+    for (let i = 1; i < value.value.length - 1; i++) {
+      if (value.value[i] === "\\") i++;
+      sourceIndexes.push(start + i);
+    }
+    sourceIndexes.push(start + value.value.length - 1);
+
+    try {
+      rtn[key] = Template.parse(value.content, index => sourceIndexes[index], source);
+    } catch (err) {
+      if (!lenient || !(err instanceof TemplateError)) throw err;
+      rtn[key] = Template.parseLegacy(value.content);
+    }
+
+    skipLine();
+  }
+
+  return rtn;
+}
+
+/**
+ * @param source The source of the template set
+ * @returns The error message if the template set is invalid, undefined otherwise
+ */
+export function getTemplateSetError(source: string): string | undefined {
+  try {
+    parseTemplateSet(source);
+    return undefined;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
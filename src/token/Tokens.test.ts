@@ -1,5 +1,5 @@
 import { Unit, UnitOfAngle, UnitOfLength } from "@core/Unit";
-import { Zero, CodePointBuffer, isDelimiter, isSafeDelimiter, BooleanT, DecimalPoint, Digit1To9, Digit, DoubleQuoteString, Frac, Int, Minus, NegativeInt, NumberT, PositiveInt, SingleQuoteString, StringT, NumberUOL, Operator, CloseBracket, OpenBracket, Expression, Computation, Computable, NumberWithUnit, NumberUOA, BackQuoteString } from "./Tokens";
+import { Zero, CodePointBuffer, isDelimiter, isSafeDelimiter, BooleanT, DecimalPoint, Digit1To9, Digit, DoubleQuoteString, Frac, Int, Minus, NegativeInt, NumberT, PositiveInt, SingleQuoteString, StringT, NumberUOL, Operator, CloseBracket, OpenBracket, Expression, Computation, Computable, NumberWithUnit, NumberUOA, BackQuoteString, FormulaContext, FormulaFunctionCall, FormulaIdentifier, FormulaReference } from "./Tokens";
 
 function cpb(s: string): CodePointBuffer {
   return new CodePointBuffer(s);
@@ -646,3 +646,52 @@ test('Computation valid case', () => {
   expect(Computation.parseWith(cpb("1+2/(3-(4+5))"), NumberUOL.parse)?.compute(UnitOfLength.Centimeter)).toBeCloseTo(0.66666);
   expect(Computation.parseWith(cpb("1+2/((3-4)+5)"), NumberUOL.parse)?.compute(UnitOfLength.Centimeter)).toBeCloseTo(1.5);
 });
+
+test('Formula operand valid case', () => {
+  expect(new FormulaIdentifier("abc_1")).toStrictEqual(FormulaIdentifier.parse(cpb("abc_1")));
+  expect(new FormulaReference("@Path1.end3.x", ["Path1", "end3", "x"])).toStrictEqual(FormulaReference.parse(cpb("@Path1.end3.x")));
+  expect(new FormulaReference('@"Path 1".end3.x', ["Path 1", "end3", "x"])).toStrictEqual(FormulaReference.parse(cpb('@"Path 1".end3.x')));
+  expect(new FormulaFunctionCall("max", [n('1'), c(n('2'), o('*'), n('3'))])).toStrictEqual(FormulaFunctionCall.parseWith(cpb("max(1, 2 * 3)"), NumberUOL.parse));
+
+  expect(c(new FormulaReference("@Path1.end3.x", ["Path1", "end3", "x"]), o('+'), n('1', UnitOfLength.Tile))).toStrictEqual(Computation.parseWith(cpb("@Path1.end3.x + 1tile"), NumberUOL.parse));
+  expect(c(new FormulaIdentifier("a"), o('+'), n('0'))).toStrictEqual(Computation.parseWith(cpb("(a)"), NumberUOL.parse));
+});
+
+test('Formula operand invalid case', () => {
+  expect(FormulaIdentifier.parse(cpb("1abc"))).toBeNull();
+  expect(FormulaReference.parse(cpb("Path1"))).toBeNull();
+  expect(FormulaReference.parse(cpb("@"))).toBeNull();
+  expect(FormulaReference.parse(cpb("@Path1."))).toBeNull();
+  expect(FormulaFunctionCall.parseWith(cpb("unknown(1)"), NumberUOL.parse)).toBeNull();
+  expect(FormulaFunctionCall.parseWith(cpb("sqrt(1, 2)"), NumberUOL.parse)).toBeNull();
+  expect(FormulaFunctionCall.parseWith(cpb("atan2(1)"), NumberUOL.parse)).toBeNull();
+  expect(FormulaFunctionCall.parseWith(cpb("max(1,)"), NumberUOL.parse)).toBeNull();
+
+  expect(Computation.parseWith(cpb("sqrt(4"), NumberUOL.parse)).toBeNull();
+  expect(Computation.parseWith(cpb("2 a"), NumberUOL.parse)).toBeNull();
+  expect(Computation.parseWith(cpb("2a"), NumberUOL.parse)).toBeNull();
+  expect(Computation.parseWith(cpb("foo(1)"), NumberUOL.parse)).toBeNull();
+});
+
+test('Computation with functions, variables and references', () => {
+  const context: FormulaContext<UnitOfLength> = {
+    getVariable: (name, inherit) => (name === "half" ? new NumberUOL("12", UnitOfLength.Inch).toQuantity(inherit).to(inherit) : undefined),
+    getReference: (path, inherit) => (path.join(".") === "Path1.end3.x" ? 10 : undefined)
+  };
+  const compute = (input: string) => Computation.parseWith(cpb(input), NumberUOL.parse)?.compute(UnitOfLength.Inch, context);
+
+  expect(compute("sqrt(16)")).toBe(4);
+  expect(compute("hypot(3, 4) * 2")).toBe(10);
+  expect(compute("min(3, 1in, 2) + max(1, 5, 2)")).toBe(6);
+  expect(compute("sin(30)")).toBeCloseTo(0.5);
+  expect(compute("cos(60)")).toBeCloseTo(0.5);
+  expect(compute("atan2(1, 1)")).toBeCloseTo(45);
+  expect(compute("2 * pi")).toBeCloseTo(Math.PI * 2);
+  expect(compute("half * 2")).toBe(24);
+  expect(compute("@Path1.end3.x + 1tile")).toBe(34);
+  expect(compute("max(@Path1.end3.x, half) - 1ft")).toBe(0);
+
+  expect(() => compute("unknown + 1")).toThrowError('Unknown variable "unknown"');
+  expect(() => compute("@Path1.end4.x")).toThrowError('Unknown reference "@Path1.end4.x"');
+  expect(() => Computation.parseWith(cpb("half"), NumberUOL.parse)?.compute(UnitOfLength.Inch)).toThrowError();
+});
@@ -651,6 +651,8 @@ export class NumberUOL extends NumberWithUnit<UnitOfLength> {
         buffer.commit();
         break;
       default:
+        // ALGO: Rollback to the beginning of the number, the unit is not valid
+        buffer.rollback();
         return buffer.rollbackAndReturn(null);
     }
     return buffer.commitAndReturn(new NumberUOL(n.value, unit));
@@ -684,6 +686,8 @@ export class NumberUOA extends NumberWithUnit<UnitOfAngle> {
         buffer.commit();
         break;
       default:
+        // ALGO: Rollback to the beginning of the number, the unit is not valid
+        buffer.rollback();
         return buffer.rollbackAndReturn(null);
     }
     return buffer.commitAndReturn(new NumberUOA(n.value, unit));
@@ -713,8 +717,211 @@ export class Operator extends Token {
   }
 }
 
+/**
+ * Resolves the names used in a formula, e.g. the project variables and the references to the controls
+ */
+export interface FormulaContext<U extends Unit> {
+  /**
+   * @param name The name of the variable or constant
+   * @param inherit The unit of the computation
+   * @returns The value in the unit of the computation, or undefined if the name is not found
+   */
+  getVariable(name: string, inherit: U): number | undefined;
+  /**
+   * @param path The path of the reference without "@", e.g. ["Path1", "end3", "x"]
+   * @param inherit The unit of the computation
+   * @returns The value in the unit of the computation, or undefined if the reference is not found
+   */
+  getReference(path: readonly string[], inherit: U): number | undefined;
+}
+
+interface FormulaFunction {
+  minArgs: number;
+  maxArgs: number;
+  fn: (...args: number[]) => number;
+}
+
+const toRadian = (degree: number) => (degree * Math.PI) / 180;
+const toDegree = (radian: number) => (radian * 180) / Math.PI;
+
+// ALGO: The trigonometric functions take and return angles in degrees, the same as the headings in the app
+const FORMULA_FUNCTIONS = new Map<string, FormulaFunction>([
+  ["abs", { minArgs: 1, maxArgs: 1, fn: Math.abs }],
+  ["sqrt", { minArgs: 1, maxArgs: 1, fn: Math.sqrt }],
+  ["round", { minArgs: 1, maxArgs: 1, fn: Math.round }],
+  ["floor", { minArgs: 1, maxArgs: 1, fn: Math.floor }],
+  ["ceil", { minArgs: 1, maxArgs: 1, fn: Math.ceil }],
+  ["sin", { minArgs: 1, maxArgs: 1, fn: x => Math.sin(toRadian(x)) }],
+  ["cos", { minArgs: 1, maxArgs: 1, fn: x => Math.cos(toRadian(x)) }],
+  ["tan", { minArgs: 1, maxArgs: 1, fn: x => Math.tan(toRadian(x)) }],
+  ["asin", { minArgs: 1, maxArgs: 1, fn: x => toDegree(Math.asin(x)) }],
+  ["acos", { minArgs: 1, maxArgs: 1, fn: x => toDegree(Math.acos(x)) }],
+  ["atan", { minArgs: 1, maxArgs: 1, fn: x => toDegree(Math.atan(x)) }],
+  ["atan2", { minArgs: 2, maxArgs: 2, fn: (y, x) => toDegree(Math.atan2(y, x)) }],
+  ["hypot", { minArgs: 1, maxArgs: Infinity, fn: Math.hypot }],
+  ["min", { minArgs: 1, maxArgs: Infinity, fn: Math.min }],
+  ["max", { minArgs: 1, maxArgs: Infinity, fn: Math.max }]
+]);
+
+const FORMULA_CONSTANTS = new Map<string, number>([["pi", Math.PI]]);
+
+/**
+ * @param name The name to be checked
+ * @returns Whether the name is a built-in function or constant of the formula
+ */
+export function isFormulaBuiltInName(name: string): boolean {
+  return FORMULA_FUNCTIONS.has(name) || FORMULA_CONSTANTS.has(name);
+}
+
+function isIdentifierStart(c: string | null): boolean {
+  return c !== null && /[A-Za-z_]/.test(c);
+}
+
+function isIdentifierPart(c: string | null): boolean {
+  return c !== null && /\w/.test(c);
+}
+
+/**
+ * Reads an identifier from the buffer, the buffer is not moved if there is no identifier
+ * @param buffer The code point buffer to be read.
+ * @returns The identifier, or an empty string if the cursor is not at an identifier.
+ */
+function readIdentifier(buffer: CodePointBuffer): string {
+  if (!isIdentifierStart(buffer.peek())) return "";
+
+  let rtn = "";
+  while (buffer.hasNext() && isIdentifierPart(buffer.peek())) {
+    rtn += buffer.next();
+  }
+  return rtn;
+}
+
+export class FormulaIdentifier extends Token {
+  constructor(public value: string) {
+    super();
+  }
+
+  public static parse(buffer: CodePointBuffer): FormulaIdentifier | null {
+    const name = readIdentifier(buffer);
+    return name === "" ? null : new FormulaIdentifier(name);
+  }
+
+  public compute<U extends Unit>(inherit: U, context?: FormulaContext<U>): number {
+    // ALGO: The project variables and constants shadow the built-in constants
+    const value = context?.getVariable(this.value, inherit) ?? FORMULA_CONSTANTS.get(this.value);
+    if (value === undefined) throw new Error(`Unknown variable "${this.value}"`);
+    return value;
+  }
+}
+
+export class FormulaReference extends Token {
+  constructor(public value: string, public path: string[]) {
+    super();
+  }
+
+  public static parse(buffer: CodePointBuffer): FormulaReference | null {
+    buffer.savepoint();
+
+    if (buffer.next() !== "@") {
+      return buffer.rollbackAndReturn(null);
+    }
+
+    let value = "@";
+    const path: string[] = [];
+    do {
+      if (path.length > 0) value += ".";
+
+      // ALGO: A name with spaces or symbols is quoted, e.g. @"Path 1".end3.x
+      const quoted = DoubleQuoteString.parse(buffer);
+      let name: string;
+      if (quoted) {
+        name = quoted.content;
+        value += quoted.value;
+      } else {
+        name = "";
+        while (buffer.hasNext() && isIdentifierPart(buffer.peek())) {
+          name += buffer.next();
+        }
+        value += name;
+      }
+
+      if (name === "") {
+        return buffer.rollbackAndReturn(null);
+      }
+      path.push(name);
+    } while (buffer.peek() === "." && buffer.next() !== null);
+
+    return buffer.commitAndReturn(new FormulaReference(value, path));
+  }
+
+  public compute<U extends Unit>(inherit: U, context?: FormulaContext<U>): number {
+    const value = context?.getReference(this.path, inherit);
+    if (value === undefined) throw new Error(`Unknown reference "${this.value}"`);
+    return value;
+  }
+}
+
+export class FormulaFunctionCall<U extends Unit = Unit> extends Token {
+  constructor(public name: string, public args: Computable<U>[]) {
+    super();
+  }
+
+  public static parse(buffer: CodePointBuffer): FormulaFunctionCall | null {
+    throw new Error("not implemented");
+  }
+
+  public static parseWith<U extends Unit>(
+    buffer: CodePointBuffer,
+    numParser: TokenParser<NumberWithUnit<U>>
+  ): FormulaFunctionCall<U> | null {
+    buffer.savepoint();
+
+    const name = readIdentifier(buffer);
+    const func = FORMULA_FUNCTIONS.get(name);
+    if (func === undefined) {
+      return buffer.rollbackAndReturn(null);
+    }
+
+    buffer.readDelimiter();
+
+    if (!OpenBracket.parse(buffer)) {
+      return buffer.rollbackAndReturn(null);
+    }
+
+    const args: Computable<U>[] = [];
+    do {
+      const e = Expression.parseWith(buffer, numParser);
+      if (!e) {
+        return buffer.rollbackAndReturn(null);
+      }
+
+      args.push(Computation.fromExpression(e));
+    } while (buffer.peek() === "," && buffer.next() !== null);
+
+    if (!CloseBracket.parse(buffer)) {
+      return buffer.rollbackAndReturn(null);
+    }
+
+    if (args.length < func.minArgs || args.length > func.maxArgs) {
+      return buffer.rollbackAndReturn(null);
+    }
+
+    return buffer.commitAndReturn(new FormulaFunctionCall(name, args));
+  }
+
+  public compute(inherit: U, context?: FormulaContext<U>): number {
+    const args = this.args.map(arg => computeComputable(arg, inherit, context));
+    return FORMULA_FUNCTIONS.get(this.name)!.fn(...args);
+  }
+}
+
+/**
+ * The operands in a formula other than numbers
+ */
+export type FormulaOperand = FormulaFunctionCall | FormulaIdentifier | FormulaReference;
+
 export class Expression<T extends NumberWithUnit<Unit>> extends Token {
-  constructor(public tokens: (OpenBracket | CloseBracket | T | Operator)[]) {
+  constructor(public tokens: (OpenBracket | CloseBracket | T | FormulaOperand | Operator)[]) {
     super();
   }
 
@@ -730,7 +937,7 @@ export class Expression<T extends NumberWithUnit<Unit>> extends Token {
 
     buffer.readDelimiter();
 
-    let tokens: (OpenBracket | CloseBracket | T | Operator)[] = [];
+    let tokens: (OpenBracket | CloseBracket | T | FormulaOperand | Operator)[] = [];
 
     const bracket = OpenBracket.parse(buffer);
     if (bracket) {
@@ -750,7 +957,11 @@ export class Expression<T extends NumberWithUnit<Unit>> extends Token {
 
       tokens.push(closeBracket);
     } else {
-      const n = numParser(buffer);
+      const n =
+        numParser(buffer) ??
+        FormulaFunctionCall.parseWith(buffer, numParser) ??
+        FormulaReference.parse(buffer) ??
+        FormulaIdentifier.parse(buffer);
       if (!n) {
         return buffer.rollbackAndReturn(null);
       }
@@ -776,18 +987,27 @@ export class Expression<T extends NumberWithUnit<Unit>> extends Token {
   }
 }
 
-export type Computable<U extends Unit> = NumberWithUnit<U> | Computation<U>;
+export type Computable<U extends Unit> = NumberWithUnit<U> | Computation<U> | FormulaOperand;
+
+function computeComputable<U extends Unit>(token: Computable<U>, inherit: U, context?: FormulaContext<U>): number {
+  if (token instanceof NumberWithUnit) return token.toQuantity(inherit).to(inherit);
+  else return token.compute(inherit, context);
+}
 
 export class Computation<U extends Unit> extends Token {
   constructor(public left: Computable<U>, public operator: Operator, public right: Computable<U>) {
     super();
   }
 
-  public compute(inherit: U): number {
-    const left =
-      this.left instanceof Computation ? this.left.compute(inherit) : this.left.toQuantity(inherit).to(inherit);
-    const right =
-      this.right instanceof Computation ? this.right.compute(inherit) : this.right.toQuantity(inherit).to(inherit);
+  /**
+   * @param inherit The unit of the computation, numbers without a unit are in this unit
+   * @param context The context to resolve the variables and references
+   * @returns The result in the unit of the computation
+   * @throws Error if a variable or reference can not be resolved
+   */
+  public compute(inherit: U, context?: FormulaContext<U>): number {
+    const left = computeComputable(this.left, inherit, context);
+    const right = computeComputable(this.right, inherit, context);
 
     switch (this.operator.value) {
       case "+":
@@ -815,6 +1035,21 @@ export class Computation<U extends Unit> extends Token {
     if (!e) return null;
     if (buffer.hasNext()) return null;
 
+    const rtn = Computation.fromExpression(e);
+    if (rtn instanceof Computation) {
+      return rtn;
+    } else {
+      return new Computation(rtn, new Operator("+"), numParser(new CodePointBuffer("0"))!);
+    }
+  }
+
+  /**
+   * ALGO: Shunting yard algorithm, the operators are left associative
+   *
+   * @param e The expression to be converted
+   * @returns The computation tree, or the only operand if there is no operator
+   */
+  public static fromExpression<U extends Unit>(e: Expression<NumberWithUnit<U>>): Computable<U> {
     const output: Computable<U>[] = [];
     const stack: (OpenBracket | Operator)[] = [];
 
@@ -833,10 +1068,8 @@ export class Computation<U extends Unit> extends Token {
 
       return new Computation(left, op, right);
     }
-    function handleToken(token: OpenBracket | CloseBracket | NumberWithUnit<U> | Operator) {
-      if (token instanceof NumberWithUnit) {
-        out(token);
-      } else if (token instanceof Operator) {
+    function handleToken(token: OpenBracket | CloseBracket | Computable<U> | Operator) {
+      if (token instanceof Operator) {
         const o1 = token;
         let o2 = peek();
 
@@ -856,6 +1089,8 @@ export class Computation<U extends Unit> extends Token {
         }
         // ALGO: if o is undefined, then there was no open bracket, but it will never happen
         stack.pop();
+      } else {
+        out(token);
       }
     }
 
@@ -866,11 +1101,6 @@ export class Computation<U extends Unit> extends Token {
     }
 
     // ALGO: output should have only one element
-    const rtn = output[0];
-    if (rtn instanceof Computation) {
-      return rtn;
-    } else {
-      return new Computation(rtn, new Operator("+"), numParser(new CodePointBuffer("0"))!);
-    }
+    return output[0];
   }
 }
@@ -0,0 +1,63 @@
+// The webpack config of the headless converter, it bundles src/cli/convert.ts into a single script for Node.js.
+// Usage: npm run convert -- <input> [-o <output>] [-f <format>] [-r <routine>]
+
+const path = require("path");
+const webpack = require("webpack");
+
+// babel-preset-react-app requires the environment to be set
+process.env.NODE_ENV ??= "production";
+process.env.BABEL_ENV ??= process.env.NODE_ENV;
+
+module.exports = {
+  mode: "none",
+  target: "node",
+  entry: path.resolve(__dirname, "src/cli/convert.ts"),
+  output: {
+    path: path.resolve(__dirname, "build-cli"),
+    filename: "convert.js",
+    clean: true
+  },
+  devtool: false,
+  // jsdom is loaded from node_modules, it can not be bundled
+  externals: { jsdom: "commonjs jsdom" },
+  resolve: {
+    extensions: [".ts", ".tsx", ".js", ".jsx", ".json"],
+    // The same aliases as tsconfig.paths.json
+    alias: {
+      "@src": path.resolve(__dirname, "src"),
+      "@app": path.resolve(__dirname, "src/app"),
+      "@core": path.resolve(__dirname, "src/core"),
+      "@format": path.resolve(__dirname, "src/format"),
+      "@token": path.resolve(__dirname, "src/token"),
+      // The Node.js build of Konva requires the native canvas package, the converter never draws anything
+      konva: path.resolve(__dirname, "node_modules/konva/lib/index.js")
+    }
+  },
+  module: {
+    rules: [
+      {
+        test: /\.(ts|tsx|js|jsx)$/,
+        include: path.resolve(__dirname, "src"),
+        loader: require.resolve("babel-loader"),
+        options: {
+          presets: [[require.resolve("babel-preset-react-app"), { runtime: "automatic" }]],
+          babelrc: false,
+          configFile: false,
+          cacheDirectory: false
+        }
+      },
+      {
+        // The styles, documents and images are only used by the user interface
+        test: /\.(css|scss|md|mdx|png|jpe?g|gif|svg|webp)$/,
+        type: "asset/resource",
+        generator: { emit: false }
+      }
+    ]
+  },
+  plugins: [
+    new webpack.BannerPlugin({ banner: "#!/usr/bin/env node", raw: true }),
+    new webpack.DefinePlugin({ "process.env.NODE_ENV": JSON.stringify(process.env.NODE_ENV) })
+  ],
+  performance: { hints: false },
+  stats: "errors-warnings"
+};